@@ -29,6 +29,8 @@ const categories = [
   { id: "export", name: "Export" },
   { id: "url", name: "URL" },
   { id: "data", name: "Data" },
+  { id: "table", name: "Table" },
+  { id: "workflow", name: "Workflow" },
 ];
 
 export const FunctionSelector = ({
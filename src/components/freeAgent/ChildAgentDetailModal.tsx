@@ -1,4 +1,5 @@
 // Child Agent Detail Modal - View individual child agent execution details
+// Nested children can be browsed from here: up through the breadcrumb, down through Sub-agents
 import React, { useState } from "react";
 import {
   Dialog,
@@ -10,28 +11,36 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ChildSession, ToolResultAttribute } from "@/types/freeAgent";
-import { GitBranch, Clock, CheckCircle, XCircle, Loader2, FileText, Wrench, MessageSquare, Database, FileOutput, Code, Copy, Eye, Image, Volume2 } from "lucide-react";
+import { ChildSession, FreeAgentStatus, ToolResultAttribute } from "@/types/freeAgent";
+import { GitBranch, Clock, CheckCircle, XCircle, Loader2, FileText, Wrench, MessageSquare, Database, FileOutput, Code, Copy, Eye, Image, Volume2, ChevronRight, Pause } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { RawViewer } from "./RawViewer";
 import { toast } from "sonner";
 import { isBinaryTool, looksLikeBinaryContent, detectBinaryContent } from "@/lib/binaryToolUtils";
 import { AttributeViewerModal } from "./AttributeViewerModal";
+import { formatUsage } from "@/lib/llmPricing";
+import { countAgents, getChildPath, getSubChildren } from "@/lib/agentTree";
 
 interface ChildAgentDetailModalProps {
   isOpen: boolean;
   onClose: () => void;
   child: ChildSession | null;
+  // Children above this one in the spawn tree, from the top down
+  ancestors?: ChildSession[];
+  // Show another child of the tree, by path
+  onNavigate?: (childPath: string) => void;
 }
 
-export function ChildAgentDetailModal({ isOpen, onClose, child }: ChildAgentDetailModalProps) {
+export function ChildAgentDetailModal({ isOpen, onClose, child, ancestors = [], onNavigate }: ChildAgentDetailModalProps) {
   const [viewingAttribute, setViewingAttribute] = useState<{ name: string; attr: ToolResultAttribute } | null>(null);
 
   if (!child) return null;
 
-  const getStatusBadge = () => {
-    switch (child.status) {
+  const subChildren = getSubChildren(child);
+
+  const getStatusBadge = (status: FreeAgentStatus = child.status) => {
+    switch (status) {
       case "running":
         return <Badge className="bg-amber-500"><Loader2 className="w-3 h-3 mr-1 animate-spin" />Running</Badge>;
       case "completed":
@@ -40,6 +49,8 @@ export function ChildAgentDetailModal({ isOpen, onClose, child }: ChildAgentDeta
         return <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Error</Badge>;
       case "paused":
         return <Badge className="bg-orange-500">Paused</Badge>;
+      case "waiting":
+        return <Badge className="bg-orange-500"><Pause className="w-3 h-3 mr-1" />Waiting for sub-agents</Badge>;
       default:
         return <Badge variant="secondary">Idle</Badge>;
     }
@@ -110,6 +121,25 @@ export function ChildAgentDetailModal({ isOpen, onClose, child }: ChildAgentDeta
       <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
         <DialogContent className="max-w-4xl w-[calc(100%-50px)] h-[calc(100vh-100px)] flex flex-col p-0">
           <DialogHeader className="px-6 pt-6 pb-4 border-b">
+            {ancestors.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground mb-1">
+                <span>Orchestrator</span>
+                {ancestors.map((ancestor) => (
+                  <React.Fragment key={ancestor.id}>
+                    <ChevronRight className="w-3 h-3" />
+                    <button
+                      type="button"
+                      className="hover:text-foreground hover:underline"
+                      onClick={() => onNavigate?.(getChildPath(ancestor))}
+                    >
+                      {ancestor.name}
+                    </button>
+                  </React.Fragment>
+                ))}
+                <ChevronRight className="w-3 h-3" />
+                <span className="text-foreground">{child.name}</span>
+              </div>
+            )}
             <div className="flex items-center gap-3">
               <GitBranch className="w-5 h-5 text-amber-500" />
               <DialogTitle className="text-lg">{child.name}</DialogTitle>
@@ -137,10 +167,12 @@ export function ChildAgentDetailModal({ isOpen, onClose, child }: ChildAgentDeta
                 <span>Ended: {formatTimestamp(child.endTime)}</span>
               )}
               <span>Iterations: {child.currentIteration}/{child.maxIterations}</span>
+              {child.usage && <span>Tokens: {formatUsage(child.usage)}</span>}
+              {child.budgetExceeded && <span className="text-orange-500">{child.error}</span>}
             </div>
           </DialogHeader>
 
-          <Tabs defaultValue="task" className="flex-1 flex flex-col overflow-hidden">
+          <Tabs key={getChildPath(child)} defaultValue="task" className="flex-1 flex flex-col overflow-hidden">
             <div className="mx-6 mt-4 overflow-x-auto">
               <TabsList className="justify-start inline-flex min-w-max gap-1">
                 <TabsTrigger value="task" className="gap-1.5">
@@ -195,6 +227,63 @@ export function ChildAgentDetailModal({ isOpen, onClose, child }: ChildAgentDeta
                       </div>
                     )}
 
+                    {child.result && (
+                      <div>
+                        <h3 className="font-semibold mb-2 flex items-center gap-2">
+                          Result Handed Back
+                          {!child.result.reported && <Badge variant="outline">No final report - derived</Badge>}
+                        </h3>
+                        <div className="p-4 bg-muted rounded-lg overflow-hidden space-y-3 text-sm">
+                          <p className="whitespace-pre-wrap break-words" style={{ overflowWrap: 'anywhere' }}>{child.result.summary}</p>
+                          {child.result.keyFindings.length > 0 && (
+                            <ul className="list-disc pl-5 space-y-1">
+                              {child.result.keyFindings.map((finding, idx) => (
+                                <li key={idx} className="break-words">{finding}</li>
+                              ))}
+                            </ul>
+                          )}
+                          {child.result.attributes.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {child.result.attributes.map((attr) => (
+                                <Badge key={attr.name} variant="secondary" className="font-mono text-xs">{attr.name}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {subChildren.length > 0 && (
+                      <div>
+                        <h3 className="font-semibold mb-2">
+                          Sub-agents ({subChildren.length}{countAgents(subChildren) > subChildren.length ? `, ${countAgents(subChildren)} in total` : ""})
+                        </h3>
+                        <div className="space-y-2">
+                          {subChildren.map((sub) => (
+                            <button
+                              key={sub.id}
+                              type="button"
+                              className="w-full text-left p-3 bg-muted rounded hover:bg-muted/70 transition-colors text-sm overflow-hidden"
+                              onClick={() => onNavigate?.(getChildPath(sub))}
+                            >
+                              <div className="flex items-center gap-2">
+                                <GitBranch className="w-4 h-4 text-amber-500 shrink-0" />
+                                <span className="font-medium">{sub.name}</span>
+                                {getStatusBadge(sub.status)}
+                                <span className="ml-auto text-xs text-muted-foreground">
+                                  {sub.currentIteration}/{sub.maxIterations}
+                                  {getSubChildren(sub).length > 0 && ` · ${countAgents(getSubChildren(sub))} below`}
+                                </span>
+                              </div>
+                              <p className="mt-1 text-muted-foreground line-clamp-2 break-words" style={{ overflowWrap: 'anywhere' }}>
+                                {sub.result?.summary || sub.task}
+                              </p>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {child.promptModifications.length > 0 && (
                       <div>
                         <h3 className="font-semibold mb-2">Prompt Modifications</h3>
@@ -1,8 +1,9 @@
 // Child Agent Node - Round visualization for spawned child agents (matches FreeAgentNode style)
+// Children that spawned their own show a toggle that folds their subtree on the canvas
 import React from "react";
 import { Handle, Position, NodeProps } from "reactflow";
 import { cn } from "@/lib/utils";
-import { GitBranch, Loader2, CheckCircle, XCircle, Pause, Bot } from "lucide-react";
+import { GitBranch, Loader2, CheckCircle, XCircle, Pause, Bot, ChevronDown, ChevronRight } from "lucide-react";
 import type { FreeAgentNodeData } from "@/types/freeAgent";
 
 export function ChildAgentNode({ data }: NodeProps<FreeAgentNodeData>) {
@@ -83,6 +84,22 @@ export function ChildAgentNode({ data }: NodeProps<FreeAgentNodeData>) {
         className="!w-2.5 !h-2.5 !bg-amber-500 !border-2 !border-background"
       />
 
+      {/* Subtree toggle - shows how many agents this child spawned */}
+      {data.onToggleCollapse && (
+        <button
+          type="button"
+          className="nodrag absolute -bottom-2 -right-2 flex items-center gap-0.5 rounded-full border border-amber-500/60 bg-background px-1.5 py-0.5 text-[9px] font-medium text-amber-600 hover:bg-amber-500/10"
+          title={data.collapsed ? "Show sub-agents" : "Hide sub-agents"}
+          onClick={(e) => {
+            e.stopPropagation();
+            data.onToggleCollapse?.();
+          }}
+        >
+          {data.collapsed ? <ChevronRight className="w-2.5 h-2.5" /> : <ChevronDown className="w-2.5 h-2.5" />}
+          {data.subAgentCount}
+        </button>
+      )}
+
       {/* Animated ring for thinking state */}
       {data.status === "thinking" && (
         <div className="absolute inset-0 rounded-full border-2 border-amber-500/50 animate-ping" />
@@ -26,6 +26,7 @@ import {
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import type { SessionFile } from "@/types/freeAgent";
+import { getAgentEdgeFunction, getModel, getModelEndpointConfig, getModelProvider } from "@/lib/modelRegistry";
 
 const STORAGE_KEY = "freeagent-enhance-prompt-template";
 
@@ -152,13 +153,6 @@ export function EnhancePromptModal({
       .join("\n");
   };
 
-  // Get the appropriate edge function based on model
-  const getEdgeFunction = (): string => {
-    if (model.startsWith("claude")) return "run-agent-anthropic";
-    if (model.startsWith("grok")) return "run-agent-xai";
-    return "run-agent"; // Gemini default
-  };
-
   // Enhancement system prompt - uses stored custom prompt
   const getEnhancementSystemPrompt = (toolsList: string, filesList: string, previousPlan?: string, userFeedback?: string): string => {
     const basePrompt = getStoredEnhancementPrompt();
@@ -218,7 +212,7 @@ Please create an improved plan that addresses the user's feedback.`;
         ? `Original request: ${originalPrompt}\n\nPlease revise the plan based on my feedback.`
         : originalPrompt;
 
-      const edgeFunction = getEdgeFunction();
+      const edgeFunction = getAgentEdgeFunction(model);
       const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 
       const response = await fetch(`${supabaseUrl}/functions/v1/${edgeFunction}`, {
@@ -230,6 +224,7 @@ Please create an improved plan that addresses the user's feedback.`;
           systemPrompt,
           userPrompt,
           model,
+          modelEndpoint: getModelEndpointConfig(model),
           maxOutputTokens: 8192,
           tools: [],
         }),
@@ -337,24 +332,11 @@ Please create an improved plan that addresses the user's feedback.`;
   };
 
   // Get model display info
-  const getModelInfo = () => {
-    const modelMap: Record<string, { label: string; provider: string; color: string }> = {
-      "gemini-2.5-flash": { label: "Gemini 2.5 Flash", provider: "gemini", color: "text-blue-500" },
-      "gemini-2.5-flash-lite": { label: "Gemini 2.5 Flash Lite", provider: "gemini", color: "text-blue-500" },
-      "gemini-3-pro-preview": { label: "Gemini 3 Pro", provider: "gemini", color: "text-blue-500" },
-      "gemini-3-flash-preview": { label: "Gemini 3 Flash", provider: "gemini", color: "text-blue-500" },
-      "claude-sonnet-4-5": { label: "Claude Sonnet 4.5", provider: "claude", color: "text-orange-500" },
-      "claude-haiku-4-5": { label: "Claude Haiku 4.5", provider: "claude", color: "text-orange-500" },
-      "claude-opus-4-5": { label: "Claude Opus 4.5", provider: "claude", color: "text-orange-500" },
-      "grok-4-1-fast-reasoning": { label: "Grok 4.1 Reasoning", provider: "grok", color: "text-purple-500" },
-      "grok-4-1-fast-non-reasoning": { label: "Grok 4.1", provider: "grok", color: "text-purple-500" },
-      "grok-code-fast-1": { label: "Grok Code", provider: "grok", color: "text-purple-500" },
-    };
-    return modelMap[model] || { label: model, provider: "unknown", color: "text-muted-foreground" };
+  const modelInfo = {
+    label: getModel(model).label,
+    color: getModelProvider(model).color,
   };
 
-  const modelInfo = getModelInfo();
-
   return (
     <Dialog open={open} onOpenChange={handleCancel}>
       <DialogContent
@@ -0,0 +1,119 @@
+// Extend Budget Modal - Raise the limits of a session paused on its budget
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Gauge, Play } from "lucide-react";
+import type { FreeAgentSession, SessionBudget } from "@/types/freeAgent";
+import { describeBudgetExceeded, suggestExtendedBudget } from "@/lib/sessionBudget";
+
+interface ExtendBudgetModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  session: FreeAgentSession;
+  onExtend: (budget: SessionBudget) => void;
+}
+
+// Empty input means "no limit"
+const parseLimit = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+};
+
+export function ExtendBudgetModal({ open, onOpenChange, session, onExtend }: ExtendBudgetModalProps) {
+  const [maxTokens, setMaxTokens] = useState("");
+  const [maxCost, setMaxCost] = useState("");
+  const [maxMinutes, setMaxMinutes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    const suggested = session.budgetExceeded
+      ? suggestExtendedBudget(session.budget, session.budgetExceeded)
+      : session.budget || {};
+    setMaxTokens(suggested.maxTokens ? String(suggested.maxTokens) : "");
+    setMaxCost(suggested.maxCost ? String(suggested.maxCost) : "");
+    setMaxMinutes(suggested.maxMinutes ? String(suggested.maxMinutes) : "");
+  }, [open, session.budget, session.budgetExceeded]);
+
+  const handleExtend = () => {
+    onExtend({
+      maxTokens: parseLimit(maxTokens),
+      maxCost: parseLimit(maxCost),
+      maxMinutes: parseLimit(maxMinutes),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-primary" />
+            Extend Budget
+          </DialogTitle>
+          <DialogDescription>
+            {session.budgetExceeded
+              ? `${describeBudgetExceeded(session.budgetExceeded)}. Raise the limit to let the agent continue.`
+              : "Adjust the session limits. Leave a field empty for no limit."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-3 py-2">
+          <div className="space-y-1">
+            <Label htmlFor="extend-max-tokens" className="text-xs">Max tokens</Label>
+            <Input
+              id="extend-max-tokens"
+              type="number"
+              min={0}
+              value={maxTokens}
+              onChange={(e) => setMaxTokens(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="extend-max-cost" className="text-xs">Max cost ($)</Label>
+            <Input
+              id="extend-max-cost"
+              type="number"
+              min={0}
+              step="0.01"
+              value={maxCost}
+              onChange={(e) => setMaxCost(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="extend-max-minutes" className="text-xs">Max minutes</Label>
+            <Input
+              id="extend-max-minutes"
+              type="number"
+              min={0}
+              value={maxMinutes}
+              onChange={(e) => setMaxMinutes(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExtend}>
+            <Play className="w-4 h-4 mr-2" />
+            Extend &amp; Resume
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
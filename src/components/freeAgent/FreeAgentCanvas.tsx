@@ -1,5 +1,5 @@
 // Free Agent Canvas - Clustered tree layout for tools with instance support
-import React, { useMemo, useCallback, useRef } from "react";
+import React, { useMemo, useCallback, useRef, useState } from "react";
 import ReactFlow, {
   Node,
   Edge,
@@ -26,12 +26,16 @@ import { AttributeNode } from "./AttributeNode";
 import { ChildAgentNode } from "./ChildAgentNode";
 import { CategoryLabelNode } from "./CategoryLabelNode";
 import type {
+  ChildSession,
   FreeAgentSession,
   ToolsManifest,
   FreeAgentNodeData,
   SessionFile,
+  StreamingIteration,
 } from "@/types/freeAgent";
 import type { ToolInstance } from "@/types/toolInstance";
+import { parseStreamingPreview } from "@/lib/freeAgentStream";
+import { countAgents, getChildPath, getSubChildren } from "@/lib/agentTree";
 
 interface FreeAgentCanvasProps {
   session: FreeAgentSession | null;
@@ -39,13 +43,14 @@ interface FreeAgentCanvasProps {
   activeToolIds: Set<string>;
   toolInstances?: ToolInstance[];
   pendingFiles?: SessionFile[];
+  streamingIteration?: StreamingIteration | null;
   onToolClick?: (toolId: string) => void;
   onArtifactClick?: (artifactId: string) => void;
   onFileClick?: (fileId: string) => void;
   onScratchpadChange?: (content: string) => void;
   onAttributeClick?: (attributeName: string) => void;
   onRetry?: () => void;
-  onChildClick?: (childName: string) => void;
+  onChildClick?: (childPath: string) => void;
 }
 
 const nodeTypes = {
@@ -110,11 +115,12 @@ const LAYOUT = {
   attributeColumnGap: 220,
   attributesPerColumn: 10,
   
-  // Child agents
+  // Child agents - levels of the spawn tree stack downwards
   childOffsetY: 200,
   childSpacing: 180,
   childRowGap: 120,
   childrenPerRow: 3,
+  childLevelGap: 170,
 };
 
 export function FreeAgentCanvas({
@@ -123,6 +129,7 @@ export function FreeAgentCanvas({
   activeToolIds,
   toolInstances = [],
   pendingFiles = [],
+  streamingIteration,
   onToolClick,
   onArtifactClick,
   onFileClick,
@@ -137,6 +144,17 @@ export function FreeAgentCanvas({
   const userPositionsRef = useRef<Map<string, XYPosition>>(new Map());
   const userSizesRef = useRef<Map<string, { width: number; height: number }>>(new Map());
   const existingNodeIdsRef = useRef<Set<string>>(new Set());
+  // Paths of child agents whose subtrees are folded away
+  const [collapsedChildren, setCollapsedChildren] = useState<Set<string>>(new Set());
+
+  const toggleChildCollapsed = useCallback((path: string) => {
+    setCollapsedChildren((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  }, []);
 
   const handleNodesChange = useCallback((changes: NodeChange[]) => {
     changes.forEach(change => {
@@ -275,6 +293,12 @@ export function FreeAgentCanvas({
     return positions;
   }, []);
 
+  // Reasoning and tool calls of the in-flight iteration, read from its partial output
+  const streamingPreview = useMemo(
+    () => (streamingIteration ? parseStreamingPreview(streamingIteration.text) : null),
+    [streamingIteration]
+  );
+
   const generateLayout = useCallback(() => {
     if (!toolsManifest) return { nodes: [], edges: [] };
 
@@ -473,59 +497,96 @@ export function FreeAgentCanvas({
         iteration: session?.currentIteration || 0,
         reasoning: session?.messages[session.messages.length - 1]?.content,
         retryCount: session?.retryCount,
+        streamingReasoning: streamingPreview?.reasoning,
+        streamingToolCalls: streamingPreview?.toolCalls,
         onRetry: (agentStatus === "error" || agentStatus === "paused") ? onRetry : undefined,
       },
     });
 
-    // === CHILD AGENTS: Below agent (3 per row with wrapping) ===
+    // === CHILD AGENTS: Spawn tree below agent ===
+    // A level of leaf children wraps 3 per row; levels with expanded subtrees lay
+    // each subtree out side by side, centered over its own children
     if (session?.orchestration?.role === 'orchestrator' && session.orchestration.children) {
-      const children = session.orchestration.children;
-      const childStartY = LAYOUT.agentY + LAYOUT.childOffsetY;
       const childSpacing = LAYOUT.childSpacing;
       const childrenPerRow = LAYOUT.childrenPerRow;
-      const rowGap = LAYOUT.childRowGap;
-      
-      children.forEach((child, index) => {
-        const row = Math.floor(index / childrenPerRow);
-        const col = index % childrenPerRow;
-        const rowChildCount = Math.min(childrenPerRow, children.length - row * childrenPerRow);
-        const rowWidth = (rowChildCount - 1) * childSpacing;
-        const rowStartX = LAYOUT.agentX - rowWidth / 2 - 60;
-        
-        const childX = rowStartX + col * childSpacing;
-        const childY = childStartY + row * rowGap;
-        const childNodeId = `child-${child.name}`;
-        newNodeIds.add(childNodeId);
-        
-        const childStatus = child.status === 'running' ? 'thinking' : 
-                           child.status === 'completed' ? 'success' : 
-                           child.status === 'error' ? 'error' : 'idle';
-        
-        newNodes.push({
-          id: childNodeId,
-          type: 'childAgent',
-          position: getPosition(childNodeId, { x: childX, y: childY }),
-          data: {
+
+      const isExpanded = (child: ChildSession) =>
+        getSubChildren(child).length > 0 && !collapsedChildren.has(getChildPath(child));
+
+      // Width of a level in child slots
+      const levelWidth = (level: ChildSession[]): number =>
+        level.some(isExpanded)
+          ? level.reduce((width, child) => width + (isExpanded(child) ? levelWidth(getSubChildren(child)) : 1), 0)
+          : Math.min(level.length, childrenPerRow);
+
+      const placeLevel = (level: ChildSession[], parentId: string, left: number, y: number) => {
+        const wraps = !level.some(isExpanded);
+        let slot = 0;
+
+        level.forEach((child, index) => {
+          const path = getChildPath(child);
+          const subChildren = getSubChildren(child);
+          const width = isExpanded(child) ? levelWidth(subChildren) : 1;
+
+          let childX: number;
+          let childY = y;
+          if (wraps) {
+            const row = Math.floor(index / childrenPerRow);
+            const col = index % childrenPerRow;
+            const rowChildCount = Math.min(childrenPerRow, level.length - row * childrenPerRow);
+            childX = left + ((Math.min(level.length, childrenPerRow) - rowChildCount) / 2 + col) * childSpacing;
+            childY = y + row * LAYOUT.childRowGap;
+          } else {
+            childX = left + (slot + (width - 1) / 2) * childSpacing;
+          }
+
+          const childNodeId = `child-${path}`;
+          newNodeIds.add(childNodeId);
+
+          const childStatus = child.status === 'running' ? 'thinking' :
+                             child.status === 'completed' ? 'success' :
+                             child.status === 'error' ? 'error' :
+                             child.status === 'waiting' ? 'waiting' : 'idle';
+
+          newNodes.push({
+            id: childNodeId,
             type: 'childAgent',
-            label: child.name,
-            childName: child.name,
-            status: childStatus,
-            task: child.task,
-            currentIteration: child.currentIteration,
-            maxIterations: child.maxIterations,
-          },
-        });
-        
-        newEdges.push({
-          id: `edge-orchestrator-${child.name}`,
-          source: 'agent',
-          target: childNodeId,
-          sourceHandle: 'bottom',
-          targetHandle: 'top',
-          animated: child.status === 'running',
-          style: { stroke: '#f59e0b', strokeWidth: 2 },
+            position: getPosition(childNodeId, { x: childX, y: childY }),
+            data: {
+              type: 'childAgent',
+              label: child.name,
+              childName: child.name,
+              childPath: path,
+              status: childStatus,
+              task: child.task,
+              currentIteration: child.currentIteration,
+              maxIterations: child.maxIterations,
+              subAgentCount: subChildren.length > 0 ? countAgents(subChildren) : undefined,
+              collapsed: collapsedChildren.has(path),
+              onToggleCollapse: subChildren.length > 0 ? () => toggleChildCollapsed(path) : undefined,
+            },
+          });
+
+          newEdges.push({
+            id: `edge-child-${path}`,
+            source: parentId,
+            target: childNodeId,
+            sourceHandle: 'bottom',
+            targetHandle: 'top',
+            animated: child.status === 'running',
+            style: { stroke: '#f59e0b', strokeWidth: parentId === 'agent' ? 2 : 1.5 },
+          });
+
+          if (isExpanded(child)) {
+            placeLevel(subChildren, childNodeId, left + slot * childSpacing, y + LAYOUT.childLevelGap);
+          }
+          slot += width;
         });
-      });
+      };
+
+      const children = session.orchestration.children;
+      const topWidth = levelWidth(children);
+      placeLevel(children, 'agent', LAYOUT.agentX - 60 - ((topWidth - 1) * childSpacing) / 2, LAYOUT.agentY + LAYOUT.childOffsetY);
     }
 
     // === RIGHT SIDE: Scratchpad ===
@@ -643,7 +704,7 @@ export function FreeAgentCanvas({
     existingNodeIdsRef.current = newNodeIds;
 
     return { nodes: newNodes, edges: newEdges };
-  }, [toolsManifest, toolsByCategory, layoutToolsInClusters, session, activeToolIds, pendingFiles, onScratchpadChange, onRetry]);
+  }, [toolsManifest, toolsByCategory, layoutToolsInClusters, session, activeToolIds, pendingFiles, streamingPreview, onScratchpadChange, onRetry, collapsedChildren, toggleChildCollapsed]);
 
   React.useEffect(() => {
     const { nodes: newNodes, edges: newEdges } = generateLayout();
@@ -662,7 +723,7 @@ export function FreeAgentCanvas({
       } else if (node.type === "attribute" && onAttributeClick) {
         onAttributeClick(node.data.attributeName);
       } else if (node.type === "childAgent" && onChildClick) {
-        onChildClick(node.data.childName);
+        onChildClick(node.data.childPath || node.data.childName);
       }
     },
     [onToolClick, onArtifactClick, onFileClick, onAttributeClick, onChildClick]
@@ -12,9 +12,14 @@ interface FreeAgentNodeData {
   iteration?: number;
   reasoning?: string;
   retryCount?: number;
+  streamingReasoning?: string; // Reasoning of the in-flight iteration, as written so far
+  streamingToolCalls?: string[]; // Tools requested so far in the in-flight iteration
   onRetry?: () => void;
 }
 
+// Tail of the streamed reasoning shown under the node
+const STREAMING_PREVIEW_CHARS = 220;
+
 export function FreeAgentNode({ data }: NodeProps<FreeAgentNodeData>) {
   const getStatusStyles = () => {
     // Check for waiting state (orchestrator waiting for children)
@@ -59,6 +64,8 @@ export function FreeAgentNode({ data }: NodeProps<FreeAgentNodeData>) {
   };
 
   const canRetry = (data.status === "error" || data.status === "paused") && data.onRetry;
+  const streamingToolCalls = data.streamingToolCalls || [];
+  const showStreaming = data.status === "thinking" && (!!data.streamingReasoning || streamingToolCalls.length > 0);
 
   const handleRetryClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -141,6 +148,27 @@ export function FreeAgentNode({ data }: NodeProps<FreeAgentNodeData>) {
         </div>
       )}
 
+      {/* Live output of the iteration being written */}
+      {showStreaming && (
+        <div className="absolute top-full left-1/2 -translate-x-1/2 mt-3 w-[260px] rounded-md border border-yellow-500/40 bg-background/95 p-2 shadow-md text-[10px] leading-snug">
+          {data.streamingReasoning && (
+            <p className="text-muted-foreground italic whitespace-pre-wrap break-words">
+              {data.streamingReasoning.length > STREAMING_PREVIEW_CHARS ? "…" : ""}
+              {data.streamingReasoning.slice(-STREAMING_PREVIEW_CHARS)}
+            </p>
+          )}
+          {streamingToolCalls.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {streamingToolCalls.map((tool, idx) => (
+                <span key={`${tool}-${idx}`} className="px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-600 dark:text-blue-400 font-mono">
+                  {tool}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Animated ring for thinking state */}
       {data.status === "thinking" && (
         <div className="absolute inset-0 rounded-full border-2 border-yellow-500/50 animate-ping" />
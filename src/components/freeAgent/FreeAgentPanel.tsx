@@ -1,5 +1,5 @@
 // Free Agent Control Panel - Start, stop, and monitor agent
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
@@ -44,11 +44,15 @@ import {
   GitBranch,
   Download,
   Package,
+  History,
+  Coins,
+  Gauge,
+  Server,
 } from "lucide-react";
 import { toast } from "sonner";
 import { exportSessionToZip } from "@/utils/sessionExporter";
 import { Switch } from "@/components/ui/switch";
-import type { FreeAgentSession, SessionFile, ToolsManifest, AdvancedFeatures } from "@/types/freeAgent";
+import type { FreeAgentSession, SessionFile, ToolsManifest, AdvancedFeatures, SessionBudget, ExecutionMode } from "@/types/freeAgent";
 import { InterjectModal } from "./InterjectModal";
 import { EnhancePromptModal } from "./EnhancePromptModal";
 import { EnhancePromptSettingsModal } from "./EnhancePromptSettingsModal";
@@ -56,12 +60,21 @@ import { ReflectModal } from "./ReflectModal";
 import { SecretsManagerModal } from "./SecretsManagerModal";
 import { SecretsMiniPanel } from "./SecretsMiniPanel";
 import { ToolInstancesTab } from "./ToolInstancesTab";
+import { ExtendBudgetModal } from "./ExtendBudgetModal";
 import { safeStringify } from "@/lib/safeRender";
 import type { SecretsManager } from "@/hooks/useSecretsManager";
 import type { ToolInstancesManager } from "@/hooks/useToolInstances";
 import { extractTextFromFile } from "@/utils/fileTextExtraction";
 import { parseExcelFile, type ExcelData } from "@/utils/parseExcel";
 import { ExcelSelector } from "@/components/ExcelSelector";
+import { ModelPricingModal } from "@/components/output/ModelPricingModal";
+import { useModelPrices } from "@/hooks/useModelPrices";
+import { useModelRegistry } from "@/hooks/useModelRegistry";
+import { PROVIDERS } from "@/lib/modelRegistry";
+import type { LLMProvider } from "@/types/models";
+import { CustomModelsModal } from "@/components/sidebar/CustomModelsModal";
+import { summarizeSessionUsage, formatCost, formatTokenCount, formatUsage, getTotalTokens } from "@/lib/llmPricing";
+import { DEFAULT_MAX_SPAWN_DEPTH, DEFAULT_MAX_TOTAL_AGENTS, MAX_SPAWN_DEPTH_LIMIT } from "@/lib/agentTree";
 
 // Text-based file extensions that can be read as plain text
 const TEXT_EXTENSIONS = [
@@ -80,28 +93,24 @@ const getFileType = (filename: string): 'excel' | 'document' | 'text' | 'binary'
   return 'binary';
 };
 
-// Available models - Claude first, then Google, then Grok
-const MODEL_OPTIONS = [
-  { value: "claude-sonnet-4-5", label: "Claude Sonnet 4.5", provider: "claude" },
-  { value: "claude-haiku-4-5", label: "Claude Haiku 4.5", provider: "claude" },
-  { value: "claude-opus-4-5", label: "Claude Opus 4.5", provider: "claude" },
-  { value: "gemini-3-flash-preview", label: "Gemini 3 Flash Preview", provider: "gemini" },
-  { value: "gemini-3-pro-preview", label: "Gemini 3 Pro Preview", provider: "gemini" },
-  { value: "gemini-2.5-flash", label: "Gemini 2.5 Flash", provider: "gemini" },
-  { value: "gemini-2.5-flash-lite", label: "Gemini 2.5 Flash Lite", provider: "gemini" },
-  { value: "grok-4-1-fast-reasoning", label: "Grok 4.1 Fast Reasoning", provider: "grok" },
-  { value: "grok-4-1-fast-non-reasoning", label: "Grok 4.1 Fast Non-Reasoning", provider: "grok" },
-  { value: "grok-code-fast-1", label: "Grok Code Fast 1", provider: "grok" },
+// Model picker order - Claude first, then Google, then Grok, then self-hosted models
+const PROVIDER_ORDER: LLMProvider[] = ["claude", "gemini", "grok", "openai_compatible"];
+
+// How each iteration asks the model for actions
+const EXECUTION_MODE_OPTIONS: Array<{ value: ExecutionMode; label: string; description: string }> = [
+  { value: "json", label: "JSON envelope", description: "One structured JSON response per iteration listing all tool calls." },
+  { value: "function_calling", label: "Native function calling", description: "Tools are real provider functions; data tool results return within the iteration." },
 ];
 
 interface FreeAgentPanelProps {
   session: FreeAgentSession | null;
   isRunning: boolean;
-  onStart: (prompt: string, files: SessionFile[], model: string, maxIterations: number, existingSession?: FreeAgentSession | null, advancedFeatures?: AdvancedFeatures) => void;
+  onStart: (prompt: string, files: SessionFile[], model: string, maxIterations: number, existingSession?: FreeAgentSession | null, advancedFeatures?: AdvancedFeatures, budget?: SessionBudget, executionMode?: ExecutionMode) => void;
   onStop: () => void;
   onReset: () => void;
   onContinue: () => void;
   onRetry: () => void;
+  onExtendBudget?: (budget: SessionBudget) => void;
   onInterject: (message: string) => void;
   cacheSize?: number;
   secretsManager: SecretsManager;
@@ -109,6 +118,11 @@ interface FreeAgentPanelProps {
   toolInstancesManager: ToolInstancesManager;
   pendingFiles: SessionFile[];
   onPendingFilesChange: (files: SessionFile[]) => void;
+  onOpenHistory?: () => void;
+  // Viewing an imported session - hide run controls
+  readOnly?: boolean;
+  onExitReadOnly?: () => void;
+  onContinueReadOnly?: () => void;
 }
 
 export function FreeAgentPanel({
@@ -119,6 +133,7 @@ export function FreeAgentPanel({
   onReset,
   onContinue,
   onRetry,
+  onExtendBudget,
   onInterject,
   cacheSize = 0,
   secretsManager,
@@ -126,6 +141,10 @@ export function FreeAgentPanel({
   toolInstancesManager,
   pendingFiles,
   onPendingFilesChange,
+  onOpenHistory,
+  readOnly = false,
+  onExitReadOnly,
+  onContinueReadOnly,
 }: FreeAgentPanelProps) {
   const [prompt, setPrompt] = useState("");
   
@@ -147,6 +166,13 @@ export function FreeAgentPanel({
   const [enhanceSettingsModalOpen, setEnhanceSettingsModalOpen] = useState(false);
   const [reflectModalOpen, setReflectModalOpen] = useState(false);
   const [secretsModalOpen, setSecretsModalOpen] = useState(false);
+  const [pricingModalOpen, setPricingModalOpen] = useState(false);
+  const [customModelsOpen, setCustomModelsOpen] = useState(false);
+  const { models } = useModelRegistry();
+  const modelOptions = useMemo(
+    () => [...models].sort((a, b) => PROVIDER_ORDER.indexOf(a.provider) - PROVIDER_ORDER.indexOf(b.provider)),
+    [models]
+  );
   const [controlTab, setControlTab] = useState<'task' | 'secrets' | 'instances' | 'advanced'>('task');
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -160,6 +186,21 @@ export function FreeAgentPanel({
   const [spawnEnabled, setSpawnEnabled] = useState(false);
   const [maxChildren, setMaxChildren] = useState(5);
   const [childMaxIterations, setChildMaxIterations] = useState(20);
+  const [maxSpawnDepth, setMaxSpawnDepth] = useState(DEFAULT_MAX_SPAWN_DEPTH);
+  const [maxTotalAgents, setMaxTotalAgents] = useState(DEFAULT_MAX_TOTAL_AGENTS);
+  
+  // Budget limits - empty means no limit
+  const [budgetTokens, setBudgetTokens] = useState("");
+  const [budgetCost, setBudgetCost] = useState("");
+  const [budgetMinutes, setBudgetMinutes] = useState("");
+  const [extendBudgetOpen, setExtendBudgetOpen] = useState(false);
+
+  // Response mode - JSON envelope or native function calling, chosen per session
+  const [executionMode, setExecutionMode] = useState<ExecutionMode>(() => session?.executionMode || "json");
+  
+  // Token usage and estimated cost, re-priced whenever the price table changes
+  const { prices } = useModelPrices();
+  const usage = useMemo(() => (session ? summarizeSessionUsage(session, prices) : null), [session, prices]);
   
   // Sync model and maxIterations from session when transitioning to idle (Continue)
   React.useEffect(() => {
@@ -199,6 +240,8 @@ export function FreeAgentPanel({
             mimeType: 'text/plain',
             size: extracted.content.length,
             content: extracted.content,
+            // Keep the PDF itself so pdf_rasterize can render scanned pages for OCR
+            sourceData: file.name.toLowerCase().endsWith('.pdf') ? await readFileAsBase64(file) : undefined,
             uploadedAt: new Date().toISOString(),
           });
           toast.success(`Extracted text from ${file.name}`);
@@ -325,6 +368,19 @@ export function FreeAgentPanel({
   };
 
 
+  const buildBudget = (): SessionBudget | undefined => {
+    const parseLimit = (value: string) => {
+      const parsed = parseFloat(value);
+      return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+    };
+    const budget: SessionBudget = {
+      maxTokens: parseLimit(budgetTokens),
+      maxCost: parseLimit(budgetCost),
+      maxMinutes: parseLimit(budgetMinutes),
+    };
+    return budget.maxTokens || budget.maxCost || budget.maxMinutes ? budget : undefined;
+  };
+
   const handleStart = () => {
     if (!prompt.trim()) return;
     // Build advanced features from local state
@@ -333,9 +389,11 @@ export function FreeAgentPanel({
       spawnEnabled,
       maxChildren,
       childMaxIterations,
+      maxSpawnDepth,
+      maxTotalAgents,
     };
     // Pass existing session if in "idle" state (after Continue) to preserve memory
-    onStart(prompt, pendingFiles, selectedModel, maxIterations, session?.status === "idle" ? session : null, advancedFeatures);
+    onStart(prompt, pendingFiles, selectedModel, maxIterations, session?.status === "idle" ? session : null, advancedFeatures, buildBudget(), executionMode);
     // Keep prompt and files so user can re-run
   };
 
@@ -351,7 +409,7 @@ export function FreeAgentPanel({
     setPrompt(enhancedPrompt);
     // Start agent with enhanced prompt after state update
     setTimeout(() => {
-      onStart(enhancedPrompt, pendingFiles, selectedModel, maxIterations, session?.status === "idle" ? session : null);
+      onStart(enhancedPrompt, pendingFiles, selectedModel, maxIterations, session?.status === "idle" ? session : null, undefined, buildBudget(), executionMode);
     }, 0);
   };
 
@@ -404,20 +462,17 @@ export function FreeAgentPanel({
     }
   };
 
-  // Get provider badge color
-  const getProviderColor = (provider: string) => {
-    switch (provider) {
-      case "gemini": return "text-blue-500";
-      case "claude": return "text-orange-500";
-      case "grok": return "text-purple-500";
-      default: return "text-muted-foreground";
-    }
-  };
 
   return (
     <Card className="h-full flex flex-col">
-      <CardHeader className="pb-2 pt-2 px-2">
-        {getStatusBadge()}
+      <CardHeader className="pb-2 pt-2 px-2 flex-row items-center justify-between space-y-0">
+        <div>{getStatusBadge()}</div>
+        {onOpenHistory && (
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={onOpenHistory}>
+            <History className="w-3 h-3" />
+            History
+          </Button>
+        )}
       </CardHeader>
 
       <CardContent className="flex-1 flex flex-col overflow-hidden px-2 pb-2">
@@ -452,7 +507,7 @@ export function FreeAgentPanel({
           <TabsContent value="task" className="flex-1 overflow-y-auto m-0">
             <div className="flex flex-col gap-4 pr-1">
             {/* Show input form when no session OR when session is idle (after Continue) */}
-            {(!session || session.status === "idle") ? (
+            {(!session || session.status === "idle") && !readOnly ? (
               <>
                 {/* Prompt input */}
                 <div className="space-y-2">
@@ -468,19 +523,30 @@ export function FreeAgentPanel({
 
             {/* Model Selection */}
             <div className="space-y-2">
-              <Label>Model</Label>
+              <div className="flex items-center justify-between">
+                <Label>Model</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setCustomModelsOpen(true)}
+                  title="Custom models"
+                >
+                  <Server className="h-3.5 w-3.5" />
+                </Button>
+              </div>
               <Select value={selectedModel} onValueChange={setSelectedModel}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select model" />
                 </SelectTrigger>
                 <SelectContent>
-                  {MODEL_OPTIONS.map((opt) => (
-                    <SelectItem key={opt.value} value={opt.value}>
+                  {modelOptions.map((model) => (
+                    <SelectItem key={model.id} value={model.id}>
                       <div className="flex items-center gap-2">
-                        <span className={`text-xs font-medium uppercase ${getProviderColor(opt.provider)}`}>
-                          {opt.provider}
+                        <span className={`text-xs font-medium uppercase ${PROVIDERS[model.provider].color}`}>
+                          {PROVIDERS[model.provider].label}
                         </span>
-                        <span>{opt.label}</span>
+                        <span>{model.label}</span>
                       </div>
                     </SelectItem>
                   ))}
@@ -628,6 +694,76 @@ export function FreeAgentPanel({
               </div>
             </div>
 
+            {/* Usage - running token totals and estimated cost */}
+            {usage && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <Label>Usage</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs gap-1"
+                    onClick={() => setPricingModalOpen(true)}
+                    title="Edit model prices"
+                  >
+                    <Coins className="w-3 h-3" />
+                    Prices
+                  </Button>
+                </div>
+                <div className="space-y-1 text-sm border rounded-md p-3">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Tokens:</span>
+                    <span className="font-medium">{formatTokenCount(getTotalTokens(usage.total))}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{formatUsage(usage.total)}</div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Estimated cost:</span>
+                    <span className="font-medium">~{formatCost(usage.total.cost)}</span>
+                  </div>
+                  <div className="flex justify-between text-xs">
+                    <span className="text-muted-foreground">Response mode:</span>
+                    <span>{EXECUTION_MODE_OPTIONS.find((opt) => opt.value === (session.executionMode || "json"))?.label}</span>
+                  </div>
+                  {session.budget && (
+                    <div className="text-xs text-muted-foreground">
+                      Budget:{" "}
+                      {[
+                        session.budget.maxTokens &&
+                          `${formatTokenCount(getTotalTokens(usage.total))} / ${formatTokenCount(session.budget.maxTokens)} tokens`,
+                        session.budget.maxCost && `~${formatCost(usage.total.cost)} / ${formatCost(session.budget.maxCost)}`,
+                        session.budget.maxMinutes && `${session.budget.maxMinutes} min limit`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </div>
+                  )}
+                  {usage.total.unpricedModels.length > 0 && (
+                    <div className="text-xs text-amber-600">
+                      No price for {usage.total.unpricedModels.join(", ")}
+                    </div>
+                  )}
+                  {usage.children.length > 0 && (
+                    <div className="mt-2 pt-2 border-t space-y-1 text-xs">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Orchestrator</span>
+                        <span>
+                          {formatTokenCount(getTotalTokens(usage.own))} · ~{formatCost(usage.own.cost)}
+                        </span>
+                      </div>
+                      {usage.children.map(({ name, totals }) => (
+                        <div key={name} className="flex justify-between">
+                          <span className="text-muted-foreground truncate">{name}</span>
+                          <span>
+                            {formatTokenCount(getTotalTokens(totals))} · ~{formatCost(totals.cost)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Memory Stats - shows what's being tracked */}
             <div className="flex-1 overflow-hidden">
               <Label className="mb-2 block">Memory</Label>
@@ -659,7 +795,25 @@ export function FreeAgentPanel({
 
             {/* Control buttons */}
             <div className="flex flex-col gap-2">
-              {isRunning ? (
+              {readOnly ? (
+                <>
+                  <div className="text-xs text-muted-foreground border rounded-md p-2 bg-muted/50">
+                    Viewing an imported session (read-only).
+                  </div>
+                  {onContinueReadOnly && (
+                    <Button onClick={onContinueReadOnly} className="w-full">
+                      <Play className="w-4 h-4 mr-2" />
+                      Continue as New Run
+                    </Button>
+                  )}
+                  {onExitReadOnly && (
+                    <Button variant="outline" onClick={onExitReadOnly} className="w-full">
+                      <X className="w-4 h-4 mr-2" />
+                      Close
+                    </Button>
+                  )}
+                </>
+              ) : isRunning ? (
                 <div className="flex gap-2">
                   <Button variant="destructive" onClick={onStop} className="flex-1">
                     <Square className="w-4 h-4 sm:mr-2" />
@@ -692,8 +846,21 @@ export function FreeAgentPanel({
                     Reset
                   </Button>
                   
+                  {/* Budget exhausted - explain and offer to raise the limit */}
+                  {session.status === "paused" && session.budgetExceeded && onExtendBudget && (
+                    <>
+                      <div className="text-xs border border-amber-500/50 bg-amber-500/5 text-amber-700 dark:text-amber-400 rounded-md p-2">
+                        {session.error}
+                      </div>
+                      <Button onClick={() => setExtendBudgetOpen(true)} className="w-full bg-amber-500 hover:bg-amber-600">
+                        <Gauge className="w-4 h-4 mr-2" />
+                        Extend Budget
+                      </Button>
+                    </>
+                  )}
+                  
                   {/* Retry button */}
-                  {(session.status === "paused" || session.status === "error") && (
+                  {(session.status === "paused" || session.status === "error") && !session.budgetExceeded && (
                     <Button onClick={onRetry} className="w-full bg-orange-500 hover:bg-orange-600">
                       <RefreshCw className="w-4 h-4 mr-2" />
                       Retry
@@ -789,6 +956,71 @@ export function FreeAgentPanel({
                   </p>
                 </div>
 
+                {/* Response mode */}
+                <div className="space-y-2 mb-4">
+                  <Label>Response Mode</Label>
+                  <Select value={executionMode} onValueChange={(value) => setExecutionMode(value as ExecutionMode)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXECUTION_MODE_OPTIONS.map((opt) => (
+                        <SelectItem key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {EXECUTION_MODE_OPTIONS.find((opt) => opt.value === executionMode)?.description}
+                  </p>
+                </div>
+
+                {/* Budget limits */}
+                <div className="space-y-2 mb-4">
+                  <Label>Budget</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <Label className="text-xs text-muted-foreground">Max tokens</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={budgetTokens}
+                        onChange={(e) => setBudgetTokens(e.target.value)}
+                        placeholder="No limit"
+                        className="h-8"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs text-muted-foreground">Max cost ($)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={budgetCost}
+                        onChange={(e) => setBudgetCost(e.target.value)}
+                        placeholder="No limit"
+                        className="h-8"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs text-muted-foreground">Max minutes</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={budgetMinutes}
+                        onChange={(e) => setBudgetMinutes(e.target.value)}
+                        placeholder="No limit"
+                        className="h-8"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The session pauses when a limit is reached, including spend by child agents.
+                    Each child gets a share based on Child Max Iter.
+                  </p>
+                </div>
+
                 {/* Self-Author Toggle */}
                 <div className="flex items-start gap-3 p-3 rounded-md border border-red-500/30 bg-red-500/5 mb-4">
                   <Switch
@@ -857,11 +1089,34 @@ export function FreeAgentPanel({
                             className="h-8"
                           />
                         </div>
+                        <div>
+                          <Label className="text-xs text-muted-foreground">Max Depth</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={MAX_SPAWN_DEPTH_LIMIT}
+                            value={maxSpawnDepth}
+                            onChange={(e) => setMaxSpawnDepth(Math.max(1, Math.min(MAX_SPAWN_DEPTH_LIMIT, parseInt(e.target.value) || DEFAULT_MAX_SPAWN_DEPTH)))}
+                            className="h-8"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs text-muted-foreground">Max Total Agents</Label>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={200}
+                            value={maxTotalAgents}
+                            onChange={(e) => setMaxTotalAgents(Math.max(1, Math.min(200, parseInt(e.target.value) || DEFAULT_MAX_TOTAL_AGENTS)))}
+                            className="h-8"
+                          />
+                        </div>
                       </div>
                     )}
                     {spawnEnabled && (
                       <p className="text-xs text-amber-500 mt-2">
                         Grants: <code className="bg-muted px-1 rounded">spawn</code>
+                        {maxSpawnDepth > 1 && " - children can spawn their own, down to the max depth"}
                       </p>
                     )}
                   </div>
@@ -914,6 +1169,28 @@ export function FreeAgentPanel({
           toolInstancesManager={toolInstancesManager}
         />
 
+        {/* Extend Budget Modal */}
+        {session && onExtendBudget && (
+          <ExtendBudgetModal
+            open={extendBudgetOpen}
+            onOpenChange={setExtendBudgetOpen}
+            session={session}
+            onExtend={onExtendBudget}
+          />
+        )}
+
+        {/* Model Pricing Modal */}
+        <ModelPricingModal
+          open={pricingModalOpen}
+          onOpenChange={setPricingModalOpen}
+        />
+
+        {/* Custom Models Modal */}
+        <CustomModelsModal
+          open={customModelsOpen}
+          onOpenChange={setCustomModelsOpen}
+        />
+
         {/* Excel Selector Modal */}
         {excelData && (
           <ExcelSelector
@@ -1,5 +1,5 @@
 // Free Agent View - Main container component
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { FreeAgentCanvas } from "./FreeAgentCanvas";
 import { FreeAgentPanel } from "./FreeAgentPanel";
 import { BlackboardViewer } from "./BlackboardViewer";
@@ -10,16 +10,22 @@ import { AssistanceModal } from "./AssistanceModal";
 import { FinalReportModal } from "./FinalReportModal";
 import { ChildAgentDetailModal } from "./ChildAgentDetailModal";
 import { ArtifactViewerModal } from "./ArtifactViewerModal";
+import { SessionHistoryModal } from "./SessionHistoryModal";
+import { ImportSessionModal } from "./ImportSessionModal";
 import { useFreeAgentSession } from "@/hooks/useFreeAgentSession";
+import { useFreeAgentSessionHistory } from "@/hooks/useFreeAgentSessionHistory";
 import { useSecretsManager } from "@/hooks/useSecretsManager";
 import { useToolInstances } from "@/hooks/useToolInstances";
 import { usePromptCustomization } from "@/hooks/usePromptCustomization";
 import { buildPromptData } from "@/lib/systemPromptBuilder";
-import type { ToolsManifest, SessionFile, AssistanceRequest, FreeAgentSession, AdvancedFeatures, ChildSession, FreeAgentArtifact } from "@/types/freeAgent";
+import { getChildLineage } from "@/lib/agentTree";
+import { importSessionFromZip, type ImportedSession } from "@/utils/sessionImporter";
+import type { ToolsManifest, SessionFile, AssistanceRequest, FreeAgentSession, AdvancedFeatures, SessionBudget, ExecutionMode, FreeAgentArtifact } from "@/types/freeAgent";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { ClipboardList, Package, FileCode, FileText } from "lucide-react";
+import { toast } from "sonner";
 
 interface FreeAgentViewProps {
   maxIterations?: number;
@@ -30,10 +36,20 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
   const [assistanceModalOpen, setAssistanceModalOpen] = useState(false);
   const [finalReportModalOpen, setFinalReportModalOpen] = useState(false);
   const [pendingAssistance, setPendingAssistance] = useState<AssistanceRequest | null>(null);
-  const [selectedChild, setSelectedChild] = useState<ChildSession | null>(null);
+  // Path of the child shown in the detail modal - resolved against the live session
+  const [selectedChildPath, setSelectedChildPath] = useState<string | null>(null);
   const [childModalOpen, setChildModalOpen] = useState(false);
   const [selectedArtifact, setSelectedArtifact] = useState<FreeAgentArtifact | null>(null);
   const [artifactViewerOpen, setArtifactViewerOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  // Imported archive awaiting a choice, and an archive opened read-only
+  const [pendingImport, setPendingImport] = useState<ImportedSession | null>(null);
+  const [viewedImport, setViewedImport] = useState<ImportedSession | null>(null);
+  // System prompt carried over from an imported archive, used while continuing that session
+  const [importedPrompt, setImportedPrompt] = useState<{
+    sessionId: string;
+    promptData: NonNullable<FreeAgentSession["promptData"]>;
+  } | null>(null);
   
   // Lifted file state for canvas preview before session starts
   const [pendingFiles, setPendingFiles] = useState<SessionFile[]>([]);
@@ -42,17 +58,26 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
     session,
     isRunning,
     activeToolIds,
+    streamingIteration,
     startSession,
     respondToAssistance,
     stopSession,
     resetSession,
     continueSession,
     retrySession,
+    extendBudget,
+    restoreSession,
     updateScratchpad,
     getCacheSize,
     interjectSession,
   } = useFreeAgentSession({ maxIterations });
 
+  // Sessions persisted in IndexedDB
+  const sessionHistory = useFreeAgentSessionHistory();
+
+  // Read-only archives are shown in place of the live session
+  const displaySession = viewedImport?.session || session;
+
   // Secrets manager for tool parameter injection
   const secretsManager = useSecretsManager();
   
@@ -80,20 +105,28 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
 
   // Show final report when completed
   useEffect(() => {
-    if (session?.status === "completed" && session.finalReport) {
+    if (displaySession?.status === "completed" && displaySession.finalReport) {
       setFinalReportModalOpen(true);
     }
-  }, [session?.status, session?.finalReport]);
+  }, [displaySession?.status, displaySession?.finalReport]);
 
   // Don't memoize handleStart - we need fresh customizations every time
-  const handleStart = async (prompt: string, files: SessionFile[], model: string, maxIterations: number, existingSession?: FreeAgentSession | null, advancedFeatures?: AdvancedFeatures) => {
+  const handleStart = async (prompt: string, files: SessionFile[], model: string, maxIterations: number, existingSession?: FreeAgentSession | null, advancedFeatures?: AdvancedFeatures, budget?: SessionBudget, executionMode?: ExecutionMode) => {
     // Compute secrets at start time for tool parameter injection
     const secretOverrides = secretsManager.getSecretOverrides();
     const configuredParams = secretsManager.getConfiguredToolParams();
     
     // Build dynamic prompt data from template + customizations
     // Use promptCustomization directly (not from closure) to get latest values
-    const promptData = await buildPromptData(promptCustomization);
+    const freshPromptData = await buildPromptData(promptCustomization);
+    
+    // Continuing an imported archive keeps the archive's system prompt if requested
+    const promptData = importedPrompt && existingSession?.id === importedPrompt.sessionId
+      ? {
+          ...importedPrompt.promptData,
+          toolDefinitions: importedPrompt.promptData.toolDefinitions || freshPromptData.toolDefinitions,
+        }
+      : freshPromptData;
     
     // Get tool instances for the session
     const toolInstances = toolInstancesManager.instances;
@@ -120,7 +153,71 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
       promptCustomization.loadFromStorage();
     };
     
-    await startSession(prompt, files, model, maxIterations, existingSession, secretOverrides, configuredParams, promptData, advancedFeatures, customizationsData, handlePromptCustomizationChange, toolInstances);
+    await startSession(prompt, files, model, maxIterations, existingSession, secretOverrides, configuredParams, promptData, advancedFeatures, customizationsData, handlePromptCustomizationChange, toolInstances, budget, executionMode);
+  };
+
+  // Reopen a saved session. Secrets are never persisted, so re-inject the current ones
+  // so that Retry / Continue can call tools exactly like the original run.
+  const handleOpenSession = async (id: string) => {
+    const saved = await sessionHistory.openSession(id);
+    if (!saved) {
+      toast.error("Failed to open session");
+      return;
+    }
+    setViewedImport(null);
+    restoreSession(
+      {
+        ...saved,
+        secretOverrides: secretsManager.getSecretOverrides(),
+        configuredParams: secretsManager.getConfiguredToolParams(),
+      },
+      promptCustomization.customizations,
+      () => promptCustomization.loadFromStorage()
+    );
+    setPendingFiles(saved.sessionFiles || []);
+  };
+
+  const handleImportArchive = async (file: File) => {
+    try {
+      setPendingImport(await importSessionFromZip(file));
+      setHistoryOpen(false);
+    } catch (error) {
+      console.error("Failed to import session:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import session");
+    }
+  };
+
+  const handleViewImported = (imported: ImportedSession) => {
+    setPendingImport(null);
+    setViewedImport(imported);
+  };
+
+  // Load the archive's memory as an idle session - the next Start continues from it
+  const handleContinueImported = (imported: ImportedSession, useArchivePrompt: boolean) => {
+    const archived = imported.session;
+    setPendingImport(null);
+    setViewedImport(null);
+    setFinalReportModalOpen(false);
+    restoreSession(
+      {
+        ...archived,
+        status: "idle",
+        toolCalls: [],
+        messages: [],
+        assistanceRequest: undefined,
+        secretOverrides: secretsManager.getSecretOverrides(),
+        configuredParams: secretsManager.getConfiguredToolParams(),
+      },
+      promptCustomization.customizations,
+      () => promptCustomization.loadFromStorage()
+    );
+    setPendingFiles(archived.sessionFiles || []);
+    setImportedPrompt(
+      useArchivePrompt && archived.promptData
+        ? { sessionId: archived.id, promptData: archived.promptData }
+        : null
+    );
+    toast.success("Session imported. Enter a task to continue with its memory.");
   };
 
   const handleAssistanceResponse = useCallback(
@@ -141,13 +238,18 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
     interjectSession(message);
   }, [interjectSession]);
 
-  const handleChildClick = useCallback((childName: string) => {
-    const child = session?.orchestration?.children?.find(c => c.name === childName);
-    if (child) {
-      setSelectedChild(child);
+  // Chain from the top of the spawn tree down to the selected child
+  const selectedChildLineage = useMemo(
+    () => (selectedChildPath ? getChildLineage(displaySession?.orchestration?.children || [], selectedChildPath) : []),
+    [displaySession?.orchestration?.children, selectedChildPath]
+  );
+
+  const handleChildClick = useCallback((childPath: string) => {
+    if (getChildLineage(displaySession?.orchestration?.children || [], childPath).length > 0) {
+      setSelectedChildPath(childPath);
       setChildModalOpen(true);
     }
-  }, [session?.orchestration?.children]);
+  }, [displaySession?.orchestration?.children]);
 
   const handleArtifactClick = useCallback((artifact: FreeAgentArtifact) => {
     setSelectedArtifact(artifact);
@@ -201,13 +303,14 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
           {mobileTab === "panel" && (
             <div className="h-full overflow-y-auto">
               <FreeAgentPanel
-                session={session}
+                session={displaySession}
                 isRunning={isRunning}
                 onStart={handleStart}
                 onStop={stopSession}
                 onReset={resetSession}
                 onContinue={continueSession}
                 onRetry={retrySession}
+                onExtendBudget={extendBudget}
                 onInterject={handleInterject}
                 cacheSize={getCacheSize()}
                 secretsManager={secretsManager}
@@ -215,20 +318,25 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
                 toolInstancesManager={toolInstancesManager}
                 pendingFiles={pendingFiles}
                 onPendingFilesChange={setPendingFiles}
+                onOpenHistory={() => setHistoryOpen(true)}
+                readOnly={!!viewedImport}
+                onExitReadOnly={() => setViewedImport(null)}
+                onContinueReadOnly={() => viewedImport && handleContinueImported(viewedImport, true)}
               />
             </div>
           )}
           {mobileTab === "canvas" && (
             <div className="h-full">
               <FreeAgentCanvas
-                session={session}
+                session={displaySession}
                 toolsManifest={toolsManifest}
                 activeToolIds={activeToolIds}
                 toolInstances={toolInstancesManager.instances}
-                onScratchpadChange={updateScratchpad}
-                onRetry={retrySession}
+                onScratchpadChange={viewedImport ? undefined : updateScratchpad}
+                onRetry={viewedImport ? undefined : retrySession}
                 onChildClick={handleChildClick}
                 pendingFiles={pendingFiles}
+                streamingIteration={viewedImport ? null : streamingIteration}
               />
             </div>
           )}
@@ -254,13 +362,13 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
                   </TabsTrigger>
                 </TabsList>
                 <TabsContent value="blackboard" className="flex-1 overflow-hidden m-0 p-0">
-                  <BlackboardViewer entries={session?.blackboard || []} />
+                  <BlackboardViewer entries={displaySession?.blackboard || []} />
                 </TabsContent>
                 <TabsContent value="artifacts" className="flex-1 overflow-hidden m-0 p-0">
-                  <ArtifactsPanel artifacts={session?.artifacts || []} onArtifactClick={handleArtifactClick} />
+                  <ArtifactsPanel artifacts={displaySession?.artifacts || []} onArtifactClick={handleArtifactClick} />
                 </TabsContent>
                 <TabsContent value="raw" className="flex-1 overflow-hidden m-0 p-0">
-                  <RawViewer rawData={session?.rawData || []} />
+                  <RawViewer rawData={displaySession?.rawData || []} streamingIteration={viewedImport ? null : streamingIteration} />
                 </TabsContent>
                 <TabsContent value="prompt" className="flex-1 overflow-hidden m-0 p-0">
                   <SystemPromptViewer configuredParams={secretsManager.getConfiguredToolParams()} promptCustomization={promptCustomization} />
@@ -279,13 +387,14 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
             <div className="h-full flex flex-col">
               <div className="flex-1 overflow-hidden">
                 <FreeAgentPanel
-                  session={session}
+                  session={displaySession}
                   isRunning={isRunning}
                   onStart={handleStart}
                   onStop={stopSession}
                   onReset={resetSession}
                   onContinue={continueSession}
                   onRetry={retrySession}
+                  onExtendBudget={extendBudget}
                   onInterject={handleInterject}
                   cacheSize={getCacheSize()}
                   secretsManager={secretsManager}
@@ -293,6 +402,10 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
                   toolInstancesManager={toolInstancesManager}
                   pendingFiles={pendingFiles}
                   onPendingFilesChange={setPendingFiles}
+                  onOpenHistory={() => setHistoryOpen(true)}
+                  readOnly={!!viewedImport}
+                  onExitReadOnly={() => setViewedImport(null)}
+                  onContinueReadOnly={() => viewedImport && handleContinueImported(viewedImport, true)}
                 />
               </div>
             </div>
@@ -304,14 +417,15 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
           <ResizablePanel defaultSize={50} minSize={30}>
             <div className="h-full bg-muted/20">
               <FreeAgentCanvas
-                session={session}
+                session={displaySession}
                 toolsManifest={toolsManifest}
                 activeToolIds={activeToolIds}
                 toolInstances={toolInstancesManager.instances}
-                onScratchpadChange={updateScratchpad}
-                onRetry={retrySession}
+                onScratchpadChange={viewedImport ? undefined : updateScratchpad}
+                onRetry={viewedImport ? undefined : retrySession}
                 onChildClick={handleChildClick}
                 pendingFiles={pendingFiles}
+                streamingIteration={viewedImport ? null : streamingIteration}
               />
             </div>
           </ResizablePanel>
@@ -371,13 +485,13 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
                   </TabsList>
                 </TooltipProvider>
                 <TabsContent value="blackboard" className="flex-1 overflow-hidden m-0 p-0">
-                  <BlackboardViewer entries={session?.blackboard || []} />
+                  <BlackboardViewer entries={displaySession?.blackboard || []} />
                 </TabsContent>
                 <TabsContent value="artifacts" className="flex-1 overflow-hidden m-0 p-0">
-                  <ArtifactsPanel artifacts={session?.artifacts || []} onArtifactClick={handleArtifactClick} />
+                  <ArtifactsPanel artifacts={displaySession?.artifacts || []} onArtifactClick={handleArtifactClick} />
                 </TabsContent>
                 <TabsContent value="raw" className="flex-1 overflow-hidden m-0 p-0">
-                  <RawViewer rawData={session?.rawData || []} />
+                  <RawViewer rawData={displaySession?.rawData || []} streamingIteration={viewedImport ? null : streamingIteration} />
                 </TabsContent>
                 <TabsContent value="prompt" className="flex-1 overflow-hidden m-0 p-0">
                   <SystemPromptViewer configuredParams={secretsManager.getConfiguredToolParams()} promptCustomization={promptCustomization} />
@@ -397,8 +511,8 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
       />
 
       <FinalReportModal
-        report={session?.finalReport || null}
-        session={session}
+        report={displaySession?.finalReport || null}
+        session={displaySession}
         open={finalReportModalOpen}
         onClose={() => setFinalReportModalOpen(false)}
         onReset={handleReset}
@@ -407,7 +521,9 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
       <ChildAgentDetailModal
         isOpen={childModalOpen}
         onClose={() => setChildModalOpen(false)}
-        child={selectedChild}
+        child={selectedChildLineage[selectedChildLineage.length - 1] || null}
+        ancestors={selectedChildLineage.slice(0, -1)}
+        onNavigate={setSelectedChildPath}
       />
 
       <ArtifactViewerModal
@@ -415,6 +531,23 @@ export function FreeAgentView({ maxIterations }: FreeAgentViewProps) {
         open={artifactViewerOpen}
         onOpenChange={setArtifactViewerOpen}
       />
+
+      <SessionHistoryModal
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        history={sessionHistory}
+        currentSessionId={session?.id}
+        isRunning={isRunning}
+        onOpenSession={handleOpenSession}
+        onImportArchive={handleImportArchive}
+      />
+
+      <ImportSessionModal
+        imported={pendingImport}
+        onClose={() => setPendingImport(null)}
+        onViewReadOnly={handleViewImported}
+        onContinue={handleContinueImported}
+      />
     </div>
   );
 }
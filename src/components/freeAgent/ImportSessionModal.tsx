@@ -0,0 +1,100 @@
+// Import Session Modal - Choose how to open an imported session archive
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Eye, FileArchive, Play } from "lucide-react";
+import type { ImportedSession } from "@/utils/sessionImporter";
+
+interface ImportSessionModalProps {
+  imported: ImportedSession | null;
+  onClose: () => void;
+  onViewReadOnly: (imported: ImportedSession) => void;
+  onContinue: (imported: ImportedSession, useArchivePrompt: boolean) => void;
+}
+
+export function ImportSessionModal({
+  imported,
+  onClose,
+  onViewReadOnly,
+  onContinue,
+}: ImportSessionModalProps) {
+  const [useArchivePrompt, setUseArchivePrompt] = useState(true);
+  const session = imported?.session;
+  const hasPromptData = !!session?.promptData?.sections.length;
+
+  useEffect(() => {
+    if (imported) setUseArchivePrompt(true);
+  }, [imported]);
+
+  return (
+    <Dialog open={!!imported} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileArchive className="w-5 h-5 text-primary" />
+            Import Session
+          </DialogTitle>
+          <DialogDescription>
+            View the archived session as it was, or continue it as a new run with its memory pre-seeded.
+          </DialogDescription>
+        </DialogHeader>
+
+        {session && (
+          <div className="space-y-3 py-2 text-sm">
+            <div>
+              <span className="text-muted-foreground">Task: </span>
+              <span className="line-clamp-3">{session.prompt || "(no task)"}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+              <div><span className="text-muted-foreground">Status: </span>{session.status}</div>
+              <div><span className="text-muted-foreground">Model: </span>{session.model}</div>
+              <div>
+                <span className="text-muted-foreground">Iterations: </span>
+                {session.currentIteration} / {session.maxIterations}
+              </div>
+              <div><span className="text-muted-foreground">Blackboard: </span>{session.blackboard.length} entries</div>
+              <div><span className="text-muted-foreground">Artifacts: </span>{session.artifacts.length}</div>
+              <div>
+                <span className="text-muted-foreground">Attributes: </span>
+                {Object.keys(session.toolResultAttributes).length}
+              </div>
+            </div>
+            {imported.missing.length > 0 && (
+              <p className="text-xs text-amber-600">
+                This archive was made by an older version and does not include: {imported.missing.join(", ")}.
+              </p>
+            )}
+            {hasPromptData && (
+              <div className="flex items-center gap-2 pt-1">
+                <Switch id="use-archive-prompt" checked={useArchivePrompt} onCheckedChange={setUseArchivePrompt} />
+                <Label htmlFor="use-archive-prompt" className="text-sm">
+                  Continue with the archive's system prompt
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => imported && onViewReadOnly(imported)}>
+            <Eye className="w-4 h-4 mr-2" />
+            View Read-Only
+          </Button>
+          <Button onClick={() => imported && onContinue(imported, hasPromptData && useArchivePrompt)}>
+            <Play className="w-4 h-4 mr-2" />
+            Continue as New Run
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
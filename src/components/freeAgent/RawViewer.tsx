@@ -3,17 +3,20 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Code, ArrowRight, ArrowLeft, Copy, Check, Wrench, AlertCircle } from "lucide-react";
+import { Code, ArrowRight, ArrowLeft, Copy, Check, Wrench, AlertCircle, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import type { RawIterationData } from "@/types/freeAgent";
+import type { RawIterationData, StreamingIteration } from "@/types/freeAgent";
 import { toast } from "sonner";
+import { estimateCost, formatUsage } from "@/lib/llmPricing";
+import { parseStreamingPreview } from "@/lib/freeAgentStream";
 
 interface RawViewerProps {
   rawData: RawIterationData[];
+  streamingIteration?: StreamingIteration | null; // Shown as an extra, live iteration after rawData
 }
 
-export function RawViewer({ rawData }: RawViewerProps) {
+export function RawViewer({ rawData, streamingIteration }: RawViewerProps) {
   const [selectedIteration, setSelectedIteration] = useState<number>(
     rawData.length > 0 ? rawData.length : 1
   );
@@ -22,14 +25,18 @@ export function RawViewer({ rawData }: RawViewerProps) {
   const [copiedTools, setCopiedTools] = useState(false);
   const [copiedAll, setCopiedAll] = useState(false);
 
+  const iterationCount = rawData.length + (streamingIteration ? 1 : 0);
+
   // Update selected iteration when new data comes in
   useEffect(() => {
-    if (rawData.length > 0) {
-      setSelectedIteration(rawData.length);
+    if (iterationCount > 0) {
+      setSelectedIteration(iterationCount);
     }
-  }, [rawData.length]);
+  }, [iterationCount]);
 
   const currentData = rawData[selectedIteration - 1];
+  const isLive = !!streamingIteration && selectedIteration === rawData.length + 1;
+  const streamingToolCalls = isLive ? parseStreamingPreview(streamingIteration.text).toolCalls : [];
 
   const handleCopy = async (text: string, type: "input" | "output" | "tools" | "all") => {
     await navigator.clipboard.writeText(text);
@@ -60,12 +67,14 @@ export function RawViewer({ rawData }: RawViewerProps) {
         scratchpadLength: currentData.input.scratchpadLength,
         blackboardEntries: currentData.input.blackboardEntries,
         previousResultsCount: currentData.input.previousResultsCount,
+        estimatedPromptTokens: currentData.input.estimatedPromptTokens,
       },
       output: {
         rawResponse: currentData.output.rawLLMResponse || currentData.output.parseError?.rawResponse,
         errorMessage: currentData.output.errorMessage,
       },
       toolResults: currentData.toolResults,
+      compaction: currentData.compaction,
     };
     handleCopy(JSON.stringify(fullData, null, 2), "all");
   };
@@ -111,21 +120,47 @@ export function RawViewer({ rawData }: RawViewerProps) {
             <ArrowLeft className="w-3 h-3" />
           </Button>
           <span className="text-sm min-w-[100px] text-center">
-            Iteration {selectedIteration} / {rawData.length || 0}
+            Iteration {selectedIteration} / {iterationCount}
           </span>
           <Button
             variant="outline"
             size="sm"
-            disabled={selectedIteration >= rawData.length}
-            onClick={() => setSelectedIteration((prev) => Math.min(rawData.length, prev + 1))}
+            disabled={selectedIteration >= iterationCount}
+            onClick={() => setSelectedIteration((prev) => Math.min(iterationCount, prev + 1))}
           >
             <ArrowRight className="w-3 h-3" />
           </Button>
+          {currentData?.usage && (
+            <span className="text-xs text-muted-foreground ml-auto">
+              {formatUsage(currentData.usage, estimateCost(currentData.input.model, currentData.usage))}
+            </span>
+          )}
         </div>
       </CardHeader>
 
       <CardContent className="flex-1 overflow-hidden p-0">
-        {!currentData ? (
+        {isLive ? (
+          // Output of the iteration still being written
+          <div className="h-full px-4 pb-4">
+            <div className="h-full flex flex-col bg-muted/50 rounded-md">
+              <div className="flex items-center gap-2 px-3 py-2 border-b border-border/50 text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin text-yellow-500" />
+                <span>Streaming iteration {streamingIteration.iteration}</span>
+                <span>{streamingIteration.text.length} chars</span>
+                {streamingToolCalls.map((tool, idx) => (
+                  <Badge key={`${tool}-${idx}`} variant="outline" className="text-[10px] h-4 font-mono">
+                    {tool}
+                  </Badge>
+                ))}
+              </div>
+              <ScrollArea className="flex-1">
+                <pre className="text-xs p-3 whitespace-pre-wrap break-all font-mono leading-relaxed">
+                  {streamingIteration.text || "(waiting for the first tokens)"}
+                </pre>
+              </ScrollArea>
+            </div>
+          </div>
+        ) : !currentData ? (
           <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
             No raw data yet. Start a session to capture LLM input/output.
           </div>
@@ -148,9 +183,28 @@ export function RawViewer({ rawData }: RawViewerProps) {
                 <div className="flex items-center justify-between px-3 py-2 border-b border-border/50">
                   <div className="text-xs text-muted-foreground space-x-3">
                     <span>Model: {currentData.input.model}</span>
+                    {currentData.input.executionMode === "function_calling" && <span>Mode: function calling</span>}
                     <span>Scratchpad: {currentData.input.scratchpadLength} chars</span>
                     <span>Blackboard: {currentData.input.blackboardEntries} entries</span>
                     <span>Prev Results: {currentData.input.previousResultsCount}</span>
+                    {currentData.input.estimatedPromptTokens !== undefined && (
+                      <span>Est. prompt: ~{currentData.input.estimatedPromptTokens.toLocaleString()} tokens</span>
+                    )}
+                    {currentData.compaction && (
+                      <span
+                        className={currentData.compaction.withinLimit ? "text-amber-500" : "text-destructive"}
+                        title={currentData.compaction.collapsedResults
+                          .map((r) => `${r.tool} -> ${r.attribute} (${r.size} chars)`)
+                          .join("\n")}
+                      >
+                        Compacted: ~{currentData.compaction.estimatedTokens.toLocaleString()} → ~
+                        {currentData.compaction.compactedTokens.toLocaleString()} tokens
+                        {currentData.compaction.collapsedResults.length > 0 &&
+                          `, ${currentData.compaction.collapsedResults.length} results collapsed`}
+                        {currentData.compaction.digestedEntries > 0 &&
+                          `, ${currentData.compaction.digestedEntries} entries digested`}
+                      </span>
+                    )}
                   </div>
                   <Button
                     variant="ghost"
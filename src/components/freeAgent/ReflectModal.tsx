@@ -22,6 +22,7 @@ import {
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import type { BlackboardEntry } from "@/types/freeAgent";
+import { getAgentEdgeFunction, getModel, getModelEndpointConfig, getModelProvider } from "@/lib/modelRegistry";
 
 const REFLECTION_SYSTEM_PROMPT = `You are an expert AI session analyst reviewing the execution of an autonomous agent task.
 
@@ -85,13 +86,6 @@ export function ReflectModal({
       .join("\n\n---\n\n");
   };
 
-  // Get the appropriate edge function based on model
-  const getEdgeFunction = (): string => {
-    if (model.startsWith("claude")) return "run-agent-anthropic";
-    if (model.startsWith("grok")) return "run-agent-xai";
-    return "run-agent"; // Gemini default
-  };
-
   // Stream reflection from edge function
   const streamReflection = async () => {
     setIsReflecting(true);
@@ -121,7 +115,7 @@ ${scratchpad || "Empty"}
 
 Reviewing the blackboard and the scratchpad, what went well and where were there some obvious failings? What can you infer from this? What would you do differently next time? How would you rewrite the original prompt to avoid this issue again?`;
 
-      const edgeFunction = getEdgeFunction();
+      const edgeFunction = getAgentEdgeFunction(model);
       const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 
       const response = await fetch(`${supabaseUrl}/functions/v1/${edgeFunction}`, {
@@ -133,6 +127,7 @@ Reviewing the blackboard and the scratchpad, what went well and where were there
           systemPrompt: REFLECTION_SYSTEM_PROMPT,
           userPrompt,
           model,
+          modelEndpoint: getModelEndpointConfig(model),
           maxOutputTokens: 8192,
           tools: [],
         }),
@@ -230,24 +225,11 @@ Reviewing the blackboard and the scratchpad, what went well and where were there
   };
 
   // Get model display info
-  const getModelInfo = () => {
-    const modelMap: Record<string, { label: string; provider: string; color: string }> = {
-      "gemini-2.5-flash": { label: "Gemini 2.5 Flash", provider: "gemini", color: "text-blue-500" },
-      "gemini-2.5-flash-lite": { label: "Gemini 2.5 Flash Lite", provider: "gemini", color: "text-blue-500" },
-      "gemini-3-pro-preview": { label: "Gemini 3 Pro", provider: "gemini", color: "text-blue-500" },
-      "gemini-3-flash-preview": { label: "Gemini 3 Flash", provider: "gemini", color: "text-blue-500" },
-      "claude-sonnet-4-5": { label: "Claude Sonnet 4.5", provider: "claude", color: "text-orange-500" },
-      "claude-haiku-4-5": { label: "Claude Haiku 4.5", provider: "claude", color: "text-orange-500" },
-      "claude-opus-4-5": { label: "Claude Opus 4.5", provider: "claude", color: "text-orange-500" },
-      "grok-4-1-fast-reasoning": { label: "Grok 4.1 Reasoning", provider: "grok", color: "text-purple-500" },
-      "grok-4-1-fast-non-reasoning": { label: "Grok 4.1", provider: "grok", color: "text-purple-500" },
-      "grok-code-fast-1": { label: "Grok Code", provider: "grok", color: "text-purple-500" },
-    };
-    return modelMap[model] || { label: model, provider: "unknown", color: "text-muted-foreground" };
+  const modelInfo = {
+    label: getModel(model).label,
+    color: getModelProvider(model).color,
   };
 
-  const modelInfo = getModelInfo();
-
   return (
     <Dialog open={open} onOpenChange={handleCancel}>
       <DialogContent
@@ -0,0 +1,189 @@
+// Session History Modal - Reopen or resume Free Agent sessions saved in this browser
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { History, Eye, Play, RefreshCw, Search, Trash2, Loader2, Upload } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { FreeAgentStatus } from "@/types/freeAgent";
+import type { FreeAgentSessionHistory } from "@/hooks/useFreeAgentSessionHistory";
+
+interface SessionHistoryModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  history: FreeAgentSessionHistory;
+  currentSessionId?: string;
+  isRunning: boolean;
+  onOpenSession: (id: string) => Promise<void>;
+  onImportArchive: (file: File) => Promise<void>;
+}
+
+const statusStyles: Record<FreeAgentStatus, string> = {
+  idle: "bg-muted text-muted-foreground",
+  running: "bg-yellow-500 text-white",
+  paused: "bg-orange-500 text-white",
+  waiting: "bg-blue-500 text-white",
+  needs_assistance: "bg-purple-500 text-white",
+  completed: "bg-green-500 text-white",
+  error: "bg-destructive text-destructive-foreground",
+};
+
+// Sessions left "running" were interrupted (e.g. by a reload) and resume like paused ones
+const RESUMABLE_STATUSES: FreeAgentStatus[] = ["running", "waiting", "paused", "error", "needs_assistance"];
+
+export function SessionHistoryModal({
+  open,
+  onOpenChange,
+  history,
+  currentSessionId,
+  isRunning,
+  onOpenSession,
+  onImportArchive,
+}: SessionHistoryModalProps) {
+  const [search, setSearch] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { refresh } = history;
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return history.sessions;
+    return history.sessions.filter(s => s.prompt.toLowerCase().includes(term));
+  }, [history.sessions, search]);
+
+  const handleOpen = async (id: string) => {
+    setBusyId(id);
+    await onOpenSession(id);
+    setBusyId(null);
+    onOpenChange(false);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setBusyId("import");
+    await onImportArchive(file);
+    setBusyId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Session History
+          </DialogTitle>
+          <DialogDescription>
+            Sessions are saved in this browser as they run. Interrupted, paused or failed sessions can be resumed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="h-4 w-4 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by task..."
+              className="pl-8"
+            />
+          </div>
+          <Button size="icon" variant="ghost" onClick={() => refresh()} title="Refresh">
+            <RefreshCw className={`h-4 w-4 ${history.isLoading ? "animate-spin" : ""}`} />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRunning || busyId === "import"}
+          >
+            {busyId === "import" ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />}
+            Import
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".zip" className="hidden" onChange={handleImport} />
+        </div>
+
+        {isRunning && (
+          <p className="text-xs text-muted-foreground">Stop the running session before opening another one.</p>
+        )}
+
+        <ScrollArea className="flex-1 min-h-[200px] border rounded-md">
+          {filtered.length === 0 ? (
+            <div className="p-8 text-center text-sm text-muted-foreground">
+              {history.isLoading ? "Loading sessions..." : "No saved sessions yet"}
+            </div>
+          ) : (
+            <div className="divide-y">
+              {filtered.map((item) => {
+                const resumable = RESUMABLE_STATUSES.includes(item.status);
+                const isCurrent = item.id === currentSessionId;
+                return (
+                  <div key={item.id} className="flex items-center gap-3 p-3 hover:bg-muted/50">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Badge className={statusStyles[item.status]}>
+                          {item.status === "running" && !isCurrent ? "interrupted" : item.status.replace("_", " ")}
+                        </Badge>
+                        {isCurrent && <Badge variant="outline">Current</Badge>}
+                        <span className="text-sm font-medium truncate">{item.prompt || "(no task)"}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {item.model} · iteration {item.currentIteration}/{item.maxIterations} · {item.blackboardCount} entries ·{" "}
+                        {item.artifactCount} artifact(s)
+                        {item.childCount > 0 && ` · ${item.childCount} child agent(s)`} · updated{" "}
+                        {formatDistanceToNow(new Date(item.updatedAt), { addSuffix: true })}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-1"
+                        onClick={() => handleOpen(item.id)}
+                        disabled={isRunning || busyId === item.id || isCurrent}
+                      >
+                        {busyId === item.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : resumable ? (
+                          <Play className="h-3 w-3" />
+                        ) : (
+                          <Eye className="h-3 w-3" />
+                        )}
+                        {resumable ? "Resume" : "View"}
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-destructive"
+                        title="Delete"
+                        onClick={() => history.deleteSession(item.id)}
+                        disabled={isCurrent && isRunning}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
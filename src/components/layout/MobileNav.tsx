@@ -1,5 +1,5 @@
 import { Button } from "@/components/ui/button";
-import { Library, Workflow, Settings, Plus, Play, Save, Upload, Trash2, HelpCircle, LayoutGrid, LayoutList, Eye, Eraser, Wrench, Bot } from "lucide-react";
+import { Library, Workflow, Settings, Plus, Play, Save, Upload, Trash2, HelpCircle, LayoutGrid, LayoutList, Eye, Eraser, Wrench, Bot, FolderOpen } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useRef, useState } from "react";
 import { HelpModal } from "@/components/help/HelpModal";
@@ -27,6 +27,7 @@ interface MobileNavProps {
   onRun: () => void;
   onSave: () => void;
   onLoad: (file: File) => void;
+  onOpenLibrary?: () => void;
   onClear: () => void;
   onClearOutputs: () => void;
   hasSelectedAgent: boolean;
@@ -43,6 +44,7 @@ export const MobileNav = ({
   onRun,
   onSave,
   onLoad,
+  onOpenLibrary,
   onClear,
   onClearOutputs,
   hasSelectedAgent,
@@ -123,6 +125,12 @@ export const MobileNav = ({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="start" className="bg-popover z-50">
+                {onOpenLibrary && (
+                  <DropdownMenuItem onClick={onOpenLibrary}>
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Library
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={handleLoadClick}>
                   <Upload className="h-4 w-4 mr-2" />
                   Upload
@@ -15,6 +15,7 @@ interface ResponsiveLayoutProps {
   onRun: () => void;
   onSave: () => void;
   onLoad: (file: File) => void;
+  onOpenLibrary?: () => void;
   onClear: () => void;
   onClearOutputs: () => void;
   hasSelectedAgent: boolean;
@@ -34,6 +35,7 @@ export const ResponsiveLayout = ({
   onRun,
   onSave,
   onLoad,
+  onOpenLibrary,
   onClear,
   onClearOutputs,
   hasSelectedAgent,
@@ -56,6 +58,7 @@ export const ResponsiveLayout = ({
           onRun={onRun}
           onSave={onSave}
           onLoad={onLoad}
+          onOpenLibrary={onOpenLibrary}
           onClear={onClear}
           onClearOutputs={onClearOutputs}
           hasSelectedAgent={hasSelectedAgent}
@@ -0,0 +1,362 @@
+// Workflow History Modal - Revision timeline with a side-by-side diff and restore
+import { useState, useEffect, useMemo, useCallback } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { History, Loader2, MapPin, RefreshCw, RotateCcw } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  diffWorkflows,
+  diffLines,
+  getDiffHighlights,
+  type DiffLine,
+  type NodeDiff,
+  type NodeFieldChange,
+  type WorkflowDiff,
+  type WorkflowDiffHighlights,
+} from "@/lib/workflowDiff";
+import type { WorkflowLibrary } from "@/hooks/useWorkflowLibrary";
+import type { Workflow, WorkflowRevision, WorkflowSaveData } from "@/types/workflow";
+
+interface WorkflowHistoryModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  library: WorkflowLibrary;
+  workflowId: string | null;
+  getCurrentData: () => WorkflowSaveData;
+  onRestore: (revision: WorkflowRevision) => Promise<void>;
+  onShowOnCanvas: (highlights: WorkflowDiffHighlights) => void;
+}
+
+type CompareMode = "previous" | "current";
+
+const EMPTY_WORKFLOW: Workflow = { stages: [], connections: [] };
+
+// Fields shown as a multi-line side-by-side diff rather than "before → after"
+const TEXT_FIELDS = new Set(["systemPrompt", "userPrompt", "config", "tools", "model", "beastMode", "ports", "loop", "responseSchema", "policy"]);
+
+const sourceLabels: Record<WorkflowRevision["source"], string> = {
+  manual: "Saved",
+  autosave: "Autosave",
+  restore: "Restored",
+};
+
+const kindStyles: Record<string, string> = {
+  added: "bg-green-100 text-green-800 border-green-300",
+  removed: "bg-red-100 text-red-800 border-red-300",
+  changed: "bg-amber-100 text-amber-800 border-amber-300",
+  renamed: "bg-amber-100 text-amber-800 border-amber-300",
+};
+
+// Pair removed/added runs so edited lines sit next to each other
+function toSideBySideRows(lines: DiffLine[]): { left?: DiffLine; right?: DiffLine }[] {
+  const rows: { left?: DiffLine; right?: DiffLine }[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === "same") {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === "removed") removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === "added") added.push(lines[i++]);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+  return rows;
+}
+
+function SideBySideDiff({ before, after }: { before: string; after: string }) {
+  const rows = useMemo(() => toSideBySideRows(diffLines(before, after)), [before, after]);
+  const cell = (line?: DiffLine) => (
+    <div
+      className={cn(
+        "px-2 whitespace-pre-wrap break-words min-h-[1.25rem]",
+        line?.type === "removed" && "bg-red-50 text-red-900",
+        line?.type === "added" && "bg-green-50 text-green-900",
+        !line && "bg-muted/40"
+      )}
+    >
+      {line?.text}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-2 border rounded text-xs font-mono divide-x">
+      <div className="px-2 py-1 text-[10px] uppercase text-muted-foreground border-b">Before</div>
+      <div className="px-2 py-1 text-[10px] uppercase text-muted-foreground border-b">After</div>
+      {rows.map((row, index) => (
+        <div key={index} className="contents">
+          {cell(row.left)}
+          {cell(row.right)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function FieldChanges({ fields }: { fields: NodeFieldChange[] }) {
+  return (
+    <>
+      {fields.map(field => (
+        <div key={field.field} className="space-y-1">
+          <div className="text-xs font-medium text-muted-foreground">{field.label}</div>
+          {TEXT_FIELDS.has(field.field) ? (
+            <SideBySideDiff before={field.before} after={field.after} />
+          ) : (
+            <div className="text-xs">
+              <span className="line-through text-red-700">{field.before || "(empty)"}</span>
+              {" → "}
+              <span className="text-green-700">{field.after || "(empty)"}</span>
+            </div>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
+
+function NodeChangeCard({ change }: { change: NodeDiff }) {
+  return (
+    <div className="border rounded-md p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className={kindStyles[change.kind]}>{change.kind}</Badge>
+        <span className="font-medium text-sm">{change.name}</span>
+        <span className="text-xs text-muted-foreground">{change.nodeType} · {change.stageName}</span>
+      </div>
+      <FieldChanges fields={change.fields} />
+    </div>
+  );
+}
+
+function DiffView({ diff }: { diff: WorkflowDiff }) {
+  if (!diff.hasChanges) {
+    return <div className="p-8 text-center text-sm text-muted-foreground">No differences</div>;
+  }
+
+  // Prompt edits are the most common change, so list changed nodes first
+  const order = { changed: 0, added: 1, removed: 2 };
+  const nodes = [...diff.nodes].sort((a, b) => order[a.kind] - order[b.kind]);
+
+  return (
+    <div className="space-y-4 p-3">
+      {diff.stages.length > 0 && (
+        <section className="space-y-1">
+          <h4 className="text-sm font-semibold">Stages</h4>
+          {diff.stages.map(stage => (
+            <div key={stage.stageId} className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="outline" className={kindStyles[stage.kind]}>{stage.kind}</Badge>
+                {stage.kind === "renamed" ? `${stage.previousName} → ${stage.name}` : stage.name}
+              </div>
+              {stage.fields && stage.fields.length > 0 && <FieldChanges fields={stage.fields} />}
+            </div>
+          ))}
+        </section>
+      )}
+
+      {nodes.length > 0 && (
+        <section className="space-y-2">
+          <h4 className="text-sm font-semibold">Nodes</h4>
+          {nodes.map(change => <NodeChangeCard key={change.nodeId} change={change} />)}
+        </section>
+      )}
+
+      {diff.connections.length > 0 && (
+        <section className="space-y-1">
+          <h4 className="text-sm font-semibold">Connections</h4>
+          {diff.connections.map(conn => (
+            <div key={`${conn.kind}-${conn.connection.id}`} className="flex items-center gap-2 text-sm">
+              <Badge variant="outline" className={kindStyles[conn.kind]}>{conn.kind}</Badge>
+              {conn.label}
+            </div>
+          ))}
+        </section>
+      )}
+    </div>
+  );
+}
+
+export function WorkflowHistoryModal({
+  open,
+  onOpenChange,
+  library,
+  workflowId,
+  getCurrentData,
+  onRestore,
+  onShowOnCanvas,
+}: WorkflowHistoryModalProps) {
+  const [revisions, setRevisions] = useState<WorkflowRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>("previous");
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const { listRevisions } = library;
+
+  const loadRevisions = useCallback(async () => {
+    if (!workflowId) return;
+    setIsLoading(true);
+    const list = await listRevisions(workflowId);
+    setRevisions(list);
+    setSelectedId(prev => (prev && list.some(r => r.id === prev) ? prev : list[0]?.id ?? null));
+    setIsLoading(false);
+  }, [listRevisions, workflowId]);
+
+  useEffect(() => {
+    if (open) loadRevisions();
+  }, [open, loadRevisions]);
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+
+  const diff = useMemo(() => {
+    if (!selected) return null;
+    if (compareMode === "current") {
+      return diffWorkflows(selected.data.workflow, getCurrentData().workflow);
+    }
+    const previous = revisions[selectedIndex + 1];
+    return diffWorkflows(previous?.data.workflow || EMPTY_WORKFLOW, selected.data.workflow);
+    // getCurrentData reads live editor state; recompute when the selection or mode changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected, selectedIndex, revisions, compareMode]);
+
+  const handleRestore = async (revision: WorkflowRevision) => {
+    setRestoringId(revision.id);
+    await onRestore(revision);
+    setRestoringId(null);
+    await loadRevisions();
+  };
+
+  const handleShowOnCanvas = () => {
+    if (!selected || !diff) return;
+    const when = format(new Date(selected.updatedAt), "MMM d, HH:mm");
+    const label = compareMode === "current" ? `Changes since ${when}` : `Changes in revision from ${when}`;
+    onShowOnCanvas(getDiffHighlights(diff, label));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            {workflowId
+              ? "Revisions are recorded on save. Autosaves within 10 minutes are grouped into one revision."
+              : "Save this workflow to the library to start recording revisions."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {workflowId && (
+          <div className="flex flex-1 min-h-0 gap-3">
+            <div className="w-64 flex flex-col border rounded-md">
+              <div className="flex items-center justify-between p-2 border-b">
+                <span className="text-sm font-medium">{revisions.length} revision(s)</span>
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={loadRevisions} title="Refresh">
+                  <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+                </Button>
+              </div>
+              <ScrollArea className="flex-1">
+                {revisions.length === 0 ? (
+                  <div className="p-4 text-center text-sm text-muted-foreground">
+                    {isLoading ? "Loading revisions..." : "No revisions yet"}
+                  </div>
+                ) : (
+                  <div className="divide-y">
+                    {revisions.map((revision, index) => (
+                      <button
+                        key={revision.id}
+                        className={cn(
+                          "w-full text-left p-2 hover:bg-muted/50",
+                          revision.id === selectedId && "bg-muted"
+                        )}
+                        onClick={() => setSelectedId(revision.id)}
+                      >
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">
+                            {format(new Date(revision.updatedAt), "MMM d, HH:mm")}
+                          </span>
+                          <Badge variant="secondary" className="text-[10px]">{sourceLabels[revision.source]}</Badge>
+                          {index === 0 && <Badge variant="outline" className="text-[10px]">Latest</Badge>}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {revision.data.workflowName} · {formatDistanceToNow(new Date(revision.updatedAt), { addSuffix: true })}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </div>
+
+            <div className="flex-1 flex flex-col min-w-0 border rounded-md">
+              <div className="flex flex-wrap items-center gap-2 p-2 border-b">
+                <div className="flex items-center bg-muted rounded-md p-0.5">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className={cn("h-7", compareMode === "previous" && "bg-background shadow-sm")}
+                    onClick={() => setCompareMode("previous")}
+                  >
+                    vs previous revision
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className={cn("h-7", compareMode === "current" && "bg-background shadow-sm")}
+                    onClick={() => setCompareMode("current")}
+                  >
+                    vs current editor
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2 ml-auto">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1"
+                    onClick={handleShowOnCanvas}
+                    disabled={!diff?.hasChanges}
+                  >
+                    <MapPin className="h-3 w-3" />
+                    Show on canvas
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => selected && handleRestore(selected)}
+                    disabled={!selected || !!restoringId}
+                  >
+                    {restoringId ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                    Restore
+                  </Button>
+                </div>
+              </div>
+              <ScrollArea className="flex-1">
+                {diff ? (
+                  <DiffView diff={diff} />
+                ) : (
+                  <div className="p-8 text-center text-sm text-muted-foreground">Select a revision</div>
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
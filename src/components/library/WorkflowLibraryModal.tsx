@@ -0,0 +1,271 @@
+// Workflow Library Modal - Browse and manage workflows saved in Supabase
+import { useState, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Copy, FolderOpen, Pencil, RefreshCw, Save, Search, Trash2, Check, X, Loader2, History, CalendarClock } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import type { WorkflowLibrary } from "@/hooks/useWorkflowLibrary";
+
+interface WorkflowLibraryModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  library: WorkflowLibrary;
+  currentWorkflowId: string | null;
+  autosaveEnabled: boolean;
+  onAutosaveEnabledChange: (enabled: boolean) => void;
+  onSaveCurrent: (asNew: boolean) => Promise<void>;
+  onOpenWorkflow: (id: string) => Promise<void>;
+  // Keep the editor in sync when the open workflow is renamed or deleted
+  onCurrentRenamed: (name: string) => void;
+  onCurrentDeleted: () => void;
+  onOpenHistory: () => void;
+  onOpenTriggers: () => void;
+}
+
+export function WorkflowLibraryModal({
+  open,
+  onOpenChange,
+  library,
+  currentWorkflowId,
+  autosaveEnabled,
+  onAutosaveEnabledChange,
+  onSaveCurrent,
+  onOpenWorkflow,
+  onCurrentRenamed,
+  onCurrentDeleted,
+  onOpenHistory,
+  onOpenTriggers,
+}: WorkflowLibraryModalProps) {
+  const [search, setSearch] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return library.workflows;
+    return library.workflows.filter(w => w.name.toLowerCase().includes(term));
+  }, [library.workflows, search]);
+
+  const handleSave = async (asNew: boolean) => {
+    setBusyId("save");
+    await onSaveCurrent(asNew);
+    setBusyId(null);
+  };
+
+  const handleOpen = async (id: string) => {
+    setBusyId(id);
+    await onOpenWorkflow(id);
+    setBusyId(null);
+    onOpenChange(false);
+  };
+
+  const handleRename = async (id: string) => {
+    const name = renameValue.trim();
+    if (!name) {
+      toast.error("Name cannot be empty");
+      return;
+    }
+    if (await library.renameWorkflow(id, name)) {
+      if (id === currentWorkflowId) onCurrentRenamed(name);
+      toast.success("Workflow renamed");
+    } else {
+      toast.error("Failed to rename workflow");
+    }
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = async (id: string) => {
+    setBusyId(id);
+    if (await library.duplicateWorkflow(id)) {
+      toast.success("Workflow duplicated");
+    } else {
+      toast.error("Failed to duplicate workflow");
+    }
+    setBusyId(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    if (await library.deleteWorkflow(deleteId)) {
+      if (deleteId === currentWorkflowId) onCurrentDeleted();
+      toast.success("Workflow deleted");
+    } else {
+      toast.error("Failed to delete workflow");
+    }
+    setDeleteId(null);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Workflow Library</DialogTitle>
+            <DialogDescription>
+              Workflows saved here are shared with everyone using this project.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" className="gap-2" onClick={() => handleSave(false)} disabled={busyId === "save"}>
+              {busyId === "save" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              {currentWorkflowId ? "Save" : "Save to Library"}
+            </Button>
+            {currentWorkflowId && (
+              <Button size="sm" variant="outline" className="gap-2" onClick={() => handleSave(true)} disabled={busyId === "save"}>
+                <Copy className="h-4 w-4" />
+                Save as New
+              </Button>
+            )}
+            {currentWorkflowId && (
+              <Button size="sm" variant="outline" className="gap-2" onClick={onOpenHistory}>
+                <History className="h-4 w-4" />
+                History
+              </Button>
+            )}
+            {currentWorkflowId && (
+              <Button size="sm" variant="outline" className="gap-2" onClick={onOpenTriggers}>
+                <CalendarClock className="h-4 w-4" />
+                Triggers
+              </Button>
+            )}
+            <div className="flex items-center gap-2 ml-auto">
+              <Switch
+                id="workflow-autosave"
+                checked={autosaveEnabled}
+                onCheckedChange={onAutosaveEnabledChange}
+              />
+              <Label htmlFor="workflow-autosave" className="text-sm">Autosave</Label>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="h-4 w-4 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search workflows..."
+                className="pl-8"
+              />
+            </div>
+            <Button size="icon" variant="ghost" onClick={() => library.refresh()} title="Refresh">
+              <RefreshCw className={`h-4 w-4 ${library.isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+
+          <ScrollArea className="flex-1 min-h-[200px] border rounded-md">
+            {filtered.length === 0 ? (
+              <div className="p-8 text-center text-sm text-muted-foreground">
+                {library.isLoading ? "Loading workflows..." : "No saved workflows yet"}
+              </div>
+            ) : (
+              <div className="divide-y">
+                {filtered.map((item) => (
+                  <div key={item.id} className="flex items-center gap-3 p-3 hover:bg-muted/50">
+                    <div className="flex-1 min-w-0">
+                      {renamingId === item.id ? (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") handleRename(item.id);
+                              if (e.key === "Escape") setRenamingId(null);
+                            }}
+                            className="h-8"
+                            autoFocus
+                          />
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleRename(item.id)}>
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setRenamingId(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{item.name}</span>
+                          {item.id === currentWorkflowId && <Badge variant="secondary">Open</Badge>}
+                        </div>
+                      )}
+                      <div className="text-xs text-muted-foreground">
+                        {item.stageCount} stage(s) · {item.nodeCount} node(s) · updated{" "}
+                        {formatDistanceToNow(new Date(item.updatedAt), { addSuffix: true })}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button size="sm" variant="outline" className="gap-1" onClick={() => handleOpen(item.id)} disabled={busyId === item.id}>
+                        {busyId === item.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <FolderOpen className="h-3 w-3" />}
+                        Open
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        title="Rename"
+                        onClick={() => {
+                          setRenamingId(item.id);
+                          setRenameValue(item.name);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-8 w-8" title="Duplicate" onClick={() => handleDuplicate(item.id)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" title="Delete" onClick={() => setDeleteId(item.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteId} onOpenChange={(o) => !o && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete workflow?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the workflow from the shared library.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
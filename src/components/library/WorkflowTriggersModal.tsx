@@ -0,0 +1,378 @@
+// Workflow Triggers Modal - Schedules and webhooks for headless runs, plus their run history
+import { useState, useMemo, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle, CalendarClock, ChevronDown, ChevronRight, Copy, Loader2, Play, RefreshCw, Trash2, Webhook } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { CRON_PRESETS, getCronError, getNextCronRun } from "@/lib/cronSchedule";
+import { accumulateUsage, formatCost, formatTokenCount, getTotalTokens, EMPTY_USAGE_TOTALS } from "@/lib/llmPricing";
+import { getWebhookUrl, useWorkflowTriggers, type WorkflowTriggersManager } from "@/hooks/useWorkflowTriggers";
+import type { WorkflowRunRecord, WorkflowTrigger } from "@/types/workflow";
+
+interface WorkflowTriggersModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workflowId: string | null;
+  workflowName: string;
+}
+
+const statusStyles: Record<WorkflowRunRecord["status"], string> = {
+  running: "bg-blue-100 text-blue-800 border-blue-300",
+  complete: "bg-green-100 text-green-800 border-green-300",
+  error: "bg-red-100 text-red-800 border-red-300",
+};
+
+const sourceLabels: Record<WorkflowRunRecord["source"], string> = {
+  schedule: "Schedule",
+  webhook: "Webhook",
+  manual: "Run now",
+};
+
+const logStyles: Record<string, string> = {
+  error: "text-destructive",
+  warning: "text-amber-600",
+  success: "text-green-600",
+};
+
+function formatDateTime(value: string): string {
+  return format(new Date(value), "MMM d, HH:mm:ss");
+}
+
+function TriggerCard({ trigger, manager }: { trigger: WorkflowTrigger; manager: WorkflowTriggersManager }) {
+  const [name, setName] = useState(trigger.name);
+  const [cron, setCron] = useState(trigger.cron || "");
+  const [userInput, setUserInput] = useState(trigger.userInput);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    setName(trigger.name);
+    setCron(trigger.cron || "");
+    setUserInput(trigger.userInput);
+  }, [trigger]);
+
+  const isSchedule = trigger.kind === "schedule";
+  const cronError = isSchedule ? getCronError(cron) : null;
+  const isDirty = name !== trigger.name || (isSchedule && (cron !== (trigger.cron || "") || userInput !== trigger.userInput));
+  const webhookUrl = trigger.webhookToken ? getWebhookUrl(trigger.webhookToken) : null;
+
+  const run = async (action: () => Promise<boolean>, failure: string, success?: string) => {
+    setIsBusy(true);
+    const ok = await action();
+    setIsBusy(false);
+    if (!ok) toast.error(failure);
+    else if (success) toast.success(success);
+  };
+
+  const copy = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+    toast.success("Copied to clipboard");
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        {isSchedule ? <CalendarClock className="h-4 w-4 text-muted-foreground" /> : <Webhook className="h-4 w-4 text-muted-foreground" />}
+        <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8 flex-1" placeholder="Name" />
+        <Switch
+          checked={trigger.enabled}
+          onCheckedChange={(enabled) => run(() => manager.updateTrigger(trigger.id, { enabled }), "Failed to update trigger")}
+          disabled={!trigger.enabled && manager.unsupportedNodes.length > 0}
+          title={trigger.enabled ? "Enabled" : "Disabled"}
+        />
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8 text-destructive"
+          title="Delete"
+          onClick={() => run(() => manager.deleteTrigger(trigger.id), "Failed to delete trigger")}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isSchedule ? (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Cron (UTC)</Label>
+              <Input value={cron} onChange={(e) => setCron(e.target.value)} className="h-8 font-mono text-xs" placeholder="0 7 * * *" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Preset</Label>
+              <Select value={CRON_PRESETS.some(p => p.cron === cron) ? cron : ""} onValueChange={setCron}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Custom" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CRON_PRESETS.map((preset) => (
+                    <SelectItem key={preset.cron} value={preset.cron}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className={cn("text-xs", cronError ? "text-destructive" : "text-muted-foreground")}>
+            {cronError
+              ? cronError
+              : !trigger.enabled
+                ? "Paused"
+                : `Next run: ${format(getNextCronRun(cron)!, "EEE MMM d, HH:mm")} (your time)`}
+            {trigger.lastRunAt && ` · last ran ${formatDistanceToNow(new Date(trigger.lastRunAt), { addSuffix: true })}`}
+          </p>
+          <div className="space-y-1">
+            <Label className="text-xs">User Input</Label>
+            <Textarea
+              value={userInput}
+              onChange={(e) => setUserInput(e.target.value)}
+              className="min-h-[60px] text-xs"
+              placeholder="Input for every scheduled run"
+            />
+          </div>
+        </>
+      ) : (
+        <div className="space-y-1">
+          <Label className="text-xs">POST to this URL - the request body becomes the user input</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              value={webhookUrl || "Hidden - regenerate to get a new URL"}
+              readOnly
+              className={cn("h-8 font-mono text-xs", !webhookUrl && "text-muted-foreground")}
+            />
+            {webhookUrl && (
+              <Button size="icon" variant="ghost" className="h-8 w-8" title="Copy URL" onClick={() => copy(webhookUrl)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              title="Regenerate URL - the current one stops working"
+              disabled={isBusy}
+              onClick={() => run(() => manager.regenerateWebhookToken(trigger.id), "Failed to regenerate webhook URL")}
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {webhookUrl && "Copy the URL now - it can't be shown again after the page reloads. "}
+            Responds with the run id straight away. Add <code>&amp;wait=true</code> to get the final outputs in the response instead.
+            {trigger.lastRunAt && ` Last called ${formatDistanceToNow(new Date(trigger.lastRunAt), { addSuffix: true })}.`}
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        {isDirty && (
+          <Button
+            size="sm"
+            disabled={isBusy || !!cronError || !name.trim()}
+            onClick={() => run(
+              () => manager.updateTrigger(trigger.id, { name: name.trim(), ...(isSchedule ? { cron: cron.trim(), userInput } : {}) }),
+              "Failed to save trigger",
+              "Trigger saved"
+            )}
+          >
+            Save
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          disabled={isBusy}
+          onClick={() => run(() => manager.runNow({ triggerId: trigger.id }), "Failed to start run", "Run started")}
+        >
+          {isBusy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />}
+          Run now
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function RunItem({ run, triggerName }: { run: WorkflowRunRecord; triggerName?: string }) {
+  const [expanded, setExpanded] = useState(false);
+  const usage = useMemo(
+    () => Object.entries(run.usage).reduce((totals, [model, u]) => accumulateUsage(totals, model, u), EMPTY_USAGE_TOTALS),
+    [run.usage]
+  );
+  const results = Object.entries(run.nodeResults);
+  const duration = run.finishedAt
+    ? Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000)
+    : null;
+
+  return (
+    <div className="border-b last:border-b-0">
+      <button className="w-full flex items-center gap-2 p-3 text-left hover:bg-muted/50" onClick={() => setExpanded(!expanded)}>
+        {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+        <Badge variant="outline" className={cn("capitalize", statusStyles[run.status])}>
+          {run.status === "running" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {run.status}
+        </Badge>
+        <span className="text-sm">{sourceLabels[run.source]}</span>
+        {triggerName && <span className="text-xs text-muted-foreground truncate">{triggerName}</span>}
+        <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+          {formatDateTime(run.startedAt)}
+          {duration !== null && ` · ${duration}s`}
+          {getTotalTokens(usage) > 0 && ` · ${formatTokenCount(getTotalTokens(usage))} tokens · ${formatCost(usage.cost)}`}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-3">
+          {run.error && <p className="text-xs text-destructive">{run.error}</p>}
+          {run.userInput && (
+            <div className="space-y-1">
+              <Label className="text-xs">Input</Label>
+              <pre className="text-xs bg-muted/50 rounded p-2 whitespace-pre-wrap max-h-32 overflow-auto">{run.userInput}</pre>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs">Outputs</Label>
+            {results.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No node has finished yet</p>
+            ) : (
+              results.map(([nodeId, result]) => (
+                <details key={nodeId} className="text-xs border rounded">
+                  <summary className="cursor-pointer px-2 py-1 flex items-center gap-2">
+                    <span className="font-medium">{result.name}</span>
+                    <span className={cn("text-muted-foreground", result.status === "error" && "text-destructive")}>
+                      {result.status === "idle" ? "skipped" : result.status}
+                    </span>
+                  </summary>
+                  <pre className="p-2 whitespace-pre-wrap max-h-60 overflow-auto border-t">{result.output || "(empty)"}</pre>
+                </details>
+              ))
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Logs</Label>
+            <div className="text-xs font-mono bg-muted/50 rounded p-2 max-h-48 overflow-auto space-y-0.5">
+              {run.logs.map((log, i) => (
+                <div key={i} className={logStyles[log.type]}>
+                  <span className="text-muted-foreground">{format(new Date(log.time), "HH:mm:ss")}</span> {log.message}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WorkflowTriggersModal({ open, onOpenChange, workflowId, workflowName }: WorkflowTriggersModalProps) {
+  const manager = useWorkflowTriggers(workflowId, open);
+  const [busy, setBusy] = useState<string | null>(null);
+  const triggerNames = useMemo(() => new Map(manager.triggers.map(t => [t.id, t.name])), [manager.triggers]);
+
+  const addTrigger = async (kind: WorkflowTrigger["kind"]) => {
+    setBusy(kind);
+    if (!(await manager.createTrigger(kind))) toast.error("Failed to add trigger");
+    setBusy(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Triggers & Runs{workflowName ? ` - ${workflowName}` : ""}</DialogTitle>
+          <DialogDescription>
+            Run the saved version of this workflow on a schedule or from a webhook, without the editor open.
+            Loops, Beast Mode, sub-workflows and browser-only functions are not supported in these runs.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!workflowId ? (
+          <div className="p-8 text-center text-sm text-muted-foreground">Save the workflow to the library to add triggers.</div>
+        ) : (
+          <Tabs defaultValue="triggers" className="flex-1 min-h-0 flex flex-col">
+            <div className="flex items-center gap-2">
+              <TabsList>
+                <TabsTrigger value="triggers">Triggers ({manager.triggers.length})</TabsTrigger>
+                <TabsTrigger value="runs">Run History ({manager.runs.length})</TabsTrigger>
+              </TabsList>
+              <Button size="icon" variant="ghost" className="ml-auto" onClick={() => manager.refresh()} title="Refresh">
+                <RefreshCw className={`h-4 w-4 ${manager.isLoading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+
+            <TabsContent value="triggers" className="flex-1 min-h-0 flex flex-col gap-2">
+              {manager.unsupportedNodes.length > 0 && (
+                <div className="flex gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-xs text-amber-800">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  <div className="space-y-1">
+                    <div className="font-medium">The saved workflow can't run from a trigger - change these nodes and save it first:</div>
+                    {manager.unsupportedNodes.map((issue, i) => (
+                      <div key={i}>{issue}</div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" className="gap-2" onClick={() => addTrigger("schedule")} disabled={!!busy || manager.unsupportedNodes.length > 0}>
+                  {busy === "schedule" ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarClock className="h-4 w-4" />}
+                  Add Schedule
+                </Button>
+                <Button size="sm" variant="outline" className="gap-2" onClick={() => addTrigger("webhook")} disabled={!!busy || manager.unsupportedNodes.length > 0}>
+                  {busy === "webhook" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Webhook className="h-4 w-4" />}
+                  Add Webhook
+                </Button>
+              </div>
+              <ScrollArea className="flex-1 min-h-[200px]">
+                {manager.triggers.length === 0 ? (
+                  <div className="p-8 text-center text-sm text-muted-foreground">
+                    {manager.isLoading ? "Loading triggers..." : "No schedules or webhooks yet"}
+                  </div>
+                ) : (
+                  <div className="space-y-2 pr-3">
+                    {manager.triggers.map((trigger) => (
+                      <TriggerCard key={trigger.id} trigger={trigger} manager={manager} />
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="runs" className="flex-1 min-h-0">
+              <ScrollArea className="h-[50vh] border rounded-md">
+                {manager.runs.length === 0 ? (
+                  <div className="p-8 text-center text-sm text-muted-foreground">
+                    {manager.isLoading ? "Loading runs..." : "No triggered runs yet"}
+                  </div>
+                ) : (
+                  manager.runs.map((run) => (
+                    <RunItem key={run.id} run={run} triggerName={run.triggerId ? triggerNames.get(run.triggerId) : undefined} />
+                  ))
+                )}
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
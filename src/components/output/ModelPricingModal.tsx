@@ -0,0 +1,160 @@
+// Model Pricing Modal - Edit the per-model price table used for cost estimates
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DollarSign, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { ModelPriceTable } from "@/types/usage";
+import { DEFAULT_MODEL_PRICES } from "@/lib/llmPricing";
+import { useModelPrices } from "@/hooks/useModelPrices";
+
+interface ModelPricingModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ModelPricingModal({ open, onOpenChange }: ModelPricingModalProps) {
+  const { prices, savePrices, resetPrices } = useModelPrices();
+  const [draft, setDraft] = useState<ModelPriceTable>({});
+  const [newModel, setNewModel] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setDraft(prices);
+      setNewModel("");
+    }
+  }, [open, prices]);
+
+  const updatePrice = (model: string, field: "input" | "output", value: string) => {
+    const parsed = parseFloat(value);
+    setDraft((prev) => ({
+      ...prev,
+      [model]: { ...prev[model], [field]: isNaN(parsed) || parsed < 0 ? 0 : parsed },
+    }));
+  };
+
+  const addModel = () => {
+    const model = newModel.trim();
+    if (!model || draft[model]) return;
+    setDraft((prev) => ({ ...prev, [model]: { input: 0, output: 0 } }));
+    setNewModel("");
+  };
+
+  const removeModel = (model: string) => {
+    setDraft((prev) => {
+      const { [model]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleSave = () => {
+    savePrices(draft);
+    toast.success("Model prices saved");
+    onOpenChange(false);
+  };
+
+  const handleReset = () => {
+    resetPrices();
+    toast.success("Model prices reset to defaults");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <DollarSign className="w-5 h-5 text-primary" />
+            Model Prices
+          </DialogTitle>
+          <DialogDescription>
+            USD per million tokens, used to estimate run costs. Thinking tokens are billed at the output rate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_90px_90px_32px] gap-2 px-1 text-xs text-muted-foreground">
+          <span>Model</span>
+          <span>Input</span>
+          <span>Output</span>
+          <span />
+        </div>
+        <ScrollArea className="flex-1 min-h-[200px] max-h-[50vh]">
+          <div className="space-y-2 px-1">
+            {Object.entries(draft).map(([model, price]) => (
+              <div key={model} className="grid grid-cols-[1fr_90px_90px_32px] gap-2 items-center">
+                <span className="text-sm font-mono truncate" title={model}>{model}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={price.input}
+                  onChange={(e) => updatePrice(model, "input", e.target.value)}
+                  className="h-8"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={price.output}
+                  onChange={(e) => updatePrice(model, "output", e.target.value)}
+                  className="h-8"
+                />
+                {DEFAULT_MODEL_PRICES[model] ? (
+                  <span />
+                ) : (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive"
+                    title="Remove"
+                    onClick={() => removeModel(model)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={newModel}
+            onChange={(e) => setNewModel(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addModel()}
+            placeholder="Add a model id..."
+            className="h-8"
+          />
+          <Button size="sm" variant="outline" className="gap-1" onClick={addModel} disabled={!newModel.trim()}>
+            <Plus className="h-3 w-3" />
+            Add
+          </Button>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="outline" size="sm" className="gap-1" onClick={handleReset}>
+            <RotateCcw className="w-3 h-3" />
+            Reset to Defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" className="gap-1" onClick={handleSave}>
+              <Save className="w-3 h-3" />
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
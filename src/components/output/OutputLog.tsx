@@ -1,9 +1,12 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ChevronDown, Terminal, CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
+import { ChevronDown, Terminal, CheckCircle2, AlertCircle, Loader2, Coins } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
+import type { UsageTotals } from "@/types/usage";
+import { formatCost, formatTokenCount, formatUsage, getTotalTokens } from "@/lib/llmPricing";
+import { ModelPricingModal } from "./ModelPricingModal";
 
 export interface LogEntry {
   time: string;
@@ -13,6 +16,7 @@ export interface LogEntry {
 
 interface OutputLogProps {
   logs: LogEntry[];
+  usage?: UsageTotals;
 }
 
 const logIcons = {
@@ -31,8 +35,10 @@ const logColors = {
   warning: "text-warning",
 };
 
-export const OutputLog = ({ logs }: OutputLogProps) => {
+export const OutputLog = ({ logs, usage }: OutputLogProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [pricingOpen, setPricingOpen] = useState(false);
+  const totalTokens = getTotalTokens(usage);
 
   return (
     <Card className={cn(
@@ -49,17 +55,37 @@ export const OutputLog = ({ logs }: OutputLogProps) => {
             </span>
           )}
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => setIsExpanded(!isExpanded)}
-          className="h-7"
-        >
-          <ChevronDown className={cn(
-            "h-4 w-4 transition-transform",
-            !isExpanded && "rotate-180"
-          )} />
-        </Button>
+        <div className="flex items-center gap-2">
+          {usage && totalTokens > 0 && (
+            <span
+              className="text-xs text-muted-foreground"
+              title={formatUsage(usage)}
+            >
+              {formatTokenCount(totalTokens)} tokens · ~{formatCost(usage.cost)}
+              {usage.unpricedModels.length > 0 && " (partial)"}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setPricingOpen(true)}
+            className="h-7"
+            title="Model prices"
+          >
+            <Coins className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="h-7"
+          >
+            <ChevronDown className={cn(
+              "h-4 w-4 transition-transform",
+              !isExpanded && "rotate-180"
+            )} />
+          </Button>
+        </div>
       </div>
 
       {isExpanded && (
@@ -90,6 +116,7 @@ export const OutputLog = ({ logs }: OutputLogProps) => {
           </div>
         </ScrollArea>
       )}
+      <ModelPricingModal open={pricingOpen} onOpenChange={setPricingOpen} />
     </Card>
   );
 };
@@ -0,0 +1,191 @@
+// Memory Viewer - Browse, edit, delete and export the entries a Memory node has stored
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Check, Database, Download, Pencil, Trash2, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useMemoryEntries } from "@/hooks/useMemoryEntries";
+import { UNSAVED_MEMORY_SCOPE } from "@/lib/memoryStore";
+
+interface MemoryViewerProps {
+  scope: string;
+  memoryKey: string;
+}
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export function MemoryViewer({ scope, memoryKey }: MemoryViewerProps) {
+  const { entries, saveEntries, clearEntries } = useMemoryEntries(scope, memoryKey);
+  const [open, setOpen] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editedOutput, setEditedOutput] = useState("");
+
+  const persist = (next: typeof entries) => {
+    if (!saveEntries(next)) {
+      toast({ title: "Save failed", description: "Browser storage is full.", variant: "destructive" });
+      return false;
+    }
+    return true;
+  };
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setEditedOutput(entries[index].output);
+  };
+
+  const saveEdit = () => {
+    if (editingIndex === null) return;
+    const next = entries.map((entry, i) => (i === editingIndex ? { ...entry, output: editedOutput } : entry));
+    if (persist(next)) setEditingIndex(null);
+  };
+
+  const deleteEntry = (index: number) => {
+    persist(entries.filter((_, i) => i !== index));
+    if (editingIndex === index) setEditingIndex(null);
+  };
+
+  const exportCsv = () => {
+    const csv = entries.map(e =>
+      `"${e.runId}","${new Date(e.timestamp).toISOString()}","${e.output.replace(/"/g, '""')}"`
+    ).join("\n");
+    downloadFile(`"Run ID","Timestamp","Output"\n${csv}`, `memory-${memoryKey}-${Date.now()}.csv`, "text/csv");
+  };
+
+  const exportJson = () => {
+    downloadFile(JSON.stringify(entries, null, 2), `memory-${memoryKey}-${Date.now()}.json`, "application/json");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Memory Entries</Label>
+        <Dialog
+          open={open}
+          onOpenChange={(next) => {
+            setOpen(next);
+            if (!next) setEditingIndex(null);
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="h-7 text-xs">
+              <Database className="h-3 w-3 mr-1" />
+              View ({entries.length})
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-3xl max-h-[80vh]">
+            <DialogHeader>
+              <DialogTitle>Memory: {memoryKey}</DialogTitle>
+              <DialogDescription>
+                Stored outputs from workflow runs, oldest first. Edits and deletions apply to the next run.
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="h-[500px]">
+              {entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No entries yet. Run the workflow to store data.
+                </p>
+              ) : (
+                <div className="space-y-2 pr-3">
+                  {entries.map((entry, idx) => (
+                    <Card key={`${entry.runId}-${entry.timestamp}-${idx}`} className="p-3 space-y-2">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="font-mono">{entry.runId.slice(-8)}</span>
+                        <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                        <div className="ml-auto flex gap-1">
+                          {editingIndex === idx ? (
+                            <>
+                              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Save" onClick={saveEdit}>
+                                <Check className="h-3 w-3" />
+                              </Button>
+                              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Cancel" onClick={() => setEditingIndex(null)}>
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </>
+                          ) : (
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Edit" onClick={() => startEditing(idx)}>
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0 text-destructive"
+                            title="Delete"
+                            onClick={() => deleteEntry(idx)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                      {editingIndex === idx ? (
+                        <Textarea
+                          value={editedOutput}
+                          onChange={(e) => setEditedOutput(e.target.value)}
+                          className="min-h-[120px] text-xs font-mono"
+                        />
+                      ) : (
+                        <p className="text-xs whitespace-pre-wrap break-words line-clamp-6">{entry.output}</p>
+                      )}
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={exportCsv} disabled={entries.length === 0}>
+                <Download className="h-3 w-3 mr-1" />
+                Export CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={exportJson} disabled={entries.length === 0}>
+                <Download className="h-3 w-3 mr-1" />
+                Export JSON
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                className="ml-auto"
+                disabled={entries.length === 0}
+                onClick={() => {
+                  if (confirm("Clear all memory entries?")) {
+                    clearEntries();
+                    setOpen(false);
+                  }
+                }}
+              >
+                Clear Memory
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+      <Card className="p-3 bg-muted/30">
+        <p className="text-xs text-muted-foreground">
+          {entries.length === 0
+            ? "No entries stored yet"
+            : `${entries.length} entry(s) stored`
+          }
+          {scope === UNSAVED_MEMORY_SCOPE && " - save the workflow to the library to keep its memory separate"}
+        </p>
+      </Card>
+    </div>
+  );
+}
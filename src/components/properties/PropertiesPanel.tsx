@@ -4,7 +4,7 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { X, Plus, Settings, Play, Database, Download, Eye, EyeOff, Save, Upload, Lock, Unlock, Copy, BookPlus, Bot, Image, Volume2, Loader2, Zap, ArrowDown } from "lucide-react";
+import { X, Plus, Settings, Play, Database, Download, Eye, EyeOff, Save, Upload, Lock, Unlock, Copy, BookPlus, Bot, Image, Volume2, Loader2, Zap, ArrowDown, Rows3, ShieldCheck } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -15,9 +15,8 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Switch } from "@/components/ui/switch";
 import { useState, useRef, useEffect } from "react";
-import type { WorkflowNode, AgentNode, FunctionNode, ToolInstance } from "@/types/workflow";
+import type { WorkflowNode, AgentNode, FunctionNode, NodeExecutionPolicy, ToolInstance } from "@/types/workflow";
 import { getFunctionById } from "@/lib/functionDefinitions";
-import { FunctionExecutor } from "@/lib/functionExecutor";
 import {
   Dialog,
   DialogContent,
@@ -47,6 +46,15 @@ import { extractTextFromFile, formatExtractedContent, ExtractedContent } from "@
 import { parseExcelFile, ExcelData } from "@/utils/parseExcel";
 import { ExcelSelector } from "@/components/ExcelSelector";
 import { GitHubTreeModal } from "@/components/github/GitHubTreeModal";
+import { MemoryViewer } from "@/components/properties/MemoryViewer";
+import { SubWorkflowConfig } from "@/components/properties/SubWorkflowConfig";
+import { TableInputConfig } from "@/components/properties/TableInputConfig";
+import { getMemoryScope } from "@/lib/memoryStore";
+import type { WorkflowLibrary } from "@/hooks/useWorkflowLibrary";
+import { useModelRegistry } from "@/hooks/useModelRegistry";
+import { DEFAULT_MODEL_ID, getModel } from "@/lib/modelRegistry";
+import { getSchemaFieldNames, parseAgentResponseSchema } from "@/lib/agentSchema";
+import { DEFAULT_RETRY_DELAY_MS, MAX_NODE_RETRIES, supportsRetries } from "@/lib/executionPolicy";
 interface PropertiesPanelProps {
   selectedAgent: AgentNode | undefined;
   selectedNode?: WorkflowNode;
@@ -65,6 +73,8 @@ interface PropertiesPanelProps {
     stages: any[];
     connections: any[];
   };
+  workflowId?: string | null;
+  library?: WorkflowLibrary;
 }
 
 const availableTools = [
@@ -90,10 +100,11 @@ export const PropertiesPanel = ({
   onCloneNode,
   onAddAgentToLibrary,
   workflow,
+  workflowId,
+  library,
 }: PropertiesPanelProps) => {
   const [toolDialogOpen, setToolDialogOpen] = useState(false);
   const [configDialogInstance, setConfigDialogInstance] = useState<string | null>(null);
-  const [memoryDialogOpen, setMemoryDialogOpen] = useState(false);
   const [isEditingOutput, setIsEditingOutput] = useState(false);
   const [editedOutput, setEditedOutput] = useState("");
   const [isEditingSystemPrompt, setIsEditingSystemPrompt] = useState(false);
@@ -116,9 +127,23 @@ export const PropertiesPanel = ({
   const [imagePreviewOpen, setImagePreviewOpen] = useState(false);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [githubTreeOpen, setGithubTreeOpen] = useState(false);
+  const { models } = useModelRegistry();
 
   // Use selectedNode if provided, otherwise fall back to selectedAgent
   const activeNode = selectedNode || selectedAgent;
+  const agentCapabilities = getModel(
+    (activeNode?.nodeType === "agent" && (activeNode as AgentNode).model) || DEFAULT_MODEL_ID
+  ).capabilities;
+
+  const updatePolicy = (updates: Partial<NodeExecutionPolicy>) => {
+    if (!activeNode) return;
+    const policy = { ...activeNode.policy, ...updates };
+    if (activeNode.nodeType === "agent") {
+      onUpdateAgent(activeNode.id, { policy });
+    } else if (onUpdateNode) {
+      onUpdateNode(activeNode.id, { policy });
+    }
+  };
 
   // Fetch ElevenLabs voices when a TTS function is selected
   useEffect(() => {
@@ -470,6 +495,12 @@ export const PropertiesPanel = ({
     // Logic Gate has custom UI - skip auto-generated config fields
     if (node.functionType === "logic_gate") return null;
 
+    if (node.functionType === "sub_workflow") {
+      return onUpdateNode ? (
+        <SubWorkflowConfig node={node} library={library} currentWorkflowId={workflowId} onUpdateNode={onUpdateNode} />
+      ) : null;
+    }
+
     // Special rendering for Content function
     if (node.functionType === "content") {
       return (
@@ -741,6 +772,121 @@ export const PropertiesPanel = ({
                     <SelectItem value="separate">Separate (one output per file)</SelectItem>
                   </SelectContent>
                 </Select>
+              ) : key === "language" && node.functionType === "code" ? (
+                <Select
+                  value={node.config[key] ?? schema.default ?? "javascript"}
+                  onValueChange={(value) =>
+                    updateNodeConfig({ ...node.config, [key]: value })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="javascript">JavaScript</SelectItem>
+                    <SelectItem value="typescript">TypeScript</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : key === "language" && node.functionType === "json_query" ? (
+                <Select
+                  value={node.config[key] ?? schema.default ?? "jsonpath"}
+                  onValueChange={(value) =>
+                    updateNodeConfig({ ...node.config, [key]: value })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="jsonpath">JSONPath</SelectItem>
+                    <SelectItem value="jmespath">JMESPath</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : key === "schema" && node.functionType === "validate_json" ? (
+                <Textarea
+                  id={key}
+                  placeholder={schema.placeholder}
+                  value={
+                    typeof node.config[key] === "string"
+                      ? node.config[key]
+                      : node.config[key] ? JSON.stringify(node.config[key], null, 2) : ""
+                  }
+                  onChange={(e) =>
+                    updateNodeConfig({ ...node.config, [key]: e.target.value })
+                  }
+                  spellCheck={false}
+                  className="min-h-[160px] font-mono text-xs"
+                />
+              ) : key === "code" && node.functionType === "code" ? (
+                <Textarea
+                  id={key}
+                  placeholder={schema.placeholder}
+                  value={node.config[key] ?? schema.default ?? ""}
+                  onChange={(e) =>
+                    updateNodeConfig({ ...node.config, [key]: e.target.value })
+                  }
+                  spellCheck={false}
+                  className="min-h-[160px] font-mono text-xs"
+                />
+              ) : key === "table" && node.functionType === "table_input" ? (
+                <TableInputConfig
+                  table={node.config.table}
+                  delimiter={node.config.delimiter}
+                  onChange={(table) => updateNodeConfig({ ...node.config, table })}
+                />
+              ) : key === "operator" && node.functionType === "table_filter" ? (
+                <Select
+                  value={node.config[key] ?? schema.default ?? "equals"}
+                  onValueChange={(value) =>
+                    updateNodeConfig({ ...node.config, [key]: value })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="equals">Equals</SelectItem>
+                    <SelectItem value="not_equals">Does not equal</SelectItem>
+                    <SelectItem value="contains">Contains</SelectItem>
+                    <SelectItem value="not_contains">Does not contain</SelectItem>
+                    <SelectItem value="greater_than">Greater than</SelectItem>
+                    <SelectItem value="less_than">Less than</SelectItem>
+                    <SelectItem value="is_empty">Is empty</SelectItem>
+                    <SelectItem value="not_empty">Is not empty</SelectItem>
+                    <SelectItem value="regex">Matches regex</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : key === "direction" && node.functionType === "table_sort" ? (
+                <Select
+                  value={node.config[key] ?? schema.default ?? "asc"}
+                  onValueChange={(value) =>
+                    updateNodeConfig({ ...node.config, [key]: value })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="asc">Ascending</SelectItem>
+                    <SelectItem value="desc">Descending</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : key === "outputMode" && node.functionType === "memory" ? (
+                <Select
+                  value={node.config[key] ?? schema.default ?? "all"}
+                  onValueChange={(value) =>
+                    updateNodeConfig({ ...node.config, [key]: value })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All entries (concatenated)</SelectItem>
+                    <SelectItem value="latest">Latest entry only</SelectItem>
+                    <SelectItem value="json_array">JSON array</SelectItem>
+                  </SelectContent>
+                </Select>
               ) : (key === "selectedPaths" || key === "outputMode") && node.functionType === "github_files" ? (
                 // Hide these fields - managed by dedicated UI sections
                 null
@@ -771,104 +917,11 @@ export const PropertiesPanel = ({
   const renderMemoryViewer = (node: FunctionNode) => {
     if (node.functionType !== "memory") return null;
 
-    const memoryKey = node.config.memoryKey || "default";
-    const entries = FunctionExecutor.getMemoryEntries(memoryKey);
-
     return (
-      <div className="space-y-2">
-        <div className="flex items-center justify-between">
-          <Label className="text-sm font-medium">Memory Entries</Label>
-          <Dialog open={memoryDialogOpen} onOpenChange={setMemoryDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline" size="sm" className="h-7 text-xs">
-                <Database className="h-3 w-3 mr-1" />
-                View ({entries.length})
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-3xl max-h-[80vh]">
-              <DialogHeader>
-                <DialogTitle>Memory: {memoryKey}</DialogTitle>
-                <DialogDescription>
-                  All stored outputs from workflow runs
-                </DialogDescription>
-              </DialogHeader>
-              <ScrollArea className="h-[500px]">
-                {entries.length === 0 ? (
-                  <p className="text-sm text-muted-foreground text-center py-8">
-                    No entries yet. Run the workflow to store data.
-                  </p>
-                ) : (
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead className="w-[100px]">Run ID</TableHead>
-                        <TableHead className="w-[150px]">Timestamp</TableHead>
-                        <TableHead>Output</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {entries.map((entry, idx) => (
-                        <TableRow key={idx}>
-                          <TableCell className="font-mono text-xs">
-                            {entry.runId.slice(-8)}
-                          </TableCell>
-                          <TableCell className="text-xs">
-                            {new Date(entry.timestamp).toLocaleString()}
-                          </TableCell>
-                          <TableCell className="text-xs max-w-[400px] truncate">
-                            {entry.output}
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                )}
-              </ScrollArea>
-              <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => {
-                    const csv = entries.map(e => 
-                      `"${e.runId}","${new Date(e.timestamp).toISOString()}","${e.output.replace(/"/g, '""')}"`
-                    ).join("\n");
-                    const blob = new Blob([`"Run ID","Timestamp","Output"\n${csv}`], { type: "text/csv" });
-                    const url = URL.createObjectURL(blob);
-                    const a = document.createElement("a");
-                    a.href = url;
-                    a.download = `memory-${memoryKey}-${Date.now()}.csv`;
-                    a.click();
-                    URL.revokeObjectURL(url);
-                  }}
-                >
-                  <Download className="h-3 w-3 mr-1" />
-                  Export CSV
-                </Button>
-                <Button
-                  variant="destructive"
-                  size="sm"
-                  onClick={() => {
-                    if (confirm("Clear all memory entries?")) {
-                      FunctionExecutor.clearMemory(memoryKey);
-                      setMemoryDialogOpen(false);
-                    }
-                  }}
-                >
-                  Clear Memory
-                </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
-        </div>
-        <Card className="p-3 bg-muted/30">
-          <p className="text-xs text-muted-foreground">
-            {entries.length === 0 
-              ? "No entries stored yet"
-              : `${entries.length} entry(s) stored`
-            }
-          </p>
-        </Card>
-      </div>
+      <MemoryViewer
+        scope={getMemoryScope(workflowId)}
+        memoryKey={node.config.memoryKey || "default"}
+      />
     );
   };
 
@@ -1086,25 +1139,18 @@ export const PropertiesPanel = ({
                       <div className="space-y-2">
                         <Label htmlFor="agent-model-select" className="text-sm font-medium">Model</Label>
                         <Select 
-                          value={(activeNode as AgentNode).model || "gemini-2.5-flash"} 
+                          value={(activeNode as AgentNode).model || DEFAULT_MODEL_ID} 
                           onValueChange={(value) => onUpdateAgent(activeNode.id, { 
-                            model: value as AgentNode["model"]
+                            model: value
                           })}
                         >
                           <SelectTrigger id="agent-model-select" className="w-full">
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="gemini-2.5-flash">Gemini 2.5 Flash</SelectItem>
-                            <SelectItem value="gemini-2.5-flash-lite">Gemini 2.5 Flash Lite</SelectItem>
-                            <SelectItem value="gemini-3-pro-preview">Gemini 3 Pro Preview</SelectItem>
-                            <SelectItem value="gemini-3-flash-preview">Gemini 3 Flash Preview</SelectItem>
-                            <SelectItem value="claude-sonnet-4-5">Claude Sonnet 4.5</SelectItem>
-                            <SelectItem value="claude-haiku-4-5">Claude Haiku 4.5</SelectItem>
-                            <SelectItem value="claude-opus-4-5">Claude Opus 4.5</SelectItem>
-                            <SelectItem value="grok-4-1-fast-reasoning">Grok 4.1 Fast Reasoning</SelectItem>
-                            <SelectItem value="grok-4-1-fast-non-reasoning">Grok 4.1 Fast Non-Reasoning</SelectItem>
-                            <SelectItem value="grok-code-fast-1">Grok Code Fast 1</SelectItem>
+                            {models.map((model) => (
+                              <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -1124,21 +1170,15 @@ export const PropertiesPanel = ({
                             <SelectItem value="8192">Medium (8,192 tokens)</SelectItem>
                             <SelectItem value="16384">Large (16,384 tokens)</SelectItem>
                             <SelectItem value="32768">XL (32,768 tokens)</SelectItem>
-                            {(activeNode as AgentNode).model === "claude-opus-4-5" ? (
-                              <SelectItem value="32000">2XL (32,000 tokens)</SelectItem>
-                            ) : (activeNode as AgentNode).model?.startsWith("claude-") ? (
-                              <SelectItem value="64000">2XL (64,000 tokens)</SelectItem>
-                            ) : (
-                              <SelectItem value="65535">2XL (65,535 tokens)</SelectItem>
-                            )}
+                            <SelectItem value={agentCapabilities.maxOutputTokens.toString()}>
+                              2XL ({agentCapabilities.maxOutputTokens.toLocaleString()} tokens)
+                            </SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
 
                       {/* Thinking Budget - only for compatible models */}
-                      {(activeNode as AgentNode).model !== "gemini-3-pro-preview" &&
-                       !(activeNode as AgentNode).model?.startsWith("claude-") && 
-                       !(activeNode as AgentNode).model?.startsWith("grok-") && (
+                      {agentCapabilities.thinking && (
                         <div className="space-y-2">
                           <div className="flex items-center justify-between">
                             <Label htmlFor="agent-thinking-enabled" className="text-sm font-medium">
@@ -1170,24 +1210,11 @@ export const PropertiesPanel = ({
                                 </SelectTrigger>
                                 <SelectContent>
                                   <SelectItem value="-1">Fully Activated (Auto)</SelectItem>
-                                  {(activeNode as AgentNode).model === "gemini-2.5-flash" && (
-                                    <>
-                                      <SelectItem value="1024">Small (1,024 tokens)</SelectItem>
-                                      <SelectItem value="4096">Medium (4,096 tokens)</SelectItem>
-                                      <SelectItem value="8192">Large (8,192 tokens)</SelectItem>
-                                      <SelectItem value="16384">XL (16,384 tokens)</SelectItem>
-                                      <SelectItem value="24576">Max (24,576 tokens)</SelectItem>
-                                    </>
-                                  )}
-                                  {(activeNode as AgentNode).model === "gemini-2.5-flash-lite" && (
-                                    <>
-                                      <SelectItem value="512">Minimum (512 tokens)</SelectItem>
-                                      <SelectItem value="1024">Small (1,024 tokens)</SelectItem>
-                                      <SelectItem value="2048">Medium (2,048 tokens)</SelectItem>
-                                      <SelectItem value="4096">Large (4,096 tokens)</SelectItem>
-                                      <SelectItem value="8192">Max (8,192 tokens)</SelectItem>
-                                    </>
-                                  )}
+                                  {agentCapabilities.thinkingBudgets?.map((option) => (
+                                    <SelectItem key={option.value} value={option.value.toString()}>
+                                      {option.label} ({option.value.toLocaleString()} tokens)
+                                    </SelectItem>
+                                  ))}
                                 </SelectContent>
                               </Select>
                             </div>
@@ -1415,6 +1442,62 @@ export const PropertiesPanel = ({
                   Use {"{input}"} for stage inputs
                 </p>
               </div>
+
+              {/* Structured output - JSON Schema the response must satisfy */}
+              <div className="space-y-2">
+                <Label htmlFor="response-schema" className="text-sm font-medium">
+                  Response Schema
+                </Label>
+                <Textarea
+                  id="response-schema"
+                  placeholder='{"type": "object", "properties": {"summary": {"type": "string"}}, "required": ["summary"]}'
+                  className="min-h-[100px] font-mono text-xs"
+                  value={(activeNode as AgentNode).responseSchema || ""}
+                  onChange={(e) =>
+                    onUpdateAgent(activeNode.id, { responseSchema: e.target.value })
+                  }
+                />
+                {(() => {
+                  let schemaFields: string[] = [];
+                  try {
+                    schemaFields = getSchemaFieldNames(parseAgentResponseSchema(activeNode as AgentNode));
+                  } catch (error) {
+                    return (
+                      <p className="text-xs text-destructive">
+                        {error instanceof Error ? error.message : String(error)}
+                      </p>
+                    );
+                  }
+                  return (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        Optional JSON Schema. The response is validated and retried until it matches.
+                      </p>
+                      {(activeNode as AgentNode).responseSchema?.trim() && (
+                        <div className="flex items-center justify-between space-x-2">
+                          <div>
+                            <Label htmlFor="schema-ports-toggle" className="text-xs cursor-pointer">
+                              Expose fields as output ports
+                            </Label>
+                            {schemaFields.length > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {schemaFields.join(", ")}
+                              </p>
+                            )}
+                          </div>
+                          <Switch
+                            id="schema-ports-toggle"
+                            checked={(activeNode as AgentNode).schemaOutputPorts || false}
+                            onCheckedChange={(checked) =>
+                              onUpdateAgent(activeNode.id, { schemaOutputPorts: checked })
+                            }
+                          />
+                        </div>
+                      )}
+                    </>
+                  );
+                })()}
+              </div>
             </>
           )}
 
@@ -1620,8 +1703,8 @@ export const PropertiesPanel = ({
                 </div>
               )}
 
-              {/* Pronghorn Input Count */}
-              {(activeNode as FunctionNode).functionType === "pronghorn" && (
+              {/* Pronghorn / Code Input Count */}
+              {((activeNode as FunctionNode).functionType === "pronghorn" || (activeNode as FunctionNode).functionType === "code") && (
                 <div className="space-y-2">
                   <Label className="text-sm font-medium">Number of Inputs</Label>
                   <div className="flex items-center gap-3 p-3 border rounded-lg bg-muted/30">
@@ -1671,7 +1754,9 @@ export const PropertiesPanel = ({
                     </Button>
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Each input socket receives text or media separately.
+                    {(activeNode as FunctionNode).functionType === "code"
+                      ? "Each input socket is available to the code as inputs.input_1, inputs.input_2, ..."
+                      : "Each input socket receives text or media separately."}
                   </p>
                 </div>
               )}
@@ -1824,6 +1909,53 @@ export const PropertiesPanel = ({
             </>
           )}
 
+          {/* Map Rows - agents only */}
+          {activeNode.nodeType === "agent" && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="map-rows-toggle" className="text-sm font-medium flex items-center gap-2 cursor-pointer">
+                  <Rows3 className="h-4 w-4 text-emerald-500" />
+                  Map Rows
+                </Label>
+                <Switch
+                  id="map-rows-toggle"
+                  checked={(activeNode as AgentNode).mapRows?.enabled || false}
+                  onCheckedChange={(checked) =>
+                    onUpdateAgent(activeNode.id, {
+                      mapRows: { outputColumn: "result", ...(activeNode as AgentNode).mapRows, enabled: checked },
+                    })
+                  }
+                />
+              </div>
+
+              {(activeNode as AgentNode).mapRows?.enabled && (
+                <Card className="p-3 bg-muted/30 space-y-3">
+                  <p className="text-xs text-muted-foreground">
+                    Run this agent once per row of the table it receives. Use {"{Column Name}"} placeholders in the
+                    user prompt; {"{input}"} is the whole row as JSON and {"{index}"} its row number.
+                  </p>
+                  <div className="space-y-2">
+                    <Label htmlFor="map-rows-column" className="text-xs">Output Column</Label>
+                    <Input
+                      id="map-rows-column"
+                      className="h-8 text-xs"
+                      placeholder="result"
+                      value={(activeNode as AgentNode).mapRows?.outputColumn ?? ""}
+                      onChange={(e) =>
+                        onUpdateAgent(activeNode.id, {
+                          mapRows: { ...(activeNode as AgentNode).mapRows!, outputColumn: e.target.value },
+                        })
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Each response goes in this column. With schema field ports on, every field gets its own column instead.
+                    </p>
+                  </div>
+                </Card>
+              )}
+            </div>
+          )}
+
           {/* Beast Mode - for both Agents and Functions */}
           <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -1888,6 +2020,110 @@ export const PropertiesPanel = ({
             )}
           </div>
 
+          {/* Execution Policy - retries, timeout, fallback model and error handling */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-sky-500" />
+              Execution Policy
+            </Label>
+            <Card className="p-3 bg-muted/30 space-y-3">
+              {supportsRetries(activeNode) ? (
+                <>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="policy-retries" className="text-xs">Retries</Label>
+                      <Select
+                        value={String(activeNode.policy?.retries ?? 0)}
+                        onValueChange={(value) => updatePolicy({ retries: Number(value) })}
+                      >
+                        <SelectTrigger id="policy-retries" className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from({ length: MAX_NODE_RETRIES + 1 }, (_, count) => (
+                            <SelectItem key={count} value={String(count)}>{count === 0 ? "None" : count}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="policy-delay" className="text-xs">Backoff (s)</Label>
+                      <Input
+                        id="policy-delay"
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        className="h-8 text-xs"
+                        disabled={!activeNode.policy?.retries}
+                        value={(activeNode.policy?.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) / 1000}
+                        onChange={(e) => updatePolicy({ retryDelayMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="policy-timeout" className="text-xs">Timeout (s)</Label>
+                      <Input
+                        id="policy-timeout"
+                        type="number"
+                        min={0}
+                        className="h-8 text-xs"
+                        placeholder="None"
+                        value={activeNode.policy?.timeoutSeconds || ""}
+                        onChange={(e) => updatePolicy({ timeoutSeconds: Math.max(0, Number(e.target.value) || 0) || undefined })}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Failed attempts are retried after the backoff, doubling each time. The timeout applies to each attempt.
+                  </p>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Approvals wait for a reviewer, so they run once with no retries or timeout.
+                </p>
+              )}
+
+              {activeNode.nodeType === "agent" && (
+                <div className="space-y-1">
+                  <Label htmlFor="policy-fallback-model" className="text-xs">Fallback Model</Label>
+                  <Select
+                    value={activeNode.policy?.fallbackModel || "none"}
+                    onValueChange={(value) => updatePolicy({ fallbackModel: value === "none" ? undefined : value })}
+                  >
+                    <SelectTrigger id="policy-fallback-model" className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {models.map((model) => (
+                        <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Tried with the same retries once the agent's own model keeps failing.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-2 pt-2 border-t">
+                <div>
+                  <Label htmlFor="policy-continue-on-error" className="text-xs font-medium cursor-pointer">
+                    Continue on Error
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Adds an "error" output port that carries the failure message. The other ports stay empty, so
+                    their dependents skip while nodes wired to "error" can handle it.
+                  </p>
+                </div>
+                <Switch
+                  id="policy-continue-on-error"
+                  checked={activeNode.policy?.continueOnError || false}
+                  onCheckedChange={(checked) => updatePolicy({ continueOnError: checked })}
+                />
+              </div>
+            </Card>
+          </div>
+
           {/* Common: Input Value (from connections) */}
           <div className="space-y-2">
             <div className="flex items-center justify-between gap-2">
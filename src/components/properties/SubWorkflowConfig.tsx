@@ -0,0 +1,151 @@
+// Sub-workflow Config - Pick the saved workflow a Sub-workflow node runs and which child nodes become its outputs
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import type { FunctionNode, WorkflowNode } from "@/types/workflow";
+import type { WorkflowLibrary } from "@/hooks/useWorkflowLibrary";
+import {
+  getSubWorkflowOutputNodeIds,
+  getSubWorkflowOutputPorts,
+  getTerminalNodes,
+} from "@/lib/subWorkflow";
+
+interface SubWorkflowConfigProps {
+  node: FunctionNode;
+  library?: WorkflowLibrary;
+  currentWorkflowId?: string | null;
+  onUpdateNode: (nodeId: string, updates: Partial<WorkflowNode>) => void;
+}
+
+export function SubWorkflowConfig({ node, library, currentWorkflowId, onUpdateNode }: SubWorkflowConfigProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const childWorkflow = node.subWorkflow;
+  const outputNodeIds = getSubWorkflowOutputNodeIds(node);
+  const ports = getSubWorkflowOutputPorts(outputNodeIds);
+  const terminalIds = new Set(childWorkflow ? getTerminalNodes(childWorkflow).map((n) => n.id) : []);
+
+  const setOutputNodes = (ids: string[]) => {
+    onUpdateNode(node.id, {
+      config: { ...node.config, outputNodeIds: ids },
+      outputPorts: getSubWorkflowOutputPorts(ids),
+      outputs: {},
+    });
+  };
+
+  // Load the workflow's current definition; chosen outputs that no longer exist are dropped
+  const loadWorkflow = async (workflowId: string) => {
+    if (!library) return;
+    setIsLoading(true);
+    const data = await library.openWorkflow(workflowId);
+    setIsLoading(false);
+    if (!data) {
+      toast({ title: "Load failed", description: "Could not open the workflow.", variant: "destructive" });
+      return;
+    }
+
+    const childIds = new Set(data.workflow.stages.flatMap((stage) => stage.nodes.map((n) => n.id)));
+    const keptIds = workflowId === node.config.workflowId ? outputNodeIds.filter((id) => childIds.has(id)) : [];
+    onUpdateNode(node.id, {
+      config: { ...node.config, workflowId, workflowName: data.workflowName, outputNodeIds: keptIds },
+      subWorkflow: data.workflow,
+      outputPorts: getSubWorkflowOutputPorts(keptIds),
+      outputs: {},
+    });
+  };
+
+  const selectable = (library?.workflows || []).filter((w) => w.id !== currentWorkflowId);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Workflow</Label>
+        <div className="flex gap-2">
+          <Select value={node.config.workflowId || ""} onValueChange={loadWorkflow} disabled={!library || isLoading}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder={node.config.workflowName || "Select a saved workflow"} />
+            </SelectTrigger>
+            <SelectContent>
+              {selectable.length === 0 ? (
+                <SelectItem value="none" disabled>
+                  No other saved workflows
+                </SelectItem>
+              ) : (
+                selectable.map((w) => (
+                  <SelectItem key={w.id} value={w.id}>
+                    {w.name}
+                    <span className="text-muted-foreground ml-2 text-xs">({w.nodeCount} nodes)</span>
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 p-0 flex-shrink-0"
+            title="Reload the workflow's latest version"
+            disabled={!library || !node.config.workflowId || isLoading}
+            onClick={() => loadWorkflow(node.config.workflowId)}
+          >
+            {isLoading ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The node's input becomes the workflow's input. Runs always use its latest saved version.
+        </p>
+      </div>
+
+      {childWorkflow && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Outputs</Label>
+          <Card className="p-3 bg-muted/30 space-y-3 max-h-[300px] overflow-y-auto">
+            {childWorkflow.stages.map((stage) => (
+              <div key={stage.id} className="space-y-1.5">
+                <p className="text-xs font-medium text-muted-foreground">{stage.name}</p>
+                {stage.nodes.map((child) => {
+                  const index = outputNodeIds.indexOf(child.id);
+                  return (
+                    <div key={child.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`sub-output-${child.id}`}
+                        checked={index !== -1}
+                        onCheckedChange={(checked) =>
+                          setOutputNodes(checked
+                            ? [...outputNodeIds, child.id]
+                            : outputNodeIds.filter((id) => id !== child.id))
+                        }
+                      />
+                      <Label htmlFor={`sub-output-${child.id}`} className="text-xs cursor-pointer flex-1 truncate">
+                        {child.name}
+                        {terminalIds.has(child.id) && <span className="text-muted-foreground ml-1">(terminal)</span>}
+                      </Label>
+                      {index !== -1 && (
+                        <span className="text-xs font-mono text-muted-foreground">{ports[index]}</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </Card>
+          {outputNodeIds.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              None chosen - "output" carries every terminal node's output
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+// Table Input Config - Load a CSV or Excel file into a Table Input node and preview it
+import { useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trash2, Upload } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { ExcelSelector } from "@/components/ExcelSelector";
+import { parseExcelFile, type ExcelData } from "@/utils/parseExcel";
+import { createTable, parseCsv } from "@/lib/tableData";
+import type { TableData } from "@/types/table";
+
+interface TableInputConfigProps {
+  table?: TableData;
+  delimiter?: string;
+  onChange: (table: TableData | undefined) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export function TableInputConfig({ table, delimiter, onChange }: TableInputConfigProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [excelData, setExcelData] = useState<ExcelData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const extension = file.name.toLowerCase().split(".").pop();
+      if (extension === "xlsx" || extension === "xls") {
+        // Sheet and row choice goes through the same selector as content uploads
+        setExcelData(await parseExcelFile(file));
+      } else {
+        const loaded = parseCsv(await file.text(), extension === "tsv" ? "\t" : delimiter || "auto", file.name);
+        onChange(loaded);
+        toast({ title: "Table loaded", description: `${loaded.rows.length} rows from ${file.name}` });
+      }
+    } catch (error) {
+      toast({
+        title: "Could not load table",
+        description: error instanceof Error ? error.message : "Failed to read the file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleExcelSelect = (selection: { fileName: string; selectedData: { sheetName: string; headers: string[]; selectedRows: Record<string, unknown>[] }[] }) => {
+    const [sheet] = selection.selectedData;
+    setExcelData(null);
+    if (!sheet) return;
+    if (selection.selectedData.length > 1) {
+      toast({ title: "One sheet per table", description: `Using "${sheet.sheetName}" - add another Table Input for the other sheets.` });
+    }
+    const loaded = createTable(sheet.headers, sheet.selectedRows, sheet.sheetName);
+    onChange(loaded);
+    toast({ title: "Table loaded", description: `${loaded.rows.length} rows from ${selection.fileName}` });
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt,.xlsx,.xls"
+        className="hidden"
+        onChange={handleFile}
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1 gap-2"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+        >
+          <Upload className="h-3.5 w-3.5" />
+          {isLoading ? "Loading..." : table ? "Replace File" : "Upload CSV / Excel"}
+        </Button>
+        {table && (
+          <Button size="sm" variant="outline" className="h-9 w-9 p-0" title="Remove table" onClick={() => onChange(undefined)}>
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      {table ? (
+        <Card className="p-2 bg-muted/30 space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {table.name ? `${table.name}: ` : ""}
+            {table.rows.length} rows × {table.columns.length} columns
+          </p>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {table.columns.map((column) => (
+                    <TableHead key={column} className="h-7 px-2 text-xs whitespace-nowrap">{column}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <TableRow key={i}>
+                    {table.columns.map((column) => (
+                      <TableCell key={column} className="px-2 py-1 text-xs max-w-[160px] truncate">
+                        {row[column] === null ? "" : String(row[column])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {table.rows.length > PREVIEW_ROWS && (
+            <p className="text-xs text-muted-foreground">+{table.rows.length - PREVIEW_ROWS} more rows</p>
+          )}
+        </Card>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          No file loaded - the node parses its input as CSV or JSON instead
+        </p>
+      )}
+
+      {excelData && (
+        <ExcelSelector
+          excelData={excelData}
+          onSelect={handleExcelSelect}
+          onClose={() => setExcelData(null)}
+        />
+      )}
+    </div>
+  );
+}
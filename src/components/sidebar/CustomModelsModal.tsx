@@ -0,0 +1,240 @@
+// Custom Models Modal - Register models served by an OpenAI-compatible endpoint (Ollama, vLLM, ...)
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Plus, Save, Server, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { ModelDefinition } from "@/types/models";
+import { BUILT_IN_MODELS, DEFAULT_CUSTOM_CAPABILITIES, toModelId } from "@/lib/modelRegistry";
+import { useModelRegistry } from "@/hooks/useModelRegistry";
+
+interface CustomModelsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const newCustomModel = (): ModelDefinition => ({
+  id: "",
+  label: "",
+  provider: "openai_compatible",
+  apiModel: "",
+  capabilities: { ...DEFAULT_CUSTOM_CAPABILITIES },
+  endpoint: { baseUrl: "", apiKey: "" },
+  custom: true,
+});
+
+// Empty or invalid input falls back to the current value
+const parseTokens = (value: string, fallback: number): number => {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+};
+
+export function CustomModelsModal({ open, onOpenChange }: CustomModelsModalProps) {
+  const { customModels, saveModels } = useModelRegistry();
+  const [draft, setDraft] = useState<ModelDefinition[]>([]);
+
+  useEffect(() => {
+    if (open) setDraft(customModels);
+  }, [open, customModels]);
+
+  const updateModel = (index: number, updates: Partial<ModelDefinition>) => {
+    setDraft((prev) => prev.map((m, i) => (i === index ? { ...m, ...updates } : m)));
+  };
+
+  const updateCapabilities = (index: number, updates: Partial<ModelDefinition["capabilities"]>) => {
+    setDraft((prev) => prev.map((m, i) => (i === index ? { ...m, capabilities: { ...m.capabilities, ...updates } } : m)));
+  };
+
+  const updateEndpoint = (index: number, updates: Partial<NonNullable<ModelDefinition["endpoint"]>>) => {
+    setDraft((prev) =>
+      prev.map((m, i) => (i === index ? { ...m, endpoint: { baseUrl: "", ...m.endpoint, ...updates } } : m))
+    );
+  };
+
+  const removeModel = (index: number) => {
+    setDraft((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    const builtInIds = new Set(BUILT_IN_MODELS.map((m) => m.id));
+    const seen = new Set<string>();
+    const models: ModelDefinition[] = [];
+
+    for (const model of draft) {
+      const label = model.label.trim();
+      const apiModel = model.apiModel.trim();
+      const baseUrl = model.endpoint?.baseUrl.trim() || "";
+      if (!label || !apiModel || !baseUrl) {
+        toast.error("Each model needs a name, an API model and a base URL");
+        return;
+      }
+      const id = model.id || toModelId(label);
+      if (builtInIds.has(id) || seen.has(id)) {
+        toast.error(`Model id "${id}" is already in use - choose a different name`);
+        return;
+      }
+      seen.add(id);
+      models.push({
+        ...model,
+        id,
+        label,
+        apiModel,
+        endpoint: { baseUrl, apiKey: model.endpoint?.apiKey?.trim() || undefined },
+      });
+    }
+
+    saveModels(models);
+    toast.success("Custom models saved");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Server className="w-5 h-5 text-primary" />
+            Custom Models
+          </DialogTitle>
+          <DialogDescription>
+            Models served by an OpenAI-compatible API such as Ollama, vLLM or LM Studio. The calls are made by
+            Supabase edge functions, so the endpoint must be publicly reachable - localhost and private network
+            addresses won't work.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 min-h-[200px] max-h-[60vh]">
+          <div className="space-y-3 px-1">
+            {draft.length === 0 && (
+              <p className="text-sm text-muted-foreground py-6 text-center">No custom models yet.</p>
+            )}
+            {draft.map((model, index) => (
+              <div key={model.id || `new-${index}`} className="rounded-md border p-3 space-y-3">
+                <div className="grid grid-cols-[1fr_1fr_32px] gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Name</Label>
+                    <Input
+                      value={model.label}
+                      onChange={(e) => updateModel(index, { label: e.target.value })}
+                      placeholder="Llama 3.1 8B (local)"
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">API model</Label>
+                    <Input
+                      value={model.apiModel}
+                      onChange={(e) => updateModel(index, { apiModel: e.target.value })}
+                      placeholder="llama3.1:8b"
+                      className="h-8 font-mono"
+                    />
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive"
+                    title="Remove"
+                    onClick={() => removeModel(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Base URL</Label>
+                    <Input
+                      value={model.endpoint?.baseUrl || ""}
+                      onChange={(e) => updateEndpoint(index, { baseUrl: e.target.value })}
+                      placeholder="https://llm.example.com/v1"
+                      className="h-8 font-mono"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">API key (optional)</Label>
+                    <Input
+                      type="password"
+                      value={model.endpoint?.apiKey || ""}
+                      onChange={(e) => updateEndpoint(index, { apiKey: e.target.value })}
+                      className="h-8"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-[1fr_1fr_auto_auto] gap-3 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Context window</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={model.capabilities.contextWindow}
+                      onChange={(e) =>
+                        updateCapabilities(index, { contextWindow: parseTokens(e.target.value, model.capabilities.contextWindow) })
+                      }
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Max output tokens</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={model.capabilities.maxOutputTokens}
+                      onChange={(e) =>
+                        updateCapabilities(index, { maxOutputTokens: parseTokens(e.target.value, model.capabilities.maxOutputTokens) })
+                      }
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 h-8">
+                    <Switch
+                      id={`custom-model-json-${index}`}
+                      checked={model.capabilities.jsonSchema}
+                      onCheckedChange={(checked) => updateCapabilities(index, { jsonSchema: checked })}
+                    />
+                    <Label htmlFor={`custom-model-json-${index}`} className="text-xs">JSON schema</Label>
+                  </div>
+                  <div className="flex items-center gap-2 h-8">
+                    <Switch
+                      id={`custom-model-vision-${index}`}
+                      checked={model.capabilities.vision}
+                      onCheckedChange={(checked) => updateCapabilities(index, { vision: checked })}
+                    />
+                    <Label htmlFor={`custom-model-vision-${index}`} className="text-xs">Vision</Label>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => setDraft((prev) => [...prev, newCustomModel()])}>
+            <Plus className="w-3 h-3" />
+            Add Model
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" className="gap-1" onClick={handleSave}>
+              <Save className="w-3 h-3" />
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
-import { Upload, Search, FileText, Bot, Plus, Download, Trash2, X, Eye, Pencil } from "lucide-react";
+import { Upload, Search, FileText, Bot, Plus, Download, Trash2, X, Eye, Pencil, Server } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useState, useRef } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -27,6 +27,9 @@ import { toast } from "@/hooks/use-toast";
 import { extractTextFromFile, formatExtractedContent, ExtractedContent } from "@/utils/fileTextExtraction";
 import { parseExcelFile, ExcelData } from "@/utils/parseExcel";
 import { ExcelSelector } from "@/components/ExcelSelector";
+import { CustomModelsModal } from "./CustomModelsModal";
+import { useModelRegistry } from "@/hooks/useModelRegistry";
+import { getModel } from "@/lib/modelRegistry";
 
 // Icon mapping for serialization
 const iconMap: Record<string, LucideIcon> = {
@@ -97,8 +100,8 @@ interface SidebarProps {
   onWorkflowNameChange: (value: string) => void;
   customAgents: any[];
   onCustomAgentsChange: (agents: any[]) => void;
-  selectedModel: "gemini-2.5-flash" | "gemini-2.5-pro" | "gemini-3-pro-preview" | "gemini-2.5-flash-lite" | "claude-sonnet-4-5" | "claude-3-5-haiku" | "claude-opus-4-5" | "grok-4-1-fast-reasoning" | "grok-4-1-fast-non-reasoning";
-  onSelectedModelChange: (model: "gemini-2.5-flash" | "gemini-2.5-pro" | "gemini-3-pro-preview" | "gemini-2.5-flash-lite" | "claude-sonnet-4-5" | "claude-3-5-haiku" | "claude-opus-4-5" | "grok-4-1-fast-reasoning" | "grok-4-1-fast-non-reasoning") => void;
+  selectedModel: string;
+  onSelectedModelChange: (model: string) => void;
   responseLength: number;
   onResponseLengthChange: (length: number) => void;
   thinkingEnabled: boolean;
@@ -125,6 +128,9 @@ export const Sidebar = ({
   onThinkingBudgetChange,
   onAddNode,
 }: SidebarProps) => {
+  const { models } = useModelRegistry();
+  const selectedCapabilities = getModel(selectedModel).capabilities;
+  const [isCustomModelsOpen, setIsCustomModelsOpen] = useState(false);
   const [isAddAgentOpen, setIsAddAgentOpen] = useState(false);
   const [isEditAgentOpen, setIsEditAgentOpen] = useState(false);
   const [editingAgentId, setEditingAgentId] = useState<string | null>(null);
@@ -508,24 +514,22 @@ export const Sidebar = ({
 
           {/* Model Selection */}
           <div className="space-y-2">
-            <Label htmlFor="model-select" className="text-sm font-semibold text-foreground">
-              Model
-            </Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="model-select" className="text-sm font-semibold text-foreground">
+                Model
+              </Label>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setIsCustomModelsOpen(true)} title="Custom models">
+                <Server className="h-3.5 w-3.5" />
+              </Button>
+            </div>
             <Select value={selectedModel} onValueChange={onSelectedModelChange}>
               <SelectTrigger id="model-select" className="w-full">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="gemini-2.5-flash">Gemini 2.5 Flash</SelectItem>
-                <SelectItem value="gemini-2.5-flash-lite">Gemini 2.5 Flash Lite</SelectItem>
-                <SelectItem value="gemini-3-pro-preview">Gemini 3 Pro Preview</SelectItem>
-                <SelectItem value="gemini-3-flash-preview">Gemini 3 Flash Preview</SelectItem>
-                <SelectItem value="claude-sonnet-4-5">Claude Sonnet 4.5</SelectItem>
-                <SelectItem value="claude-haiku-4-5">Claude Haiku 4.5</SelectItem>
-                <SelectItem value="claude-opus-4-5">Claude Opus 4.5</SelectItem>
-                <SelectItem value="grok-4-1-fast-reasoning">Grok 4.1 Fast Reasoning</SelectItem>
-                <SelectItem value="grok-4-1-fast-non-reasoning">Grok 4.1 Fast Non-Reasoning</SelectItem>
-                <SelectItem value="grok-code-fast-1">Grok Code Fast 1</SelectItem>
+                {models.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
@@ -547,13 +551,9 @@ export const Sidebar = ({
                 <SelectItem value="8192">Medium (8,192 tokens)</SelectItem>
                 <SelectItem value="16384">Large (16,384 tokens)</SelectItem>
                 <SelectItem value="32768">XL (32,768 tokens)</SelectItem>
-                {selectedModel === "claude-opus-4-5" ? (
-                  <SelectItem value="32000">2XL (32,000 tokens)</SelectItem>
-                ) : selectedModel.startsWith("claude-") ? (
-                  <SelectItem value="64000">2XL (64,000 tokens)</SelectItem>
-                ) : (
-                  <SelectItem value="65535">2XL (65,535 tokens)</SelectItem>
-                )}
+                <SelectItem value={selectedCapabilities.maxOutputTokens.toString()}>
+                  2XL ({selectedCapabilities.maxOutputTokens.toLocaleString()} tokens)
+                </SelectItem>
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
@@ -562,7 +562,7 @@ export const Sidebar = ({
           </div>
 
           {/* Thinking Budget Section */}
-          {selectedModel !== "gemini-2.5-pro" && selectedModel !== "gemini-3-pro-preview" && !selectedModel.startsWith("claude-") && !selectedModel.startsWith("grok-") && (
+          {selectedCapabilities.thinking && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor="thinking-enabled" className="text-sm font-semibold text-foreground">
@@ -592,31 +592,13 @@ export const Sidebar = ({
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="-1">Fully Activated (Auto)</SelectItem>
-                      {selectedModel === "gemini-2.5-flash" && (
-                        <>
-                          <SelectItem value="1024">Small (1,024 tokens)</SelectItem>
-                          <SelectItem value="4096">Medium (4,096 tokens)</SelectItem>
-                          <SelectItem value="8192">Large (8,192 tokens)</SelectItem>
-                          <SelectItem value="16384">XL (16,384 tokens)</SelectItem>
-                          <SelectItem value="24576">Max (24,576 tokens)</SelectItem>
-                        </>
-                      )}
-                      {selectedModel === "gemini-2.5-flash-lite" && (
-                        <>
-                          <SelectItem value="512">Minimum (512 tokens)</SelectItem>
-                          <SelectItem value="2048">Small (2,048 tokens)</SelectItem>
-                          <SelectItem value="4096">Medium (4,096 tokens)</SelectItem>
-                          <SelectItem value="8192">Large (8,192 tokens)</SelectItem>
-                          <SelectItem value="16384">XL (16,384 tokens)</SelectItem>
-                          <SelectItem value="24576">Max (24,576 tokens)</SelectItem>
-                        </>
-                      )}
+                      {selectedCapabilities.thinkingBudgets?.map((option) => (
+                        <SelectItem key={option.value} value={option.value.toString()}>
+                          {option.label} ({option.value.toLocaleString()} tokens)
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
-                  <p className="text-xs text-muted-foreground">
-                    {selectedModel === "gemini-2.5-flash" && "Range: 0-24,576 tokens"}
-                    {selectedModel === "gemini-2.5-flash-lite" && "Range: 512-24,576 tokens"}
-                  </p>
                 </div>
               )}
             </div>
@@ -870,5 +852,7 @@ export const Sidebar = ({
       
       {/* Excel Selector Modal */}
       {excelData && <ExcelSelector excelData={excelData} onClose={handleExcelClose} onSelect={handleExcelSelect} />}
+
+      <CustomModelsModal open={isCustomModelsOpen} onOpenChange={setIsCustomModelsOpen} />
     </div>;
 };
\ No newline at end of file
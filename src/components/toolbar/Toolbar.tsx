@@ -1,5 +1,5 @@
 import { Button } from "@/components/ui/button";
-import { Play, Plus, Save, Upload, Trash2, HelpCircle, LayoutGrid, LayoutList, Eye, Eraser, Bot, Workflow } from "lucide-react";
+import { Play, Plus, Save, Upload, Trash2, HelpCircle, LayoutGrid, LayoutList, Eye, Eraser, Bot, Workflow, FolderOpen } from "lucide-react";
 import { useRef, useState, useEffect } from "react";
 import { HelpModal } from "@/components/help/HelpModal";
 import {
@@ -29,6 +29,7 @@ interface ToolbarProps {
   onAddStage: () => void;
   onSave: () => void;
   onLoad: (file: File) => void;
+  onOpenLibrary?: () => void;
   onClear: () => void;
   onRun: () => void;
   onClearOutputs: () => void;
@@ -42,6 +43,7 @@ export const Toolbar = ({
   onAddStage,
   onSave,
   onLoad,
+  onOpenLibrary,
   onClear,
   onRun,
   onClearOutputs,
@@ -172,6 +174,12 @@ export const Toolbar = ({
               </DropdownMenuContent>
             </DropdownMenu>
             <div className="w-px h-6 bg-border mx-2" />
+            {onOpenLibrary && (
+              <Button variant="outline" size="sm" className="gap-2" onClick={onOpenLibrary}>
+                <FolderOpen className="h-4 w-4" />
+                Library
+              </Button>
+            )}
             <Button variant="outline" size="sm" className="gap-2" onClick={handleLoadClick}>
               <Upload className="h-4 w-4" />
               Load
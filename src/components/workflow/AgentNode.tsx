@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Search, FileText, Bot, Play, CheckCircle2, AlertCircle, Circle, Trash2, Minimize2, Maximize2, Download, Copy, Lock, Unlock } from "lucide-react";
 import type { Agent } from "@/pages/Index";
 import { useToast } from "@/hooks/use-toast";
+import { getAgentOutputPorts, getAgentPortValue } from "@/lib/agentSchema";
 
 interface AgentNodeProps {
   agent: Agent;
@@ -136,10 +137,8 @@ export const AgentNode = ({ agent, isSelected, isConnecting, agentNumber, stageI
     idle: "",
   };
 
-  // Get beast mode output ports or fallback to single "output"
-  const outputPorts = agent.beastModeOutputPorts && agent.beastModeOutputPorts.length > 0 
-    ? agent.beastModeOutputPorts 
-    : ["output"];
+  // Beast mode split ports, structured-output field ports, or a single "output" (+ "error")
+  const outputPorts = getAgentOutputPorts(agent);
 
   if (agent.minimized) {
     return (
@@ -166,9 +165,7 @@ export const AgentNode = ({ agent, isSelected, isConnecting, agentNumber, stageI
         
         {/* Output Port(s) - Multiple for beast mode split outputs */}
         {outputPorts.map((portName, idx) => {
-          const hasData = portName === "output" 
-            ? agent.output && agent.output.trim().length > 0
-            : agent.beastModeOutputs?.[portName] && agent.beastModeOutputs[portName].trim().length > 0;
+          const hasData = getAgentPortValue(agent, portName).trim().length > 0;
           
           return (
             <div 
@@ -228,9 +225,7 @@ export const AgentNode = ({ agent, isSelected, isConnecting, agentNumber, stageI
       
       {/* Output Port(s) - Multiple for beast mode split outputs */}
       {outputPorts.map((portName, idx) => {
-        const hasData = portName === "output" 
-          ? agent.output && agent.output.trim().length > 0
-          : agent.beastModeOutputs?.[portName] && agent.beastModeOutputs[portName].trim().length > 0;
+        const hasData = getAgentPortValue(agent, portName).trim().length > 0;
         
         return (
           <div 
@@ -348,12 +343,13 @@ export const AgentNode = ({ agent, isSelected, isConnecting, agentNumber, stageI
           {agent.systemPrompt}
         </p>
         
-        {/* Show output port labels for beast mode split outputs */}
+        {/* Show output port labels for beast mode split or structured outputs */}
         {outputPorts.length > 1 && (
           <div className="flex gap-1 text-[10px] text-muted-foreground flex-wrap">
             <span>Outputs:</span>
             {outputPorts.map((port) => {
-              const hasContent = agent.beastModeOutputs?.[port] && agent.beastModeOutputs[port].length > 0;
+              const portValue = getAgentPortValue(agent, port);
+              const hasContent = portValue.length > 0;
               
               return (
                 <Badge 
@@ -362,7 +358,7 @@ export const AgentNode = ({ agent, isSelected, isConnecting, agentNumber, stageI
                   className={`text-[9px] px-1 py-0 h-4 ${
                     hasContent ? 'bg-green-500/20 border-green-500 text-green-700 dark:text-green-400' : 'opacity-50'
                   }`}
-                  title={hasContent ? `${port}: ${agent.beastModeOutputs![port].substring(0, 50)}...` : `${port}: empty`}
+                  title={hasContent ? `${port}: ${portValue.substring(0, 50)}...` : `${port}: empty`}
                 >
                   {port}
                 </Badge>
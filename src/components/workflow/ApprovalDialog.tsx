@@ -0,0 +1,99 @@
+// Approval Dialog - Review, edit and approve or reject the content waiting at an Approval node
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, RotateCcw, UserCheck, X } from "lucide-react";
+import type { ApprovalDecision, ApprovalRequest } from "@/types/functions";
+
+interface ApprovalDialogProps {
+  request: ApprovalRequest | null;
+  // Further approvals waiting behind this one (parallel branches, Beast Mode items)
+  queuedCount: number;
+  onDecide: (decision: ApprovalDecision) => void;
+}
+
+export function ApprovalDialog({ request, queuedCount, onDecide }: ApprovalDialogProps) {
+  const [content, setContent] = useState("");
+  const [feedback, setFeedback] = useState("");
+
+  useEffect(() => {
+    setContent(request?.content ?? "");
+    setFeedback("");
+  }, [request]);
+
+  if (!request) return null;
+
+  const isEdited = content !== request.content;
+  const decide = (approved: boolean) => onDecide({ approved, content, feedback });
+
+  return (
+    // Closing without a decision rejects, so the run never waits on a dialog nobody can see
+    <Dialog open onOpenChange={(open) => !open && decide(false)}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCheck className="w-5 h-5 text-amber-500" />
+            Approval needed: {request.nodeName}
+            {queuedCount > 0 && <Badge variant="secondary">+{queuedCount} waiting</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            {request.instructions || "Review the content before the workflow continues."} Closing this dialog rejects it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="approval-content">Content</Label>
+              {isEdited && (
+                <Button variant="ghost" size="sm" className="h-6 gap-1 text-xs" onClick={() => setContent(request.content)}>
+                  <RotateCcw className="h-3 w-3" />
+                  Undo edits
+                </Button>
+              )}
+            </div>
+            <Textarea
+              id="approval-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              readOnly={!request.allowEdit}
+              className="min-h-[240px] max-h-[50vh] font-mono text-xs"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="approval-feedback">Comment (optional)</Label>
+            <Input
+              id="approval-feedback"
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              placeholder="Sent on the feedback port, e.g. why it was rejected"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="gap-2 text-destructive" onClick={() => decide(false)}>
+            <X className="w-4 h-4" />
+            Reject
+          </Button>
+          <Button className="gap-2" onClick={() => decide(true)}>
+            <Check className="w-4 h-4" />
+            {isEdited ? "Approve Edited" : "Approve"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
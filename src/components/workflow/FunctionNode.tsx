@@ -5,6 +5,8 @@ import { Play, CheckCircle2, AlertCircle, Circle, Trash2, Minimize2, Download, C
 import type { FunctionNode as FunctionNodeType } from "@/types/workflow";
 import { useToast } from "@/hooks/use-toast";
 import { getFunctionById } from "@/lib/functionDefinitions";
+import { getSubWorkflowProgress } from "@/lib/subWorkflow";
+import { ERROR_PORT, withErrorPort } from "@/lib/executionPolicy";
 
 interface FunctionNodeProps {
   node: FunctionNodeType;
@@ -49,6 +51,9 @@ export const FunctionNode = ({
   const statusInfo = statusConfig[node.status];
   const StatusIcon = statusInfo.icon;
   const { toast } = useToast();
+  const outputPorts = withErrorPort(node, node.outputPorts);
+  const hasPortData = (port: string) =>
+    !!(port === ERROR_PORT && node.policy?.continueOnError ? node.errorOutput : node.outputs?.[port])?.trim();
 
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -157,9 +162,9 @@ export const FunctionNode = ({
         })}
         
         {/* Output Port(s) */}
-        {node.outputPorts.map((portName, idx) => {
+        {outputPorts.map((portName, idx) => {
           // Check if this port has data
-          const hasData = node.outputs?.[portName] && node.outputs[portName].trim().length > 0;
+          const hasData = hasPortData(portName);
           
           return (
             <div 
@@ -169,8 +174,8 @@ export const FunctionNode = ({
                 hasData ? 'bg-green-500 ring-2 ring-green-300' : 'bg-primary'
               } ${isConnecting ? "ring-2 ring-primary animate-pulse" : ""}`}
               style={{ 
-                left: node.outputPorts.length > 1 
-                  ? `${((idx + 1) / (node.outputPorts.length + 1)) * 100}%` 
+                left: outputPorts.length > 1 
+                  ? `${((idx + 1) / (outputPorts.length + 1)) * 100}%` 
                   : '50%',
                 transform: 'translateX(-50%)'
               }}
@@ -231,9 +236,9 @@ export const FunctionNode = ({
       })}
       
       {/* Output Port(s) - Multiple ports for functions with conditional outputs */}
-      {node.outputPorts.map((portName, idx) => {
+      {outputPorts.map((portName, idx) => {
         // Check if this port has data
-        const hasData = node.outputs?.[portName] && node.outputs[portName].trim().length > 0;
+        const hasData = hasPortData(portName);
         
         return (
           <div 
@@ -243,8 +248,8 @@ export const FunctionNode = ({
               hasData ? 'bg-green-500 ring-2 ring-green-300' : 'bg-primary'
             } ${isConnecting ? "ring-2 ring-primary animate-pulse" : ""}`}
             style={{ 
-              left: node.outputPorts.length > 1 
-                ? `${((idx + 1) / (node.outputPorts.length + 1)) * 100}%` 
+              left: outputPorts.length > 1 
+                ? `${((idx + 1) / (outputPorts.length + 1)) * 100}%` 
                 : '50%',
               transform: 'translateX(-50%)'
             }}
@@ -366,11 +371,19 @@ export const FunctionNode = ({
               {inputPorts.length} inputs
             </Badge>
           )}
-          {node.outputPorts.length > 1 && (
+          {outputPorts.length > 1 && (
             <Badge variant="outline" className="text-xs">
-              {node.outputPorts.length} outputs
+              {outputPorts.length} outputs
             </Badge>
           )}
+          {(() => {
+            const progress = getSubWorkflowProgress(node.subWorkflow);
+            return progress && (
+              <Badge variant="outline" className="text-xs">
+                {node.config.workflowName || "Workflow"}: {progress.done}/{progress.total} nodes
+              </Badge>
+            );
+          })()}
         </div>
         
         <p className="text-xs text-muted-foreground line-clamp-2">
@@ -389,12 +402,12 @@ export const FunctionNode = ({
         )}
         
         {/* Show output count for multi-output functions - simplified */}
-        {node.outputPorts.length > 1 && (
+        {outputPorts.length > 1 && (
           <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
-            <span>Outputs: {node.outputPorts.length}</span>
+            <span>Outputs: {outputPorts.length}</span>
             <span className="text-muted-foreground/50">•</span>
             <span className="text-green-600 dark:text-green-400">
-              {node.outputPorts.filter(p => node.outputs?.[p]?.trim()).length} with data
+              {outputPorts.filter(hasPortData).length} with data
             </span>
           </div>
         )}
@@ -0,0 +1,183 @@
+// Loop Settings Dialog - Turn a stage into a for-each / while loop over its nodes
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Repeat } from "lucide-react";
+import type { LoopConfig, LoopCondition, Stage } from "@/types/workflow";
+import { DEFAULT_LOOP_CONFIG, MAX_LOOP_ITERATIONS } from "@/lib/workflowLoop";
+
+interface LoopSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stage: Stage;
+  onSave: (loop: LoopConfig) => void;
+}
+
+export function LoopSettingsDialog({ open, onOpenChange, stage, onSave }: LoopSettingsDialogProps) {
+  const [draft, setDraft] = useState<LoopConfig>(DEFAULT_LOOP_CONFIG);
+
+  useEffect(() => {
+    if (open) setDraft({ ...DEFAULT_LOOP_CONFIG, ...stage.loop });
+  }, [open, stage.loop]);
+
+  const update = (updates: Partial<LoopConfig>) => setDraft((prev) => ({ ...prev, ...updates }));
+  const updateCondition = (updates: Partial<LoopCondition>) =>
+    setDraft((prev) => ({
+      ...prev,
+      untilCondition: { ...(prev.untilCondition || DEFAULT_LOOP_CONFIG.untilCondition!), ...updates },
+    }));
+
+  const handleSave = () => {
+    const maxIterations = Math.min(Math.max(1, Math.floor(draft.maxIterations) || 1), MAX_LOOP_ITERATIONS);
+    onSave({ ...draft, maxIterations });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="w-5 h-5 text-primary" />
+            Loop "{stage.name}"
+          </DialogTitle>
+          <DialogDescription>
+            Re-run every node in this stage per item. Nodes that don't feed another node in the stage collect the
+            results for whatever is connected downstream. Use {"{item}"} and {"{index}"} in agent prompts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="loop-enabled">Loop this stage</Label>
+            <Switch id="loop-enabled" checked={draft.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+          </div>
+
+          {draft.enabled && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs">Mode</Label>
+                <Select value={draft.mode} onValueChange={(mode) => update({ mode: mode as LoopConfig["mode"] })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="for_each">For each item</SelectItem>
+                    <SelectItem value="while">Repeat until condition</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {draft.mode === "for_each" ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Items</Label>
+                    <Select
+                      value={draft.itemSource}
+                      onValueChange={(itemSource) => update({ itemSource: itemSource as LoopConfig["itemSource"] })}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="lines">One per line</SelectItem>
+                        <SelectItem value="json_array">JSON array elements</SelectItem>
+                        <SelectItem value="delimiter">Split on delimiter</SelectItem>
+                        <SelectItem value="ports">Connected output ports</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {draft.itemSource === "delimiter" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">Delimiter</Label>
+                      <Input
+                        value={draft.delimiter || ""}
+                        onChange={(e) => update({ delimiter: e.target.value })}
+                        className="h-8 font-mono"
+                      />
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <Label className="text-xs">Stop when the output</Label>
+                  <div className="grid grid-cols-[140px_1fr] gap-2">
+                    <Select
+                      value={draft.untilCondition?.operator || "contains"}
+                      onValueChange={(operator) => updateCondition({ operator: operator as LoopCondition["operator"] })}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="contains">contains</SelectItem>
+                        <SelectItem value="not_contains">does not contain</SelectItem>
+                        <SelectItem value="equals">equals</SelectItem>
+                        <SelectItem value="regex">matches regex</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={draft.untilCondition?.value || ""}
+                      onChange={(e) => updateCondition({ value: e.target.value })}
+                      className="h-8 font-mono"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">Each pass receives the previous pass's output.</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Max iterations</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_LOOP_ITERATIONS}
+                    value={draft.maxIterations}
+                    onChange={(e) => update({ maxIterations: parseInt(e.target.value, 10) || 1 })}
+                    className="h-8"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Collect results</Label>
+                  <Select
+                    value={draft.collectMode}
+                    onValueChange={(collectMode) => update({ collectMode: collectMode as LoopConfig["collectMode"] })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="concatenate">Concatenate</SelectItem>
+                      <SelectItem value="json_array">JSON array</SelectItem>
+                      <SelectItem value="split">One output port per pass</SelectItem>
+                      <SelectItem value="last">Last pass only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,15 @@
 import { Card } from "@/components/ui/card";
 import { AgentNode } from "./AgentNode";
 import { FunctionNode } from "./FunctionNode";
-import { GripVertical, Plus, Trash2, Copy, Play, Minimize2, Maximize2 } from "lucide-react";
+import { GripVertical, Plus, Trash2, Copy, Play, Minimize2, Maximize2, Repeat } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { FunctionSelector } from "@/components/FunctionSelector";
 import { AgentSelector } from "@/components/AgentSelector";
 import { useState } from "react";
-import type { Stage as StageType } from "@/types/workflow";
+import type { LoopConfig, Stage as StageType } from "@/types/workflow";
+import { LoopSettingsDialog } from "./LoopSettingsDialog";
+import { describeLoop } from "@/lib/workflowLoop";
 
 interface StageProps {
   stage: StageType;
@@ -32,6 +34,7 @@ interface StageProps {
   onRunFunction?: (functionId: string, customInput?: string) => void;
   onCloneStage?: (stageId: string) => void;
   onRunStage?: (stageId: string) => void;
+  onUpdateStageLoop?: (stageId: string, loop: LoopConfig) => void;
 }
 
 export const Stage = ({
@@ -57,6 +60,7 @@ export const Stage = ({
   onRunFunction,
   onCloneStage,
   onRunStage,
+  onUpdateStageLoop,
 }: StageProps) => {
   const [isAddAgentOpen, setIsAddAgentOpen] = useState(false);
   const [isAddFunctionOpen, setIsAddFunctionOpen] = useState(false);
@@ -64,6 +68,7 @@ export const Stage = ({
   const displayName = stage.name || `Stage ${stageNumber}`;
   const [editedName, setEditedName] = useState(displayName);
   const [stageMinimized, setStageMinimized] = useState(false);
+  const [isLoopSettingsOpen, setIsLoopSettingsOpen] = useState(false);
 
   // Check if all nodes are minimized to determine initial state
   const allMinimized = stage.nodes.length > 0 && stage.nodes.every(node => node.minimized);
@@ -195,7 +200,15 @@ export const Stage = ({
               {displayName}
             </h3>
           )}
-          <p className="text-xs text-muted-foreground hidden lg:block">Drag agents here to add them</p>
+          {stage.loop?.enabled ? (
+            <p className="text-xs text-primary flex items-center gap-1">
+              <Repeat className="h-3 w-3" />
+              {describeLoop(stage.loop)}
+              {stage.loopProgress && ` - pass ${stage.loopProgress.iteration}/${stage.loopProgress.total}`}
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground hidden lg:block">Drag agents here to add them</p>
+          )}
         </div>
         
         {/* Mobile Add Agent and Add Function Buttons */}
@@ -238,6 +251,12 @@ export const Stage = ({
           </Button>
         )}
         
+        {onUpdateStageLoop && (
+          <Button variant="ghost" size="sm" onClick={() => setIsLoopSettingsOpen(true)} title="Loop Settings">
+            <Repeat className={`h-4 w-4 ${stage.loop?.enabled ? "text-primary" : ""}`} />
+          </Button>
+        )}
+        
         {stage.nodes.length > 0 && (
           <Button 
             variant="ghost" 
@@ -329,6 +348,15 @@ export const Stage = ({
           />
         </div>
       </div>
+
+      {onUpdateStageLoop && (
+        <LoopSettingsDialog
+          open={isLoopSettingsOpen}
+          onOpenChange={setIsLoopSettingsOpen}
+          stage={stage}
+          onSave={(loop) => onUpdateStageLoop(stage.id, loop)}
+        />
+      )}
     </Card>
   );
 };
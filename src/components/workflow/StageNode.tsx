@@ -3,9 +3,11 @@ import { Handle, Position, NodeProps } from "reactflow";
 import { Card, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Trash2, Plus, FunctionSquare, Bot, Copy, Play } from "lucide-react";
+import { Trash2, Plus, FunctionSquare, Bot, Copy, Play, Repeat } from "lucide-react";
 import { useState } from "react";
-import type { Stage } from "@/types/workflow";
+import type { LoopConfig, Stage } from "@/types/workflow";
+import { LoopSettingsDialog } from "./LoopSettingsDialog";
+import { describeLoop } from "@/lib/workflowLoop";
 
 interface StageNodeData {
   stage: Stage;
@@ -15,14 +17,17 @@ interface StageNodeData {
   onAddFunction: (template?: any) => void;
   onClone?: () => void;
   onRunStage?: () => void;
+  onUpdateLoop?: (loop: LoopConfig) => void;
   width: number;
   height: number;
+  readOnly?: boolean; // Shown inside a sub-workflow drill-in - no editing
 }
 
 export const StageNode = memo(({ data }: NodeProps<StageNodeData>) => {
   const [isEditing, setIsEditing] = useState(false);
   const [stageName, setStageName] = useState(data.stage.name);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [isLoopSettingsOpen, setIsLoopSettingsOpen] = useState(false);
 
   const handleRename = () => {
     if (stageName.trim()) {
@@ -93,7 +98,7 @@ export const StageNode = memo(({ data }: NodeProps<StageNodeData>) => {
           ) : (
             <CardTitle
               className="text-sm cursor-pointer hover:text-primary transition-colors"
-              onDoubleClick={() => setIsEditing(true)}
+              onDoubleClick={() => !data.readOnly && setIsEditing(true)}
             >
               {data.stage.name}
             </CardTitle>
@@ -110,6 +115,17 @@ export const StageNode = memo(({ data }: NodeProps<StageNodeData>) => {
                 <Play className="h-3 w-3 text-primary" />
               </Button>
             )}
+            {data.onUpdateLoop && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsLoopSettingsOpen(true)}
+                className="h-7 w-7 p-0"
+                title="Loop settings"
+              >
+                <Repeat className={`h-3 w-3 ${data.stage.loop?.enabled ? "text-primary" : ""}`} />
+              </Button>
+            )}
             {data.onClone && (
               <Button
                 variant="ghost"
@@ -121,44 +137,65 @@ export const StageNode = memo(({ data }: NodeProps<StageNodeData>) => {
                 <Copy className="h-3 w-3" />
               </Button>
             )}
+            {!data.readOnly && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={data.onDelete}
+                className="h-7 w-7 p-0"
+                title="Delete stage"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+        
+        {data.stage.loop?.enabled && (
+          <p className="text-xs text-primary flex items-center gap-1">
+            <Repeat className="h-3 w-3" />
+            {describeLoop(data.stage.loop)}
+            {data.stage.loopProgress && ` - pass ${data.stage.loopProgress.iteration}/${data.stage.loopProgress.total}`}
+          </p>
+        )}
+
+        {!data.readOnly && (
+          <div className="flex gap-1">
             <Button
-              variant="ghost"
+              variant="outline"
               size="sm"
-              onClick={data.onDelete}
-              className="h-7 w-7 p-0"
-              title="Delete stage"
+              onClick={() => data.onAddAgent()}
+              className="h-7 text-xs flex-1"
             >
-              <Trash2 className="h-3 w-3" />
+              <Bot className="h-3 w-3 mr-1" />
+              Agent
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => data.onAddFunction()}
+              className="h-7 text-xs flex-1"
+            >
+              <FunctionSquare className="h-3 w-3 mr-1" />
+              Function
             </Button>
           </div>
-        </div>
-        
-        <div className="flex gap-1">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => data.onAddAgent()}
-            className="h-7 text-xs flex-1"
-          >
-            <Bot className="h-3 w-3 mr-1" />
-            Agent
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => data.onAddFunction()}
-            className="h-7 text-xs flex-1"
-          >
-            <FunctionSquare className="h-3 w-3 mr-1" />
-            Function
-          </Button>
-        </div>
+        )}
       </CardHeader>
       
       {/* Stage container for child nodes - no fixed height constraint */}
       <div className="p-4 pt-0" style={{ minHeight: data.height - 100 }}>
         {/* Child nodes will be rendered here by ReactFlow */}
       </div>
+
+      {data.onUpdateLoop && (
+        <LoopSettingsDialog
+          open={isLoopSettingsOpen}
+          onOpenChange={setIsLoopSettingsOpen}
+          stage={data.stage}
+          onSave={data.onUpdateLoop}
+        />
+      )}
     </Card>
   );
 });
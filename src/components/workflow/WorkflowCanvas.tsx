@@ -1,6 +1,6 @@
 import { Card } from "@/components/ui/card";
 import { Stage } from "./Stage";
-import type { Workflow } from "@/types/workflow";
+import type { LoopConfig, Workflow } from "@/types/workflow";
 import { useEffect, useState } from "react";
 
 interface WorkflowCanvasProps {
@@ -26,6 +26,7 @@ interface WorkflowCanvasProps {
   onRunFunction?: (functionId: string, customInput?: string) => void;
   onCloneStage?: (stageId: string) => void;
   onRunStage?: (stageId: string) => void;
+  onUpdateStageLoop?: (stageId: string, loop: LoopConfig) => void;
 }
 
 export const WorkflowCanvas = ({
@@ -51,6 +52,7 @@ export const WorkflowCanvas = ({
   onRunFunction,
   onCloneStage,
   onRunStage,
+  onUpdateStageLoop,
 }: WorkflowCanvasProps) => {
   const [forceUpdate, setForceUpdate] = useState(0);
   const [svgDimensions, setSvgDimensions] = useState({ width: 0, height: 0 });
@@ -330,6 +332,7 @@ export const WorkflowCanvas = ({
                     onRunFunction={onRunFunction}
                     onCloneStage={onCloneStage}
                     onRunStage={onRunStage}
+                    onUpdateStageLoop={onUpdateStageLoop}
                   />
                 ))
               )}
@@ -21,8 +21,10 @@ import 'reactflow/dist/style.css';
 import './EdgeStyles.css';
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { AlignVerticalJustifyCenter, AlignHorizontalJustifyCenter, Grid3x3, Map, StickyNote } from "lucide-react";
-import type { Workflow, WorkflowNode, Stage as StageType, Note } from "@/types/workflow";
+import { AlignVerticalJustifyCenter, AlignHorizontalJustifyCenter, Grid3x3, Map, StickyNote, GitCompare, X, ArrowLeft, ChevronRight, Workflow as WorkflowIcon } from "lucide-react";
+import type { LoopConfig, Workflow, WorkflowNode, Stage as StageType, Note } from "@/types/workflow";
+import type { WorkflowDiffHighlights } from "@/lib/workflowDiff";
+import { resolveSubWorkflowTrail } from "@/lib/subWorkflow";
 import { AgentSelector } from "@/components/AgentSelector";
 import { FunctionSelector } from "@/components/FunctionSelector";
 import { StageNode } from "./StageNode";
@@ -30,6 +32,7 @@ import { WorkflowNodeComponent } from "./WorkflowNodeComponent";
 import { NoteNode } from "./NoteNode";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { withErrorPort } from "@/lib/executionPolicy";
 
 // Internal component that has access to ReactFlow instance
 function AddNoteButton({ onAddNote }: { onAddNote?: (x?: number, y?: number) => void }) {
@@ -129,6 +132,9 @@ interface WorkflowCanvasModeProps {
   onCloneNode?: (nodeId: string) => void;
   onCloneStage?: (stageId: string) => void;
   onRunStage?: (stageId: string) => void;
+  onUpdateStageLoop?: (stageId: string, loop: LoopConfig) => void;
+  diffHighlights?: WorkflowDiffHighlights | null;
+  onClearDiffHighlights?: () => void;
 }
 
 export function WorkflowCanvasMode({
@@ -162,6 +168,9 @@ export function WorkflowCanvasMode({
   onCloneNode,
   onCloneStage,
   onRunStage,
+  onUpdateStageLoop,
+  diffHighlights,
+  onClearDiffHighlights,
 }: WorkflowCanvasModeProps) {
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
@@ -169,8 +178,17 @@ export function WorkflowCanvasMode({
   const [showAddFunction, setShowAddFunction] = useState<string | null>(null);
   const [showMiniMap, setShowMiniMap] = useState(true);
   const [copiedNodeId, setCopiedNodeId] = useState<string | null>(null);
+  // Sub-workflow node ids drilled into, outermost first - the canvas shows the last one read-only
+  const [subWorkflowPath, setSubWorkflowPath] = useState<string[]>([]);
   const isMobile = useIsMobile();
 
+  const subWorkflowTrail = useMemo(
+    () => resolveSubWorkflowTrail(workflow, subWorkflowPath),
+    [workflow, subWorkflowPath]
+  );
+  const isReadOnly = subWorkflowTrail.length > 0;
+  const viewedWorkflow = isReadOnly ? subWorkflowTrail[subWorkflowTrail.length - 1].workflow : workflow;
+
   // Keyboard shortcuts for copy/paste
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -210,7 +228,7 @@ export function WorkflowCanvasMode({
     const getNodeWidth = (node: WorkflowNode): number => {
       if (node.nodeType === "function") {
         const functionNode = node as import("@/types/workflow").FunctionNode;
-        const outputPorts = functionNode.outputPorts || ["output"];
+        const outputPorts = withErrorPort(functionNode, functionNode.outputPorts || ["output"]);
         const hasMultiplePorts = outputPorts.length > 1;
         
         if (hasMultiplePorts) {
@@ -222,7 +240,7 @@ export function WorkflowCanvasMode({
       return 250; // Default width
     };
     
-    workflow.stages.forEach((stage) => {
+    viewedWorkflow.stages.forEach((stage) => {
       if (stage.nodes.length === 0) {
         // Empty stage gets default size at stage position
         const stageX = stage.position?.x ?? 0;
@@ -281,7 +299,7 @@ export function WorkflowCanvasMode({
     });
     
     return bounds;
-  }, [workflow.stages]);
+  }, [viewedWorkflow.stages]);
 
   // Convert workflow to ReactFlow nodes and edges
   useEffect(() => {
@@ -290,7 +308,7 @@ export function WorkflowCanvasMode({
     const stagePaddingTop = 100;
 
     // Create all stage and node elements using pre-calculated bounds
-    workflow.stages.forEach((stage, stageIndex) => {
+    viewedWorkflow.stages.forEach((stage, stageIndex) => {
       const bounds = stageBounds[stage.id] || { 
         x: 100, 
         y: stageIndex * 400, 
@@ -323,17 +341,19 @@ export function WorkflowCanvasMode({
               setShowAddFunction(stage.id);
             }
           },
-          onClone: onCloneStage ? () => onCloneStage(stage.id) : undefined,
-          onRunStage: onRunStage ? () => onRunStage(stage.id) : undefined,
+          onClone: onCloneStage && !isReadOnly ? () => onCloneStage(stage.id) : undefined,
+          onRunStage: onRunStage && !isReadOnly ? () => onRunStage(stage.id) : undefined,
+          onUpdateLoop: onUpdateStageLoop && !isReadOnly ? (loop: LoopConfig) => onUpdateStageLoop(stage.id, loop) : undefined,
           width: bounds.width,
           height: bounds.height,
+          readOnly: isReadOnly,
         },
         style: {
           width: bounds.width,
           height: bounds.height,
           zIndex: 1,
         },
-        draggable: true,
+        draggable: !isReadOnly,
       });
 
       // Add workflow nodes within the stage - position relative to stage bounds
@@ -351,16 +371,19 @@ export function WorkflowCanvasMode({
           position: { x: relativeX, y: relativeY },
           data: {
             node,
-            selected: selectedNode?.id === node.id,
+            selected: !isReadOnly && selectedNode?.id === node.id,
             isConnecting,
-            onSelect: () => onSelectNode(node.id),
+            onSelect: () => !isReadOnly && onSelectNode(node.id),
             onDelete: () => onDeleteNode(stage.id, node.id),
             onRun: () => onRunAgent(node.id),
             onPortClick: (outputPort?: string) => onPortClick(node.id, outputPort),
             onToggleLock: () => onUpdateNode(node.id, { locked: !node.locked }),
+            diffKind: isReadOnly ? undefined : diffHighlights?.nodes[node.id],
+            onOpenSubWorkflow: () => setSubWorkflowPath([...subWorkflowTrail.map((entry) => entry.nodeId), node.id]),
+            readOnly: isReadOnly,
           },
           parentNode: `stage-${stage.id}`,
-          draggable: true,
+          draggable: !isReadOnly,
           style: {
             zIndex: 10,
           },
@@ -369,7 +392,7 @@ export function WorkflowCanvasMode({
     });
 
     // Add note nodes
-    workflow.notes?.forEach((note) => {
+    viewedWorkflow.notes?.forEach((note) => {
       flowNodes.push({
         id: note.id,
         type: 'note',
@@ -377,13 +400,13 @@ export function WorkflowCanvasMode({
         data: {
           note,
           onUpdate: (updates: Partial<Note>) => {
-            onUpdateNote?.(note.id, updates);
+            if (!isReadOnly) onUpdateNote?.(note.id, updates);
           },
           onDelete: () => {
-            onDeleteNote?.(note.id);
+            if (!isReadOnly) onDeleteNote?.(note.id);
           },
         },
-        draggable: true,
+        draggable: !isReadOnly,
         style: {
           zIndex: 5, // Below workflow nodes but above stages
         },
@@ -393,7 +416,10 @@ export function WorkflowCanvasMode({
     setNodes(flowNodes);
 
     // Create edges from connections with proper styling
-    const flowEdges: Edge[] = workflow.connections.map((conn) => ({
+    const highlightedEdges = new Set(isReadOnly ? [] : diffHighlights?.connectionIds || []);
+    const flowEdges: Edge[] = viewedWorkflow.connections.map((conn) => {
+      const edgeColor = highlightedEdges.has(conn.id) ? '#16a34a' : 'hsl(var(--primary))';
+      return {
       id: conn.id,
       source: conn.fromNodeId,
       target: conn.toNodeId,
@@ -404,19 +430,20 @@ export function WorkflowCanvasMode({
         type: MarkerType.ArrowClosed,
         width: 20,
         height: 20,
-        color: 'hsl(var(--primary))',
+        color: edgeColor,
       },
       style: { 
-        stroke: 'hsl(var(--primary))', 
-        strokeWidth: 2,
+        stroke: edgeColor, 
+        strokeWidth: highlightedEdges.has(conn.id) ? 3 : 2,
       },
       // Style when selected
       className: 'workflow-edge',
       zIndex: 100,
-    }));
+      };
+    });
 
     setEdges(flowEdges);
-  }, [workflow, selectedNode, isConnecting, stageBounds, onUpdateNote, onDeleteNote]);
+  }, [viewedWorkflow, isReadOnly, subWorkflowTrail, selectedNode, isConnecting, stageBounds, onUpdateNote, onDeleteNote, diffHighlights]);
 
   // Handle connection between nodes
   const onConnect = useCallback(
@@ -568,20 +595,23 @@ export function WorkflowCanvasMode({
     <div className="h-full w-full relative">
       <ReactFlowProvider>
         <ReactFlow
+          // Remount per drill-in level so each canvas fits its own view
+          key={subWorkflowTrail.map((entry) => entry.nodeId).join("/") || "root"}
           nodes={nodes}
           edges={edges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
-          onEdgesDelete={onEdgesDelete}
-          onNodeDragStop={onNodeDragStop}
-          onConnect={onConnect}
+          onEdgesDelete={isReadOnly ? undefined : onEdgesDelete}
+          onNodeDragStop={isReadOnly ? undefined : onNodeDragStop}
+          onConnect={isReadOnly ? undefined : onConnect}
+          nodesConnectable={!isReadOnly}
           nodeTypes={nodeTypes}
           connectionLineType={ConnectionLineType.Bezier}
           fitView
           minZoom={0.2}
           maxZoom={2}
           defaultViewport={{ x: 0, y: 0, zoom: 0.8 }}
-          deleteKeyCode="Delete"
+          deleteKeyCode={isReadOnly ? null : "Delete"}
           defaultEdgeOptions={{
             type: 'default',
             animated: true,
@@ -599,63 +629,122 @@ export function WorkflowCanvasMode({
               className="bg-background/80 backdrop-blur-sm"
             />
           )}
-          <Panel position="top-left">
-            <Card className="p-2">
-              <TooltipProvider>
-                <div className="flex gap-2">
-                  <AddNoteButton onAddNote={onAddNote} />
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button 
-                        onClick={onAutoLayoutVertical} 
-                        size="sm"
-                        variant="outline"
-                      >
-                        <AlignVerticalJustifyCenter className="h-4 w-4" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>Arrange vertically</TooltipContent>
-                  </Tooltip>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button 
-                        onClick={onAutoLayoutHorizontal} 
-                        size="sm"
-                        variant="outline"
+          {isReadOnly && (
+            <Panel position="top-center">
+              <Card className="p-2 flex items-center gap-1 text-sm">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2"
+                  onClick={() => setSubWorkflowPath(subWorkflowTrail.slice(0, -1).map((entry) => entry.nodeId))}
+                >
+                  <ArrowLeft className="h-3 w-3 mr-1" />
+                  Back
+                </Button>
+                <button className="text-muted-foreground hover:text-foreground" onClick={() => setSubWorkflowPath([])}>
+                  Workflow
+                </button>
+                {subWorkflowTrail.map((entry, index) => (
+                  <span key={entry.nodeId} className="flex items-center gap-1">
+                    <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                    {index === subWorkflowTrail.length - 1 ? (
+                      <span className="flex items-center gap-1 font-medium">
+                        <WorkflowIcon className="h-3 w-3" />
+                        {entry.name}
+                      </span>
+                    ) : (
+                      <button
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() => setSubWorkflowPath(subWorkflowTrail.slice(0, index + 1).map((e) => e.nodeId))}
                       >
-                        <AlignHorizontalJustifyCenter className="h-4 w-4" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>Arrange horizontally</TooltipContent>
-                  </Tooltip>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button 
-                        onClick={onAutoLayoutGrid} 
-                        size="sm"
-                        variant="outline"
-                      >
-                        <Grid3x3 className="h-4 w-4" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>Arrange in grid</TooltipContent>
-                  </Tooltip>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button 
-                        onClick={() => setShowMiniMap(!showMiniMap)} 
-                        size="sm"
-                        variant={showMiniMap ? "default" : "outline"}
-                      >
-                        <Map className="h-4 w-4" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>Toggle mini map</TooltipContent>
-                  </Tooltip>
-                </div>
-              </TooltipProvider>
-            </Card>
-          </Panel>
+                        {entry.name}
+                      </button>
+                    )}
+                  </span>
+                ))}
+                <span className="text-xs text-muted-foreground ml-2">read-only</span>
+              </Card>
+            </Panel>
+          )}
+          {!isReadOnly && (
+            <Panel position="top-left">
+              <Card className="p-2">
+                <TooltipProvider>
+                  <div className="flex gap-2">
+                    <AddNoteButton onAddNote={onAddNote} />
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button 
+                          onClick={onAutoLayoutVertical} 
+                          size="sm"
+                          variant="outline"
+                        >
+                          <AlignVerticalJustifyCenter className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>Arrange vertically</TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button 
+                          onClick={onAutoLayoutHorizontal} 
+                          size="sm"
+                          variant="outline"
+                        >
+                          <AlignHorizontalJustifyCenter className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>Arrange horizontally</TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button 
+                          onClick={onAutoLayoutGrid} 
+                          size="sm"
+                          variant="outline"
+                        >
+                          <Grid3x3 className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>Arrange in grid</TooltipContent>
+                    </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button 
+                          onClick={() => setShowMiniMap(!showMiniMap)} 
+                          size="sm"
+                          variant={showMiniMap ? "default" : "outline"}
+                        >
+                          <Map className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>Toggle mini map</TooltipContent>
+                    </Tooltip>
+                  </div>
+                </TooltipProvider>
+              </Card>
+            </Panel>
+          )}
+          {diffHighlights && !isReadOnly && (
+            <Panel position="top-right">
+              <Card className="p-2 flex items-center gap-2 text-sm">
+                <GitCompare className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">{diffHighlights.label}</span>
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <span className="inline-block w-2 h-2 rounded-full bg-amber-500" /> changed
+                  <span className="inline-block w-2 h-2 rounded-full bg-green-600 ml-1" /> added
+                </span>
+                {diffHighlights.removedCount > 0 && (
+                  <span className="text-xs text-muted-foreground">· {diffHighlights.removedCount} removed (not shown)</span>
+                )}
+                {onClearDiffHighlights && (
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onClearDiffHighlights}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </Card>
+            </Panel>
+          )}
         </ReactFlow>
       </ReactFlowProvider>
 
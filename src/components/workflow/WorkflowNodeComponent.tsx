@@ -18,8 +18,12 @@ import {
   FunctionSquare,
   Lock,
   LockOpen,
+  Workflow,
 } from "lucide-react";
 import type { WorkflowNode, AgentNode, FunctionNode } from "@/types/workflow";
+import { getAgentOutputPorts, getAgentPortValue } from "@/lib/agentSchema";
+import { ERROR_PORT, withErrorPort } from "@/lib/executionPolicy";
+import { getSubWorkflowProgress } from "@/lib/subWorkflow";
 
 interface WorkflowNodeComponentData {
   node: WorkflowNode;
@@ -30,6 +34,9 @@ interface WorkflowNodeComponentData {
   onRun: () => void;
   onPortClick: (outputPort?: string) => void;
   onToggleLock: () => void;
+  diffKind?: "added" | "changed"; // Set while revision changes are shown on the canvas
+  onOpenSubWorkflow?: () => void; // Sub-workflow nodes: drill into the child canvas
+  readOnly?: boolean; // Shown inside a sub-workflow drill-in - no editing or running
 }
 
 const agentIcons: Record<string, any> = {
@@ -39,6 +46,11 @@ const agentIcons: Record<string, any> = {
   custom: Brain,
 };
 
+const diffRings = {
+  added: "ring-4 ring-green-500 ring-offset-2",
+  changed: "ring-4 ring-amber-500 ring-offset-2",
+};
+
 const statusConfig = {
   idle: { icon: Circle, color: "text-muted-foreground", bg: "bg-background", border: "border-border" },
   running: { icon: Loader2, color: "text-yellow-600", bg: "bg-yellow-100", border: "border-yellow-400" },
@@ -47,8 +59,10 @@ const statusConfig = {
 };
 
 export const WorkflowNodeComponent = memo(({ data }: NodeProps<WorkflowNodeComponentData>) => {
-  const { node, selected, isConnecting, onSelect, onDelete, onRun, onPortClick, onToggleLock } = data;
+  const { node, selected, isConnecting, onSelect, onDelete, onRun, onPortClick, onToggleLock, diffKind, onOpenSubWorkflow, readOnly } = data;
   const status = statusConfig[node.status];
+  const subWorkflow = node.nodeType === "function" ? (node as FunctionNode).subWorkflow : undefined;
+  const subWorkflowProgress = getSubWorkflowProgress(subWorkflow);
   const StatusIcon = status.icon;
 
   const getIcon = () => {
@@ -57,6 +71,7 @@ export const WorkflowNodeComponent = memo(({ data }: NodeProps<WorkflowNodeCompo
       const IconComponent = agentIcons[agentNode.type] || Brain;
       return <IconComponent className="h-4 w-4" />;
     } else if (node.nodeType === "function") {
+      if ((node as FunctionNode).functionType === "sub_workflow") return <Workflow className="h-4 w-4" />;
       return <FunctionSquare className="h-4 w-4" />;
     }
     return <Bot className="h-4 w-4" />;
@@ -65,9 +80,12 @@ export const WorkflowNodeComponent = memo(({ data }: NodeProps<WorkflowNodeCompo
   const getOutputPorts = () => {
     if (node.nodeType === "function") {
       const functionNode = node as FunctionNode;
-      return functionNode.outputPorts || ["output"];
+      return withErrorPort(functionNode, functionNode.outputPorts || ["output"]);
+    }
+    if (node.nodeType === "agent") {
+      return getAgentOutputPorts(node as AgentNode);
     }
-    return ["output"]; // Use "output" for agents for consistency
+    return ["output"];
   };
 
   const getInputPorts = () => {
@@ -97,6 +115,7 @@ export const WorkflowNodeComponent = memo(({ data }: NodeProps<WorkflowNodeCompo
         cursor-pointer transition-all border-2
         ${status.bg} ${status.border}
         ${selected ? "ring-2 ring-primary shadow-lg" : "hover:shadow-md"}
+        ${diffKind && !selected ? diffRings[diffKind] : ""}
         ${node.status === "running" ? "animate-pulse" : ""}
       `}
       style={{ minWidth: `${dynamicWidth}px`, maxWidth: `${dynamicWidth}px` }}
@@ -162,45 +181,71 @@ export const WorkflowNodeComponent = memo(({ data }: NodeProps<WorkflowNodeCompo
                       {outputPorts.length} outputs
                     </Badge>
                   )}
+                  {subWorkflowProgress && (
+                    <Badge variant="outline" className="text-xs">
+                      {subWorkflowProgress.done}/{subWorkflowProgress.total} nodes
+                    </Badge>
+                  )}
                 </div>
               )}
             </div>
           </div>
           <div className="flex flex-col gap-1">
             <div className="flex gap-1 items-center">
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleLock();
+                  }}
+                  className="h-6 w-6 p-0"
+                >
+                  {node.locked ? (
+                    <Lock className="h-3 w-3 text-red-500" />
+                  ) : (
+                    <LockOpen className="h-3 w-3 text-muted-foreground" />
+                  )}
+                </Button>
+              )}
+              <StatusIcon className={`h-4 w-4 ${status.color} ${node.status === "running" ? "animate-spin" : ""}`} />
+            </div>
+            {!readOnly && (
               <Button
                 variant="ghost"
                 size="sm"
                 onClick={(e) => {
                   e.stopPropagation();
-                  onToggleLock();
+                  onDelete();
                 }}
                 className="h-6 w-6 p-0"
               >
-                {node.locked ? (
-                  <Lock className="h-3 w-3 text-red-500" />
-                ) : (
-                  <LockOpen className="h-3 w-3 text-muted-foreground" />
-                )}
+                <Trash2 className="h-3 w-3" />
               </Button>
-              <StatusIcon className={`h-4 w-4 ${status.color} ${node.status === "running" ? "animate-spin" : ""}`} />
-            </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={(e) => {
-                e.stopPropagation();
-                onDelete();
-              }}
-              className="h-6 w-6 p-0"
-            >
-              <Trash2 className="h-3 w-3" />
-            </Button>
+            )}
           </div>
         </div>
       </CardHeader>
 
-      {node.nodeType === "agent" && (
+      {subWorkflow && onOpenSubWorkflow && (
+        <CardContent className="p-3 pt-0">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={(e) => {
+              e.stopPropagation();
+              onOpenSubWorkflow();
+            }}
+            className="w-full h-7 text-xs"
+          >
+            <Workflow className="h-3 w-3 mr-1" />
+            Open
+          </Button>
+        </CardContent>
+      )}
+
+      {node.nodeType === "agent" && !readOnly && (
         <CardContent className="p-3 pt-0">
           <Button
             size="sm"
@@ -225,9 +270,9 @@ export const WorkflowNodeComponent = memo(({ data }: NodeProps<WorkflowNodeCompo
             // Extract number from port name (e.g., "output_1" -> "1")
             const portNumber = port.replace(/^output_/i, '');
             // Check if this port has data
-            const hasData = node.nodeType === "function" && 
-              (node as FunctionNode).outputs?.[port] && 
-              (node as FunctionNode).outputs![port].trim().length > 0;
+            const hasData = node.nodeType === "function"
+              ? !!(port === ERROR_PORT ? node.errorOutput : (node as FunctionNode).outputs?.[port])?.trim()
+              : node.nodeType === "agent" && getAgentPortValue(node as AgentNode, port).trim().length > 0;
             
             // For output_X ports, show just the number
             const portLabel = port.startsWith('output_') 
@@ -1,5 +1,5 @@
 // Free Agent Session Hook - Manages local state and execution
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useRef, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import type {
@@ -20,12 +20,27 @@ import type {
   AdvancedFeatures,
   ChildSession,
   OrchestrationState,
+  SessionBudget,
+  BudgetExceeded,
+  StreamingIteration,
+  ExecutionMode,
+  ContextDigest,
+  ChildResult,
 } from "@/types/freeAgent";
 import { executeFrontendTool, ToolExecutionContext, SpawnRequest } from "@/lib/freeAgentToolExecutor";
 import { resolveReferences, getResolvedReferenceSummary, type ResolverContext } from "@/lib/referenceResolver";
 import type { PromptDataPayload } from "@/lib/systemPromptBuilder";
 import type { PromptCustomization } from "@/types/systemPrompt";
 import { isBinaryTool, detectBinaryContent, sanitizeBinaryResultForContext } from "@/lib/binaryToolUtils";
+import { saveSession as persistSession } from "@/lib/freeAgentSessionStore";
+import { accumulateUsage, addUsage, getChildTreeUsage, summarizeSessionUsage, EMPTY_USAGE, EMPTY_USAGE_TOTALS } from "@/lib/llmPricing";
+import { checkBudget, deriveChildBudget, describeBudgetExceeded } from "@/lib/sessionBudget";
+import { invokeFreeAgentStream } from "@/lib/freeAgentStream";
+import { compactContext } from "@/lib/contextCompaction";
+import { buildSpawnResult, formatChildResultEntry, mergeChildResult } from "@/lib/childResults";
+import { checkAgentCap, createChildSession, getChildDepth, getChildPath, getMaxSpawnDepth } from "@/lib/agentTree";
+import { getModelEndpointConfig } from "@/lib/modelRegistry";
+import type { TokenUsage, UsageTotals } from "@/types/usage";
 
 interface UseFreeAgentSessionOptions {
   maxIterations?: number;
@@ -89,12 +104,19 @@ interface CacheEntry {
 
 const MAX_RETRY_ATTEMPTS = 3;
 
+// Minimum gap between UI updates while an iteration's output is streaming in
+const STREAM_FLUSH_INTERVAL_MS = 100;
+
+// Minimum gap between IndexedDB snapshots while a session is changing
+const PERSIST_INTERVAL_MS = 1500;
+
 export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
   const { maxIterations: defaultMaxIterations = 50 } = options;
 
   const [session, setSession] = useState<FreeAgentSession | null>(null);
   const [isRunning, setIsRunning] = useState(false);
   const [activeToolIds, setActiveToolIds] = useState<Set<string>>(new Set());
+  const [streamingIteration, setStreamingIteration] = useState<StreamingIteration | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const iterationRef = useRef(0);
   const shouldStopRef = useRef(false); // Flag to stop execution loop
@@ -104,6 +126,8 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
   const scratchpadRef = useRef<string>("");
   const toolResultAttributesRef = useRef<Record<string, ToolResultAttribute>>({});
   const artifactsRef = useRef<FreeAgentArtifact[]>([]);
+  const contextDigestRef = useRef<ContextDigest | undefined>(undefined);
+  const childResultsRef = useRef<ChildResult[]>([]);
   
   // Tool cache for expensive operations - caches EXACT duplicate requests only
   const toolCacheRef = useRef<Map<string, CacheEntry>>(new Map());
@@ -122,6 +146,7 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
   const runningChildrenRef = useRef<Set<string>>(new Set());
   const orchestrationResolverRef = useRef<(() => void) | null>(null);
   const spawnRequestRef = useRef<SpawnRequest | null>(null);
+  const spawnTreeSizeRef = useRef(0); // Agents spawned in the current spawn tree, at every level
   
   // Prompt customization ref for self-author tools
   const promptCustomizationRef = useRef<PromptCustomization | null>(null);
@@ -129,11 +154,69 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
   // Callback to notify UI when prompt customization changes (for write_self)
   const promptCustomizationChangeCallbackRef = useRef<(() => void) | null>(null);
   
-  // Update session (in-memory only - no localStorage persistence)
+  // Budget tracking - running spend shared by the orchestrator and its children
+  const budgetRef = useRef<SessionBudget | undefined>(undefined);
+  const usageTotalsRef = useRef<UsageTotals>(EMPTY_USAGE_TOTALS);
+  const runtimeMsRef = useRef(0); // Run time banked from previous runs
+  const loopStartedAtRef = useRef<number | null>(null);
+  
+  // Latest unsaved snapshot and the pending write timer for incremental persistence
+  const pendingPersistRef = useRef<FreeAgentSession | null>(null);
+  const persistTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  // Update session state (persisted to IndexedDB by the effect below)
   const updateSession = useCallback((updater: (prev: FreeAgentSession | null) => FreeAgentSession | null) => {
     setSession((prev) => updater(prev));
   }, []);
 
+  // Active run time: banked time plus the time since the current loop started
+  const getRuntimeMs = useCallback(() => {
+    const startedAt = loopStartedAtRef.current;
+    return runtimeMsRef.current + (startedAt ? Date.now() - startedAt : 0);
+  }, []);
+
+  const recordUsage = useCallback((model: string, usage: TokenUsage | undefined) => {
+    if (usage) usageTotalsRef.current = accumulateUsage(usageTotalsRef.current, model, usage);
+  }, []);
+
+  // Point the budget refs at a session (on start, restore or resume)
+  const loadBudgetState = useCallback((source: FreeAgentSession) => {
+    budgetRef.current = source.budget;
+    usageTotalsRef.current = summarizeSessionUsage(source).total;
+    runtimeMsRef.current = source.runtimeMs || 0;
+    loopStartedAtRef.current = null;
+  }, []);
+
+  const flushPersist = useCallback(() => {
+    if (persistTimerRef.current) {
+      clearTimeout(persistTimerRef.current);
+      persistTimerRef.current = null;
+    }
+    const snapshot = pendingPersistRef.current;
+    pendingPersistRef.current = null;
+    if (snapshot) {
+      persistSession(snapshot).catch((error) => console.error("Failed to persist session:", error));
+    }
+  }, []);
+
+  // Throttled snapshots - a long run writes at most once per interval, plus a trailing write
+  useEffect(() => {
+    if (!session) return;
+    pendingPersistRef.current = session;
+    if (!persistTimerRef.current) {
+      persistTimerRef.current = setTimeout(flushPersist, PERSIST_INTERVAL_MS);
+    }
+  }, [session, flushPersist]);
+
+  // Best-effort save of the latest snapshot when the page is closed or reloaded
+  useEffect(() => {
+    window.addEventListener("pagehide", flushPersist);
+    return () => {
+      window.removeEventListener("pagehide", flushPersist);
+      flushPersist();
+    };
+  }, [flushPersist]);
+
   // Handle artifact creation - update ref immediately for sync access
   const handleArtifactCreated = useCallback((artifact: FreeAgentArtifact) => {
     // Update ref IMMEDIATELY (synchronous) for next iteration
@@ -268,13 +351,42 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
 
         // Call edge function with current state - pass tool results directly
         // Include toolResultAttributes and artifacts for edge function reference resolution (backup)
-        const currentAttributes = toolResultAttributesRef.current;
         const currentArtifacts = currentSession.artifacts || [];
+
+        // Compact what is sent to the model once the prompt outgrows the model's context window
+        const compaction = await compactContext(
+          {
+            model: currentSession.model,
+            prompt: currentSession.prompt,
+            blackboard: currentBlackboard,
+            digest: contextDigestRef.current,
+            scratchpad: currentScratchpad,
+            previousResults: previousIterationResults,
+            artifacts: currentArtifacts,
+            sessionFiles: currentSession.sessionFiles,
+            promptData: currentSession.promptData,
+          },
+          iterationRef.current
+        );
+        recordUsage(currentSession.model, compaction.usage);
+        compaction.attributes.forEach(handleAttributeCreated);
+        if (compaction.digest !== contextDigestRef.current) {
+          const digest = compaction.digest;
+          contextDigestRef.current = digest;
+          updateSession((prev) => (prev ? { ...prev, contextDigest: digest } : null));
+        }
+        const currentAttributes = toolResultAttributesRef.current;
         
-        const { data, error } = await supabase.functions.invoke("free-agent", {
-          body: {
+        // Stream the model output so the canvas and raw viewer show it while it is written
+        const streamingStartedAt = new Date().toISOString();
+        const streamingIterationNumber = iterationRef.current;
+        let lastStreamFlush = 0;
+        setStreamingIteration({ iteration: streamingIterationNumber, startedAt: streamingStartedAt, text: "" });
+        const data = await invokeFreeAgentStream(
+          {
             prompt: currentSession.prompt,
             model: currentSession.model,
+            modelEndpoint: getModelEndpointConfig(currentSession.model),
             blackboard: currentBlackboard.map((b) => ({
               category: b.category,
               content: b.content,
@@ -290,7 +402,11 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
               content: f.content,
             })),
             // Pass PREVIOUS iteration's results directly (not from session state)
-            previousToolResults: previousIterationResults,
+            previousToolResults: compaction.previousResults,
+            // Digest shown in place of the blackboard entries it covers
+            blackboardDigest: compaction.digest
+              ? { summary: compaction.digest.summary, coveredEntries: compaction.digest.coveredEntries }
+              : undefined,
             iteration: iterationRef.current,
             // Pass scratchpad as persistent memory
             scratchpad: currentScratchpad,
@@ -318,10 +434,18 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
             advancedFeatures: currentSession.advancedFeatures,
             // Pass tool instances for per-instance configuration
             toolInstances: currentSession.toolInstances,
+            executionMode: currentSession.executionMode,
           },
-        });
+          (text) => {
+            const now = Date.now();
+            if (now - lastStreamFlush < STREAM_FLUSH_INTERVAL_MS) return;
+            lastStreamFlush = now;
+            setStreamingIteration({ iteration: streamingIterationNumber, startedAt: streamingStartedAt, text });
+          }
+        ).finally(() => setStreamingIteration(null));
 
-        if (error) throw error;
+        // Count the call against the budget whether or not the response parsed
+        recordUsage(currentSession.model, data.usage);
 
         // Handle parsing/processing errors returned by edge function
         if (!data.success) {
@@ -334,9 +458,11 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
               userPrompt: data.debug?.userPrompt || currentSession.prompt,
               fullPromptSent: data.debug?.fullPromptSent || "",
               model: currentSession.model,
+              executionMode: currentSession.executionMode,
               scratchpadLength: data.debug?.scratchpadLength || 0,
               blackboardEntries: data.debug?.blackboardEntries || 0,
               previousResultsCount: data.debug?.previousResultsCount || 0,
+              estimatedPromptTokens: compaction.estimatedTokens,
             },
             output: {
               rawLLMResponse: data.debug?.rawLLMResponse || data.parseError?.rawResponse || "",
@@ -345,6 +471,8 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
               errorMessage: data.error,
             },
             toolResults: [],
+            usage: data.usage,
+            compaction: compaction.record,
           };
 
           updateSession((prev) =>
@@ -526,10 +654,16 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
                 promptCustomizationChangeCallbackRef.current();
               }
             },
-            // Spawn callback
+            // Results handed back by spawned children, for read_child_results
+            childResults: childResultsRef.current,
+            // Spawn callback - the orchestrator's children start a new spawn tree
             onSpawnChildren: (request) => {
+              const refused = checkAgentCap(0, request.children.length, currentSession.advancedFeatures);
+              if (refused) return refused;
+              spawnTreeSizeRef.current = request.children.length;
               spawnRequestRef.current = request;
               console.log(`[Spawn] Request received for ${request.children.length} children:`, request.children.map(c => c.name));
+              return null;
             },
           };
           
@@ -610,9 +744,11 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
                 userPrompt: data.debug?.userPrompt || currentSession.prompt,
                 fullPromptSent: data.debug?.fullPromptSent || "",
                 model: currentSession.model,
+                executionMode: currentSession.executionMode,
                 scratchpadLength: data.debug?.scratchpadLength || 0,
                 blackboardEntries: data.debug?.blackboardEntries || 0,
                 previousResultsCount: data.debug?.previousResultsCount || 0,
+                estimatedPromptTokens: compaction.estimatedTokens,
               },
               output: {
                 rawLLMResponse: data.debug?.rawLLMResponse || "",
@@ -620,6 +756,8 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
               },
               toolResults: iterationToolResults,
               toolCalls: response.tool_calls || [],  // Tool calls requested by LLM this iteration
+              usage: data.usage,
+              compaction: compaction.record,
             };
             
             // Add blackboard entry - use same logic as main flow (auto-generate if missing)
@@ -672,9 +810,11 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
             userPrompt: data.debug?.userPrompt || currentSession.prompt,
             fullPromptSent: data.debug?.fullPromptSent || "",
             model: currentSession.model,
+            executionMode: currentSession.executionMode,
             scratchpadLength: data.debug?.scratchpadLength || 0,
             blackboardEntries: data.debug?.blackboardEntries || 0,
             previousResultsCount: data.debug?.previousResultsCount || 0,
+            estimatedPromptTokens: compaction.estimatedTokens,
           },
           output: {
             rawLLMResponse: data.debug?.rawLLMResponse || "",
@@ -682,6 +822,8 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
           },
           toolResults: iterationToolResults,
           toolCalls: response.tool_calls || [],  // Tool calls requested by LLM this iteration
+          usage: data.usage,
+          compaction: compaction.record,
         };
 
         // Determine if we need to auto-generate a blackboard entry
@@ -918,18 +1060,19 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
         return { continue: false, toolResults: [], hadError: true, errorMessage };
       }
     },
-    [handleArtifactCreated, handleBlackboardUpdate, handleScratchpadUpdate, handleAssistanceNeeded, handleAttributeCreated, updateSession]
+    [handleArtifactCreated, handleBlackboardUpdate, handleScratchpadUpdate, handleAssistanceNeeded, handleAttributeCreated, updateSession, recordUsage]
   );
 
-  // Run a child session - calls edge function iteratively
+  // Run a child session - calls edge function iteratively. Children that spawn run their
+  // own children through the same function, one level further down the spawn tree.
   const runChildSession = useCallback(
-    async (
+    async function runChild(
       child: ChildSession,
       parentSession: FreeAgentSession,
       parentPromptData: FreeAgentSession['promptData'],
       onUpdate: (child: ChildSession) => void,
       onToolActive?: (toolId: string, active: boolean) => void
-    ) => {
+    ): Promise<void> {
       let childIteration = 0;
       let lastToolResults: ToolResult[] = [];
       let childScratchpad = child.scratchpad;
@@ -938,8 +1081,124 @@ export function useFreeAgentSession(options: UseFreeAgentSessionOptions = {}) {
       let childArtifacts = [...child.artifacts];
       let childAttributes: Record<string, ToolResultAttribute> = { ...child.toolResultAttributes };
       let childRawData: RawIterationData[] = [...(child.rawData || [])];
+      let childUsage: TokenUsage = child.usage || EMPTY_USAGE;
+      let childReport = child.report;
+      let reportReminderSent = false;
+      let childTotals: UsageTotals = child.usage
+        ? accumulateUsage(EMPTY_USAGE_TOTALS, parentSession.model, child.usage)
+        : EMPTY_USAGE_TOTALS;
+      let childOrchestration = child.orchestration;
+      let childResults: ChildResult[] = [];
+      const childStartedAt = Date.now();
       
-      console.log(`[Child:${child.name}] Starting execution with max ${child.maxIterations} iterations`);
+      // Children below the max depth may spawn too - never self-author
+      const depth = getChildDepth(child);
+      const childPath = getChildPath(child);
+      const maxDepth = getMaxSpawnDepth(parentSession.advancedFeatures);
+      const spawnFeatures: AdvancedFeatures | undefined =
+        parentSession.advancedFeatures?.spawnEnabled && depth < maxDepth
+          ? { ...parentSession.advancedFeatures, selfAuthorEnabled: false }
+          : undefined;
+      
+      // Current state of this child, as reported through onUpdate
+      const snapshot = (overrides: Partial<ChildSession> = {}): ChildSession => ({
+        ...child,
+        currentIteration: childIteration,
+        blackboard: childBlackboard,
+        scratchpad: childScratchpad,
+        toolCalls: childToolCalls,
+        artifacts: childArtifacts,
+        toolResultAttributes: childAttributes,
+        usage: childUsage,
+        rawData: childRawData,
+        report: childReport,
+        orchestration: childOrchestration,
+        ...overrides,
+      });
+      
+      // Run the children this child spawned, then merge what they hand back into its memory
+      const runSubChildren = async (request: SpawnRequest) => {
+        const childMaxIterations = parentSession.advancedFeatures?.childMaxIterations || 20;
+        const subBudget = deriveChildBudget(child.budget, {
+          maxIterations: child.maxIterations,
+          childMaxIterations,
+          childCount: request.children.length,
+          usage: childTotals,
+          runtimeMs: Date.now() - childStartedAt,
+        });
+        const subChildren = request.children.map(spec => createChildSession(spec, request, {
+          maxIterations: childMaxIterations,
+          budget: subBudget,
+          parentPath: childPath,
+          depth: depth + 1,
+        }));
+        
+        const orchestration: OrchestrationState = {
+          role: 'sub_orchestrator',
+          parentId: child.id,
+          childName: child.name,
+          children: subChildren,
+          awaitingChildren: true,
+          completionThreshold: request.completionThreshold,
+        };
+        childOrchestration = orchestration;
+        onUpdate(snapshot({ status: 'waiting' }));
+        console.log(`[Child:${childPath}] Spawning ${subChildren.length} children at depth ${depth + 1}`);
+        
+        const latest = new Map(subChildren.map(sub => [sub.name, sub]));
+        const outcomes = await Promise.all(subChildren.map(async (sub) => {
+          try {
+            await runChild(sub, parentSession, parentPromptData, (updatedSub) => {
+              latest.set(sub.name, updatedSub);
+              childOrchestration = { ...orchestration, children: subChildren.map(c => latest.get(c.name) || c) };
+              onUpdate(snapshot({ status: 'waiting' }));
+            }, onToolActive);
+            return { name: sub.name, success: true };
+          } catch (error) {
+            console.error(`[Child:${getChildPath(sub)}] Error:`, error);
+            return { name: sub.name, success: false, error: String(error) };
+          }
+        }));
+        
+        const takenNames = new Set(Object.keys(childAttributes));
+        const results: ChildResult[] = [];
+        const finished = subChildren.map(sub => {
+          const finalSub = latest.get(sub.name) || sub;
+          const merge = mergeChildResult(finalSub, request.parentAttributes, takenNames);
+          results.push(merge.result);
+          for (const attribute of merge.attributes) {
+            childAttributes[attribute.name] = attribute;
+          }
+          childArtifacts.push(...merge.artifacts);
+          childBlackboard.push({
+            id: crypto.randomUUID(),
+            timestamp: new Date().toISOString(),
+            category: finalSub.status === 'error' ? 'error' : 'observation',
+            content: formatChildResultEntry(merge.result),
+            iteration: childIteration,
+            tools: ['spawn'],
+          });
+          const additions = finalSub.scratchpad.slice(request.parentScratchpad.length);
+          if (finalSub.scratchpad.length > request.parentScratchpad.length && additions.trim()) {
+            childScratchpad += `\n\n## [${sub.name}] Results\n${additions}`;
+          }
+          // What the subtree spent counts against this child's own budget
+          const subUsage = getChildTreeUsage(finalSub);
+          if (subUsage) {
+            childTotals = accumulateUsage(childTotals, parentSession.model, subUsage);
+          }
+          return { ...finalSub, result: merge.result };
+        });
+        
+        const spawnedNames = new Set(results.map(r => r.childName));
+        childResults = [...childResults.filter(r => !spawnedNames.has(r.childName)), ...results];
+        childOrchestration = { ...orchestration, awaitingChildren: false, children: finished };
+        onUpdate(snapshot());
+        console.log(`[Child:${childPath}] ${outcomes.filter(o => o.success).length}/${subChildren.length} children completed`);
+        return buildSpawnResult(results, outcomes);
+      };
+      
+      console.log(`[Child:${childPath}] Starting execution with max ${child.maxIterations} iterations`);
       
       // Build child's promptData by substituting the user_task section with child-specific task and rules
       // This keeps the identity section clean and uses the proper task section
@@ -969,9 +1228,11 @@ ${child.task}
 - If your last 2 blackboard entries are nearly identical, YOU ARE LOOPING
 - If looping: Check your scratchpad/attributes - data may already be there
 
-**3. COMPLETION CRITERIA:**
+**3. COMPLETION CRITERIA - YOUR RESULT FOR THE PARENT:**
 - When ALL items in your task are done, set status to "completed"
-- Include final_report with summary of what you collected
+- In the SAME response include final_report: summary (what you did and found) and key_findings (concrete facts with values)
+- final_report is what your parent receives - it does NOT read your blackboard
+- Attributes you save are handed over as "${child.name}.<name>" - mention the important ones in your summary
 - Write consolidated findings to scratchpad with [${child.name}] prefix
 
 **4. EFFICIENCY:**
@@ -986,20 +1247,25 @@ ${child.task}
       } : undefined;
       
       while (childIteration < child.maxIterations && !shouldStopRef.current) {
+        // Stop when either the child's sub-budget or the shared session budget runs out
+        const budgetExceeded =
+          checkBudget(child.budget, childTotals, Date.now() - childStartedAt) ||
+          checkBudget(budgetRef.current, usageTotalsRef.current, getRuntimeMs());
+        if (budgetExceeded) {
+          console.log(`[Child:${child.name}] ${describeBudgetExceeded(budgetExceeded)}`);
+          onUpdate(snapshot({
+            status: 'paused',
+            endTime: new Date().toISOString(),
+            budgetExceeded,
+            error: describeBudgetExceeded(budgetExceeded),
+          }));
+          return;
+        }
+        
         childIteration++;
         
         // Update child state
-        const updatedChild: ChildSession = {
-          ...child,
-          currentIteration: childIteration,
-          blackboard: childBlackboard,
-          scratchpad: childScratchpad,
-          toolCalls: childToolCalls,
-          artifacts: childArtifacts,
-          toolResultAttributes: childAttributes,
-          rawData: childRawData,
-        };
-        onUpdate(updatedChild);
+        onUpdate(snapshot());
         
         try {
           console.log(`[Child:${child.name}] Iteration ${childIteration}/${child.maxIterations}`);
@@ -1009,6 +1275,7 @@ ${child.task}
             body: {
               prompt: child.task,
               model: parentSession.model,
+              modelEndpoint: getModelEndpointConfig(parentSession.model),
               blackboard: childBlackboard.map(b => ({
                 category: b.category,
                 content: b.content,
@@ -1043,12 +1310,21 @@ ${child.task}
                 description: a.description,
               })),
               promptData: childPromptData,
-              advancedFeatures: undefined, // Children don't get advanced features
+              // Spawn only, with maxSpawnDepth counting the levels left below this child
+              advancedFeatures: spawnFeatures && { ...spawnFeatures, maxSpawnDepth: maxDepth - depth },
+              executionMode: parentSession.executionMode,
             },
           });
           
           if (error) throw error;
           
+          // Failed parses were still billed - count their tokens too
+          if (data.usage) {
+            childUsage = addUsage(childUsage, data.usage);
+            childTotals = accumulateUsage(childTotals, parentSession.model, data.usage);
+            recordUsage(parentSession.model, data.usage);
+          }
+          
           if (!data.success) {
             console.error(`[Child:${child.name}] LLM error:`, data.error);
             // Add error to blackboard and continue
@@ -1070,6 +1346,7 @@ ${child.task}
             timestamp: new Date().toISOString(),
             input: {
               model: parentSession.model || 'unknown',
+              executionMode: parentSession.executionMode,
               userPrompt: child.task,
               systemPrompt: data.debug?.fullPromptSent || data.debug?.systemPrompt || '',
               fullPromptSent: data.debug?.fullPromptSent || '',
@@ -1090,6 +1367,7 @@ ${child.task}
               error: tr.error,
             })),
             toolCalls: response.tool_calls || [],  // Tool calls requested by LLM this iteration
+            usage: data.usage,
           });
           
           // Process tool calls first to get tool names for blackboard
@@ -1287,6 +1565,37 @@ ${child.task}
                 success: true,
                 result: { entries: childBlackboard },
               });
+            } else if (handler.tool === 'spawn' || handler.tool === 'read_child_results') {
+              let spawnRequest: SpawnRequest | null = null;
+              const toolResult = await executeFrontendTool(handler.tool, handler.params || {}, {
+                sessionId: parentSession.id,
+                prompt: child.task,
+                scratchpad: childScratchpad,
+                blackboard: childBlackboard,
+                sessionFiles: parentSession.sessionFiles,
+                toolResultAttributes: childAttributes,
+                artifacts: childArtifacts,
+                onArtifactCreated: () => {},
+                onBlackboardUpdate: () => {},
+                onScratchpadUpdate: () => {},
+                onAssistanceNeeded: () => {},
+                advancedFeatures: spawnFeatures,
+                spawnDepth: depth,
+                onSpawnChildren: (request) => {
+                  // Reserve the slots right away so siblings running in parallel see them
+                  const refused = checkAgentCap(spawnTreeSizeRef.current, request.children.length, spawnFeatures);
+                  if (refused) return refused;
+                  spawnTreeSizeRef.current += request.children.length;
+                  spawnRequest = request;
+                  return null;
+                },
+                childResults,
+              });
+              // Spawning pauses this child until its own children finish
+              const request = spawnRequest as SpawnRequest | null;
+              iterationToolResults.push(request
+                ? { tool: handler.tool, success: true, result: await runSubChildren(request) }
+                : { tool: handler.tool, success: toolResult.success, result: toolResult.result, error: toolResult.error });
             } else {
               // Other frontend tools - just log and pass through
               console.log(`[Child:${child.name}] Unhandled frontend tool: ${handler.tool}`);
@@ -1342,40 +1651,35 @@ ${child.task}
           
           // Check for completion
           if (response.status === 'completed') {
+            if (response.final_report?.summary) {
+              childReport = {
+                summary: response.final_report.summary,
+                keyFindings: response.final_report.key_findings || [],
+              };
+            } else if (!reportReminderSent && childIteration < child.maxIterations) {
+              // The parent only sees what the child hands back, so ask once for the missing result
+              reportReminderSent = true;
+              console.warn(`[Child:${child.name}] Completed without final_report - asking for its result`);
+              lastToolResults = [{
+                tool: '_system_child_result_required',
+                success: false,
+                error: 'You set status "completed" without a final_report. Respond again with status "completed" and final_report { summary, key_findings, tools_used, artifacts_created } - it is the only thing your parent receives.',
+              }, ...lastToolResults];
+              continue;
+            }
             console.log(`[Child:${child.name}] Completed at iteration ${childIteration}`);
-            const finalChild: ChildSession = {
-              ...child,
-              status: 'completed',
-              currentIteration: childIteration,
-              endTime: new Date().toISOString(),
-              blackboard: childBlackboard,
-              scratchpad: childScratchpad,
-              toolCalls: childToolCalls,
-              artifacts: childArtifacts,
-              toolResultAttributes: childAttributes,
-              rawData: childRawData,
-            };
-            onUpdate(finalChild);
+            onUpdate(snapshot({ status: 'completed', endTime: new Date().toISOString() }));
             return;
           }
           
           // Check for error status
           if (response.status === 'error') {
             console.error(`[Child:${child.name}] Error status at iteration ${childIteration}`);
-            const errorChild: ChildSession = {
-              ...child,
+            onUpdate(snapshot({
               status: 'error',
-              currentIteration: childIteration,
               endTime: new Date().toISOString(),
-              blackboard: childBlackboard,
-              scratchpad: childScratchpad,
-              toolCalls: childToolCalls,
-              artifacts: childArtifacts,
-              toolResultAttributes: childAttributes,
-              rawData: childRawData,
               error: response.message_to_user || 'Child agent encountered an error',
-            };
-            onUpdate(errorChild);
+            }));
             return;
           }
           
@@ -1396,328 +1700,330 @@ ${child.task}
       
       // Max iterations reached
       console.log(`[Child:${child.name}] Max iterations reached (${child.maxIterations})`);
-      const finalChild: ChildSession = {
-        ...child,
-        status: 'completed',
-        currentIteration: childIteration,
-        endTime: new Date().toISOString(),
-        blackboard: childBlackboard,
-        scratchpad: childScratchpad,
-        toolCalls: childToolCalls,
-        artifacts: childArtifacts,
-        toolResultAttributes: childAttributes,
-        rawData: childRawData,
-      };
-      onUpdate(finalChild);
+      onUpdate(snapshot({ status: 'completed', endTime: new Date().toISOString() }));
     },
-    []
+    [getRuntimeMs, recordUsage]
   );
 
+  // Pause the session when a budget limit is crossed; extendBudget resumes it
+  const pauseForBudget = useCallback((exceeded: BudgetExceeded) => {
+    const reason = describeBudgetExceeded(exceeded);
+    console.log(`[Budget] ${reason}`);
+    toast.warning(`${reason}. Session paused.`);
+    updateSession((prev) =>
+      prev
+        ? {
+            ...prev,
+            status: "paused",
+            error: reason,
+            budgetExceeded: exceeded,
+            lastErrorIteration: undefined,
+          }
+        : null
+    );
+  }, [updateSession]);
+
   // Run the iteration loop with retry logic
   const runIterationLoop = useCallback(
     async (sessionId: string, initialSession: FreeAgentSession, initialToolResults: ToolResult[] = []) => {
       let shouldContinue = true;
       let lastToolResults = initialToolResults;
       const maxIter = maxIterationsRef.current;
+      loopStartedAtRef.current = Date.now();
       
-      while (shouldContinue && !shouldStopRef.current && iterationRef.current < maxIter) {
-        // Check for pending interject - if so, wait for user input
-        if (pendingInterjectRef.current !== null) {
-          console.log("[Interject] Waiting for user input...");
-          // Wait for interject to be processed
-          await new Promise<void>((resolve) => {
-            interjectResolverRef.current = resolve;
-          });
-          interjectResolverRef.current = null;
-          console.log("[Interject] Resuming after user input");
-        }
-        // Check stop flag at start of each iteration
-        if (shouldStopRef.current) {
-          console.log("Stop requested, breaking loop");
-          break;
-        }
+      try {
+        while (shouldContinue && !shouldStopRef.current && iterationRef.current < maxIter) {
+          // Check for pending interject - if so, wait for user input
+          if (pendingInterjectRef.current !== null) {
+            console.log("[Interject] Waiting for user input...");
+            // Wait for interject to be processed
+            await new Promise<void>((resolve) => {
+              interjectResolverRef.current = resolve;
+            });
+            interjectResolverRef.current = null;
+            console.log("[Interject] Resuming after user input");
+          }
+          // Check stop flag at start of each iteration
+          if (shouldStopRef.current) {
+            console.log("Stop requested, breaking loop");
+            break;
+          }
         
-        // Use initialSession directly - refs track latest memory state
-        const result = await executeIteration(initialSession, lastToolResults);
+          // Check budgets before spending on another iteration
+          const budgetExceeded = checkBudget(budgetRef.current, usageTotalsRef.current, getRuntimeMs());
+          if (budgetExceeded) {
+            pauseForBudget(budgetExceeded);
+            break;
+          }
+        
+          // Use initialSession directly - refs track latest memory state
+          const result = await executeIteration(initialSession, lastToolResults);
         
-        // Handle error with auto-retry logic
-        if (result.hadError) {
-          retryCountRef.current++;
-          lastErrorIterationRef.current = iterationRef.current;
+          // Handle error with auto-retry logic
+          if (result.hadError) {
+            retryCountRef.current++;
+            lastErrorIterationRef.current = iterationRef.current;
           
-          console.log(`[Retry ${retryCountRef.current}/${MAX_RETRY_ATTEMPTS}] Error at iteration ${iterationRef.current}: ${result.errorMessage}`);
+            console.log(`[Retry ${retryCountRef.current}/${MAX_RETRY_ATTEMPTS}] Error at iteration ${iterationRef.current}: ${result.errorMessage}`);
           
-          if (retryCountRef.current < MAX_RETRY_ATTEMPTS) {
-            // Auto-retry: rollback iteration counter and try again
-            iterationRef.current--;
-            toast.warning(`Retrying iteration (attempt ${retryCountRef.current + 1}/${MAX_RETRY_ATTEMPTS})...`);
+            if (retryCountRef.current < MAX_RETRY_ATTEMPTS) {
+              // Auto-retry: rollback iteration counter and try again
+              iterationRef.current--;
+              toast.warning(`Retrying iteration (attempt ${retryCountRef.current + 1}/${MAX_RETRY_ATTEMPTS})...`);
             
-            // Update session to show retry status
-            updateSession((prev) =>
-              prev
-                ? {
-                    ...prev,
-                    status: "running",
-                    retryCount: retryCountRef.current,
-                    lastErrorIteration: lastErrorIterationRef.current,
-                  }
-                : null
-            );
+              // Update session to show retry status
+              updateSession((prev) =>
+                prev
+                  ? {
+                      ...prev,
+                      status: "running",
+                      retryCount: retryCountRef.current,
+                      lastErrorIteration: lastErrorIterationRef.current,
+                    }
+                  : null
+              );
             
-            // Brief delay before retry
-            await new Promise((resolve) => setTimeout(resolve, 1000));
-            continue; // Retry the iteration
+              // Brief delay before retry
+              await new Promise((resolve) => setTimeout(resolve, 1000));
+              continue; // Retry the iteration
+            } else {
+              // Max retries reached - pause for manual intervention
+              toast.error(`Failed after ${MAX_RETRY_ATTEMPTS} attempts. Click Retry to try again.`);
+              updateSession((prev) =>
+                prev
+                  ? {
+                      ...prev,
+                      status: "paused",
+                      error: result.errorMessage,
+                      retryCount: retryCountRef.current,
+                      lastErrorIteration: lastErrorIterationRef.current,
+                    }
+                  : null
+              );
+              shouldContinue = false;
+              break;
+            }
           } else {
-            // Max retries reached - pause for manual intervention
-            toast.error(`Failed after ${MAX_RETRY_ATTEMPTS} attempts. Click Retry to try again.`);
-            updateSession((prev) =>
-              prev
-                ? {
-                    ...prev,
-                    status: "paused",
-                    error: result.errorMessage,
-                    retryCount: retryCountRef.current,
-                    lastErrorIteration: lastErrorIterationRef.current,
-                  }
-                : null
-            );
-            shouldContinue = false;
-            break;
+            // Success - reset retry counter
+            retryCountRef.current = 0;
           }
-        } else {
-          // Success - reset retry counter
-          retryCountRef.current = 0;
-        }
         
-        // Handle spawn request - execute child sessions in parallel
-        if (result.spawnRequested && spawnRequestRef.current) {
-          const spawnRequest = spawnRequestRef.current;
-          spawnRequestRef.current = null;
+          // Handle spawn request - execute child sessions in parallel
+          if (result.spawnRequested && spawnRequestRef.current) {
+            const spawnRequest = spawnRequestRef.current;
+            spawnRequestRef.current = null;
           
-          console.log(`[Spawn] Orchestrator entering waiting mode for ${spawnRequest.children.length} children`);
+            console.log(`[Spawn] Orchestrator entering waiting mode for ${spawnRequest.children.length} children`);
           
-          // Use initialSession - promptData doesn't change during execution
-          const parentPromptData = initialSession.promptData;
+            // Use initialSession - promptData doesn't change during execution
+            const parentPromptData = initialSession.promptData;
           
-          // Create child session objects
-          const childSessions: ChildSession[] = spawnRequest.children.map(child => ({
-            id: crypto.randomUUID(),
-            name: child.name,
-            task: child.task,
-            status: 'running' as const,
-            promptModifications: [
-              // Add task as identity override
-              { type: 'set_task' as const, content: child.task },
-              ...(child.sectionOverrides ? 
-                Object.entries(child.sectionOverrides).map(([sectionId, content]) => ({
-                  type: 'override_section' as const,
-                  sectionId,
-                  content,
-                })) : []),
-            ],
-            maxIterations: child.maxIterations || initialSession.advancedFeatures?.childMaxIterations || 20,
-            currentIteration: 0,
-            startTime: new Date().toISOString(),
-            blackboard: [],
-            scratchpad: spawnRequest.parentScratchpad,
-            toolCalls: [],
-            artifacts: [],
-            toolResultAttributes: { ...spawnRequest.parentAttributes }, // Inherit parent's attributes
-            rawData: [],
-          }));
+            // Each child gets a slice of what's left of the session budget
+            const childBudget = deriveChildBudget(budgetRef.current, {
+              maxIterations: maxIter,
+              childMaxIterations: initialSession.advancedFeatures?.childMaxIterations || 20,
+              childCount: spawnRequest.children.length,
+              usage: usageTotalsRef.current,
+              runtimeMs: getRuntimeMs(),
+            });
           
-          // Keep spawn tool active while children are running
-          setActiveToolIds((prev) => new Set([...prev, 'spawn']));
+            // Create child session objects - the top of a new spawn tree
+            const childSessions: ChildSession[] = spawnRequest.children.map(child => createChildSession(child, spawnRequest, {
+              maxIterations: initialSession.advancedFeatures?.childMaxIterations || 20,
+              budget: childBudget,
+              depth: 1,
+            }));
           
-          // Set orchestrator to 'waiting' status
-          updateSession((prev) => prev ? {
-            ...prev,
-            status: 'waiting',
-            orchestration: {
-              role: 'orchestrator',
-              children: childSessions,
-              awaitingChildren: true,
-              completionThreshold: spawnRequest.completionThreshold,
-            },
-          } : null);
+            // Keep spawn tool active while children are running
+            setActiveToolIds((prev) => new Set([...prev, 'spawn']));
           
-          // Store child sessions in ref for tracking
-          for (const child of childSessions) {
-            childSessionsRef.current.set(child.name, child);
-            runningChildrenRef.current.add(child.name);
-          }
+            // Set orchestrator to 'waiting' status
+            updateSession((prev) => prev ? {
+              ...prev,
+              status: 'waiting',
+              orchestration: {
+                role: 'orchestrator',
+                children: childSessions,
+                awaitingChildren: true,
+                completionThreshold: spawnRequest.completionThreshold,
+              },
+            } : null);
+          
+            // Store child sessions in ref for tracking
+            for (const child of childSessions) {
+              childSessionsRef.current.set(child.name, child);
+              runningChildrenRef.current.add(child.name);
+            }
           
-          toast.info(`Spawning ${childSessions.length} child agents...`);
+            toast.info(`Spawning ${childSessions.length} child agents...`);
           
-          // Execute children in parallel with real edge function calls
-          const childPromises = childSessions.map(async (child) => {
-            try {
-              await runChildSession(
-                child, 
-                initialSession, 
-                parentPromptData,
-                (updatedChild) => {
-                  // Update child in ref
-                  childSessionsRef.current.set(child.name, updatedChild);
-                  // Update UI - preserve waiting status!
-                  updateSession((prev) => {
-                    if (!prev?.orchestration?.children) return prev;
-                    return {
-                      ...prev,
-                      // Explicitly preserve waiting status during child execution
-                      status: 'waiting' as const,
-                      orchestration: {
-                        ...prev.orchestration,
-                        awaitingChildren: true,
-                        children: prev.orchestration.children.map(c => 
-                          c.name === child.name ? updatedChild : c
-                        ),
-                      },
-                    };
-                  });
-                },
-                // Pass tool activation callback for child tool highlighting
-                (toolId, active) => {
-                  if (active) {
-                    setActiveToolIds((prev) => new Set([...prev, toolId]));
-                  } else {
-                    setActiveToolIds((prev) => {
-                      const next = new Set(prev);
-                      next.delete(toolId);
-                      return next;
+            // Execute children in parallel with real edge function calls
+            const childPromises = childSessions.map(async (child) => {
+              try {
+                await runChildSession(
+                  child, 
+                  initialSession, 
+                  parentPromptData,
+                  (updatedChild) => {
+                    // Update child in ref
+                    childSessionsRef.current.set(child.name, updatedChild);
+                    // Update UI - preserve waiting status!
+                    updateSession((prev) => {
+                      if (!prev?.orchestration?.children) return prev;
+                      return {
+                        ...prev,
+                        // Explicitly preserve waiting status during child execution
+                        status: 'waiting' as const,
+                        orchestration: {
+                          ...prev.orchestration,
+                          awaitingChildren: true,
+                          children: prev.orchestration.children.map(c => 
+                            c.name === child.name ? updatedChild : c
+                          ),
+                        },
+                      };
                     });
+                  },
+                  // Pass tool activation callback for child tool highlighting
+                  (toolId, active) => {
+                    if (active) {
+                      setActiveToolIds((prev) => new Set([...prev, toolId]));
+                    } else {
+                      setActiveToolIds((prev) => {
+                        const next = new Set(prev);
+                        next.delete(toolId);
+                        return next;
+                      });
+                    }
                   }
-                }
-              );
-              return { name: child.name, success: true };
-            } catch (error) {
-              console.error(`[Child:${child.name}] Error:`, error);
-              return { name: child.name, success: false, error: String(error) };
-            }
-          });
+                );
+                return { name: child.name, success: true };
+              } catch (error) {
+                console.error(`[Child:${child.name}] Error:`, error);
+                return { name: child.name, success: false, error: String(error) };
+              }
+            });
           
-          // Wait for all children to complete
-          const results = await Promise.all(childPromises);
-          const completedChildren = results.filter(r => r.success).map(r => r.name);
-          const failedChildren = results.filter(r => !r.success);
+            // Wait for all children to complete
+            const results = await Promise.all(childPromises);
+            const completedChildren = results.filter(r => r.success).map(r => r.name);
           
-          console.log(`[Spawn] ${completedChildren.length}/${childSessions.length} children completed`);
+            console.log(`[Spawn] ${completedChildren.length}/${childSessions.length} children completed`);
           
-          // Get final child states and merge to parent blackboard, scratchpad, and attributes
-          for (const child of childSessions) {
-            runningChildrenRef.current.delete(child.name);
-            const finalChild = childSessionsRef.current.get(child.name);
-            if (finalChild) {
-              // Add child's blackboard entries to parent with prefix
-              for (const entry of finalChild.blackboard) {
-                const prefixedEntry: BlackboardEntry = {
-                  ...entry,
+            // Hand each child's result back: one blackboard summary, its scratchpad additions,
+            // its attributes under the child's namespace and its artifacts
+            const takenNames = new Set(Object.keys(toolResultAttributesRef.current));
+            const spawnResults: ChildResult[] = [];
+            for (const child of childSessions) {
+              runningChildrenRef.current.delete(child.name);
+              const finalChild = childSessionsRef.current.get(child.name);
+              if (finalChild) {
+                const merge = mergeChildResult(finalChild, spawnRequest.parentAttributes, takenNames);
+                spawnResults.push(merge.result);
+                childSessionsRef.current.set(child.name, { ...finalChild, result: merge.result });
+
+                handleBlackboardUpdate({
                   id: crypto.randomUUID(),
-                  content: `[CHILD:${child.name}] ${entry.content}`,
-                };
-                handleBlackboardUpdate(prefixedEntry);
-              }
+                  timestamp: new Date().toISOString(),
+                  category: finalChild.status === 'error' ? 'error' : 'observation',
+                  content: formatChildResultEntry(merge.result),
+                  iteration: iterationRef.current,
+                  tools: ['spawn'],
+                });
               
-              // If child has scratchpad content, add summary
-              if (finalChild.scratchpad && finalChild.scratchpad.length > spawnRequest.parentScratchpad.length) {
-                const childAdditions = finalChild.scratchpad.slice(spawnRequest.parentScratchpad.length);
-                if (childAdditions.trim()) {
-                  handleScratchpadUpdate(scratchpadRef.current + `\n\n## [${child.name}] Results\n${childAdditions}`);
+                // If child has scratchpad content, add summary
+                if (finalChild.scratchpad && finalChild.scratchpad.length > spawnRequest.parentScratchpad.length) {
+                  const childAdditions = finalChild.scratchpad.slice(spawnRequest.parentScratchpad.length);
+                  if (childAdditions.trim()) {
+                    handleScratchpadUpdate(scratchpadRef.current + `\n\n## [${child.name}] Results\n${childAdditions}`);
+                  }
                 }
-              }
               
-              // Merge child's named attributes to parent with name prefix
-              if (finalChild.toolResultAttributes && Object.keys(finalChild.toolResultAttributes).length > 0) {
-                for (const [name, attr] of Object.entries(finalChild.toolResultAttributes)) {
-                  const prefixedName = `${child.name}_${name}`;
-                  const prefixedAttr: ToolResultAttribute = {
-                    ...attr,
-                    id: crypto.randomUUID(),
-                    name: prefixedName,
-                  };
-                  handleAttributeCreated(prefixedAttr);
-                  console.log(`[Spawn] Merged child attribute: ${prefixedName} (${attr.size} chars)`);
+                for (const attribute of merge.attributes) {
+                  handleAttributeCreated(attribute);
+                  console.log(`[Spawn] Merged child attribute: ${attribute.name} (${attribute.size} chars)`);
                 }
-              }
               
-              // Merge child's artifacts to parent with name prefix
-              if (finalChild.artifacts && finalChild.artifacts.length > 0) {
-                for (const artifact of finalChild.artifacts) {
-                  const prefixedArtifact: FreeAgentArtifact = {
-                    ...artifact,
-                    id: crypto.randomUUID(),
-                    title: `[${child.name}] ${artifact.title}`,
-                    description: `${artifact.description || ''} (from child: ${child.name})`.trim(),
-                  };
+                if (merge.artifacts.length > 0) {
                   // Update artifacts ref IMMEDIATELY for sync access by parent
-                  artifactsRef.current = [...artifactsRef.current, prefixedArtifact];
-                  
+                  artifactsRef.current = [...artifactsRef.current, ...merge.artifacts];
                   // Also update session state (async, for UI)
                   updateSession((prev) => prev ? {
                     ...prev,
-                    artifacts: [...prev.artifacts, prefixedArtifact],
+                    artifacts: [...prev.artifacts, ...merge.artifacts],
                   } : null);
-                  console.log(`[Spawn] Merged child artifact: ${prefixedArtifact.title}`);
+                  console.log(`[Spawn] Merged ${merge.artifacts.length} artifacts from ${child.name}`);
                 }
               }
             }
-          }
+
+            // Latest result per child name - a re-spawned child replaces its earlier result
+            const spawnedNames = new Set(spawnResults.map(r => r.childName));
+            childResultsRef.current = [
+              ...childResultsRef.current.filter(r => !spawnedNames.has(r.childName)),
+              ...spawnResults,
+            ];
+            const childResults = childResultsRef.current;
+            updateSession((prev) => prev ? { ...prev, childResults } : null);
           
-          // Resume orchestrator - use session's children array as source of truth, not accumulated ref
-          updateSession((prev) => {
-            if (!prev) return null;
-            // Get the current cycle's children from the session state
-            const currentChildren = prev.orchestration?.children || [];
-            // Update each with final state from ref
-            const updatedChildren = currentChildren.map(child => {
-              const finalState = childSessionsRef.current.get(child.name);
-              return finalState || child;
+            // Resume orchestrator - use session's children array as source of truth, not accumulated ref
+            updateSession((prev) => {
+              if (!prev) return null;
+              // Get the current cycle's children from the session state
+              const currentChildren = prev.orchestration?.children || [];
+              // Update each with final state from ref
+              const updatedChildren = currentChildren.map(child => {
+                const finalState = childSessionsRef.current.get(child.name);
+                return finalState || child;
+              });
+              return {
+                ...prev,
+                status: 'running',
+                orchestration: {
+                  ...prev.orchestration!,
+                  awaitingChildren: false,
+                  children: updatedChildren,
+                },
+              };
             });
-            return {
-              ...prev,
-              status: 'running',
-              orchestration: {
-                ...prev.orchestration!,
-                awaitingChildren: false,
-                children: updatedChildren,
-              },
-            };
-          });
           
-          console.log('[Spawn] All children completed. Resuming orchestrator.');
+            console.log('[Spawn] All children completed. Resuming orchestrator.');
           
-          // Clear spawn from active tools now that children are done
-          setActiveToolIds((prev) => {
-            const next = new Set(prev);
-            next.delete('spawn');
-            return next;
-          });
+            // Clear spawn from active tools now that children are done
+            setActiveToolIds((prev) => {
+              const next = new Set(prev);
+              next.delete('spawn');
+              return next;
+            });
           
-          shouldContinue = true;
-          lastToolResults = [{
-            tool: 'spawn',
-            success: true,
-            result: {
-              message: `${completedChildren.length}/${childSessions.length} children completed.`,
-              completedChildren,
-              failedChildren: failedChildren.map(f => ({ name: f.name, error: f.error })),
-            },
-          }];
+            shouldContinue = true;
+            lastToolResults = [{
+              tool: 'spawn',
+              success: true,
+              result: buildSpawnResult(spawnResults, results),
+            }];
           
-          await new Promise(resolve => setTimeout(resolve, 100));
-          continue;
-        }
+            await new Promise(resolve => setTimeout(resolve, 100));
+            continue;
+          }
         
-        shouldContinue = result.continue;
-        lastToolResults = result.toolResults;
+          shouldContinue = result.continue;
+          lastToolResults = result.toolResults;
         
-        // Small delay between iterations - reduced for faster execution
-        if (shouldContinue && !shouldStopRef.current) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
+          // Small delay between iterations - reduced for faster execution
+          if (shouldContinue && !shouldStopRef.current) {
+            await new Promise((resolve) => setTimeout(resolve, 100));
+          }
         }
+      } finally {
+        // Bank this run's time so paused sessions don't keep accruing it
+        runtimeMsRef.current = getRuntimeMs();
+        loopStartedAtRef.current = null;
+        const runtimeMs = runtimeMsRef.current;
+        updateSession((prev) => (prev ? { ...prev, runtimeMs } : null));
       }
     },
-    [executeIteration, updateSession, handleBlackboardUpdate, handleScratchpadUpdate]
+    [executeIteration, updateSession, handleBlackboardUpdate, handleScratchpadUpdate, handleAttributeCreated, getRuntimeMs, pauseForBudget, runChildSession]
   );
 
   // Start a new session (or resume with preserved memory if existingSession provided)
@@ -1734,7 +2040,9 @@ ${child.task}
       advancedFeatures?: AdvancedFeatures,
       promptCustomization?: PromptCustomization | null,
       onPromptCustomizationChange?: () => void,
-      toolInstances?: FreeAgentSession['toolInstances']
+      toolInstances?: FreeAgentSession['toolInstances'],
+      budget?: SessionBudget,
+      executionMode?: ExecutionMode
     ) => {
       try {
         setIsRunning(true);
@@ -1777,6 +2085,8 @@ ${child.task}
           startTime: new Date().toISOString(),
           lastActivityTime: new Date().toISOString(),
           rawData: existingSession?.rawData || [],
+          contextDigest: existingSession?.contextDigest,
+          childResults: existingSession?.childResults,
           retryCount: 0,
           // Include secrets for tool parameter injection
           secretOverrides: secretOverrides || existingSession?.secretOverrides,
@@ -1787,6 +2097,10 @@ ${child.task}
           advancedFeatures: advancedFeatures || existingSession?.advancedFeatures,
           // Include tool instances
           toolInstances: toolInstances || existingSession?.toolInstances,
+          // Budgets cover the whole session, so continuations keep the spend so far
+          budget: budget || existingSession?.budget,
+          runtimeMs: existingSession?.runtimeMs || 0,
+          executionMode: executionMode || existingSession?.executionMode || "json",
         };
 
         // Initialize refs with session memory
@@ -1794,6 +2108,9 @@ ${child.task}
         scratchpadRef.current = newSession.scratchpad;
         toolResultAttributesRef.current = newSession.toolResultAttributes;
         artifactsRef.current = newSession.artifacts;
+        contextDigestRef.current = newSession.contextDigest;
+        childResultsRef.current = newSession.childResults || [];
+        loadBudgetState(newSession);
         
         // Clear tool cache only for fresh sessions (not continuations)
         if (!existingSession) {
@@ -1815,7 +2132,7 @@ ${child.task}
         throw error;
       }
     },
-    [defaultMaxIterations, runIterationLoop]
+    [defaultMaxIterations, runIterationLoop, loadBudgetState]
   );
 
   // Respond to assistance request
@@ -1912,6 +2229,38 @@ ${child.task}
     }
   }, [session, runIterationLoop]);
 
+  // Raise the session budget after it paused on a limit, then resume where it stopped
+  const extendBudget = useCallback(async (budget: SessionBudget) => {
+    if (!session || isRunning) return;
+
+    try {
+      setIsRunning(true);
+      retryCountRef.current = 0;
+      budgetRef.current = budget;
+
+      const updatedSession: FreeAgentSession = {
+        ...session,
+        status: "running",
+        error: undefined,
+        budget,
+        budgetExceeded: undefined,
+        retryCount: 0,
+      };
+
+      setSession(updatedSession);
+      toast.info("Budget extended. Resuming session...");
+
+      shouldStopRef.current = false;
+      await runIterationLoop(session.id, updatedSession);
+
+      setIsRunning(false);
+    } catch (error) {
+      console.error("Failed to resume session after extending budget:", error);
+      toast.error("Failed to resume session");
+      setIsRunning(false);
+    }
+  }, [session, isRunning, runIterationLoop]);
+
   // Stop the current session
   const stopSession = useCallback(() => {
     console.log("Stop session requested");
@@ -1944,9 +2293,14 @@ ${child.task}
     scratchpadRef.current = "";
     toolResultAttributesRef.current = {};
     artifactsRef.current = [];
+    contextDigestRef.current = undefined;
+    childResultsRef.current = [];
     retryCountRef.current = 0;
     lastErrorIterationRef.current = 0;
     toolCacheRef.current.clear();
+    budgetRef.current = undefined;
+    usageTotalsRef.current = EMPTY_USAGE_TOTALS;
+    runtimeMsRef.current = 0;
   }, []);
 
   // Continue with new prompt while preserving memory
@@ -1969,6 +2323,58 @@ ${child.task}
     iterationRef.current = 0;
   }, [session, updateSession]);
 
+  // Reopen a persisted session. Runs that were interrupted mid-flight (e.g. by a reload)
+  // come back paused so the existing Retry path resumes from the next iteration.
+  const restoreSession = useCallback(
+    (
+      saved: FreeAgentSession,
+      promptCustomization?: PromptCustomization | null,
+      onPromptCustomizationChange?: () => void
+    ) => {
+      if (isRunning) return;
+
+      const interrupted = saved.status === "running" || saved.status === "waiting";
+      const restored: FreeAgentSession = interrupted
+        ? {
+            ...saved,
+            status: "paused",
+            error: "Session was interrupted before it finished. Click Retry to resume.",
+            retryCount: 0,
+            lastErrorIteration: undefined,
+            orchestration: saved.orchestration
+              ? { ...saved.orchestration, awaitingChildren: false }
+              : undefined,
+          }
+        : saved;
+
+      iterationRef.current = restored.currentIteration;
+      retryCountRef.current = 0;
+      lastErrorIterationRef.current = restored.lastErrorIteration || 0;
+      maxIterationsRef.current = restored.maxIterations;
+      pendingInterjectRef.current = null;
+      shouldStopRef.current = false;
+
+      blackboardRef.current = restored.blackboard;
+      scratchpadRef.current = restored.scratchpad;
+      toolResultAttributesRef.current = restored.toolResultAttributes;
+      artifactsRef.current = restored.artifacts;
+      contextDigestRef.current = restored.contextDigest;
+      childResultsRef.current = restored.childResults || [];
+      childSessionsRef.current = new Map(
+        (restored.orchestration?.children || []).map((child) => [child.name, child])
+      );
+      toolCacheRef.current.clear();
+      loadBudgetState(restored);
+
+      promptCustomizationRef.current = promptCustomization || null;
+      promptCustomizationChangeCallbackRef.current = onPromptCustomizationChange || null;
+
+      setActiveToolIds(new Set());
+      setSession(restored);
+    },
+    [isRunning, loadBudgetState]
+  );
+
   // Update scratchpad from UI
   const updateScratchpad = useCallback((content: string) => {
     handleScratchpadUpdate(content);
@@ -2022,12 +2428,15 @@ ${child.task}
     session,
     isRunning,
     activeToolIds,
+    streamingIteration,
     startSession,
     respondToAssistance,
     stopSession,
     resetSession,
     continueSession,
     retrySession,
+    extendBudget,
+    restoreSession,
     updateScratchpad,
     getCacheSize,
     interjectSession,
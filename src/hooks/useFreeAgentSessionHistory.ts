@@ -0,0 +1,61 @@
+// Free Agent Session History Hook - Lists and reopens sessions persisted in IndexedDB
+import { useState, useCallback } from "react";
+import type { FreeAgentSession } from "@/types/freeAgent";
+import {
+  listSessions,
+  loadSession,
+  deleteSession as deleteStoredSession,
+  type FreeAgentSessionSummary,
+} from "@/lib/freeAgentSessionStore";
+
+export interface FreeAgentSessionHistory {
+  sessions: FreeAgentSessionSummary[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+  openSession: (id: string) => Promise<FreeAgentSession | null>;
+  deleteSession: (id: string) => Promise<boolean>;
+}
+
+export function useFreeAgentSessionHistory(): FreeAgentSessionHistory {
+  const [sessions, setSessions] = useState<FreeAgentSessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await listSessions());
+    } catch (e) {
+      console.error("Failed to list sessions:", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const openSession = useCallback(async (id: string): Promise<FreeAgentSession | null> => {
+    try {
+      return await loadSession(id);
+    } catch (e) {
+      console.error("Failed to open session:", e);
+      return null;
+    }
+  }, []);
+
+  const deleteSession = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      await deleteStoredSession(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+      return true;
+    } catch (e) {
+      console.error("Failed to delete session:", e);
+      return false;
+    }
+  }, []);
+
+  return {
+    sessions,
+    isLoading,
+    refresh,
+    openSession,
+    deleteSession,
+  };
+}
@@ -0,0 +1,41 @@
+// Memory Entries Hook - Live view of one Memory node's stored entries
+import { useState, useCallback, useEffect } from "react";
+import type { MemoryEntry } from "@/types/functions";
+import {
+  getMemoryEntries,
+  saveMemoryEntries,
+  clearMemoryEntries,
+  MEMORY_CHANGED_EVENT,
+} from "@/lib/memoryStore";
+
+export interface MemoryEntriesManager {
+  entries: MemoryEntry[];
+  saveEntries: (entries: MemoryEntry[]) => boolean;
+  clearEntries: () => void;
+}
+
+export function useMemoryEntries(scope: string, memoryKey: string): MemoryEntriesManager {
+  const [entries, setEntries] = useState<MemoryEntry[]>(() => getMemoryEntries(scope, memoryKey));
+
+  useEffect(() => {
+    const reload = () => setEntries(getMemoryEntries(scope, memoryKey));
+    reload();
+    window.addEventListener(MEMORY_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(MEMORY_CHANGED_EVENT, reload);
+  }, [scope, memoryKey]);
+
+  const saveEntries = useCallback(
+    (next: MemoryEntry[]) => saveMemoryEntries(scope, memoryKey, next),
+    [scope, memoryKey]
+  );
+
+  const clearEntries = useCallback(() => {
+    clearMemoryEntries(scope, memoryKey);
+  }, [scope, memoryKey]);
+
+  return {
+    entries,
+    saveEntries,
+    clearEntries,
+  };
+}
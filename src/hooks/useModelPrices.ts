@@ -0,0 +1,39 @@
+// Model Prices Hook - Keeps views in sync with the editable LLM price table
+import { useState, useCallback, useEffect } from "react";
+import type { ModelPriceTable } from "@/types/usage";
+import {
+  getModelPrices,
+  saveModelPrices,
+  resetModelPrices,
+  MODEL_PRICES_CHANGED_EVENT,
+} from "@/lib/llmPricing";
+
+export interface ModelPricesManager {
+  prices: ModelPriceTable;
+  savePrices: (prices: ModelPriceTable) => void;
+  resetPrices: () => void;
+}
+
+export function useModelPrices(): ModelPricesManager {
+  const [prices, setPrices] = useState<ModelPriceTable>(getModelPrices);
+
+  useEffect(() => {
+    const reload = () => setPrices(getModelPrices());
+    window.addEventListener(MODEL_PRICES_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(MODEL_PRICES_CHANGED_EVENT, reload);
+  }, []);
+
+  const savePrices = useCallback((next: ModelPriceTable) => {
+    saveModelPrices(next);
+  }, []);
+
+  const resetPrices = useCallback(() => {
+    resetModelPrices();
+  }, []);
+
+  return {
+    prices,
+    savePrices,
+    resetPrices,
+  };
+}
@@ -0,0 +1,39 @@
+// Model Registry Hook - Keeps model pickers in sync with the user's custom models
+import { useState, useCallback, useEffect } from "react";
+import type { ModelDefinition } from "@/types/models";
+import {
+  getModels,
+  getCustomModels,
+  saveCustomModels,
+  MODEL_REGISTRY_CHANGED_EVENT,
+} from "@/lib/modelRegistry";
+
+export interface ModelRegistryManager {
+  models: ModelDefinition[];
+  customModels: ModelDefinition[];
+  saveModels: (models: ModelDefinition[]) => void;
+}
+
+export function useModelRegistry(): ModelRegistryManager {
+  const [models, setModels] = useState<ModelDefinition[]>(getModels);
+  const [customModels, setCustomModels] = useState<ModelDefinition[]>(getCustomModels);
+
+  useEffect(() => {
+    const reload = () => {
+      setModels(getModels());
+      setCustomModels(getCustomModels());
+    };
+    window.addEventListener(MODEL_REGISTRY_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(MODEL_REGISTRY_CHANGED_EVENT, reload);
+  }, []);
+
+  const saveModels = useCallback((next: ModelDefinition[]) => {
+    saveCustomModels(next);
+  }, []);
+
+  return {
+    models,
+    customModels,
+    saveModels,
+  };
+}
@@ -0,0 +1,251 @@
+// Workflow Library Hook - Saves, lists and restores workflows and their revisions in Supabase
+import { useState, useCallback, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type {
+  Workflow,
+  WorkflowModelSettings,
+  WorkflowSaveData,
+  SavedWorkflowSummary,
+  WorkflowRevision,
+  WorkflowRevisionSource,
+} from "@/types/workflow";
+import { getWorkflowFingerprint } from "@/lib/workflowDiff";
+
+type WorkflowRow = Tables<"workflows">;
+type RevisionRow = Tables<"workflow_revisions">;
+
+// Autosaves within this window of the latest autosave revision update it in place
+const AUTOSAVE_REVISION_WINDOW_MS = 10 * 60 * 1000;
+const MAX_LISTED_REVISIONS = 100;
+
+const DEFAULT_MODEL_SETTINGS: WorkflowModelSettings = {
+  selectedModel: "gemini-2.5-flash",
+  responseLength: 8192,
+  thinkingEnabled: false,
+  thinkingBudget: 0,
+};
+
+function toSummary(row: Pick<WorkflowRow, "id" | "name" | "workflow" | "created_at" | "updated_at">): SavedWorkflowSummary {
+  const workflow = row.workflow as unknown as Workflow;
+  const stages = workflow?.stages || [];
+  return {
+    id: row.id,
+    name: row.name,
+    stageCount: stages.length,
+    nodeCount: stages.reduce((sum, stage) => sum + stage.nodes.length, 0),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toSaveData(row: WorkflowRow | RevisionRow): WorkflowSaveData {
+  const settings = (row.model_settings || {}) as Partial<WorkflowModelSettings>;
+  return {
+    workflow: row.workflow as unknown as Workflow,
+    userInput: row.user_input || "",
+    workflowName: row.name,
+    customAgents: (row.custom_agents as unknown as WorkflowSaveData["customAgents"]) || [],
+    ...DEFAULT_MODEL_SETTINGS,
+    ...settings,
+  };
+}
+
+function toRow(data: WorkflowSaveData) {
+  const modelSettings: WorkflowModelSettings = {
+    selectedModel: data.selectedModel,
+    responseLength: data.responseLength,
+    thinkingEnabled: data.thinkingEnabled,
+    thinkingBudget: data.thinkingBudget,
+  };
+  return {
+    name: data.workflowName,
+    workflow: data.workflow as unknown as Json,
+    user_input: data.userInput,
+    custom_agents: data.customAgents as unknown as Json,
+    model_settings: modelSettings as unknown as Json,
+  };
+}
+
+function toRevision(row: RevisionRow): WorkflowRevision {
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    source: row.source as WorkflowRevisionSource,
+    data: toSaveData(row),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export interface WorkflowLibrary {
+  workflows: SavedWorkflowSummary[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+  // Insert when id is omitted, otherwise update in place. Returns the saved id.
+  saveWorkflow: (data: WorkflowSaveData, id?: string | null) => Promise<string | null>;
+  openWorkflow: (id: string) => Promise<WorkflowSaveData | null>;
+  renameWorkflow: (id: string, name: string) => Promise<boolean>;
+  duplicateWorkflow: (id: string) => Promise<string | null>;
+  deleteWorkflow: (id: string) => Promise<boolean>;
+  // Newest first
+  listRevisions: (workflowId: string) => Promise<WorkflowRevision[]>;
+  // Skipped when nothing diffable changed since the latest revision. Returns the revision id.
+  recordRevision: (workflowId: string, data: WorkflowSaveData, source: WorkflowRevisionSource) => Promise<string | null>;
+}
+
+export function useWorkflowLibrary(): WorkflowLibrary {
+  const [workflows, setWorkflows] = useState<SavedWorkflowSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("workflows")
+        .select("id, name, workflow, created_at, updated_at")
+        .order("updated_at", { ascending: false });
+      if (error) throw error;
+      setWorkflows((data || []).map(toSummary));
+    } catch (e) {
+      console.error("Failed to list workflows:", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveWorkflow = useCallback(async (data: WorkflowSaveData, id?: string | null): Promise<string | null> => {
+    try {
+      const row = toRow(data);
+      const query = id
+        ? supabase.from("workflows").update(row).eq("id", id)
+        : supabase.from("workflows").insert(row);
+      const { data: saved, error } = await query.select("id, name, workflow, created_at, updated_at").single();
+      if (error) throw error;
+
+      const summary = toSummary(saved);
+      setWorkflows(prev => [summary, ...prev.filter(w => w.id !== summary.id)]);
+      return summary.id;
+    } catch (e) {
+      console.error("Failed to save workflow:", e);
+      return null;
+    }
+  }, []);
+
+  const openWorkflow = useCallback(async (id: string): Promise<WorkflowSaveData | null> => {
+    try {
+      const { data, error } = await supabase.from("workflows").select("*").eq("id", id).single();
+      if (error) throw error;
+      return toSaveData(data);
+    } catch (e) {
+      console.error("Failed to open workflow:", e);
+      return null;
+    }
+  }, []);
+
+  const renameWorkflow = useCallback(async (id: string, name: string): Promise<boolean> => {
+    try {
+      const { error } = await supabase.from("workflows").update({ name }).eq("id", id);
+      if (error) throw error;
+      setWorkflows(prev => prev.map(w => (w.id === id ? { ...w, name } : w)));
+      return true;
+    } catch (e) {
+      console.error("Failed to rename workflow:", e);
+      return false;
+    }
+  }, []);
+
+  const duplicateWorkflow = useCallback(async (id: string): Promise<string | null> => {
+    const original = await openWorkflow(id);
+    if (!original) return null;
+    return saveWorkflow({ ...original, workflowName: `${original.workflowName} (Copy)` });
+  }, [openWorkflow, saveWorkflow]);
+
+  const deleteWorkflow = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error } = await supabase.from("workflows").delete().eq("id", id);
+      if (error) throw error;
+      setWorkflows(prev => prev.filter(w => w.id !== id));
+      return true;
+    } catch (e) {
+      console.error("Failed to delete workflow:", e);
+      return false;
+    }
+  }, []);
+
+  const listRevisions = useCallback(async (workflowId: string): Promise<WorkflowRevision[]> => {
+    try {
+      const { data, error } = await supabase
+        .from("workflow_revisions")
+        .select("*")
+        .eq("workflow_id", workflowId)
+        .order("created_at", { ascending: false })
+        .limit(MAX_LISTED_REVISIONS);
+      if (error) throw error;
+      return (data || []).map(toRevision);
+    } catch (e) {
+      console.error("Failed to list workflow revisions:", e);
+      return [];
+    }
+  }, []);
+
+  const recordRevision = useCallback(async (
+    workflowId: string,
+    data: WorkflowSaveData,
+    source: WorkflowRevisionSource
+  ): Promise<string | null> => {
+    try {
+      const { data: latest, error: latestError } = await supabase
+        .from("workflow_revisions")
+        .select("id, source, workflow, created_at")
+        .eq("workflow_id", workflowId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (latestError) throw latestError;
+
+      if (latest) {
+        const latestWorkflow = latest.workflow as unknown as Workflow;
+        if (getWorkflowFingerprint(latestWorkflow) === getWorkflowFingerprint(data.workflow)) {
+          return latest.id;
+        }
+
+        // Fold bursts of autosaves into a single revision
+        const age = Date.now() - new Date(latest.created_at).getTime();
+        if (source === "autosave" && latest.source === "autosave" && age < AUTOSAVE_REVISION_WINDOW_MS) {
+          const { error } = await supabase.from("workflow_revisions").update(toRow(data)).eq("id", latest.id);
+          if (error) throw error;
+          return latest.id;
+        }
+      }
+
+      const { data: inserted, error } = await supabase
+        .from("workflow_revisions")
+        .insert({ ...toRow(data), workflow_id: workflowId, source })
+        .select("id")
+        .single();
+      if (error) throw error;
+      return inserted.id;
+    } catch (e) {
+      console.error("Failed to record workflow revision:", e);
+      return null;
+    }
+  }, []);
+
+  return {
+    workflows,
+    isLoading,
+    refresh,
+    saveWorkflow,
+    openWorkflow,
+    renameWorkflow,
+    duplicateWorkflow,
+    deleteWorkflow,
+    listRevisions,
+    recordRevision,
+  };
+}
@@ -0,0 +1,270 @@
+// Workflow Triggers Hook - Schedules, webhooks and run history of one library workflow
+import { useState, useCallback, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type {
+  LogEntry,
+  Workflow,
+  WorkflowRunRecord,
+  WorkflowRunSource,
+  WorkflowRunStatus,
+  WorkflowTrigger,
+  WorkflowTriggerKind,
+} from "@/types/workflow";
+import type { TokenUsage } from "@/types/usage";
+import { getNextCronRun } from "@/lib/cronSchedule";
+import { getTriggeredRunIssues } from "../../supabase/functions/_shared/triggeredRuns.ts";
+
+// Every column but webhook_token, which the API doesn't expose (see regenerate_webhook_token)
+const TRIGGER_COLUMNS = "id, workflow_id, kind, name, enabled, cron, user_input, last_run_at, next_run_at, created_at";
+
+type TriggerRow = Omit<Tables<"workflow_triggers">, "webhook_token" | "updated_at">;
+type RunRow = Tables<"workflow_runs">;
+
+const MAX_LISTED_RUNS = 50;
+// How often the run list refreshes while a run is still going
+const RUN_POLL_INTERVAL_MS = 5000;
+
+const DEFAULT_SCHEDULE = "0 7 * * *";
+
+function toTrigger(row: TriggerRow, webhookToken?: string): WorkflowTrigger {
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    kind: row.kind as WorkflowTriggerKind,
+    name: row.name,
+    enabled: row.enabled,
+    cron: row.cron ?? undefined,
+    userInput: row.user_input,
+    webhookToken,
+    lastRunAt: row.last_run_at ?? undefined,
+    nextRunAt: row.next_run_at ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function toRun(row: RunRow): WorkflowRunRecord {
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    triggerId: row.trigger_id ?? undefined,
+    source: row.source as WorkflowRunSource,
+    status: row.status as WorkflowRunStatus,
+    userInput: row.user_input,
+    logs: (row.logs as unknown as LogEntry[]) || [],
+    nodeResults: (row.node_results as unknown as WorkflowRunRecord["nodeResults"]) || {},
+    usage: (row.usage as unknown as Record<string, TokenUsage>) || {},
+    error: row.error ?? undefined,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at ?? undefined,
+  };
+}
+
+// next_run_at for a schedule - null pauses it (disabled or invalid cron)
+function nextRunFor(trigger: Pick<WorkflowTrigger, "kind" | "enabled" | "cron">): string | null {
+  if (trigger.kind !== "schedule" || !trigger.enabled || !trigger.cron) return null;
+  try {
+    return getNextCronRun(trigger.cron)?.toISOString() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URL that starts a run of the webhook's workflow; the POST body becomes the user input
+ */
+export function getWebhookUrl(token: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/run-workflow?token=${token}`;
+}
+
+export interface WorkflowTriggersManager {
+  triggers: WorkflowTrigger[];
+  runs: WorkflowRunRecord[];
+  // Nodes of the saved workflow a triggered run can't execute ("<node>: <reason>") -
+  // while there are any, triggers can't be added or enabled
+  unsupportedNodes: string[];
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+  createTrigger: (kind: WorkflowTriggerKind) => Promise<boolean>;
+  updateTrigger: (id: string, updates: Partial<Pick<WorkflowTrigger, "name" | "enabled" | "cron" | "userInput">>) => Promise<boolean>;
+  deleteTrigger: (id: string) => Promise<boolean>;
+  // Give a webhook a new token (and so a new URL); the old one stops working
+  regenerateWebhookToken: (id: string) => Promise<boolean>;
+  // Start a headless run now - with a trigger's input, or the given input
+  runNow: (options: { triggerId?: string; userInput?: string }) => Promise<boolean>;
+}
+
+export function useWorkflowTriggers(workflowId: string | null, active = true): WorkflowTriggersManager {
+  const [triggers, setTriggers] = useState<WorkflowTrigger[]>([]);
+  const [runs, setRuns] = useState<WorkflowRunRecord[]>([]);
+  const [unsupportedNodes, setUnsupportedNodes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Check the saved workflow (what triggered runs execute) against run-workflow's node support
+  const checkWorkflow = useCallback(async (): Promise<string[]> => {
+    if (!workflowId) return [];
+    const { data, error } = await supabase.from("workflows").select("workflow").eq("id", workflowId).single();
+    if (error) throw error;
+    const issues = getTriggeredRunIssues(data.workflow as unknown as Workflow);
+    setUnsupportedNodes(issues);
+    return issues;
+  }, [workflowId]);
+
+  const loadRuns = useCallback(async () => {
+    if (!workflowId) return;
+    const { data, error } = await supabase
+      .from("workflow_runs")
+      .select("*")
+      .eq("workflow_id", workflowId)
+      .order("started_at", { ascending: false })
+      .limit(MAX_LISTED_RUNS);
+    if (error) throw error;
+    setRuns((data || []).map(toRun));
+  }, [workflowId]);
+
+  const refresh = useCallback(async () => {
+    if (!workflowId) {
+      setTriggers([]);
+      setRuns([]);
+      setUnsupportedNodes([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("workflow_triggers")
+        .select(TRIGGER_COLUMNS)
+        .eq("workflow_id", workflowId)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      // Keep tokens generated in this session - they can't be read back
+      setTriggers(prev => (data || []).map(row => toTrigger(row, prev.find(t => t.id === row.id)?.webhookToken)));
+      await Promise.all([loadRuns(), checkWorkflow()]);
+    } catch (e) {
+      console.error("Failed to load workflow triggers:", e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workflowId, loadRuns, checkWorkflow]);
+
+  useEffect(() => {
+    if (active) refresh();
+  }, [active, refresh]);
+
+  const hasRunningRun = runs.some((run) => run.status === "running");
+  useEffect(() => {
+    if (!active || !hasRunningRun) return;
+    const timer = window.setInterval(() => {
+      loadRuns().catch((e) => console.error("Failed to refresh workflow runs:", e));
+    }, RUN_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [active, hasRunningRun, loadRuns]);
+
+  const createTrigger = useCallback(async (kind: WorkflowTriggerKind): Promise<boolean> => {
+    if (!workflowId) return false;
+    try {
+      if ((await checkWorkflow()).length > 0) return false;
+      const cron = kind === "schedule" ? DEFAULT_SCHEDULE : null;
+      const { data, error } = await supabase
+        .from("workflow_triggers")
+        .insert({
+          workflow_id: workflowId,
+          kind,
+          name: kind === "schedule" ? "Daily run" : "Webhook",
+          cron,
+          next_run_at: nextRunFor({ kind, enabled: true, cron: cron ?? undefined }),
+        })
+        .select(TRIGGER_COLUMNS)
+        .single();
+      if (error) throw error;
+      let webhookToken: string | undefined;
+      if (kind === "webhook") {
+        const { data: token, error: tokenError } = await supabase.rpc("regenerate_webhook_token", { trigger_id: data.id });
+        if (tokenError) throw tokenError;
+        webhookToken = token;
+      }
+      setTriggers(prev => [...prev, toTrigger(data, webhookToken)]);
+      return true;
+    } catch (e) {
+      console.error("Failed to create workflow trigger:", e);
+      return false;
+    }
+  }, [workflowId, checkWorkflow]);
+
+  const updateTrigger = useCallback<WorkflowTriggersManager["updateTrigger"]>(async (id, updates) => {
+    const current = triggers.find(t => t.id === id);
+    if (!current) return false;
+    try {
+      if (updates.enabled && !current.enabled && (await checkWorkflow()).length > 0) return false;
+      const merged = { ...current, ...updates };
+      const row: TablesUpdate<"workflow_triggers"> = {
+        name: merged.name,
+        enabled: merged.enabled,
+        cron: merged.cron ?? null,
+        user_input: merged.userInput,
+        next_run_at: nextRunFor(merged),
+      };
+      const { data, error } = await supabase.from("workflow_triggers").update(row).eq("id", id).select(TRIGGER_COLUMNS).single();
+      if (error) throw error;
+      setTriggers(prev => prev.map(t => (t.id === id ? toTrigger(data, t.webhookToken) : t)));
+      return true;
+    } catch (e) {
+      console.error("Failed to update workflow trigger:", e);
+      return false;
+    }
+  }, [triggers, checkWorkflow]);
+
+  const deleteTrigger = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error } = await supabase.from("workflow_triggers").delete().eq("id", id);
+      if (error) throw error;
+      setTriggers(prev => prev.filter(t => t.id !== id));
+      return true;
+    } catch (e) {
+      console.error("Failed to delete workflow trigger:", e);
+      return false;
+    }
+  }, []);
+
+  const regenerateWebhookToken = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { data: token, error } = await supabase.rpc("regenerate_webhook_token", { trigger_id: id });
+      if (error) throw error;
+      setTriggers(prev => prev.map(t => (t.id === id ? { ...t, webhookToken: token } : t)));
+      return true;
+    } catch (e) {
+      console.error("Failed to regenerate webhook token:", e);
+      return false;
+    }
+  }, []);
+
+  const runNow = useCallback<WorkflowTriggersManager["runNow"]>(async ({ triggerId, userInput }) => {
+    if (!workflowId) return false;
+    try {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/run-workflow`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "run", workflowId, triggerId, userInput }),
+      });
+      if (!response.ok) throw new Error((await response.text()) || `Server error: ${response.status}`);
+      await loadRuns();
+      return true;
+    } catch (e) {
+      console.error("Failed to start workflow run:", e);
+      return false;
+    }
+  }, [workflowId, loadRuns]);
+
+  return {
+    triggers,
+    runs,
+    unsupportedNodes,
+    isLoading,
+    refresh,
+    createTrigger,
+    updateTrigger,
+    deleteTrigger,
+    regenerateWebhookToken,
+    runNow,
+  };
+}
@@ -14,13 +14,208 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      workflow_revisions: {
+        Row: {
+          created_at: string
+          custom_agents: Json
+          id: string
+          model_settings: Json
+          name: string
+          source: string
+          updated_at: string
+          user_input: string
+          workflow: Json
+          workflow_id: string
+        }
+        Insert: {
+          created_at?: string
+          custom_agents?: Json
+          id?: string
+          model_settings?: Json
+          name?: string
+          source?: string
+          updated_at?: string
+          user_input?: string
+          workflow: Json
+          workflow_id: string
+        }
+        Update: {
+          created_at?: string
+          custom_agents?: Json
+          id?: string
+          model_settings?: Json
+          name?: string
+          source?: string
+          updated_at?: string
+          user_input?: string
+          workflow?: Json
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_revisions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_runs: {
+        Row: {
+          error: string | null
+          finished_at: string | null
+          id: string
+          logs: Json
+          node_results: Json
+          source: string
+          started_at: string
+          status: string
+          trigger_id: string | null
+          usage: Json
+          user_input: string
+          workflow_id: string
+        }
+        Insert: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          logs?: Json
+          node_results?: Json
+          source?: string
+          started_at?: string
+          status?: string
+          trigger_id?: string | null
+          usage?: Json
+          user_input?: string
+          workflow_id: string
+        }
+        Update: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          logs?: Json
+          node_results?: Json
+          source?: string
+          started_at?: string
+          status?: string
+          trigger_id?: string | null
+          usage?: Json
+          user_input?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_runs_trigger_id_fkey"
+            columns: ["trigger_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_triggers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_runs_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_triggers: {
+        Row: {
+          created_at: string
+          cron: string | null
+          enabled: boolean
+          id: string
+          kind: string
+          last_run_at: string | null
+          name: string
+          next_run_at: string | null
+          updated_at: string
+          user_input: string
+          webhook_token: string
+          workflow_id: string
+        }
+        Insert: {
+          created_at?: string
+          cron?: string | null
+          enabled?: boolean
+          id?: string
+          kind: string
+          last_run_at?: string | null
+          name?: string
+          next_run_at?: string | null
+          updated_at?: string
+          user_input?: string
+          webhook_token?: string
+          workflow_id: string
+        }
+        Update: {
+          created_at?: string
+          cron?: string | null
+          enabled?: boolean
+          id?: string
+          kind?: string
+          last_run_at?: string | null
+          name?: string
+          next_run_at?: string | null
+          updated_at?: string
+          user_input?: string
+          webhook_token?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_triggers_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflows: {
+        Row: {
+          created_at: string
+          custom_agents: Json
+          id: string
+          model_settings: Json
+          name: string
+          updated_at: string
+          user_input: string
+          workflow: Json
+        }
+        Insert: {
+          created_at?: string
+          custom_agents?: Json
+          id?: string
+          model_settings?: Json
+          name?: string
+          updated_at?: string
+          user_input?: string
+          workflow: Json
+        }
+        Update: {
+          created_at?: string
+          custom_agents?: Json
+          id?: string
+          model_settings?: Json
+          name?: string
+          updated_at?: string
+          user_input?: string
+          workflow?: Json
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      regenerate_webhook_token: {
+        Args: { trigger_id: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,44 @@
+// Agent Schema - Structured-output helpers for agents with a response schema
+// The edge functions enforce and validate the schema; the client only parses the
+// schema text, names the field ports and splits a validated response across them.
+// Parsing and splitting live in supabase/functions/_shared/nodeOutputs.ts, which
+// triggered runs use as well.
+
+import type { AgentNode } from "@/types/workflow";
+import { ERROR_PORT, withErrorPort } from "@/lib/executionPolicy";
+import { getSchemaFieldNames, parseAgentResponseSchema } from "../../supabase/functions/_shared/nodeOutputs.ts";
+
+export {
+  getSchemaFieldNames,
+  parseAgentResponseSchema,
+  splitStructuredOutput,
+} from "../../supabase/functions/_shared/nodeOutputs.ts";
+
+/**
+ * Output ports an agent exposes: split Beast Mode ports, schema field ports
+ * after the full "output", or just "output" - plus "error" with continue-on-error
+ */
+export function getAgentOutputPorts(agent: AgentNode): string[] {
+  if (agent.beastModeOutputPorts && agent.beastModeOutputPorts.length > 0) {
+    return withErrorPort(agent, agent.beastModeOutputPorts);
+  }
+  if (agent.schemaOutputPorts) {
+    try {
+      return withErrorPort(agent, ["output", ...getSchemaFieldNames(parseAgentResponseSchema(agent))]);
+    } catch {
+      // An unparseable schema is reported when the agent runs
+    }
+  }
+  return withErrorPort(agent, ["output"]);
+}
+
+/**
+ * Current value of one of an agent's output ports
+ */
+export function getAgentPortValue(agent: AgentNode, port: string): string {
+  if (port === ERROR_PORT && agent.policy?.continueOnError) return agent.errorOutput || "";
+  // A failure routed to the error port leaves the regular ports empty
+  if (agent.errorOutput) return "";
+  if (port === "output") return agent.output || "";
+  return agent.beastModeOutputs?.[port] ?? agent.structuredOutputs?.[port] ?? "";
+}
@@ -0,0 +1,116 @@
+// Agent Tree - Nested spawn trees below the Free Agent orchestrator
+// Children may spawn children of their own up to the session's max spawn depth.
+// Each child is identified by its path, the chain of names from the top of the
+// tree ("germany/acme"), which stays unique because sibling names are unique.
+
+import type { ChildSpec, ChildSession, SessionBudget, AdvancedFeatures } from "@/types/freeAgent";
+import type { SpawnRequest } from "@/lib/freeAgentToolExecutor";
+
+export const DEFAULT_MAX_SPAWN_DEPTH = 1;
+export const DEFAULT_MAX_TOTAL_AGENTS = 20;
+// Hard ceiling on nesting, whatever the settings say
+export const MAX_SPAWN_DEPTH_LIMIT = 4;
+export const CHILD_PATH_SEPARATOR = "/";
+
+export function getMaxSpawnDepth(features: AdvancedFeatures | undefined): number {
+  const depth = features?.maxSpawnDepth || DEFAULT_MAX_SPAWN_DEPTH;
+  return Math.min(Math.max(1, Math.floor(depth)), MAX_SPAWN_DEPTH_LIMIT);
+}
+
+export function getMaxTotalAgents(features: AdvancedFeatures | undefined): number {
+  return Math.max(1, Math.floor(features?.maxTotalAgents || DEFAULT_MAX_TOTAL_AGENTS));
+}
+
+export function getChildPath(child: ChildSession): string {
+  return child.path || child.name;
+}
+
+export function getChildDepth(child: ChildSession): number {
+  return child.depth || 1;
+}
+
+export function getSubChildren(child: ChildSession): ChildSession[] {
+  return child.orchestration?.children || [];
+}
+
+/**
+ * New running child for a spawn request. `parentPath` is unset for the
+ * orchestrator's own children.
+ */
+export function createChildSession(
+  spec: ChildSpec,
+  request: SpawnRequest,
+  options: { maxIterations: number; budget?: SessionBudget; parentPath?: string; depth: number }
+): ChildSession {
+  return {
+    id: crypto.randomUUID(),
+    name: spec.name,
+    task: spec.task,
+    status: "running",
+    promptModifications: [
+      // Add task as identity override
+      { type: "set_task", content: spec.task },
+      ...(spec.sectionOverrides
+        ? Object.entries(spec.sectionOverrides).map(([sectionId, content]) => ({
+            type: "override_section" as const,
+            sectionId,
+            content,
+          }))
+        : []),
+    ],
+    maxIterations: spec.maxIterations || options.maxIterations,
+    currentIteration: 0,
+    startTime: new Date().toISOString(),
+    blackboard: [],
+    scratchpad: request.parentScratchpad,
+    toolCalls: [],
+    artifacts: [],
+    toolResultAttributes: { ...request.parentAttributes }, // Inherit parent's attributes
+    rawData: [],
+    budget: options.budget,
+    depth: options.depth,
+    path: options.parentPath ? `${options.parentPath}${CHILD_PATH_SEPARATOR}${spec.name}` : spec.name,
+  };
+}
+
+/**
+ * Number of agents in a tree of children, at every level
+ */
+export function countAgents(children: ChildSession[]): number {
+  return children.reduce((total, child) => total + 1 + countAgents(getSubChildren(child)), 0);
+}
+
+/**
+ * Error for a spawn that would take the tree past the total agent cap, or null when it fits.
+ * Callers reserve the slots as soon as this passes, so parallel siblings can't both squeeze in.
+ */
+export function checkAgentCap(
+  treeSize: number,
+  requested: number,
+  features: AdvancedFeatures | undefined
+): string | null {
+  const maxAgents = getMaxTotalAgents(features);
+  if (treeSize + requested <= maxAgents) return null;
+  return `Too many agents: ${treeSize} already spawned, ${requested} requested, at most ${maxAgents} in total. Spawn fewer children or do the work yourself.`;
+}
+
+/**
+ * The chain of children from the top of the tree down to the child at `path`,
+ * or an empty list when no child has that path
+ */
+export function getChildLineage(children: ChildSession[], path: string): ChildSession[] {
+  const lineage: ChildSession[] = [];
+  let level = children;
+  for (const name of path.split(CHILD_PATH_SEPARATOR)) {
+    const child = level.find((c) => c.name === name);
+    if (!child) return [];
+    lineage.push(child);
+    level = getSubChildren(child);
+  }
+  return lineage;
+}
+
+export function findChildByPath(children: ChildSession[], path: string): ChildSession | undefined {
+  const lineage = getChildLineage(children, path);
+  return lineage[lineage.length - 1];
+}
@@ -0,0 +1,157 @@
+// Child Results - The hand-back contract between spawned children and their orchestrator
+// A finished child's report, the attributes it produced and its artifacts become one
+// ChildResult. Attributes are merged into the parent under a "childName." namespace;
+// a namespaced name already taken in the parent gets a numeric suffix, and attribute
+// names written by more than one child are reported as conflicts by read_child_results.
+
+import type {
+  ChildReport,
+  ChildResult,
+  ChildSession,
+  FreeAgentArtifact,
+  ToolResultAttribute,
+} from "@/types/freeAgent";
+
+export interface ChildMerge {
+  result: ChildResult;
+  // New parent attributes, already namespaced
+  attributes: ToolResultAttribute[];
+  // New parent artifacts, titled with the child's name
+  artifacts: FreeAgentArtifact[];
+}
+
+export interface ChildAttributeConflict {
+  name: string;         // Attribute name written by more than one child
+  children: string[];
+  mergedAs: string[];   // Namespaced names in the parent, in the same order as children
+  identical: boolean;   // Every child wrote the same content
+}
+
+/**
+ * Namespaced parent attribute name for an attribute a child wrote
+ */
+export function getChildAttributeName(childName: string, name: string): string {
+  return `${childName}.${name}`;
+}
+
+// First of base, base_2, base_3... not yet taken
+function uniqueName(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+}
+
+// Summary for a child that ended without a final_report: its last non-error blackboard entry
+function deriveReport(child: ChildSession): ChildReport {
+  const last = [...child.blackboard].reverse().find((entry) => entry.category !== "error");
+  return {
+    summary: last?.content || child.error || "Child finished without reporting a result",
+    keyFindings: [],
+  };
+}
+
+/**
+ * Build a finished child's result and the attributes and artifacts to add to the parent.
+ * Attributes the child inherited unchanged are left out. `takenNames` holds the parent's
+ * attribute names and is updated with every name handed out, so children merged one
+ * after another never overwrite each other or an earlier spawn.
+ */
+export function mergeChildResult(
+  child: ChildSession,
+  inherited: Record<string, ToolResultAttribute>,
+  takenNames: Set<string>
+): ChildMerge {
+  const attributes: ToolResultAttribute[] = [];
+  const produced: ChildResult["attributes"] = [];
+  for (const [name, attr] of Object.entries(child.toolResultAttributes || {})) {
+    if (inherited[name]?.id === attr.id) continue;
+    const merged = uniqueName(getChildAttributeName(child.name, name), takenNames);
+    takenNames.add(merged);
+    attributes.push({ ...attr, id: crypto.randomUUID(), name: merged });
+    produced.push({ name: merged, originalName: name, tool: attr.tool, size: attr.size });
+  }
+
+  const artifacts: FreeAgentArtifact[] = (child.artifacts || []).map((artifact) => ({
+    ...artifact,
+    id: crypto.randomUUID(),
+    title: `[${child.name}] ${artifact.title}`,
+    description: `${artifact.description || ""} (from child: ${child.name})`.trim(),
+  }));
+
+  const report = child.report || deriveReport(child);
+  const result: ChildResult = {
+    childName: child.name,
+    task: child.task,
+    status: child.status,
+    summary: report.summary,
+    keyFindings: report.keyFindings,
+    attributes: produced,
+    artifacts: artifacts.map((a) => ({ id: a.id, title: a.title, type: a.type })),
+    reported: !!child.report,
+    iterations: child.currentIteration,
+    error: child.error,
+    completedAt: child.endTime || new Date().toISOString(),
+  };
+
+  return { result, attributes, artifacts };
+}
+
+/**
+ * One-line blackboard entry summarizing a child's result for its parent
+ */
+export function formatChildResultEntry(result: ChildResult): string {
+  const attributes = result.attributes.length > 0 ? ` | Attributes: ${result.attributes.map((a) => a.name).join(", ")}` : "";
+  return `[CHILD:${result.childName}] ${result.status}${result.reported ? "" : " (no final_report)"}: ${result.summary}${attributes}`;
+}
+
+/**
+ * Result of the spawn tool once every child has finished
+ */
+export function buildSpawnResult(
+  results: ChildResult[],
+  outcomes: Array<{ name: string; success: boolean; error?: string }>
+) {
+  const completedChildren = outcomes.filter((o) => o.success).map((o) => o.name);
+  return {
+    message: `${completedChildren.length}/${outcomes.length} children completed. Call read_child_results for their summaries, key findings and merged attributes.`,
+    completedChildren,
+    failedChildren: outcomes.filter((o) => !o.success).map((o) => ({ name: o.name, error: o.error })),
+    results: results.map((r) => ({
+      child: r.childName,
+      status: r.status,
+      summary: r.summary,
+      attributes: r.attributes.map((a) => a.name),
+    })),
+  };
+}
+
+/**
+ * Attribute names written by more than one child, with where each copy was merged
+ */
+export function findAttributeConflicts(
+  results: ChildResult[],
+  attributes: Record<string, ToolResultAttribute>
+): ChildAttributeConflict[] {
+  const byName = new Map<string, Array<{ child: string; mergedAs: string }>>();
+  for (const result of results) {
+    for (const attr of result.attributes) {
+      const writers = byName.get(attr.originalName) || [];
+      writers.push({ child: result.childName, mergedAs: attr.name });
+      byName.set(attr.originalName, writers);
+    }
+  }
+
+  const conflicts: ChildAttributeConflict[] = [];
+  for (const [name, writers] of byName) {
+    if (new Set(writers.map((w) => w.child)).size < 2) continue;
+    const contents = writers.map((w) => attributes[w.mergedAs]?.resultString);
+    conflicts.push({
+      name,
+      children: writers.map((w) => w.child),
+      mergedAs: writers.map((w) => w.mergedAs),
+      identical: contents.every((c) => c !== undefined && c === contents[0]),
+    });
+  }
+  return conflicts;
+}
@@ -0,0 +1,231 @@
+// Code Sandbox - Runs user-written transform snippets in a throwaway Web Worker
+// Each run gets a fresh worker built from a blob URL, so snippets share no state,
+// never see the DOM, and are terminated outright when they exceed their timeout.
+// Network and storage globals are removed before the snippet is compiled, and
+// since dynamic import() reaches the network without any global, snippets that
+// use `import` are rejected and the worker cannot turn strings into code.
+
+export const DEFAULT_CODE_TIMEOUT_MS = 5000;
+export const MAX_CODE_TIMEOUT_MS = 60000;
+
+export type CodeLanguage = "javascript" | "typescript";
+
+export interface CodeSandboxInput {
+  input: string;
+  inputs: Record<string, string>;
+}
+
+// Raised for syntax errors, runtime exceptions and timeouts alike; the message
+// is what the node's error status shows.
+export class CodeSandboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CodeSandboxError";
+  }
+}
+
+interface WorkerReply {
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+// Runs inside the worker. Kept as plain JS source because the worker is created
+// from a blob rather than a bundled module.
+const WORKER_SOURCE = `
+"use strict";
+const BLOCKED_GLOBALS = [
+  "fetch", "XMLHttpRequest", "WebSocket", "WebTransport", "EventSource", "importScripts",
+  "indexedDB", "caches", "BroadcastChannel", "Worker", "SharedWorker", "Request", "Response",
+];
+const reply = self.postMessage.bind(self);
+for (const name of BLOCKED_GLOBALS) {
+  let target = self;
+  while (target) {
+    try { delete target[name]; } catch (e) { /* non-configurable */ }
+    target = Object.getPrototypeOf(target);
+  }
+  try {
+    Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+  } catch (e) { /* already locked */ }
+}
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+// No string-to-code after this point, so import() can't be assembled at runtime
+const CODE_CONSTRUCTORS = [
+  function () {}, async function () {}, function* () {}, async function* () {},
+].map((fn) => Object.getPrototypeOf(fn));
+for (const proto of CODE_CONSTRUCTORS) {
+  Object.defineProperty(proto, "constructor", { value: undefined, writable: false, configurable: false });
+}
+for (const name of ["eval", "Function"]) {
+  Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+}
+for (const name of ["setTimeout", "setInterval"]) {
+  const timer = self[name].bind(self);
+  Object.defineProperty(self, name, {
+    value: (handler, ...args) => {
+      if (typeof handler !== "function") throw new TypeError(name + " needs a function");
+      return timer(handler, ...args);
+    },
+    writable: false,
+    configurable: false,
+  });
+}
+
+self.onmessage = async (event) => {
+  const { code, input, inputs } = event.data;
+  let fn;
+  try {
+    fn = new AsyncFunction("input", "inputs", '"use strict";\\n' + code);
+  } catch (e) {
+    reply({ ok: false, error: "Syntax error: " + (e && e.message ? e.message : String(e)) });
+    return;
+  }
+  try {
+    const result = await fn(input, inputs);
+    try {
+      reply({ ok: true, result });
+    } catch (e) {
+      reply({ ok: false, error: "Return value could not be copied out of the sandbox: " + (e && e.message ? e.message : String(e)) });
+    }
+  } catch (e) {
+    const name = e && e.name ? e.name : "Error";
+    const message = e && e.message !== undefined ? e.message : String(e);
+    reply({ ok: false, error: name + ": " + message });
+  }
+};
+`;
+
+/**
+ * Strip TypeScript syntax so the snippet can run as JavaScript. The transpiler is
+ * loaded on demand - only TypeScript snippets pay for it.
+ */
+async function transpileTypeScript(code: string): Promise<string> {
+  const { transform } = await import("sucrase");
+  // Wrap in an async function so top-level return/await are legal while transpiling
+  const wrapped = `async function __snippet__(input: string, inputs: Record<string, string>) {\n${code}\n}`;
+  let js: string;
+  try {
+    js = transform(wrapped, { transforms: ["typescript"], disableESTransforms: true }).code;
+  } catch (error) {
+    throw new CodeSandboxError(`Syntax error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const bodyStart = js.indexOf("{") + 1;
+  const bodyEnd = js.lastIndexOf("}");
+  return js.slice(bodyStart, bodyEnd);
+}
+
+/**
+ * True when the snippet uses the `import` keyword - import(), import.meta or an
+ * import declaration. Tokenizing means the word inside a string, comment or
+ * regex doesn't count, and keywords can't be written with escapes.
+ */
+async function usesImport(source: string): Promise<boolean> {
+  const { tokenizer, tokTypes } = await import("acorn");
+  try {
+    const tokens = tokenizer(source, { ecmaVersion: "latest", allowReturnOutsideFunction: true });
+    for (const token of tokens) {
+      if (token.type === tokTypes._import) return true;
+    }
+  } catch (error) {
+    throw new CodeSandboxError(`Syntax error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return false;
+}
+
+/**
+ * Run a snippet with `input` and `inputs` in scope and resolve with whatever it
+ * returns. The snippet body may use `return` and `await` at the top level.
+ * Blocked: fetch, XMLHttpRequest, WebSocket, WebTransport, EventSource, importScripts,
+ * indexedDB, caches, BroadcastChannel, nested workers, the `import` keyword (so no
+ * dynamic import()), and eval, Function and string timers that could build one.
+ */
+export async function runSandboxedCode(
+  code: string,
+  data: CodeSandboxInput,
+  options: { language?: CodeLanguage; timeoutMs?: number } = {}
+): Promise<unknown> {
+  if (typeof Worker === "undefined") {
+    throw new CodeSandboxError("Code nodes need Web Worker support, which this environment does not provide");
+  }
+
+  const source = options.language === "typescript" ? await transpileTypeScript(code) : code;
+  if (await usesImport(source)) {
+    throw new CodeSandboxError("Code may not use import - the sandbox has no network or module access");
+  }
+  const timeoutMs = Math.min(Math.max(1, options.timeoutMs || DEFAULT_CODE_TIMEOUT_MS), MAX_CODE_TIMEOUT_MS);
+
+  const blobUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: "text/javascript" }));
+  const worker = new Worker(blobUrl);
+
+  try {
+    return await new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new CodeSandboxError(`Code timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+        clearTimeout(timer);
+        if (event.data.ok) {
+          resolve(event.data.result);
+        } else {
+          reject(new CodeSandboxError(event.data.error));
+        }
+      };
+      worker.onerror = (event) => {
+        clearTimeout(timer);
+        event.preventDefault();
+        reject(new CodeSandboxError(event.message || "Code failed to run"));
+      };
+
+      worker.postMessage({ code: source, input: data.input, inputs: data.inputs });
+    });
+  } finally {
+    worker.terminate();
+    URL.revokeObjectURL(blobUrl);
+  }
+}
+
+/**
+ * Map a snippet's return value onto output ports:
+ * - with a single port, strings pass through and anything else is JSON
+ * - an array fills output_1, output_2, ... in order
+ * - an object whose keys are all port names fills those ports
+ * - anything else goes to the first port as JSON
+ */
+export function mapCodeResultToPorts(result: unknown, ports: string[]): Record<string, string> {
+  const toText = (value: unknown): string => {
+    if (value === undefined || value === null) return "";
+    if (typeof value === "string") return value;
+    return JSON.stringify(value, null, 2);
+  };
+
+  const outputs: Record<string, string> = Object.fromEntries(ports.map((port) => [port, ""]));
+  if (ports.length <= 1) {
+    outputs[ports[0] || "output"] = toText(result);
+    return outputs;
+  }
+
+  if (Array.isArray(result)) {
+    ports.forEach((port, i) => {
+      outputs[port] = toText(result[i]);
+    });
+    return outputs;
+  }
+
+  if (result && typeof result === "object") {
+    const keys = Object.keys(result);
+    if (keys.length > 0 && keys.every((key) => ports.includes(key))) {
+      for (const key of keys) {
+        outputs[key] = toText((result as Record<string, unknown>)[key]);
+      }
+      return outputs;
+    }
+  }
+
+  outputs[ports[0]] = toText(result);
+  return outputs;
+}
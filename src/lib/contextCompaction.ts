@@ -0,0 +1,304 @@
+// Context Compaction - Keeps long Free Agent sessions inside the model's context window
+// Before each iteration the prompt size is estimated from what the free-agent edge
+// function will render (blackboard, scratchpad, previous results, artifacts, files).
+// Once it passes the session model's limit, large previous results are collapsed
+// into attribute references and older blackboard entries are folded into a rolling
+// digest that the edge function shows in their place.
+
+import { getAgentEdgeFunction, getModel, getModelEndpointConfig } from "@/lib/modelRegistry";
+import { streamAgentFromEdge } from "@/lib/workflowRunner";
+import type {
+  BlackboardEntry,
+  ContextCompaction,
+  ContextDigest,
+  FreeAgentArtifact,
+  FreeAgentSession,
+  SessionFile,
+  ToolResult,
+  ToolResultAttribute,
+} from "@/types/freeAgent";
+import type { TokenUsage } from "@/types/usage";
+
+// Rough average for English text and JSON across the supported providers
+const CHARS_PER_TOKEN = 4;
+// Share of the context window the prompt may fill, leaving room for the response and estimate error
+const CONTEXT_FILL_RATIO = 0.5;
+// Prompts past this get slow even on million-token models, so compact regardless of the window
+const MAX_COMPACTION_LIMIT = 200_000;
+
+// Blackboard entries always sent in full, the rest may be folded into the digest
+export const KEEP_RECENT_ENTRIES = 8;
+const MAX_DIGEST_CHARS = 6000;
+const LARGE_RESULT_CHARS = 4000;
+const RESULT_PREVIEW_CHARS = 500;
+
+// Mirrors of the truncation the free-agent edge function applies when rendering the prompt
+const PROMPT_SCRATCHPAD_CHARS = 10000;
+const PROMPT_RESULT_CHARS = 250000;
+const PROMPT_FULL_BLACKBOARD_ENTRIES = 4;
+const PROMPT_BLACKBOARD_PREVIEW_CHARS = 150;
+const PROMPT_ARTIFACT_PREVIEW_CHARS = 200;
+const PROMPT_INLINE_FILE_SIZE = 50000;
+
+const DIGEST_SYSTEM_PROMPT = `You maintain the running digest of an autonomous agent's planning journal (its blackboard).
+Merge the new journal entries into the existing digest. Keep the goal, the plan, decisions and their reasons,
+completed work, key findings with concrete values, names of saved attributes and artifacts, failures to avoid
+repeating and open items. Drop chatter and repetition. Respond with the digest only, as terse markdown bullets,
+under 400 words.`;
+
+export interface PromptContext {
+  model: string;
+  prompt: string;
+  blackboard: BlackboardEntry[];
+  digest?: ContextDigest;
+  scratchpad: string;
+  previousResults: ToolResult[];
+  artifacts: FreeAgentArtifact[];
+  sessionFiles: SessionFile[];
+  promptData?: FreeAgentSession["promptData"];
+}
+
+export interface CompactionOutcome {
+  previousResults: ToolResult[];
+  digest?: ContextDigest;
+  // Attributes holding the full content of collapsed results
+  attributes: ToolResultAttribute[];
+  estimatedTokens: number;
+  // Set only when the limit was passed and compaction ran
+  record?: ContextCompaction;
+  // Tokens spent writing the digest
+  usage?: TokenUsage;
+}
+
+// ============================================================================
+// Estimation
+// ============================================================================
+
+/**
+ * Prompt size that triggers compaction for a model
+ */
+export function getCompactionLimit(model: string): number {
+  const window = getModel(model).capabilities.contextWindow;
+  return Math.floor(Math.min(window * CONTEXT_FILL_RATIO, MAX_COMPACTION_LIMIT));
+}
+
+function stringifyResult(result: ToolResult): string {
+  if (result.result === undefined || result.result === null) return result.error || "";
+  try {
+    return JSON.stringify(result.result, null, 2);
+  } catch {
+    return "";
+  }
+}
+
+function estimateBlackboardChars(blackboard: BlackboardEntry[], digest: ContextDigest | undefined): number {
+  const visible = blackboard.slice(digest?.coveredEntries || 0);
+  const fullFrom = visible.length - PROMPT_FULL_BLACKBOARD_ENTRIES;
+  const entries = visible.reduce((total, entry, i) => {
+    const content = i < fullFrom ? Math.min(entry.content.length, PROMPT_BLACKBOARD_PREVIEW_CHARS) : entry.content.length;
+    return total + content + 40 + (entry.tools?.join(", ").length || 0);
+  }, 0);
+  return entries + (digest?.summary.length || 0);
+}
+
+/**
+ * Estimate the prompt tokens the free-agent edge function will send for this state
+ */
+export function estimatePromptTokens(ctx: PromptContext): number {
+  const promptData = ctx.promptData;
+  const template =
+    (promptData?.sections || []).reduce((total, s) => total + s.content.length + s.title.length, 0) +
+    JSON.stringify(promptData?.toolDefinitions || []).length;
+
+  const scratchpad = Math.min(ctx.scratchpad.length, PROMPT_SCRATCHPAD_CHARS);
+  const results = ctx.previousResults.reduce(
+    (total, r) => total + Math.min(stringifyResult(r).length, PROMPT_RESULT_CHARS) + r.tool.length + 20,
+    0
+  );
+  const artifacts = ctx.artifacts.reduce(
+    (total, a) =>
+      total + Math.min(a.content.length, PROMPT_ARTIFACT_PREVIEW_CHARS) + a.title.length + (a.description?.length || 0) + 80,
+    0
+  );
+  const files = ctx.sessionFiles.reduce((total, f) => {
+    const inline = f.content && f.size < PROMPT_INLINE_FILE_SIZE && /^text\/|json|xml|javascript|typescript/.test(f.mimeType);
+    return total + f.filename.length + 80 + (inline ? f.content!.length : 0);
+  }, 0);
+
+  const chars =
+    template + ctx.prompt.length + estimateBlackboardChars(ctx.blackboard, ctx.digest) + scratchpad + results + artifacts + files;
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+// ============================================================================
+// Compaction steps
+// ============================================================================
+
+// Replace large previous results with a preview and a reference to an attribute holding the full result
+function collapseLargeResults(results: ToolResult[], iteration: number) {
+  const attributes: ToolResultAttribute[] = [];
+  const collapsed: ContextCompaction["collapsedResults"] = [];
+
+  const compacted = results.map((result, index) => {
+    const saved = (result.result as { _savedAsAttribute?: string } | undefined)?._savedAsAttribute;
+    const resultString = stringifyResult(result);
+    if (!result.success || saved || resultString.length <= LARGE_RESULT_CHARS) return result;
+
+    const name = `compacted_${result.tool.replace(/\W+/g, "_")}_${iteration}_${index + 1}`;
+    attributes.push({
+      id: crypto.randomUUID(),
+      name,
+      tool: result.tool,
+      params: {},
+      result: result.result,
+      resultString,
+      size: resultString.length,
+      createdAt: new Date().toISOString(),
+      iteration,
+    });
+    collapsed.push({ tool: result.tool, attribute: name, size: resultString.length });
+
+    return {
+      ...result,
+      result: {
+        _savedAsAttribute: name,
+        _compacted: true,
+        _message: `Result collapsed to fit the context window - the full result (${resultString.length} chars) is in attribute '${name}'. Use read_attribute({ names: ['${name}'] }) or search_memory to get the parts you need.`,
+        preview: resultString.slice(0, RESULT_PREVIEW_CHARS),
+      },
+    };
+  });
+
+  return { results: compacted, attributes, collapsed };
+}
+
+function formatEntry(entry: BlackboardEntry, index: number): string {
+  const tools = entry.tools?.length ? ` | Tools: [${entry.tools.join(", ")}]` : "";
+  return `[#${index} ${entry.category} | iteration ${entry.iteration}]${tools} ${entry.content}`;
+}
+
+// Fallback digest: one preview line per entry, keeping the most recent lines under the cap
+function extractiveDigest(previous: string, entries: BlackboardEntry[], offset: number): string {
+  const lines = entries.map((entry, i) => {
+    const preview = entry.content.length > PROMPT_BLACKBOARD_PREVIEW_CHARS
+      ? `${entry.content.slice(0, PROMPT_BLACKBOARD_PREVIEW_CHARS)}...`
+      : entry.content;
+    return `- [#${offset + i + 1} ${entry.category}] ${preview}`;
+  });
+  const digest = [previous, ...lines].filter(Boolean).join("\n");
+  return digest.length > MAX_DIGEST_CHARS ? `...[earlier digest trimmed]\n${digest.slice(-MAX_DIGEST_CHARS)}` : digest;
+}
+
+async function summarizeEntries(
+  model: string,
+  previous: string,
+  entries: BlackboardEntry[],
+  offset: number
+): Promise<{ summary: string; usage?: TokenUsage }> {
+  let usage: TokenUsage | undefined;
+  const userPrompt = `## Existing digest\n${previous || "(none yet)"}\n\n## New journal entries\n${entries
+    .map((entry, i) => formatEntry(entry, offset + i + 1))
+    .join("\n\n")}`;
+
+  const summary = await streamAgentFromEdge(
+    getAgentEdgeFunction(model),
+    {
+      systemPrompt: DIGEST_SYSTEM_PROMPT,
+      userPrompt,
+      tools: [],
+      model,
+      maxOutputTokens: 2048,
+      thinkingEnabled: false,
+      thinkingBudget: 0,
+      modelEndpoint: getModelEndpointConfig(model),
+    },
+    {
+      onDelta: () => {},
+      onToolOutput: () => {},
+      onTruncated: () => {},
+      onUsage: (u) => { usage = u; },
+    }
+  );
+
+  if (!summary.trim()) throw new Error("Model returned an empty digest");
+  return { summary: summary.trim().slice(0, MAX_DIGEST_CHARS), usage };
+}
+
+// Fold every entry older than the recent window into the digest
+async function digestBlackboard(
+  model: string,
+  blackboard: BlackboardEntry[],
+  digest: ContextDigest | undefined,
+  iteration: number
+): Promise<{ digest: ContextDigest; digested: number; usage?: TokenUsage } | null> {
+  const covered = digest?.coveredEntries || 0;
+  const upTo = blackboard.length - KEEP_RECENT_ENTRIES;
+  if (upTo <= covered) return null;
+
+  const entries = blackboard.slice(covered, upTo);
+  const previous = digest?.summary || "";
+  const base = { coveredEntries: upTo, updatedAt: new Date().toISOString(), iteration };
+
+  try {
+    const { summary, usage } = await summarizeEntries(model, previous, entries, covered);
+    return { digest: { ...base, summary, source: "model" }, digested: entries.length, usage };
+  } catch (error) {
+    console.warn("[Compaction] Digest call failed, using extractive digest:", error);
+    return {
+      digest: { ...base, summary: extractiveDigest(previous, entries, covered), source: "extractive" },
+      digested: entries.length,
+    };
+  }
+}
+
+/**
+ * Compact the prompt state when its estimated size passes the model's limit.
+ * Results are collapsed first since that costs nothing; the blackboard digest
+ * (one model call) is only written when that was not enough.
+ */
+export async function compactContext(ctx: PromptContext, iteration: number): Promise<CompactionOutcome> {
+  const limitTokens = getCompactionLimit(ctx.model);
+  const estimatedTokens = estimatePromptTokens(ctx);
+  if (estimatedTokens <= limitTokens) {
+    return { previousResults: ctx.previousResults, digest: ctx.digest, attributes: [], estimatedTokens };
+  }
+
+  const collapsed = collapseLargeResults(ctx.previousResults, iteration);
+  let current: PromptContext = { ...ctx, previousResults: collapsed.results };
+  let compactedTokens = estimatePromptTokens(current);
+
+  let digested = 0;
+  let usage: TokenUsage | undefined;
+  if (compactedTokens > limitTokens) {
+    const folded = await digestBlackboard(ctx.model, ctx.blackboard, ctx.digest, iteration);
+    if (folded) {
+      current = { ...current, digest: folded.digest };
+      compactedTokens = estimatePromptTokens(current);
+      digested = folded.digested;
+      usage = folded.usage;
+    }
+  }
+
+  const record: ContextCompaction = {
+    limitTokens,
+    estimatedTokens,
+    compactedTokens,
+    digestedEntries: digested,
+    digestSource: digested > 0 ? current.digest?.source : undefined,
+    collapsedResults: collapsed.collapsed,
+    withinLimit: compactedTokens <= limitTokens,
+  };
+  console.log(
+    `[Compaction] ~${estimatedTokens} -> ~${compactedTokens} tokens (limit ${limitTokens}): ` +
+      `${collapsed.collapsed.length} results collapsed, ${digested} blackboard entries digested`
+  );
+
+  return {
+    previousResults: current.previousResults,
+    digest: current.digest,
+    attributes: collapsed.attributes,
+    estimatedTokens: compactedTokens,
+    record,
+    usage,
+  };
+}
@@ -0,0 +1,3 @@
+// Cron Schedule - The schedule parser lives in supabase/functions/_shared/cronSchedule.ts
+// so the run-workflow edge function computes next runs the same way as the dialog
+export { CRON_PRESETS, getCronError, getNextCronRun, type CronPreset } from "../../supabase/functions/_shared/cronSchedule.ts";
@@ -0,0 +1,31 @@
+// Execution Policy - Per-node retries with backoff, timeouts and the continue-on-error port
+// Retries and timeouts live in supabase/functions/_shared/executionPolicy.ts, which
+// triggered runs use as well; the port and node helpers here are browser-only.
+import type { WorkflowNode } from "@/types/workflow";
+import { ERROR_PORT } from "../../supabase/functions/_shared/executionPolicy.ts";
+
+export {
+  DEFAULT_RETRY_DELAY_MS,
+  ERROR_PORT,
+  MAX_NODE_RETRIES,
+  NodeTimeoutError,
+  RunStoppedError,
+  getRetryDelay,
+  runWithPolicy,
+} from "../../supabase/functions/_shared/executionPolicy.ts";
+
+/**
+ * Output ports of a node plus its error port when it continues on error
+ */
+export function withErrorPort(node: WorkflowNode, ports: string[]): string[] {
+  if (!node.policy?.continueOnError || ports.includes(ERROR_PORT)) return ports;
+  return [...ports, ERROR_PORT];
+}
+
+/**
+ * Whether a node's timeout and retries apply. Approval nodes wait on a person, so
+ * they run once - a timed-out attempt would leave its review request open.
+ */
+export function supportsRetries(node: WorkflowNode): boolean {
+  return !(node.nodeType === "function" && node.functionType === "approval");
+}
@@ -0,0 +1,126 @@
+// Free Agent Session Store - IndexedDB persistence for sessions and their history
+// Full sessions and lightweight summaries live in separate object stores so the
+// history list never has to load rawData or binary attributes.
+
+import type { FreeAgentSession, FreeAgentStatus } from "@/types/freeAgent";
+import { countAgents } from "@/lib/agentTree";
+
+const DB_NAME = "free_agent";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const SUMMARIES_STORE = "session_summaries";
+
+export interface FreeAgentSessionSummary {
+  id: string;
+  prompt: string;
+  model: string;
+  status: FreeAgentStatus;
+  currentIteration: number;
+  maxIterations: number;
+  artifactCount: number;
+  blackboardCount: number;
+  childCount: number;
+  startTime: string;
+  updatedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: "id" });
+          summaries.createIndex("updatedAt", "updatedAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function toSummary(session: FreeAgentSession): FreeAgentSessionSummary {
+  return {
+    id: session.id,
+    prompt: session.prompt,
+    model: session.model,
+    status: session.status,
+    currentIteration: session.currentIteration,
+    maxIterations: session.maxIterations,
+    artifactCount: session.artifacts.length,
+    blackboardCount: session.blackboard.length,
+    childCount: countAgents(session.orchestration?.children || []),
+    startTime: session.startTime,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Persist a session snapshot. Secret overrides are never written to disk -
+ * they are re-injected from the secrets manager when a session is resumed.
+ */
+export async function saveSession(session: FreeAgentSession): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], "readwrite");
+  const { secretOverrides: _secrets, ...persisted } = session;
+  tx.objectStore(SESSIONS_STORE).put(persisted);
+  tx.objectStore(SUMMARIES_STORE).put(toSummary(session));
+  await transactionDone(tx);
+}
+
+/**
+ * Load a full session by id
+ */
+export async function loadSession(id: string): Promise<FreeAgentSession | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, "readonly");
+  const session = await requestToPromise<FreeAgentSession | undefined>(tx.objectStore(SESSIONS_STORE).get(id));
+  return session || null;
+}
+
+/**
+ * List session summaries, most recently updated first
+ */
+export async function listSessions(): Promise<FreeAgentSessionSummary[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SUMMARIES_STORE, "readonly");
+  const summaries = await requestToPromise<FreeAgentSessionSummary[]>(tx.objectStore(SUMMARIES_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Remove a session and its summary
+ */
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], "readwrite");
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  tx.objectStore(SUMMARIES_STORE).delete(id);
+  await transactionDone(tx);
+}
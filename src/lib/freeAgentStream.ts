@@ -0,0 +1,158 @@
+// Free Agent Stream - Streamed calls to the free-agent edge function
+// The edge function forwards the model's output as SSE delta events while it is
+// being written, then sends one result event carrying the same payload the
+// non-streamed call returns (parsed response, tool results, usage, debug).
+
+import type { TokenUsage } from "@/types/usage";
+
+/**
+ * Payload of one free-agent iteration, as returned by the edge function
+ */
+export interface FreeAgentIterationResult {
+  success: boolean;
+  error?: string;
+  iteration?: number;
+  response?: unknown;
+  toolResults?: Array<{ tool: string; params?: Record<string, unknown>; success: boolean; result?: unknown; error?: string }>;
+  frontendHandlers?: Array<{ tool: string; params: Record<string, unknown> }>;
+  status?: string;
+  usage?: TokenUsage;
+  debug?: {
+    systemPrompt?: string;
+    userPrompt?: string;
+    fullPromptSent?: string;
+    rawLLMResponse?: string;
+    model?: string;
+    scratchpadLength?: number;
+    blackboardEntries?: number;
+    previousResultsCount?: number;
+  };
+  parseError?: {
+    rawResponse: string;
+    responseLength: number;
+    preview: string;
+    ending: string;
+  } | null;
+}
+
+/**
+ * What can be read from a response that is still being written
+ */
+export interface StreamingPreview {
+  reasoning?: string;
+  toolCalls: string[];
+}
+
+/**
+ * Call the free-agent edge function in streamed mode. onDelta receives the
+ * accumulated raw model output after every chunk; the resolved value is the
+ * final result payload.
+ */
+export async function invokeFreeAgentStream(
+  body: Record<string, unknown>,
+  onDelta: (accumulated: string) => void
+): Promise<FreeAgentIterationResult> {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/free-agent`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Full error from free-agent:", errorText);
+    throw new Error(errorText || `Server error: ${response.status}`);
+  }
+
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+
+  if (!reader) {
+    throw new Error("No response body reader available");
+  }
+
+  let accumulatedOutput = "";
+  let textBuffer = "";
+  let result: FreeAgentIterationResult | null = null;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      textBuffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
+        let line = textBuffer.slice(0, newlineIndex);
+        textBuffer = textBuffer.slice(newlineIndex + 1);
+
+        if (line.endsWith("\r")) line = line.slice(0, -1);
+        if (line.startsWith(":") || line.trim() === "") continue;
+        if (!line.startsWith("data: ")) continue;
+
+        const jsonStr = line.slice(6).trim();
+        if (!jsonStr) continue;
+
+        let parsed: { type?: string; text?: string; data?: FreeAgentIterationResult; error?: string };
+        try {
+          parsed = JSON.parse(jsonStr);
+        } catch (parseError) {
+          console.error("Failed to parse SSE chunk:", parseError);
+          continue;
+        }
+
+        if (parsed.type === "delta" && parsed.text) {
+          accumulatedOutput += parsed.text;
+          onDelta(accumulatedOutput);
+        } else if (parsed.type === "result" && parsed.data) {
+          result = parsed.data;
+        } else if (parsed.type === "error") {
+          throw new Error(parsed.error || "Free agent stream failed");
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (!result) {
+    throw new Error("Free agent stream ended without a result");
+  }
+  return result;
+}
+
+/**
+ * Pull the reasoning and requested tool names out of partial response JSON.
+ * Only for display - the finished response is still parsed by the edge function.
+ */
+export function parseStreamingPreview(partial: string): StreamingPreview {
+  const toolCalls = [...partial.matchAll(/"tool"\s*:\s*"([^"\\]+)"/g)].map((m) => m[1]);
+
+  const start = partial.match(/"reasoning"\s*:\s*"/);
+  if (!start || start.index === undefined) return { toolCalls };
+
+  // Read the string value up to its closing quote, or to the end if still being written
+  let raw = "";
+  for (let i = start.index + start[0].length; i < partial.length; i++) {
+    const char = partial[i];
+    if (char === "\\") {
+      if (i + 1 >= partial.length) break;
+      raw += char + partial[++i];
+      continue;
+    }
+    if (char === '"') break;
+    raw += char;
+  }
+
+  let reasoning: string;
+  try {
+    reasoning = JSON.parse(`"${raw}"`);
+  } catch {
+    // A cut-off \u escape can't be decoded yet - show the text as written
+    reasoning = raw.replace(/\\n/g, "\n").replace(/\\"/g, '"');
+  }
+  return { reasoning, toolCalls };
+}
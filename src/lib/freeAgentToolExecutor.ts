@@ -1,6 +1,10 @@
 // Free Agent Tool Executor - Handles frontend-side tool execution
 import { supabase } from "@/integrations/supabase/client";
 import { MarkdownProcessor } from "@/utils/markdownProcessor";
+import { rasterizePdfPages } from "@/utils/fileTextExtraction";
+import { findAttributeConflicts } from "@/lib/childResults";
+import { CHILD_PATH_SEPARATOR, getMaxSpawnDepth } from "@/lib/agentTree";
+import { MEMORY_SOURCE_TYPES, searchSessionMemory, type MemorySourceType } from "@/lib/sessionMemoryIndex";
 import type { 
   BlackboardEntry, 
   FreeAgentArtifact, 
@@ -9,6 +13,7 @@ import type {
   ToolResultAttribute,
   AdvancedFeatures,
   ChildSpec,
+  ChildResult,
 } from "@/types/freeAgent";
 import type { PromptCustomization } from "@/types/systemPrompt";
 
@@ -41,8 +46,13 @@ export interface ToolExecutionContext {
   onPromptCustomizationChange?: () => void;
   // Self-author: callback to update in-memory ref immediately (so read_self gets fresh data)
   onPromptCustomizationUpdate?: (newCustomization: PromptCustomization) => void;
-  // Spawn: callback to create child agents
-  onSpawnChildren?: (request: SpawnRequest) => void;
+  // Spawn: callback to create child agents - returns an error when the spawn is refused
+  // (e.g. over the total agent cap), null once the children's slots are reserved
+  onSpawnChildren?: (request: SpawnRequest) => string | null;
+  // Spawn: results handed back by finished children
+  childResults?: ChildResult[];
+  // Spawn: depth of the calling agent in the spawn tree (0 for the orchestrator)
+  spawnDepth?: number;
 }
 
 interface ToolResult {
@@ -70,6 +80,8 @@ export async function executeFrontendTool(
       return executeExportWord(params, context);
     case "export_pdf":
       return executeExportPdf(params, context);
+    case "pdf_rasterize":
+      return executePdfRasterize(params, context);
     case "read_scratchpad":
       return executeReadScratchpad(context);
     case "write_scratchpad":
@@ -82,6 +94,8 @@ export async function executeFrontendTool(
       return executeReadAttribute(params, context);
     case "read_artifact":
       return executeReadArtifact(params, context);
+    case "search_memory":
+      return executeSearchMemory(params, context);
     // Advanced: Self-Author tools
     case "read_self":
       return executeReadSelf(params, context);
@@ -90,6 +104,8 @@ export async function executeFrontendTool(
     // Advanced: Spawn tools
     case "spawn":
       return executeSpawn(params, context);
+    case "read_child_results":
+      return executeReadChildResults(params, context);
     default:
       return { success: false, error: `Unknown frontend tool: ${tool}` };
   }
@@ -393,6 +409,44 @@ async function executeReadArtifact(
   return { success: true, result: { artifacts: found, count: Object.keys(found).length } };
 }
 
+// Search attributes, artifacts, blackboard, scratchpad and files for the chunks closest to a query
+async function executeSearchMemory(
+  params: Record<string, unknown>,
+  context: ToolExecutionContext
+): Promise<ToolResult> {
+  const query = typeof params.query === "string" ? params.query.trim() : "";
+  if (!query) {
+    return { success: false, error: "query is required" };
+  }
+
+  const requested = Array.isArray(params.sources) ? (params.sources as string[]) : [];
+  const unknown = requested.filter(s => !MEMORY_SOURCE_TYPES.includes(s as MemorySourceType));
+  if (unknown.length > 0) {
+    return {
+      success: false,
+      error: `Unknown memory source(s): ${unknown.join(", ")}. Use any of: ${MEMORY_SOURCE_TYPES.join(", ")}`,
+    };
+  }
+
+  try {
+    const search = await searchSessionMemory(
+      {
+        toolResultAttributes: context.toolResultAttributes,
+        artifacts: context.artifacts,
+        blackboard: context.blackboard,
+        scratchpad: context.scratchpad,
+        sessionFiles: context.sessionFiles,
+      },
+      query,
+      { topK: typeof params.topK === "number" ? params.topK : undefined, types: requested as MemorySourceType[] }
+    );
+    console.log(`[Search Memory] ${search.mode} search over ${search.indexedChunks} chunks returned ${search.results.length} results`);
+    return { success: true, result: { query, ...search, count: search.results.length } };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Memory search failed" };
+  }
+}
+
 // Export to Word document using MarkdownProcessor for proper formatting
 async function executeExportWord(
   params: Record<string, unknown>,
@@ -484,6 +538,70 @@ function blobToBase64(blob: Blob): Promise<string> {
   });
 }
 
+// Page images are sent back with every iteration, so render a few at a time
+const MAX_RASTERIZED_PAGES = 10;
+
+// Render PDF pages to image artifacts in the browser - ocr_image reads them via {{artifact:id}}
+async function executePdfRasterize(
+  params: Record<string, unknown>,
+  context: ToolExecutionContext
+): Promise<ToolResult> {
+  try {
+    let base64 = params.fileData as string | undefined;
+    let filename = "document.pdf";
+    if (params.fileId) {
+      const file = context.sessionFiles.find(f => f.id === params.fileId);
+      if (!file) {
+        return { success: false, error: `File not found: ${params.fileId}` };
+      }
+      base64 = file.sourceData ?? (file.mimeType === "application/pdf" ? file.content : undefined);
+      if (!base64) {
+        return { success: false, error: `${file.filename} is not a PDF file` };
+      }
+      filename = file.filename;
+    }
+    if (!base64) {
+      return { success: false, error: "fileId or fileData (base64 encoded PDF file) is required" };
+    }
+
+    const bytes = Uint8Array.from(atob(base64.replace(/^data:[^,]*,/, "")), (c) => c.charCodeAt(0));
+    const requested = Array.isArray(params.pages) ? (params.pages as unknown[]).map(Number) : [];
+    const rendered = await rasterizePdfPages(bytes, {
+      pages: requested,
+      dpi: Number(params.dpi) || undefined,
+      maxPages: MAX_RASTERIZED_PAGES,
+    });
+
+    const pages = rendered.pages.map((page) => {
+      const artifact: FreeAgentArtifact = {
+        id: crypto.randomUUID(),
+        type: "image",
+        title: `${filename} - page ${page.page}`,
+        content: page.dataUrl,
+        description: `Page ${page.page} of ${filename} (${page.width}x${page.height})`,
+        mimeType: "image/png",
+        createdAt: new Date().toISOString(),
+        iteration: 0,
+      };
+      context.onArtifactCreated(artifact);
+      return { page: page.page, artifactId: artifact.id, width: page.width, height: page.height };
+    });
+
+    return {
+      success: true,
+      result: {
+        filename,
+        pageCount: rendered.pageCount,
+        pages,
+        remainingPages: rendered.skippedPages,
+        next: 'Read each page with ocr_image({ imageSource: "{{artifact:<artifactId>}}" })',
+      },
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Failed to rasterize PDF" };
+  }
+}
+
 // Execute edge function tool via Supabase
 export async function executeEdgeFunctionTool(
   tool: string,
@@ -913,6 +1031,9 @@ async function executeSpawn(
     if (names.includes(child.name)) {
       return { success: false, error: `Duplicate child name: ${child.name}. Names must be unique.` };
     }
+    if (child.name.includes(CHILD_PATH_SEPARATOR)) {
+      return { success: false, error: `Child name '${child.name}' must not contain '${CHILD_PATH_SEPARATOR}'` };
+    }
     names.push(child.name);
   }
   
@@ -925,8 +1046,17 @@ async function executeSpawn(
     };
   }
   
-  // Trigger spawn via callback
-  context.onSpawnChildren({
+  const depth = context.spawnDepth || 0;
+  const maxDepth = getMaxSpawnDepth(context.advancedFeatures);
+  if (depth >= maxDepth) {
+    return {
+      success: false,
+      error: `Maximum spawn depth reached (${maxDepth}). Do this work yourself instead of spawning.`
+    };
+  }
+  
+  // Trigger spawn via callback, which enforces the total agent cap
+  const refused = context.onSpawnChildren({
     children: childSpecs.map(child => ({
       ...child,
       maxIterations: child.maxIterations || context.advancedFeatures!.childMaxIterations || 20,
@@ -936,6 +1066,9 @@ async function executeSpawn(
     parentScratchpad: context.scratchpad,
     parentAttributes: context.toolResultAttributes || {},
   });
+  if (refused) {
+    return { success: false, error: refused };
+  }
   
   return {
     success: true,
@@ -947,3 +1080,40 @@ async function executeSpawn(
     }
   };
 }
+
+// Read what spawned children handed back - summaries, key findings, merged attributes and artifacts
+async function executeReadChildResults(
+  params: Record<string, unknown>,
+  context: ToolExecutionContext
+): Promise<ToolResult> {
+  const allResults = context.childResults || [];
+  if (allResults.length === 0) {
+    return {
+      success: true,
+      result: { children: [], count: 0, message: "No child results yet. Children hand back their results when they finish." },
+    };
+  }
+
+  const names = Array.isArray(params.names) ? (params.names as string[]) : [];
+  const results = names.length > 0 ? allResults.filter(r => names.includes(r.childName)) : allResults;
+  const missing = names.filter(n => !allResults.some(r => r.childName === n));
+  const conflicts = findAttributeConflicts(results, context.toolResultAttributes || {});
+
+  console.log(`[Read Child Results] Returning ${results.length} results, ${conflicts.length} attribute conflicts`);
+  return {
+    success: true,
+    result: {
+      children: results,
+      count: results.length,
+      ...(missing.length > 0 && {
+        notFound: missing,
+        available: allResults.map(r => r.childName),
+      }),
+      ...(conflicts.length > 0 && {
+        conflicts,
+        conflictHint: "Several children wrote these attribute names. Each copy is kept under its child's namespace - compare them (identical: false means they differ) before relying on one.",
+      }),
+      hint: "Attributes are merged as childName.name - read them with read_attribute.",
+    },
+  };
+}
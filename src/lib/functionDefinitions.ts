@@ -18,7 +18,16 @@ import {
   Volume2,
   Mail,
   Github,
-  Send
+  Send,
+  Code,
+  Braces,
+  ShieldCheck,
+  Workflow,
+  Table,
+  Columns3,
+  ArrowUpDown,
+  FileSpreadsheet,
+  UserCheck
 } from "lucide-react";
 import type { FunctionDefinition } from "@/types/functions";
 
@@ -179,6 +188,28 @@ export const functionDefinitions: FunctionDefinition[] = [
     },
     outputs: ["true", "false"],
   },
+  {
+    id: "validate_json",
+    name: "Validate JSON",
+    description: "Check input against a JSON Schema. Routes it to 'valid' or 'invalid'; 'errors' lists what failed.",
+    category: "logic",
+    icon: ShieldCheck,
+    color: "bg-purple-500/10 text-purple-500",
+    inputs: {
+      label: "JSON input",
+      description: "JSON to validate (a surrounding code fence is ignored)",
+    },
+    outputs: ["valid", "invalid", "errors"],
+    configSchema: {
+      schema: {
+        type: "json",
+        label: "JSON Schema",
+        description: "JSON Schema the input must satisfy - draft-07 unless $schema names 2019-09 or 2020-12",
+        required: true,
+        placeholder: '{"type": "object", "required": ["title"], "properties": {"title": {"type": "string"}}}',
+      },
+    },
+  },
   {
     id: "is_empty",
     name: "Is Empty",
@@ -234,7 +265,7 @@ export const functionDefinitions: FunctionDefinition[] = [
   {
     id: "memory",
     name: "Memory",
-    description: "Store outputs across multiple workflow runs",
+    description: "Store outputs across workflow runs, saved with the workflow in this browser",
     category: "memory",
     icon: Database,
     color: "bg-green-500/10 text-green-500",
@@ -251,6 +282,26 @@ export const functionDefinitions: FunctionDefinition[] = [
         required: true,
         placeholder: "e.g., 'research_results'",
       },
+      outputMode: {
+        type: "string",
+        label: "Output Mode",
+        description: "all = every kept entry concatenated, latest = newest entry only, json_array = entries as JSON",
+        default: "all",
+      },
+      maxEntries: {
+        type: "number",
+        label: "Keep Last N Entries",
+        description: "Oldest entries are dropped beyond this count (0 = keep all)",
+        default: 0,
+        placeholder: "0",
+      },
+      ttlHours: {
+        type: "number",
+        label: "Expire After (hours)",
+        description: "Entries older than this are dropped on the next run (0 = never)",
+        default: 0,
+        placeholder: "0",
+      },
     },
   },
 
@@ -385,6 +436,35 @@ export const functionDefinitions: FunctionDefinition[] = [
       },
     },
   },
+  {
+    id: "export_xlsx",
+    name: "Export to Excel",
+    description: "Download a table as an Excel workbook (.xlsx)",
+    category: "export",
+    icon: FileSpreadsheet,
+    color: "bg-orange-500/10 text-orange-500",
+    inputs: {
+      label: "Table",
+      description: "Table from a table node, a JSON array of objects, or CSV text",
+    },
+    outputs: ["output"],
+    configSchema: {
+      filename: {
+        type: "string",
+        label: "Filename",
+        description: "Name for the exported Excel file",
+        default: "export.xlsx",
+        placeholder: "filename.xlsx",
+      },
+      sheetName: {
+        type: "string",
+        label: "Sheet Name",
+        description: "Name of the worksheet",
+        default: "Sheet1",
+        placeholder: "Sheet1",
+      },
+    },
+  },
 
   // URL Operations
   {
@@ -431,6 +511,40 @@ export const functionDefinitions: FunctionDefinition[] = [
       },
     },
   },
+  {
+    id: "json_query",
+    name: "JSON Query",
+    description: "Query JSON with a JSONPath or JMESPath expression, including filters and projections",
+    category: "data",
+    icon: Braces,
+    color: "bg-indigo-500/10 text-indigo-500",
+    inputs: {
+      label: "JSON input",
+      description: "JSON to query (a surrounding code fence is ignored)",
+    },
+    outputs: ["output"],
+    configSchema: {
+      language: {
+        type: "string",
+        label: "Query Language",
+        description: "jsonpath (e.g. $.items[?(@.price < 10)].name) or jmespath (e.g. items[?price < `10`].name)",
+        default: "jsonpath",
+      },
+      expression: {
+        type: "string",
+        label: "Expression",
+        description: "JSONPath always returns an array of matches; JMESPath returns whatever the expression projects",
+        required: true,
+        placeholder: "$.items[*].name",
+      },
+      unwrapSingle: {
+        type: "boolean",
+        label: "Unwrap Single Match",
+        description: "Output a lone JSONPath match on its own instead of a one-element array",
+        default: true,
+      },
+    },
+  },
   {
     id: "format_json",
     name: "Format JSON",
@@ -444,6 +558,44 @@ export const functionDefinitions: FunctionDefinition[] = [
     },
     outputs: ["output"],
   },
+  {
+    id: "code",
+    name: "Code",
+    description: "Transform data with your own JavaScript or TypeScript, run in a sandbox",
+    category: "data",
+    icon: Code,
+    color: "bg-indigo-500/10 text-indigo-500",
+    inputs: {
+      label: "Input",
+      description: "Available as `input`; each input socket is also in `inputs` by port name",
+    },
+    outputs: ["output_1"], // Dynamic outputs based on outputCount
+    supportsMultipleInputs: true,
+    supportsMultipleOutputs: true,
+    configSchema: {
+      language: {
+        type: "string",
+        label: "Language",
+        description: "TypeScript is transpiled to JavaScript before running",
+        default: "javascript",
+      },
+      code: {
+        type: "string",
+        label: "Code",
+        description: "Function body. Return a value for output_1, an array to fill ports in order, or an object keyed by port name. No DOM or network access: fetch, WebSocket, import, eval and the like are unavailable.",
+        required: true,
+        default: "return input.trim();",
+        placeholder: "return input.toUpperCase();",
+      },
+      timeoutMs: {
+        type: "number",
+        label: "Timeout (ms)",
+        description: "Stop the code if it runs longer than this (max 60000)",
+        default: 5000,
+        placeholder: "5000",
+      },
+    },
+  },
   {
     id: "google_search",
     name: "Google Search",
@@ -601,6 +753,125 @@ export const functionDefinitions: FunctionDefinition[] = [
       },
     },
   },
+  // Table Operations
+  {
+    id: "table_input",
+    name: "Table Input",
+    description: "Load a CSV or Excel file as a table, or parse CSV/JSON from the input",
+    category: "table",
+    icon: Table,
+    color: "bg-emerald-500/10 text-emerald-500",
+    inputs: {
+      label: "CSV or JSON (optional)",
+      description: "Parsed as the table when no file is loaded",
+    },
+    outputs: ["output"],
+    configSchema: {
+      table: {
+        type: "json",
+        label: "Loaded Table",
+        description: "Set by uploading a file",
+      },
+      delimiter: {
+        type: "string",
+        label: "CSV Delimiter",
+        description: "Column separator for CSV text - auto detects comma, semicolon or tab",
+        default: "auto",
+        placeholder: "auto",
+      },
+    },
+  },
+  {
+    id: "table_filter",
+    name: "Filter Rows",
+    description: "Keep the rows whose column passes a test. Outputs 'matched' and 'rejected' tables.",
+    category: "table",
+    icon: Filter,
+    color: "bg-emerald-500/10 text-emerald-500",
+    inputs: {
+      label: "Table",
+      description: "Table, JSON array of objects, or CSV text",
+    },
+    outputs: ["matched", "rejected"],
+    configSchema: {
+      column: {
+        type: "string",
+        label: "Column",
+        description: "Column to test",
+        required: true,
+        placeholder: "Status",
+      },
+      operator: {
+        type: "string",
+        label: "Operator",
+        description: "How the column is compared with the value",
+        default: "equals",
+      },
+      value: {
+        type: "string",
+        label: "Value",
+        description: "Value to compare against (a pattern for regex; unused for empty checks)",
+        placeholder: "Active",
+      },
+      caseSensitive: {
+        type: "boolean",
+        label: "Case Sensitive",
+        description: "Whether text comparisons are case sensitive",
+        default: false,
+      },
+    },
+  },
+  {
+    id: "table_select_columns",
+    name: "Select Columns",
+    description: "Keep, reorder and rename table columns",
+    category: "table",
+    icon: Columns3,
+    color: "bg-emerald-500/10 text-emerald-500",
+    inputs: {
+      label: "Table",
+      description: "Table, JSON array of objects, or CSV text",
+    },
+    outputs: ["output"],
+    configSchema: {
+      columns: {
+        type: "string",
+        label: "Columns",
+        description: "Comma-separated, in output order. Use \"Name as Alias\" to rename.",
+        required: true,
+        placeholder: "Company, Website as URL",
+      },
+    },
+  },
+  {
+    id: "table_sort",
+    name: "Sort Rows",
+    description: "Sort table rows by a column (numbers numerically, text naturally)",
+    category: "table",
+    icon: ArrowUpDown,
+    color: "bg-emerald-500/10 text-emerald-500",
+    inputs: {
+      label: "Table",
+      description: "Table, JSON array of objects, or CSV text",
+    },
+    outputs: ["output"],
+    configSchema: {
+      column: {
+        type: "string",
+        label: "Column",
+        description: "Column to sort by",
+        required: true,
+        placeholder: "Revenue",
+      },
+      direction: {
+        type: "string",
+        label: "Direction",
+        description: "Ascending or descending - empty cells always go last",
+        default: "asc",
+      },
+    },
+  },
+
   // AI Media Generation
   {
     id: "image_generation",
@@ -776,6 +1047,64 @@ export const functionDefinitions: FunctionDefinition[] = [
       },
     },
   },
+
+  // Workflow Composition
+  {
+    id: "sub_workflow",
+    name: "Sub-workflow",
+    description: "Run a saved workflow as a single node. Its chosen nodes become output ports.",
+    category: "workflow",
+    icon: Workflow,
+    color: "bg-teal-500/10 text-teal-500",
+    inputs: {
+      label: "Workflow input",
+      description: "Becomes the child workflow's input (what its unconnected nodes and {prompt} receive)",
+    },
+    outputs: ["output"], // One port per chosen child node, set when the outputs are picked
+    configSchema: {
+      workflowId: {
+        type: "string",
+        label: "Workflow",
+        description: "Saved workflow to run",
+        required: true,
+      },
+      outputNodeIds: {
+        type: "json",
+        label: "Outputs",
+        description: "Child nodes whose outputs become the output ports - none means every terminal node on one output",
+        default: [],
+      },
+    },
+  },
+
+  // Human in the Loop
+  {
+    id: "approval",
+    name: "Approval",
+    description: "Pause the run until someone approves, edits or rejects the incoming content",
+    category: "workflow",
+    icon: UserCheck,
+    color: "bg-amber-500/10 text-amber-500",
+    inputs: {
+      label: "Content to review",
+      description: "Shown to the reviewer, who can edit it before approving",
+    },
+    outputs: ["approved", "rejected", "feedback"],
+    configSchema: {
+      instructions: {
+        type: "string",
+        label: "Instructions",
+        description: "What the reviewer should check",
+        placeholder: "Check the email before it is sent",
+      },
+      allowEdit: {
+        type: "boolean",
+        label: "Allow Editing",
+        description: "Let the reviewer change the content before passing it on",
+        default: true,
+      },
+    },
+  },
 ];
 
 // Helper to get function by ID
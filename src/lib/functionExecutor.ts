@@ -1,14 +1,35 @@
 import type { FunctionNode } from "@/types/workflow";
-import type { FunctionExecutionResult, MemoryEntry } from "@/types/functions";
+import type {
+  FunctionExecutionContext,
+  FunctionExecutionResult,
+  MemoryEntry,
+  MemoryOutputMode,
+} from "@/types/functions";
 import { MarkdownProcessor } from "@/utils/markdownProcessor";
-
-// Memory storage (in-memory for now, could be moved to localStorage or DB)
-const memoryStore = new Map<string, MemoryEntry[]>();
+import { parseJsonLoose, queryJson, validateJsonSchema, type JsonQueryLanguage } from "@/lib/jsonTools";
+import { runSandboxedCode, mapCodeResultToPorts, type CodeLanguage } from "@/lib/codeSandbox";
+import {
+  applyMemoryRetention,
+  formatMemoryOutput,
+  getMemoryEntries,
+  getMemoryScope,
+  saveMemoryEntries,
+} from "@/lib/memoryStore";
+import {
+  filterTable,
+  readTable,
+  selectTableColumns,
+  serializeTable,
+  sortTable,
+  tableToXlsx,
+} from "@/lib/tableData";
+import type { TableData, TableFilterOperator } from "@/types/table";
 
 export class FunctionExecutor {
   static async execute(
     functionNode: FunctionNode,
-    input: string
+    input: string,
+    context: FunctionExecutionContext = {}
   ): Promise<FunctionExecutionResult> {
     try {
       switch (functionNode.functionType) {
@@ -27,6 +48,9 @@ export class FunctionExecutor {
         case "is_json":
           return this.executeIsJSON(functionNode, input);
         
+        case "validate_json":
+          return this.executeValidateJSON(functionNode, input);
+        
         case "is_empty":
           return this.executeIsEmpty(functionNode, input);
         
@@ -37,7 +61,7 @@ export class FunctionExecutor {
           return this.executeIfElse(functionNode, input);
         
         case "memory":
-          return this.executeMemory(functionNode, input);
+          return this.executeMemory(functionNode, input, context);
         
         case "export_markdown":
           return this.executeExportMarkdown(functionNode, input);
@@ -54,6 +78,9 @@ export class FunctionExecutor {
         case "export_word":
           return await this.executeExportWord(functionNode, input);
         
+        case "export_xlsx":
+          return await this.executeExportXlsx(functionNode, input);
+        
         case "extract_urls":
           return this.executeExtractURLs(functionNode, input);
         
@@ -75,6 +102,21 @@ export class FunctionExecutor {
       case "format_json":
         return this.executeFormatJSON(functionNode, input);
       
+      case "json_query":
+        return this.executeJSONQuery(functionNode, input);
+      
+      case "table_input":
+        return this.executeTableInput(functionNode, input);
+      
+      case "table_filter":
+        return this.executeTableFilter(functionNode, input);
+      
+      case "table_select_columns":
+        return this.executeTableSelectColumns(functionNode, input);
+      
+      case "table_sort":
+        return this.executeTableSort(functionNode, input);
+      
       case "content":
         return this.executeContent(functionNode, input);
       
@@ -96,6 +138,25 @@ export class FunctionExecutor {
       case "pronghorn":
         return await this.executePronghorn(functionNode, input);
       
+      case "code":
+        return await this.executeCode(functionNode, input);
+      
+      case "sub_workflow":
+        // Needs a child WorkflowRunner, so the runner executes these itself
+        return {
+          success: false,
+          outputs: {},
+          error: "Sub-workflows can only run inside a workflow run",
+        };
+
+      case "approval":
+        // Waits on a reviewer in the editor, so the runner executes these itself
+        return {
+          success: false,
+          outputs: {},
+          error: "Approval nodes can only run inside a workflow run",
+        };
+      
       default:
         return {
           success: false,
@@ -185,6 +246,39 @@ export class FunctionExecutor {
     }
   }
 
+  private static executeValidateJSON(node: FunctionNode, input: string): FunctionExecutionResult {
+    const rawSchema = node.config.schema;
+    if (!rawSchema || (typeof rawSchema === "string" && !rawSchema.trim())) {
+      throw new Error("Validate JSON needs a JSON Schema");
+    }
+
+    let schema: object;
+    try {
+      schema = typeof rawSchema === "string" ? JSON.parse(rawSchema) : rawSchema;
+    } catch {
+      throw new Error("JSON Schema is not valid JSON");
+    }
+
+    let data: unknown;
+    try {
+      data = parseJsonLoose(input);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "parse failed";
+      return {
+        success: true,
+        outputs: { valid: "", invalid: input, errors: `Input is not valid JSON: ${reason}` },
+      };
+    }
+
+    const { valid, errors } = validateJsonSchema(data, schema);
+    return {
+      success: true,
+      outputs: valid
+        ? { valid: input, invalid: "", errors: "" }
+        : { valid: "", invalid: input, errors: errors.join("\n") },
+    };
+  }
+
   private static executeIsEmpty(node: FunctionNode, input: string): FunctionExecutionResult {
     const isEmpty = input.trim() === "";
     return {
@@ -225,46 +319,40 @@ export class FunctionExecutor {
     };
   }
 
-  // Memory
-  private static executeMemory(node: FunctionNode, input: string): FunctionExecutionResult {
+  // Memory - Append to the workflow's persisted store, prune it, and output the kept entries
+  private static executeMemory(
+    node: FunctionNode,
+    input: string,
+    context: FunctionExecutionContext
+  ): FunctionExecutionResult {
     const memoryKey = node.config.memoryKey || "default";
-    const runId = Date.now().toString();
+    const scope = getMemoryScope(context.workflowId);
+    const now = Date.now();
     
     const entry: MemoryEntry = {
-      timestamp: Date.now(),
+      timestamp: now,
       input,
       output: input,
-      runId,
+      runId: context.runId || now.toString(),
     };
     
-    if (!memoryStore.has(memoryKey)) {
-      memoryStore.set(memoryKey, []);
-    }
-    
-    memoryStore.get(memoryKey)!.push(entry);
+    const entries = applyMemoryRetention(
+      [...getMemoryEntries(scope, memoryKey), entry],
+      { maxEntries: Number(node.config.maxEntries) || 0, ttlHours: Number(node.config.ttlHours) || 0 },
+      now
+    );
     
-    // Get all memory entries and concatenate them
-    const allEntries = memoryStore.get(memoryKey)!;
-    const concatenatedOutput = allEntries
-      .map(e => e.output)
-      .join("\n\n---\n\n");
+    if (!saveMemoryEntries(scope, memoryKey, entries)) {
+      throw new Error(`Could not save memory "${memoryKey}" - browser storage is full. Lower the retention or clear old entries.`);
+    }
     
+    const outputMode = (node.config.outputMode as MemoryOutputMode) || "all";
     return {
       success: true,
-      outputs: { output: concatenatedOutput },
+      outputs: { output: formatMemoryOutput(entries, outputMode) },
     };
   }
 
-  // Get memory entries for viewing
-  static getMemoryEntries(memoryKey: string): MemoryEntry[] {
-    return memoryStore.get(memoryKey) || [];
-  }
-
-  // Clear memory
-  static clearMemory(memoryKey: string): void {
-    memoryStore.delete(memoryKey);
-  }
-
   // Export Functions
   private static executeExportMarkdown(node: FunctionNode, input: string): FunctionExecutionResult {
     const filename = node.config.filename || "export.md";
@@ -389,6 +477,26 @@ export class FunctionExecutor {
     }
   }
 
+  private static async executeExportXlsx(node: FunctionNode, input: string): Promise<FunctionExecutionResult> {
+    const table = readTable(input);
+    const filename = node.config.filename || "export.xlsx";
+    const blob = await tableToXlsx(table, node.config.sheetName || table.name || "Sheet1");
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    return {
+      success: true,
+      outputs: { output: `Exported ${table.rows.length} row(s) to ${filename}` },
+    };
+  }
+
   // URL Operations
   private static executeExtractURLs(node: FunctionNode, input: string): FunctionExecutionResult {
     const unique = node.config.unique !== false;
@@ -534,6 +642,89 @@ export class FunctionExecutor {
     }
   }
 
+  private static executeJSONQuery(node: FunctionNode, input: string): FunctionExecutionResult {
+    const expression = ((node.config.expression as string) || "").trim();
+    if (!expression) {
+      throw new Error("JSON Query needs an expression");
+    }
+    const language = (node.config.language as JsonQueryLanguage) || "jsonpath";
+
+    let data: unknown;
+    try {
+      data = parseJsonLoose(input);
+    } catch {
+      throw new Error("Input is not valid JSON");
+    }
+
+    let result = queryJson(data, expression, language);
+    if (language === "jsonpath" && node.config.unwrapSingle !== false && Array.isArray(result) && result.length === 1) {
+      result = result[0];
+    }
+
+    const output = result === null || result === undefined
+      ? ""
+      : typeof result === "string" ? result : JSON.stringify(result, null, 2);
+    return {
+      success: true,
+      outputs: { output },
+    };
+  }
+
+  // Table Operations
+  private static executeTableInput(node: FunctionNode, input: string): FunctionExecutionResult {
+    // An uploaded file wins; otherwise the input is parsed as CSV or JSON
+    const loaded = node.config.table as TableData | undefined;
+    const table = loaded ?? readTable(input, node.config.delimiter || "auto");
+    return {
+      success: true,
+      outputs: { output: serializeTable(table) },
+    };
+  }
+
+  private static executeTableFilter(node: FunctionNode, input: string): FunctionExecutionResult {
+    const column = ((node.config.column as string) || "").trim();
+    if (!column) {
+      throw new Error("Filter Rows needs a column");
+    }
+    const { matched, rejected } = filterTable(
+      readTable(input),
+      column,
+      (node.config.operator as TableFilterOperator) || "equals",
+      (node.config.value as string) ?? "",
+      node.config.caseSensitive === true
+    );
+    return {
+      success: true,
+      outputs: {
+        matched: matched.rows.length > 0 ? serializeTable(matched) : "",
+        rejected: rejected.rows.length > 0 ? serializeTable(rejected) : "",
+      },
+    };
+  }
+
+  private static executeTableSelectColumns(node: FunctionNode, input: string): FunctionExecutionResult {
+    const columns = ((node.config.columns as string) || "")
+      .split(",")
+      .map((c) => c.trim())
+      .filter(Boolean);
+    return {
+      success: true,
+      outputs: { output: serializeTable(selectTableColumns(readTable(input), columns)) },
+    };
+  }
+
+  private static executeTableSort(node: FunctionNode, input: string): FunctionExecutionResult {
+    const column = ((node.config.column as string) || "").trim();
+    if (!column) {
+      throw new Error("Sort Rows needs a column");
+    }
+    const direction = node.config.direction === "desc" ? "desc" : "asc";
+    return {
+      success: true,
+      outputs: { output: serializeTable(sortTable(readTable(input), column, direction)) },
+    };
+  }
+
   private static executeFormatJSON(node: FunctionNode, input: string): FunctionExecutionResult {
     try {
       const parsed = JSON.parse(input);
@@ -1170,6 +1361,31 @@ export class FunctionExecutor {
     }
   }
 
+  // Code - Run the user's snippet in a Web Worker sandbox and map its return value onto output ports
+  private static async executeCode(node: FunctionNode, input: string): Promise<FunctionExecutionResult> {
+    const code = (node.config.code as string) || "";
+    if (!code.trim()) {
+      throw new Error("Code node has no code to run");
+    }
+
+    // Named inputs per port; a single-port node only gets the combined input
+    const inputPorts = node.inputPorts || ["input_1"];
+    const inputs: Record<string, string> = {};
+    inputPorts.forEach((port, index) => {
+      const value = node.inputs?.[port];
+      inputs[port] = value !== undefined && value !== null ? String(value) : index === 0 ? input : "";
+    });
+
+    const timeoutMs = Number(node.config.timeoutMs) || undefined;
+    const language = (node.config.language as CodeLanguage) || "javascript";
+    const result = await runSandboxedCode(code, { input, inputs }, { language, timeoutMs });
+
+    return {
+      success: true,
+      outputs: mapCodeResultToPorts(result, node.outputPorts || ["output_1"]),
+    };
+  }
+
   // Pronghorn - Send artifacts to Pronghorn project
   private static async executePronghorn(node: FunctionNode, input: string): Promise<FunctionExecutionResult> {
     try {
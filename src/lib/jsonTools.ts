@@ -0,0 +1,79 @@
+// JSON Tools - Tolerant parsing, JSONPath/JMESPath queries and JSON Schema validation
+// Shared by the json_query and validate_json functions and by loop item splitting.
+
+import { JSONPath } from "jsonpath-plus";
+import jmespath from "jmespath";
+import Ajv, { type ValidateFunction } from "ajv";
+import Ajv2019 from "ajv/dist/2019";
+import Ajv2020 from "ajv/dist/2020";
+
+export type JsonQueryLanguage = "jsonpath" | "jmespath";
+
+export interface JsonValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+// Parse JSON, tolerating a surrounding markdown code fence (shared with the edge functions)
+export { parseJsonLoose } from "../../supabase/functions/_shared/nodeOutputs.ts";
+
+/**
+ * Run a JSONPath or JMESPath expression. JSONPath always yields the array of
+ * matches; JMESPath yields whatever the expression projects (null for no match).
+ */
+export function queryJson(data: unknown, expression: string, language: JsonQueryLanguage): unknown {
+  if (language === "jmespath") {
+    return jmespath.search(data, expression);
+  }
+  // Filters run through jsonpath-plus's safe evaluator rather than eval
+  return JSONPath({ path: expression, json: data as object, wrap: true, eval: "safe" });
+}
+
+// One Ajv instance per draft so compiled validators are cached by schema. The
+// 2019-09 and 2020-12 vocabularies can't share an instance, so the schema's
+// $schema picks one; schemas without it are treated as draft-07.
+const ajvOptions = { allErrors: true, strict: false };
+const ajvByDraft = {
+  draft7: new Ajv(ajvOptions),
+  draft2019: new Ajv2019(ajvOptions),
+  draft2020: new Ajv2020(ajvOptions),
+};
+const validatorCache = new Map<string, ValidateFunction>();
+
+function getAjv(schema: object): Ajv {
+  const dialect = (schema as { $schema?: unknown }).$schema;
+  if (typeof dialect === "string" && dialect.includes("2020-12")) return ajvByDraft.draft2020;
+  if (typeof dialect === "string" && dialect.includes("2019-09")) return ajvByDraft.draft2019;
+  return ajvByDraft.draft7;
+}
+
+/**
+ * Check data against a JSON Schema. Throws when the schema itself is invalid.
+ */
+export function validateJsonSchema(data: unknown, schema: object): JsonValidationResult {
+  const cacheKey = JSON.stringify(schema);
+  let validate = validatorCache.get(cacheKey);
+  if (!validate) {
+    try {
+      const ajv = getAjv(schema);
+      // Ajv registers a schema under its $id, so an edited schema that keeps
+      // the $id would otherwise clash with the earlier version
+      const id = (schema as { $id?: unknown }).$id;
+      if (typeof id === "string") ajv.removeSchema(id);
+      validate = ajv.compile(schema);
+    } catch (error) {
+      throw new Error(`Invalid JSON Schema: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    validatorCache.set(cacheKey, validate);
+  }
+
+  if (validate(data)) return { valid: true, errors: [] };
+  const errors = (validate.errors || []).map((err) => {
+    const location = err.instancePath || "(root)";
+    const extra = err.keyword === "additionalProperties"
+      ? ` "${(err.params as { additionalProperty?: string }).additionalProperty}"`
+      : "";
+    return `${location} ${err.message}${extra}`;
+  });
+  return { valid: false, errors };
+}
@@ -0,0 +1,201 @@
+// LLM Pricing - Per-model price table and token usage accounting
+// Default prices are list prices in USD per million tokens. Users can override
+// them (e.g. for negotiated rates); overrides are kept in localStorage.
+
+import type { ModelPrice, ModelPriceTable, TokenUsage, UsageTotals } from "@/types/usage";
+import type { ChildSession, FreeAgentSession, RawIterationData } from "@/types/freeAgent";
+import { BUILT_IN_MODELS } from "../../supabase/functions/_shared/models.ts";
+
+const STORAGE_KEY = "llm_price_overrides";
+
+// Fired on window whenever the price table changes so open views can re-price
+export const MODEL_PRICES_CHANGED_EVENT = "llm-prices-changed";
+
+// Models no longer offered, still priced so usage from older sessions keeps its cost
+const RETIRED_MODEL_PRICES: ModelPriceTable = {
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+};
+
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  ...RETIRED_MODEL_PRICES,
+  ...Object.fromEntries(BUILT_IN_MODELS.map((model) => [model.id, model.price])),
+};
+
+export const EMPTY_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = { ...EMPTY_USAGE, cost: 0, unpricedModels: [] };
+
+// ============================================================================
+// Price table
+// ============================================================================
+
+function loadOverrides(): ModelPriceTable {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.warn("Failed to load price overrides from localStorage:", e);
+  }
+  return {};
+}
+
+/**
+ * Current price table - defaults merged with the user's overrides
+ */
+export function getModelPrices(): ModelPriceTable {
+  return { ...DEFAULT_MODEL_PRICES, ...loadOverrides() };
+}
+
+/**
+ * Store the price table. Only entries that differ from the defaults are kept,
+ * so future default updates still reach models the user never touched.
+ */
+export function saveModelPrices(prices: ModelPriceTable): void {
+  const overrides = Object.fromEntries(
+    Object.entries(prices).filter(([model, price]) => {
+      const fallback = DEFAULT_MODEL_PRICES[model];
+      return !fallback || fallback.input !== price.input || fallback.output !== price.output;
+    })
+  );
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (e) {
+    console.warn("Failed to save price overrides to localStorage:", e);
+  }
+  window.dispatchEvent(new Event(MODEL_PRICES_CHANGED_EVENT));
+}
+
+/**
+ * Drop all overrides and go back to the default list prices
+ */
+export function resetModelPrices(): void {
+  localStorage.removeItem(STORAGE_KEY);
+  window.dispatchEvent(new Event(MODEL_PRICES_CHANGED_EVENT));
+}
+
+// ============================================================================
+// Usage accounting
+// ============================================================================
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage {
+  return {
+    inputTokens: (a?.inputTokens || 0) + (b?.inputTokens || 0),
+    outputTokens: (a?.outputTokens || 0) + (b?.outputTokens || 0),
+    thinkingTokens: (a?.thinkingTokens || 0) + (b?.thinkingTokens || 0),
+  };
+}
+
+export function getTotalTokens(usage: TokenUsage | undefined): number {
+  return (usage?.inputTokens || 0) + (usage?.outputTokens || 0) + (usage?.thinkingTokens || 0);
+}
+
+/**
+ * Estimated cost in USD of one call, or null when the model has no price.
+ * Thinking tokens are billed at the output rate by every supported provider.
+ */
+export function estimateCost(model: string, usage: TokenUsage, prices: ModelPriceTable = getModelPrices()): number | null {
+  const price: ModelPrice | undefined = prices[model];
+  if (!price) return null;
+  return (
+    (usage.inputTokens * price.input + (usage.outputTokens + usage.thinkingTokens) * price.output) / 1_000_000
+  );
+}
+
+/**
+ * Add one call's usage to a running total
+ */
+export function accumulateUsage(
+  totals: UsageTotals,
+  model: string,
+  usage: TokenUsage,
+  prices: ModelPriceTable = getModelPrices()
+): UsageTotals {
+  const cost = estimateCost(model, usage, prices);
+  return {
+    ...addUsage(totals, usage),
+    cost: totals.cost + (cost ?? 0),
+    unpricedModels:
+      cost === null && !totals.unpricedModels.includes(model)
+        ? [...totals.unpricedModels, model]
+        : totals.unpricedModels,
+  };
+}
+
+/**
+ * Totals for a list of Free Agent iterations, priced by the model each one used
+ */
+export function summarizeIterationUsage(rawData: RawIterationData[], prices: ModelPriceTable = getModelPrices()): UsageTotals {
+  return rawData.reduce(
+    (totals, entry) => (entry.usage ? accumulateUsage(totals, entry.input.model, entry.usage, prices) : totals),
+    EMPTY_USAGE_TOTALS
+  );
+}
+
+/**
+ * A child's running totals plus those of every agent below it in the spawn tree
+ */
+export function getChildTreeUsage(child: ChildSession): TokenUsage | undefined {
+  return (child.orchestration?.children || []).reduce<TokenUsage | undefined>(
+    (usage, sub) => {
+      const subUsage = getChildTreeUsage(sub);
+      return subUsage ? addUsage(usage, subUsage) : usage;
+    },
+    child.usage
+  );
+}
+
+/**
+ * Totals for a Free Agent session: the orchestrator's own iterations plus every child agent,
+ * each child counted with the agents it spawned. Children run on the session's model, so
+ * their running totals are priced with it.
+ */
+export function summarizeSessionUsage(
+  session: FreeAgentSession,
+  prices: ModelPriceTable = getModelPrices()
+): { total: UsageTotals; own: UsageTotals; children: Array<{ name: string; totals: UsageTotals }> } {
+  const own = summarizeIterationUsage(session.rawData || [], prices);
+  const children = (session.orchestration?.children || []).map((child) => {
+    const usage = getChildTreeUsage(child);
+    return {
+      name: child.name,
+      totals: usage ? accumulateUsage(EMPTY_USAGE_TOTALS, session.model, usage, prices) : EMPTY_USAGE_TOTALS,
+    };
+  });
+  const total = children.reduce(
+    (acc, { totals }) => ({
+      ...addUsage(acc, totals),
+      cost: acc.cost + totals.cost,
+      unpricedModels: [...new Set([...acc.unpricedModels, ...totals.unpricedModels])],
+    }),
+    own
+  );
+  return { total, own, children };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+  if (tokens >= 10_000) return `${Math.round(tokens / 1000)}k`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return "$0.00";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * One-line usage description, e.g. "12.3k in / 1.2k out / 800 thinking (~$0.05)"
+ */
+export function formatUsage(usage: TokenUsage, cost?: number | null): string {
+  const parts = [`${formatTokenCount(usage.inputTokens)} in`, `${formatTokenCount(usage.outputTokens)} out`];
+  if (usage.thinkingTokens > 0) parts.push(`${formatTokenCount(usage.thinkingTokens)} thinking`);
+  const costText = cost === undefined ? "" : cost === null ? " (no price)" : ` (~${formatCost(cost)})`;
+  return `${parts.join(" / ")}${costText}`;
+}
@@ -0,0 +1,135 @@
+// Memory Store - localStorage persistence for Memory function entries
+// Entries are grouped per workflow (its library id, or a shared scope for
+// workflows that have not been saved yet) and then by the node's memory key,
+// so running logs survive reloads without leaking between workflows.
+
+import type { MemoryEntry, MemoryOutputMode, MemoryRetention } from "@/types/functions";
+
+const STORAGE_PREFIX = "workflow_memory:";
+
+// Scope used until a workflow is saved to the library
+export const UNSAVED_MEMORY_SCOPE = "unsaved";
+
+// Fired on window whenever any memory key changes so open viewers can refresh
+export const MEMORY_CHANGED_EVENT = "workflow-memory-changed";
+
+const ENTRY_SEPARATOR = "\n\n---\n\n";
+
+type ScopeEntries = Record<string, MemoryEntry[]>;
+
+const storageKey = (scope: string) => `${STORAGE_PREFIX}${scope}`;
+
+function loadScope(scope: string): ScopeEntries {
+  try {
+    const stored = localStorage.getItem(storageKey(scope));
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.warn("Failed to load workflow memory from localStorage:", e);
+  }
+  return {};
+}
+
+function saveScope(scope: string, entries: ScopeEntries): boolean {
+  try {
+    if (Object.keys(entries).length === 0) {
+      localStorage.removeItem(storageKey(scope));
+    } else {
+      localStorage.setItem(storageKey(scope), JSON.stringify(entries));
+    }
+  } catch (e) {
+    console.warn("Failed to save workflow memory to localStorage:", e);
+    return false;
+  }
+  window.dispatchEvent(new Event(MEMORY_CHANGED_EVENT));
+  return true;
+}
+
+/**
+ * Memory scope for a workflow - its library id, or the shared unsaved scope
+ */
+export function getMemoryScope(workflowId: string | null | undefined): string {
+  return workflowId || UNSAVED_MEMORY_SCOPE;
+}
+
+/**
+ * Stored entries for one memory key, oldest first
+ */
+export function getMemoryEntries(scope: string, memoryKey: string): MemoryEntry[] {
+  return loadScope(scope)[memoryKey] || [];
+}
+
+/**
+ * Replace the entries for one memory key. Returns false when storage is full.
+ */
+export function saveMemoryEntries(scope: string, memoryKey: string, entries: MemoryEntry[]): boolean {
+  const all = loadScope(scope);
+  if (entries.length === 0) {
+    delete all[memoryKey];
+  } else {
+    all[memoryKey] = entries;
+  }
+  return saveScope(scope, all);
+}
+
+/**
+ * Remove every entry for one memory key
+ */
+export function clearMemoryEntries(scope: string, memoryKey: string): void {
+  saveMemoryEntries(scope, memoryKey, []);
+}
+
+/**
+ * Move everything stored under one scope to another, e.g. when an unsaved
+ * workflow gets its library id. Keys already present in the target are kept
+ * and the moved entries are appended after them.
+ */
+export function moveMemoryScope(fromScope: string, toScope: string): void {
+  if (fromScope === toScope) return;
+  const source = loadScope(fromScope);
+  if (Object.keys(source).length === 0) return;
+
+  const target = loadScope(toScope);
+  for (const [memoryKey, entries] of Object.entries(source)) {
+    target[memoryKey] = [...(target[memoryKey] || []), ...entries];
+  }
+  if (saveScope(toScope, target)) {
+    saveScope(fromScope, {});
+  }
+}
+
+/**
+ * Drop entries older than the TTL, then keep only the newest maxEntries
+ */
+export function applyMemoryRetention(entries: MemoryEntry[], retention: MemoryRetention, now = Date.now()): MemoryEntry[] {
+  let kept = entries;
+  if (retention.ttlHours && retention.ttlHours > 0) {
+    const cutoff = now - retention.ttlHours * 60 * 60 * 1000;
+    kept = kept.filter((entry) => entry.timestamp >= cutoff);
+  }
+  if (retention.maxEntries && retention.maxEntries > 0 && kept.length > retention.maxEntries) {
+    kept = kept.slice(-retention.maxEntries);
+  }
+  return kept;
+}
+
+/**
+ * Turn stored entries into a Memory node's output
+ */
+export function formatMemoryOutput(entries: MemoryEntry[], mode: MemoryOutputMode): string {
+  if (mode === "latest") return entries[entries.length - 1]?.output ?? "";
+  if (mode === "json_array") {
+    return JSON.stringify(
+      entries.map((entry) => ({
+        runId: entry.runId,
+        timestamp: new Date(entry.timestamp).toISOString(),
+        output: entry.output,
+      })),
+      null,
+      2
+    );
+  }
+  return entries.map((entry) => entry.output).join(ENTRY_SEPARATOR);
+}
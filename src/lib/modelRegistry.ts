@@ -0,0 +1,149 @@
+// Model Registry - Every selectable model with its provider and capabilities
+// Built-in models come from supabase/functions/_shared/models.ts, which the edge
+// functions read as well; user-added models (OpenAI-compatible endpoints such as
+// Ollama or vLLM) are kept in localStorage. Model pickers, edge function
+// routing and capability checks all read from this registry, so adding a model
+// is a single entry rather than edits across the UI.
+
+import type {
+  LLMProvider,
+  ModelCapabilities,
+  ModelDefinition,
+  ModelEndpointConfig,
+  ProviderDefinition,
+} from "@/types/models";
+import {
+  BUILT_IN_MODELS as SHARED_BUILT_IN_MODELS,
+  CLAUDE_CAPABILITIES,
+  DEFAULT_MODEL_ID,
+  GEMINI_CAPABILITIES,
+  GROK_CAPABILITIES,
+  PROVIDER_EDGE_FUNCTIONS,
+  guessProvider,
+} from "../../supabase/functions/_shared/models.ts";
+
+export { DEFAULT_MODEL_ID };
+
+const STORAGE_KEY = "llm_custom_models";
+
+// Fired on window whenever the custom model list changes so open pickers can refresh
+export const MODEL_REGISTRY_CHANGED_EVENT = "llm-models-changed";
+
+export const PROVIDERS: Record<LLMProvider, ProviderDefinition> = {
+  gemini: { id: "gemini", label: "Gemini", edgeFunction: PROVIDER_EDGE_FUNCTIONS.gemini, color: "text-blue-500" },
+  claude: { id: "claude", label: "Claude", edgeFunction: PROVIDER_EDGE_FUNCTIONS.claude, color: "text-orange-500" },
+  grok: { id: "grok", label: "Grok", edgeFunction: PROVIDER_EDGE_FUNCTIONS.grok, color: "text-purple-500" },
+  openai_compatible: {
+    id: "openai_compatible",
+    label: "OpenAI-compatible",
+    edgeFunction: PROVIDER_EDGE_FUNCTIONS.openai_compatible,
+    color: "text-emerald-500",
+  },
+};
+
+// Defaults for a newly added OpenAI-compatible model - conservative, editable by the user
+export const DEFAULT_CUSTOM_CAPABILITIES: ModelCapabilities = {
+  thinking: false,
+  jsonSchema: false,
+  vision: false,
+  contextWindow: 32_768,
+  maxOutputTokens: 8_192,
+};
+
+export const BUILT_IN_MODELS: ModelDefinition[] = SHARED_BUILT_IN_MODELS;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * User-added models from localStorage
+ */
+export function getCustomModels(): ModelDefinition[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed;
+    }
+  } catch (e) {
+    console.warn("Failed to load custom models from localStorage:", e);
+  }
+  return [];
+}
+
+/**
+ * Store the user-added models. Ids that clash with a built-in model are dropped.
+ */
+export function saveCustomModels(models: ModelDefinition[]): void {
+  const builtInIds = new Set(BUILT_IN_MODELS.map((m) => m.id));
+  const custom = models
+    .filter((m) => !builtInIds.has(m.id))
+    .map((m) => ({ ...m, custom: true }));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+  } catch (e) {
+    console.warn("Failed to save custom models to localStorage:", e);
+  }
+  window.dispatchEvent(new Event(MODEL_REGISTRY_CHANGED_EVENT));
+}
+
+/**
+ * All selectable models - built-in first, then the user's own
+ */
+export function getModels(): ModelDefinition[] {
+  return [...BUILT_IN_MODELS, ...getCustomModels()];
+}
+
+/**
+ * Look up a model by id. Unknown ids (e.g. from an older saved workflow) get a
+ * definition guessed from their prefix so they keep routing to the right provider.
+ */
+export function getModel(id: string): ModelDefinition {
+  const known = getModels().find((m) => m.id === id);
+  if (known) return known;
+
+  const provider = guessProvider(id) || "gemini";
+  const capabilities =
+    provider === "claude" ? CLAUDE_CAPABILITIES : provider === "grok" ? GROK_CAPABILITIES : GEMINI_CAPABILITIES;
+  return { id, label: id, provider, apiModel: id, capabilities };
+}
+
+/**
+ * Provider details (label, badge color, edge function) for a model id
+ */
+export function getModelProvider(id: string): ProviderDefinition {
+  return PROVIDERS[getModel(id).provider];
+}
+
+/**
+ * Pick the edge function that serves a given model
+ */
+export function getAgentEdgeFunction(id: string): string {
+  return getModelProvider(id).edgeFunction;
+}
+
+/**
+ * Endpoint details the edge functions need to reach a self-hosted model.
+ * Undefined for models served by a built-in provider.
+ */
+export function getModelEndpointConfig(id: string): ModelEndpointConfig | undefined {
+  const model = getModel(id);
+  if (model.provider !== "openai_compatible" || !model.endpoint) return undefined;
+  return {
+    baseUrl: model.endpoint.baseUrl,
+    apiModel: model.apiModel,
+    apiKey: model.endpoint.apiKey || undefined,
+    jsonSchema: model.capabilities.jsonSchema,
+  };
+}
+
+/**
+ * Turn a display name into a model id, e.g. "Llama 3.1 (local)" -> "llama-3-1-local"
+ */
+export function toModelId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
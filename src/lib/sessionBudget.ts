@@ -0,0 +1,105 @@
+// Session Budget - Token, cost and run-time limits for Free Agent sessions
+// The iteration loop checks the session budget before every iteration; spawned
+// children get a sub-budget so a wide spawn can't spend the whole allowance.
+
+import type { BudgetExceeded, SessionBudget } from "@/types/freeAgent";
+import type { UsageTotals } from "@/types/usage";
+import { formatCost, formatTokenCount, getTotalTokens } from "@/lib/llmPricing";
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * True when at least one limit is set. A limit of 0 is a real limit - a child's
+ * sub-budget comes out at 0 once the session budget is used up.
+ */
+export function hasBudget(budget: SessionBudget | undefined): budget is SessionBudget {
+  return !!budget && (budget.maxTokens !== undefined || budget.maxCost !== undefined || budget.maxMinutes !== undefined);
+}
+
+/**
+ * Return the first limit that has been reached, or null while the session is within budget
+ */
+export function checkBudget(
+  budget: SessionBudget | undefined,
+  usage: UsageTotals,
+  runtimeMs: number
+): BudgetExceeded | null {
+  if (!hasBudget(budget)) return null;
+  const at = new Date().toISOString();
+
+  const tokens = getTotalTokens(usage);
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return { kind: "tokens", limit: budget.maxTokens, used: tokens, at };
+  }
+  if (budget.maxCost !== undefined && usage.cost >= budget.maxCost) {
+    return { kind: "cost", limit: budget.maxCost, used: usage.cost, at };
+  }
+  const minutes = runtimeMs / MS_PER_MINUTE;
+  if (budget.maxMinutes !== undefined && minutes >= budget.maxMinutes) {
+    return { kind: "time", limit: budget.maxMinutes, used: minutes, at };
+  }
+  return null;
+}
+
+/**
+ * Derive a child's sub-budget. Each child may spend what childMaxIterations iterations
+ * would get at the session's per-iteration rate, capped at an even share of what is
+ * left so that all children together stay inside the session budget. Children run in
+ * parallel, so the time limit is capped by the remaining time rather than shared.
+ */
+export function deriveChildBudget(
+  budget: SessionBudget | undefined,
+  options: {
+    maxIterations: number;
+    childMaxIterations: number;
+    childCount: number;
+    usage: UsageTotals;
+    runtimeMs: number;
+  }
+): SessionBudget | undefined {
+  if (!hasBudget(budget)) return undefined;
+  const { maxIterations, childMaxIterations, childCount, usage, runtimeMs } = options;
+  const ratio = childMaxIterations / Math.max(1, maxIterations);
+  const children = Math.max(1, childCount);
+
+  const child: SessionBudget = {};
+  if (budget.maxTokens !== undefined) {
+    const remaining = Math.max(0, budget.maxTokens - getTotalTokens(usage));
+    child.maxTokens = Math.floor(Math.min(budget.maxTokens * ratio, remaining / children));
+  }
+  if (budget.maxCost !== undefined) {
+    const remaining = Math.max(0, budget.maxCost - usage.cost);
+    child.maxCost = Math.min(budget.maxCost * ratio, remaining / children);
+  }
+  if (budget.maxMinutes !== undefined) {
+    const remaining = Math.max(0, budget.maxMinutes - runtimeMs / MS_PER_MINUTE);
+    child.maxMinutes = Math.min(budget.maxMinutes * ratio, remaining);
+  }
+  return child;
+}
+
+/**
+ * Human-readable reason, e.g. "Cost budget reached: ~$2.04 of $2.00 used"
+ */
+export function describeBudgetExceeded(exceeded: BudgetExceeded): string {
+  switch (exceeded.kind) {
+    case "tokens":
+      return `Token budget reached: ${formatTokenCount(exceeded.used)} of ${formatTokenCount(exceeded.limit)} tokens used`;
+    case "cost":
+      return `Cost budget reached: ~${formatCost(exceeded.used)} of ${formatCost(exceeded.limit)} used`;
+    case "time":
+      return `Time budget reached: ${Math.round(exceeded.used)} of ${exceeded.limit} minutes used`;
+  }
+}
+
+/**
+ * Suggested budget for resuming - the exhausted limit raised to 1.5x what was used
+ */
+export function suggestExtendedBudget(budget: SessionBudget | undefined, exceeded: BudgetExceeded): SessionBudget {
+  const next: SessionBudget = { ...budget };
+  const raised = exceeded.used * 1.5;
+  if (exceeded.kind === "tokens") next.maxTokens = Math.ceil(raised);
+  if (exceeded.kind === "cost") next.maxCost = Math.ceil(raised * 100) / 100;
+  if (exceeded.kind === "time") next.maxMinutes = Math.ceil(raised);
+  return next;
+}
@@ -0,0 +1,312 @@
+// Session Memory Index - Chunked embedding search over a Free Agent session's
+// attributes, artifacts, blackboard, scratchpad and files. Chunks are embedded
+// through the embed-text edge function and cached in the browser by content
+// hash, so each search only embeds the query plus whatever changed since the
+// last one. Falls back to keyword scoring when embeddings are unavailable.
+
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  BlackboardEntry,
+  FreeAgentArtifact,
+  SessionFile,
+  ToolResultAttribute,
+} from "@/types/freeAgent";
+
+export type MemorySourceType = "attribute" | "artifact" | "blackboard" | "scratchpad" | "file";
+
+export const MEMORY_SOURCE_TYPES: MemorySourceType[] = ["attribute", "artifact", "blackboard", "scratchpad", "file"];
+
+export interface MemorySources {
+  toolResultAttributes?: Record<string, ToolResultAttribute>;
+  artifacts?: FreeAgentArtifact[];
+  blackboard?: BlackboardEntry[];
+  scratchpad?: string;
+  sessionFiles?: SessionFile[];
+}
+
+export interface MemoryChunk {
+  sourceType: MemorySourceType;
+  sourceId: string;
+  sourceName: string;
+  chunkIndex: number;
+  chunkCount: number;
+  text: string;
+  hash: string;
+}
+
+export interface MemorySearchHit {
+  score: number;
+  source: { type: MemorySourceType; id: string; name: string };
+  chunkIndex: number;
+  chunkCount: number;
+  text: string;
+}
+
+export interface MemorySearchResult {
+  mode: "semantic" | "keyword";
+  results: MemorySearchHit[];
+  indexedChunks: number;
+  // Set when semantic search failed and keyword scoring was used instead
+  fallbackReason?: string;
+}
+
+export const DEFAULT_CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+export const DEFAULT_TOP_K = 5;
+export const MAX_TOP_K = 20;
+// Upper bound on chunks embedded per search so a huge session can't stall the agent
+const MAX_INDEXED_CHUNKS = 400;
+const MAX_CACHED_EMBEDDINGS = 5000;
+
+const TEXT_MIME_PATTERN = /^text\/|json|xml|csv|yaml|javascript|markdown/i;
+
+// Embeddings by chunk hash, shared across sessions for the life of the page
+const embeddingCache = new Map<string, number[]>();
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+// FNV-1a over the text - only used as a cache key, not for security
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}:${text.length}`;
+}
+
+/**
+ * Split text into chunks of about `size` characters, overlapping by a fixed
+ * margin and preferring to break at paragraph, line or sentence ends
+ */
+export function chunkText(text: string, size = DEFAULT_CHUNK_SIZE): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.length <= size) return [trimmed];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < trimmed.length) {
+    let end = Math.min(start + size, trimmed.length);
+    if (end < trimmed.length) {
+      // Look for a natural break in the back half of the window
+      const window = trimmed.slice(start + Math.floor(size / 2), end);
+      const breakAt = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(". "));
+      if (breakAt > 0) end = start + Math.floor(size / 2) + breakAt + 1;
+    }
+    const chunk = trimmed.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= trimmed.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+  }
+  return chunks;
+}
+
+function isBinaryContent(content: string): boolean {
+  return content.startsWith("data:");
+}
+
+// Readable text for each source, skipping binary attributes, media artifacts and non-text files.
+// `time` is when the source was written (ms), for keeping the newest sources under a chunk cap.
+function collectDocuments(sources: MemorySources, types: Set<MemorySourceType>) {
+  const docs: { type: MemorySourceType; id: string; name: string; text: string; time: number }[] = [];
+
+  if (types.has("attribute")) {
+    for (const [name, attr] of Object.entries(sources.toolResultAttributes || {})) {
+      if (attr.isBinary) continue;
+      docs.push({
+        type: "attribute",
+        id: name,
+        name: `${name} (${attr.tool})`,
+        text: attr.resultString,
+        time: Date.parse(attr.createdAt) || 0,
+      });
+    }
+  }
+
+  if (types.has("artifact")) {
+    for (const artifact of sources.artifacts || []) {
+      if (artifact.type === "image" || artifact.type === "audio" || isBinaryContent(artifact.content || "")) continue;
+      const text = [artifact.description, artifact.content].filter(Boolean).join("\n\n");
+      docs.push({ type: "artifact", id: artifact.id, name: artifact.title, text, time: Date.parse(artifact.createdAt) || 0 });
+    }
+  }
+
+  if (types.has("blackboard")) {
+    for (const entry of sources.blackboard || []) {
+      const data = entry.data ? `\n${JSON.stringify(entry.data)}` : "";
+      docs.push({
+        type: "blackboard",
+        id: entry.id,
+        name: `${entry.category} (iteration ${entry.iteration})`,
+        text: `${entry.content}${data}`,
+        time: Date.parse(entry.timestamp) || 0,
+      });
+    }
+  }
+
+  if (types.has("scratchpad") && sources.scratchpad) {
+    // Rewritten as the agent goes, so it counts as the newest source
+    docs.push({ type: "scratchpad", id: "scratchpad", name: "Scratchpad", text: sources.scratchpad, time: Infinity });
+  }
+
+  if (types.has("file")) {
+    for (const file of sources.sessionFiles || []) {
+      if (!file.content || !TEXT_MIME_PATTERN.test(file.mimeType)) continue;
+      docs.push({ type: "file", id: file.id, name: file.filename, text: file.content, time: Date.parse(file.uploadedAt) || 0 });
+    }
+  }
+
+  return docs;
+}
+
+/**
+ * Chunk every readable source in the session, in source order. With `maxChunks`
+ * the sources are taken oldest first and only the last `maxChunks` chunks are
+ * kept, so the most recently written sources survive the cap.
+ */
+export function buildMemoryChunks(
+  sources: MemorySources,
+  options: { types?: MemorySourceType[]; chunkSize?: number; maxChunks?: number } = {}
+): MemoryChunk[] {
+  const types = new Set(options.types?.length ? options.types : MEMORY_SOURCE_TYPES);
+  const chunks: MemoryChunk[] = [];
+
+  const docs = collectDocuments(sources, types);
+  if (options.maxChunks !== undefined) docs.sort((a, b) => a.time - b.time);
+
+  for (const doc of docs) {
+    const pieces = chunkText(doc.text || "", options.chunkSize);
+    pieces.forEach((text, chunkIndex) => {
+      chunks.push({
+        sourceType: doc.type,
+        sourceId: doc.id,
+        sourceName: doc.name,
+        chunkIndex,
+        chunkCount: pieces.length,
+        text,
+        hash: hashText(text),
+      });
+    });
+  }
+  return options.maxChunks !== undefined ? chunks.slice(-options.maxChunks) : chunks;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+async function embedTexts(texts: string[], taskType: "RETRIEVAL_QUERY" | "RETRIEVAL_DOCUMENT"): Promise<number[][]> {
+  const { data, error } = await supabase.functions.invoke("embed-text", { body: { texts, taskType } });
+  if (error) throw new Error(error.message);
+  if (data?.error) throw new Error(data.error);
+  const embeddings = data?.embeddings as number[][] | undefined;
+  if (!embeddings || embeddings.length !== texts.length) {
+    throw new Error("Embedding service returned an unexpected response");
+  }
+  return embeddings;
+}
+
+// Embed chunks missing from the cache, evicting the oldest entries past the cap
+async function ensureChunkEmbeddings(chunks: MemoryChunk[]): Promise<void> {
+  const missing = [...new Map(
+    chunks.filter((c) => !embeddingCache.has(c.hash)).map((c) => [c.hash, c.text])
+  ).entries()];
+  if (missing.length === 0) return;
+
+  const embeddings = await embedTexts(missing.map(([, text]) => text), "RETRIEVAL_DOCUMENT");
+  missing.forEach(([hash], i) => embeddingCache.set(hash, embeddings[i]));
+
+  while (embeddingCache.size > MAX_CACHED_EMBEDDINGS) {
+    embeddingCache.delete(embeddingCache.keys().next().value);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+// Share of query terms found in the chunk, boosted by how often they appear
+function keywordScore(queryTerms: string[], text: string): number {
+  if (queryTerms.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) counts.set(token, (counts.get(token) || 0) + 1);
+
+  let matched = 0;
+  let frequency = 0;
+  for (const term of queryTerms) {
+    const count = counts.get(term) || 0;
+    if (count > 0) {
+      matched++;
+      frequency += Math.log(1 + count);
+    }
+  }
+  return matched === 0 ? 0 : matched / queryTerms.length + frequency / (10 * queryTerms.length);
+}
+
+function toHit(chunk: MemoryChunk, score: number): MemorySearchHit {
+  return {
+    score: Math.round(score * 1000) / 1000,
+    source: { type: chunk.sourceType, id: chunk.sourceId, name: chunk.sourceName },
+    chunkIndex: chunk.chunkIndex,
+    chunkCount: chunk.chunkCount,
+    text: chunk.text,
+  };
+}
+
+function topHits(scored: { chunk: MemoryChunk; score: number }[], topK: number): MemorySearchHit[] {
+  return scored
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map((s) => toHit(s.chunk, s.score));
+}
+
+/**
+ * Top-k chunks of session memory for a query, by embedding similarity or,
+ * when embedding fails, by keyword overlap
+ */
+export async function searchSessionMemory(
+  sources: MemorySources,
+  query: string,
+  options: { topK?: number; types?: MemorySourceType[] } = {}
+): Promise<MemorySearchResult> {
+  const topK = Math.min(Math.max(Math.floor(options.topK ?? DEFAULT_TOP_K), 1), MAX_TOP_K);
+  // Most recent sources are the likeliest to matter when the index has to be capped
+  const chunks = buildMemoryChunks(sources, { types: options.types, maxChunks: MAX_INDEXED_CHUNKS });
+  if (chunks.length === 0) {
+    return { mode: "semantic", results: [], indexedChunks: 0 };
+  }
+
+  try {
+    const [[queryEmbedding]] = await Promise.all([
+      embedTexts([query], "RETRIEVAL_QUERY"),
+      ensureChunkEmbeddings(chunks),
+    ]);
+    const scored = chunks.map((chunk) => ({
+      chunk,
+      score: cosineSimilarity(queryEmbedding, embeddingCache.get(chunk.hash) || []),
+    }));
+    return { mode: "semantic", results: topHits(scored, topK), indexedChunks: chunks.length };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Embedding failed";
+    console.warn(`[Memory Index] Semantic search unavailable, using keyword scoring: ${reason}`);
+    const queryTerms = [...new Set(tokenize(query))];
+    const scored = chunks.map((chunk) => ({ chunk, score: keywordScore(queryTerms, chunk.text) }));
+    return { mode: "keyword", results: topHits(scored, topK), indexedChunks: chunks.length, fallbackReason: reason };
+  }
+}
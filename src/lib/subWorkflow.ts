@@ -0,0 +1,72 @@
+// Sub-workflow - Helpers for function nodes that run another saved workflow
+// The node references a library workflow by id. Its input becomes the child's
+// workflow input and the child nodes it picks are exposed as output ports. The
+// node keeps a snapshot of the child graph for progress and canvas drill-in.
+
+import type { FunctionNode, Workflow, WorkflowNode, WorkflowSaveData } from "@/types/workflow";
+
+// Sub-workflows nested deeper than this are refused, which also stops runaway recursion
+export const MAX_SUB_WORKFLOW_DEPTH = 5;
+
+// Loads a saved workflow by library id - the workflow library's openWorkflow fits
+export type WorkflowLoader = (workflowId: string) => Promise<WorkflowSaveData | null>;
+
+// One level of canvas drill-in: the sub-workflow node and the child graph it shows
+export interface SubWorkflowTrailEntry {
+  nodeId: string;
+  name: string;
+  workflow: Workflow;
+}
+
+/**
+ * Child nodes with no outgoing connections - the default outputs of a sub-workflow
+ */
+export function getTerminalNodes(workflow: Workflow): WorkflowNode[] {
+  const sources = new Set(workflow.connections.map((c) => c.fromNodeId));
+  return workflow.stages.flatMap((stage) => stage.nodes).filter((node) => !sources.has(node.id));
+}
+
+/**
+ * Child node ids a sub-workflow node exposes, in port order
+ */
+export function getSubWorkflowOutputNodeIds(node: FunctionNode): string[] {
+  const ids = node.config?.outputNodeIds;
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+}
+
+/**
+ * Output ports for the chosen child nodes: output_1..n for several, otherwise the
+ * universal "output" port (carrying every terminal node when none are chosen)
+ */
+export function getSubWorkflowOutputPorts(outputNodeIds: string[]): string[] {
+  if (outputNodeIds.length <= 1) return ["output"];
+  return outputNodeIds.map((_, i) => `output_${i + 1}`);
+}
+
+/**
+ * How many child nodes have finished, from the node's snapshot of the child graph
+ */
+export function getSubWorkflowProgress(workflow: Workflow | undefined): { done: number; total: number } | null {
+  if (!workflow) return null;
+  const nodes = workflow.stages.flatMap((stage) => stage.nodes);
+  if (nodes.length === 0) return null;
+  const done = nodes.filter((node) => node.status === "complete" || node.status === "error").length;
+  return { done, total: nodes.length };
+}
+
+/**
+ * Follow a path of sub-workflow node ids down from the top-level workflow.
+ * Stops at the first id that no longer names a sub-workflow with a snapshot.
+ */
+export function resolveSubWorkflowTrail(workflow: Workflow, path: string[]): SubWorkflowTrailEntry[] {
+  const trail: SubWorkflowTrailEntry[] = [];
+  let current = workflow;
+  for (const nodeId of path) {
+    const node = current.stages.flatMap((stage) => stage.nodes).find((n) => n.id === nodeId);
+    const child = node?.nodeType === "function" ? (node as FunctionNode).subWorkflow : undefined;
+    if (!node || !child) break;
+    trail.push({ nodeId, name: node.name, workflow: child });
+    current = child;
+  }
+  return trail;
+}
@@ -0,0 +1,307 @@
+// Table Data - Parsing, transforming and exporting the table values table nodes pass around
+// Tables travel between nodes as JSON (see types/table). Table functions also accept a
+// plain JSON array of objects or CSV text, so agent output can be turned into a table.
+
+import * as ExcelJS from "exceljs";
+import type { TableCell, TableData, TableFilterOperator, TableRow } from "@/types/table";
+
+// ============================================================================
+// Building and reading tables
+// ============================================================================
+
+/**
+ * Turn a spreadsheet cell (string, number, date, formula, rich text, hyperlink) into a plain value
+ */
+export function normalizeCell(value: unknown): TableCell {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    const cell = value as Record<string, unknown>;
+    if ("result" in cell) return normalizeCell(cell.result);
+    if (Array.isArray(cell.richText)) {
+      return (cell.richText as { text?: string }[]).map((part) => part.text || "").join("");
+    }
+    if (typeof cell.text === "string") return cell.text;
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export function createTable(columns: string[], rows: Record<string, unknown>[], name?: string): TableData {
+  return {
+    kind: "table",
+    columns,
+    rows: rows.map((row) => Object.fromEntries(columns.map((column) => [column, normalizeCell(row[column])]))),
+    ...(name ? { name } : {}),
+  };
+}
+
+export function serializeTable(table: TableData): string {
+  return JSON.stringify(table, null, 2);
+}
+
+/**
+ * Parse a table from JSON: a serialized table or an array of objects
+ * (columns in first-seen key order). Returns null for anything else.
+ */
+export function parseTableJson(value: string): TableData | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value.trim());
+  } catch {
+    return null;
+  }
+
+  if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+    const table = parsed as Partial<TableData>;
+    if (table.kind !== "table" || !Array.isArray(table.columns) || !Array.isArray(table.rows)) return null;
+    return createTable(table.columns.map(String), table.rows as Record<string, unknown>[], table.name);
+  }
+
+  if (Array.isArray(parsed) && parsed.length > 0 && parsed.every((row) => row && typeof row === "object" && !Array.isArray(row))) {
+    const columns: string[] = [];
+    parsed.forEach((row) => {
+      Object.keys(row).forEach((key) => {
+        if (!columns.includes(key)) columns.push(key);
+      });
+    });
+    return createTable(columns, parsed as Record<string, unknown>[]);
+  }
+
+  return null;
+}
+
+// Most common of comma, semicolon and tab in the header line
+function detectDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Parse CSV (RFC 4180 quoting) with a header row. Delimiter "auto" picks
+ * between comma, semicolon and tab.
+ */
+export function parseCsv(text: string, delimiter = "auto", name?: string): TableData {
+  const separator = delimiter === "auto" ? detectDelimiter(text) : delimiter === "\\t" ? "\t" : delimiter;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === separator) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim() !== ""));
+  if (nonEmpty.length === 0) throw new Error("CSV has no rows");
+
+  const columns = uniqueColumns(nonEmpty[0]);
+  const rows = nonEmpty.slice(1).map((values) =>
+    Object.fromEntries(columns.map((column, i) => [column, values[i] ?? null]))
+  );
+  return createTable(columns, rows, name);
+}
+
+// Header names made unique and non-empty: blank -> "Column N", repeats -> "Name (2)"
+function uniqueColumns(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((header, i) => {
+    const base = header.trim() || `Column ${i + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+/**
+ * Read a node input as a table: table JSON, an array of objects, or CSV text
+ */
+export function readTable(value: string, delimiter = "auto"): TableData {
+  if (!value.trim()) throw new Error("No table input");
+  return parseTableJson(value) ?? parseCsv(value, delimiter);
+}
+
+// ============================================================================
+// Transformations
+// ============================================================================
+
+function requireColumn(table: TableData, column: string) {
+  if (!table.columns.includes(column)) {
+    throw new Error(`Column "${column}" not found. Available: ${table.columns.join(", ")}`);
+  }
+}
+
+function toNumber(cell: TableCell): number | null {
+  if (typeof cell === "number") return cell;
+  if (typeof cell !== "string" || cell.trim() === "") return null;
+  const parsed = Number(cell.trim());
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function cellText(cell: TableCell): string {
+  return cell === null ? "" : String(cell);
+}
+
+// Numeric when both cells are numbers, otherwise natural string order
+function compareCells(a: TableCell, b: TableCell): number {
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (numA !== null && numB !== null) return numA - numB;
+  return cellText(a).localeCompare(cellText(b), undefined, { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * Split rows by whether the column passes the test
+ */
+export function filterTable(
+  table: TableData,
+  column: string,
+  operator: TableFilterOperator,
+  value: string,
+  caseSensitive = false
+): { matched: TableData; rejected: TableData } {
+  requireColumn(table, column);
+  const normalize = (text: string) => (caseSensitive ? text : text.toLowerCase());
+  const pattern = operator === "regex" ? new RegExp(value, caseSensitive ? "" : "i") : null;
+
+  const test = (cell: TableCell): boolean => {
+    const text = cellText(cell);
+    switch (operator) {
+      case "equals":
+        return normalize(text) === normalize(value);
+      case "not_equals":
+        return normalize(text) !== normalize(value);
+      case "contains":
+        return normalize(text).includes(normalize(value));
+      case "not_contains":
+        return !normalize(text).includes(normalize(value));
+      case "greater_than":
+        return text.trim() !== "" && compareCells(cell, value) > 0;
+      case "less_than":
+        return text.trim() !== "" && compareCells(cell, value) < 0;
+      case "is_empty":
+        return text.trim() === "";
+      case "not_empty":
+        return text.trim() !== "";
+      case "regex":
+        return pattern!.test(text);
+      default:
+        throw new Error(`Unknown filter operator: ${operator}`);
+    }
+  };
+
+  const matched: TableRow[] = [];
+  const rejected: TableRow[] = [];
+  table.rows.forEach((row) => (test(row[column]) ? matched : rejected).push(row));
+  return {
+    matched: { ...table, rows: matched },
+    rejected: { ...table, rows: rejected },
+  };
+}
+
+/**
+ * Keep only the named columns, in the given order. "name as alias" renames.
+ */
+export function selectTableColumns(table: TableData, columns: string[]): TableData {
+  const picks = columns.map((spec) => {
+    const match = spec.match(/^(.*?)\s+as\s+(.+)$/i);
+    const source = (match ? match[1] : spec).trim();
+    requireColumn(table, source);
+    return { source, target: (match ? match[2] : source).trim() };
+  });
+  if (picks.length === 0) throw new Error("No columns selected");
+
+  return {
+    ...table,
+    columns: picks.map((p) => p.target),
+    rows: table.rows.map((row) => Object.fromEntries(picks.map((p) => [p.target, row[p.source] ?? null]))),
+  };
+}
+
+/**
+ * Stable sort by one column; empty cells always go last
+ */
+export function sortTable(table: TableData, column: string, direction: "asc" | "desc" = "asc"): TableData {
+  requireColumn(table, column);
+  const sign = direction === "desc" ? -1 : 1;
+  const rows = [...table.rows].sort((a, b) => {
+    const emptyA = cellText(a[column]).trim() === "";
+    const emptyB = cellText(b[column]).trim() === "";
+    if (emptyA || emptyB) return Number(emptyA) - Number(emptyB);
+    return sign * compareCells(a[column], b[column]);
+  });
+  return { ...table, rows };
+}
+
+/**
+ * Replace {column} placeholders with the row's values; unknown names are left as-is
+ */
+export function fillRowPlaceholders(template: string, row: TableRow): string {
+  return template.replace(/{([^{}\n]+)}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(row, name) ? cellText(row[name]) : match
+  );
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export function tableToCsv(table: TableData): string {
+  const escape = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  const lines = [
+    table.columns.map(escape).join(","),
+    ...table.rows.map((row) => table.columns.map((column) => escape(cellText(row[column]))).join(",")),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Build an .xlsx workbook with a bold, frozen header row
+ */
+export async function tableToXlsx(table: TableData, sheetName = "Sheet1"): Promise<Blob> {
+  const workbook = new ExcelJS.Workbook();
+  // Excel caps sheet names at 31 characters and forbids a few symbols
+  const worksheet = workbook.addWorksheet(sheetName.replace(/[\\/?*[\]:]/g, " ").slice(0, 31) || "Sheet1");
+  worksheet.columns = table.columns.map((column) => ({
+    header: column,
+    key: column,
+    width: Math.min(60, Math.max(10, column.length + 2)),
+  }));
+  table.rows.forEach((row) => worksheet.addRow(row));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
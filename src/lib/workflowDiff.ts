@@ -0,0 +1,319 @@
+// Workflow Diff - Structural comparison between two revisions of a workflow
+// Reports stages added/removed/renamed, nodes whose definition changed and
+// rewired connections. Runtime state (status, outputs, layout) is ignored.
+
+import type { Workflow, WorkflowNode, Connection, AgentNode, FunctionNode, ToolNode, Stage } from "@/types/workflow";
+
+export type NodeChangeKind = "added" | "removed" | "changed";
+
+export interface NodeFieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface NodeDiff {
+  nodeId: string;
+  name: string;
+  nodeType: WorkflowNode["nodeType"];
+  stageName: string;
+  kind: NodeChangeKind;
+  fields: NodeFieldChange[];
+}
+
+export interface StageDiff {
+  stageId: string;
+  name: string;
+  kind: "added" | "removed" | "renamed" | "changed";
+  previousName?: string;
+  // Settings that changed on a stage present in both revisions
+  fields?: NodeFieldChange[];
+}
+
+export interface ConnectionDiff {
+  connection: Connection;
+  kind: "added" | "removed";
+  label: string;
+}
+
+export interface WorkflowDiff {
+  stages: StageDiff[];
+  nodes: NodeDiff[];
+  connections: ConnectionDiff[];
+  hasChanges: boolean;
+}
+
+// Canvas overlay derived from a diff - keyed by ids in the "after" workflow
+export interface WorkflowDiffHighlights {
+  label: string;
+  nodes: Record<string, Exclude<NodeChangeKind, "removed">>;
+  connectionIds: string[];
+  removedCount: number;
+}
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+// ============================================================================
+// Node definitions
+// ============================================================================
+
+/**
+ * Stable JSON with sorted object keys so reordered config keys don't show as changes
+ */
+export function stableStringify(value: unknown): string {
+  const normalize = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(normalize);
+    if (v && typeof v === "object") {
+      return Object.keys(v as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((acc, key) => {
+          const inner = (v as Record<string, unknown>)[key];
+          if (inner !== undefined) acc[key] = normalize(inner);
+          return acc;
+        }, {});
+    }
+    return v;
+  };
+  return JSON.stringify(normalize(value), null, 2) ?? "";
+}
+
+// The user-editable fields of a node, flattened to comparable strings
+function getNodeFields(node: WorkflowNode): Record<string, { label: string; value: string }> {
+  const fields: Record<string, { label: string; value: string }> = {
+    name: { label: "Name", value: node.name },
+    locked: { label: "Locked", value: String(!!node.locked) },
+    executeOnNullInput: { label: "Execute on null input", value: String(!!node.executeOnNullInput) },
+    policy: { label: "Execution policy", value: stableStringify(node.policy || {}) },
+  };
+
+  if (node.nodeType === "agent") {
+    const agent = node as AgentNode;
+    fields.systemPrompt = { label: "System prompt", value: agent.systemPrompt || "" };
+    fields.userPrompt = { label: "User prompt", value: agent.userPrompt || "" };
+    fields.tools = {
+      label: "Tools",
+      value: stableStringify((agent.tools || []).map(t => ({ toolId: t.toolId, config: t.config }))),
+    };
+    fields.model = {
+      label: "Model",
+      value: agent.useSpecificModel
+        ? stableStringify({
+            model: agent.model,
+            responseLength: agent.responseLength,
+            thinkingEnabled: agent.thinkingEnabled,
+            thinkingBudget: agent.thinkingBudget,
+          })
+        : "Workflow default",
+    };
+    fields.beastMode = { label: "Beast mode", value: stableStringify(agent.beastMode || { enabled: false }) };
+    fields.responseSchema = { label: "Response schema", value: agent.responseSchema || "" };
+    fields.schemaOutputPorts = { label: "Schema output ports", value: String(!!agent.schemaOutputPorts) };
+    fields.mapRows = {
+      label: "Row mapping",
+      value: stableStringify(agent.mapRows?.enabled ? agent.mapRows : { enabled: false }),
+    };
+  } else if (node.nodeType === "function") {
+    const fn = node as FunctionNode;
+    fields.functionType = { label: "Function", value: fn.functionType };
+    fields.config = { label: "Config", value: stableStringify(fn.config || {}) };
+    fields.ports = {
+      label: "Ports",
+      value: stableStringify({ inputs: fn.inputPorts, outputs: fn.outputPorts }),
+    };
+    fields.beastMode = { label: "Beast mode", value: stableStringify(fn.beastMode || { enabled: false }) };
+  } else {
+    const tool = node as ToolNode;
+    fields.toolType = { label: "Tool", value: tool.toolType };
+    fields.config = { label: "Config", value: stableStringify(tool.config || {}) };
+  }
+
+  return fields;
+}
+
+// The user-editable settings of a stage other than its name
+function getStageFields(stage: Stage): Record<string, { label: string; value: string }> {
+  return {
+    loop: { label: "Loop", value: stableStringify(stage.loop?.enabled ? stage.loop : { enabled: false }) },
+  };
+}
+
+function diffFields(
+  beforeFields: Record<string, { label: string; value: string }>,
+  afterFields: Record<string, { label: string; value: string }>
+): NodeFieldChange[] {
+  const fields: NodeFieldChange[] = [];
+  Object.keys(afterFields).forEach(field => {
+    const beforeValue = beforeFields[field]?.value ?? "";
+    if (beforeValue !== afterFields[field].value) {
+      fields.push({ field, label: afterFields[field].label, before: beforeValue, after: afterFields[field].value });
+    }
+  });
+  return fields;
+}
+
+function indexNodes(workflow: Workflow) {
+  const nodes = new Map<string, { node: WorkflowNode; stageId: string; stageName: string }>();
+  workflow.stages.forEach(stage => {
+    stage.nodes.forEach(node => nodes.set(node.id, { node, stageId: stage.id, stageName: stage.name }));
+  });
+  return nodes;
+}
+
+// Connections are compared by endpoints, not id, so a rewire is removed + added
+function connectionKey(conn: Connection): string {
+  return `${conn.fromNodeId}:${conn.fromOutputPort || "output"}->${conn.toNodeId}:${conn.toInputPort || "input"}`;
+}
+
+/**
+ * Compare two workflows. `before` is the older revision, `after` the newer.
+ */
+export function diffWorkflows(before: Workflow, after: Workflow): WorkflowDiff {
+  const beforeStages = new Map(before.stages.map(s => [s.id, s]));
+  const afterStages = new Map(after.stages.map(s => [s.id, s]));
+
+  const stages: StageDiff[] = [];
+  after.stages.forEach(stage => {
+    const previous = beforeStages.get(stage.id);
+    if (!previous) {
+      stages.push({ stageId: stage.id, name: stage.name, kind: "added" });
+      return;
+    }
+    const fields = diffFields(getStageFields(previous), getStageFields(stage));
+    if (previous.name !== stage.name) {
+      stages.push({ stageId: stage.id, name: stage.name, kind: "renamed", previousName: previous.name, fields });
+    } else if (fields.length > 0) {
+      stages.push({ stageId: stage.id, name: stage.name, kind: "changed", fields });
+    }
+  });
+  before.stages.forEach(stage => {
+    if (!afterStages.has(stage.id)) {
+      stages.push({ stageId: stage.id, name: stage.name, kind: "removed" });
+    }
+  });
+
+  const beforeNodes = indexNodes(before);
+  const afterNodes = indexNodes(after);
+
+  const nodes: NodeDiff[] = [];
+  afterNodes.forEach(({ node, stageId, stageName }, nodeId) => {
+    const previous = beforeNodes.get(nodeId);
+    if (!previous) {
+      nodes.push({ nodeId, name: node.name, nodeType: node.nodeType, stageName, kind: "added", fields: [] });
+      return;
+    }
+
+    const fields = diffFields(getNodeFields(previous.node), getNodeFields(node));
+    if (previous.stageId !== stageId) {
+      fields.push({ field: "stage", label: "Stage", before: previous.stageName, after: stageName });
+    }
+
+    if (fields.length > 0) {
+      nodes.push({ nodeId, name: node.name, nodeType: node.nodeType, stageName, kind: "changed", fields });
+    }
+  });
+  beforeNodes.forEach(({ node, stageName }, nodeId) => {
+    if (!afterNodes.has(nodeId)) {
+      nodes.push({ nodeId, name: node.name, nodeType: node.nodeType, stageName, kind: "removed", fields: [] });
+    }
+  });
+
+  const nodeName = (id: string) => afterNodes.get(id)?.node.name || beforeNodes.get(id)?.node.name || id;
+  const describe = (conn: Connection) => {
+    const fromPort = conn.fromOutputPort && conn.fromOutputPort !== "output" ? ` [${conn.fromOutputPort}]` : "";
+    const toPort = conn.toInputPort ? ` [${conn.toInputPort}]` : "";
+    return `${nodeName(conn.fromNodeId)}${fromPort} → ${nodeName(conn.toNodeId)}${toPort}`;
+  };
+
+  const beforeKeys = new Set(before.connections.map(connectionKey));
+  const afterKeys = new Set(after.connections.map(connectionKey));
+  const connections: ConnectionDiff[] = [
+    ...after.connections
+      .filter(conn => !beforeKeys.has(connectionKey(conn)))
+      .map(conn => ({ connection: conn, kind: "added" as const, label: describe(conn) })),
+    ...before.connections
+      .filter(conn => !afterKeys.has(connectionKey(conn)))
+      .map(conn => ({ connection: conn, kind: "removed" as const, label: describe(conn) })),
+  ];
+
+  return {
+    stages,
+    nodes,
+    connections,
+    hasChanges: stages.length > 0 || nodes.length > 0 || connections.length > 0,
+  };
+}
+
+/**
+ * Fingerprint of everything diffWorkflows compares - equal fingerprints mean no visible changes
+ */
+export function getWorkflowFingerprint(workflow: Workflow): string {
+  return stableStringify({
+    stages: workflow.stages.map(stage => ({
+      id: stage.id,
+      name: stage.name,
+      ...getStageFields(stage),
+      nodes: stage.nodes.map(node => ({ id: node.id, ...getNodeFields(node) })),
+    })),
+    connections: workflow.connections.map(connectionKey).sort(),
+  });
+}
+
+/**
+ * Build the canvas overlay for a diff whose "after" side is on screen
+ */
+export function getDiffHighlights(diff: WorkflowDiff, label: string): WorkflowDiffHighlights {
+  const nodes: WorkflowDiffHighlights["nodes"] = {};
+  diff.nodes.forEach(n => {
+    if (n.kind !== "removed") nodes[n.nodeId] = n.kind;
+  });
+  return {
+    label,
+    nodes,
+    connectionIds: diff.connections.filter(c => c.kind === "added").map(c => c.connection.id),
+    removedCount:
+      diff.nodes.filter(n => n.kind === "removed").length +
+      diff.connections.filter(c => c.kind === "removed").length,
+  };
+}
+
+// ============================================================================
+// Text diff
+// ============================================================================
+
+/**
+ * Line-level diff (LCS) used to render prompt changes side by side
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return lines;
+}
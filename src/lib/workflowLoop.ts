@@ -0,0 +1,99 @@
+// Workflow Loop - Item splitting, stop conditions and result collection for looping stages
+// The runner owns the iteration itself; these helpers are pure so the loop
+// settings UI can preview how an input will be split.
+
+import type { LoopCondition, LoopConfig } from "@/types/workflow";
+import { parseJsonLoose } from "@/lib/jsonTools";
+
+export const DEFAULT_LOOP_CONFIG: LoopConfig = {
+  enabled: true,
+  mode: "for_each",
+  itemSource: "lines",
+  delimiter: "---",
+  untilCondition: { operator: "contains", value: "DONE" },
+  maxIterations: 10,
+  collectMode: "concatenate",
+};
+
+// Upper bound on maxIterations, whatever the stage says
+export const MAX_LOOP_ITERATIONS = 200;
+
+/**
+ * Split a loop's input into items. Throws when json_array input is not an array.
+ * The "ports" source is resolved by the runner, not here.
+ */
+export function splitLoopItems(input: string, config: LoopConfig): string[] {
+  if (config.itemSource === "json_array") {
+    const parsed = parseJsonLoose(input);
+    if (!Array.isArray(parsed)) {
+      throw new Error("Loop input is not a JSON array");
+    }
+    return parsed.map((item) => (typeof item === "string" ? item : JSON.stringify(item)));
+  }
+
+  const parts = config.itemSource === "delimiter"
+    ? input.split(config.delimiter || DEFAULT_LOOP_CONFIG.delimiter!)
+    : input.split(/\r?\n/);
+  return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+}
+
+/**
+ * True when a while-loop should stop after producing this output
+ */
+export function isLoopConditionMet(output: string, condition: LoopCondition | undefined): boolean {
+  if (!condition) return false;
+  switch (condition.operator) {
+    case "contains":
+      return output.includes(condition.value);
+    case "not_contains":
+      return !output.includes(condition.value);
+    case "equals":
+      return output.trim() === condition.value.trim();
+    case "regex":
+      try {
+        return new RegExp(condition.value).test(output);
+      } catch {
+        return false;
+      }
+  }
+}
+
+/**
+ * Combine the per-pass outputs of one port. "split" is handled by the runner,
+ * which gives each pass its own output port.
+ */
+export function collectLoopResults(values: string[], collectMode: LoopConfig["collectMode"], separator: string): string {
+  if (collectMode === "last") return values[values.length - 1] ?? "";
+  if (collectMode === "json_array") {
+    return JSON.stringify(
+      values.map((value) => {
+        try {
+          return parseJsonLoose(value);
+        } catch {
+          return value;
+        }
+      }),
+      null,
+      2
+    );
+  }
+  return values.join(separator);
+}
+
+/**
+ * Short description for stage headers, e.g. "For each line (max 10)"
+ */
+export function describeLoop(config: LoopConfig): string {
+  if (config.mode === "while") {
+    const condition = config.untilCondition;
+    const until = condition ? ` until ${condition.operator.replace("_", " ")} "${condition.value}"` : "";
+    return `Repeat${until} (max ${config.maxIterations})`;
+  }
+  const source = {
+    lines: "line",
+    json_array: "JSON item",
+    delimiter: `"${config.delimiter || DEFAULT_LOOP_CONFIG.delimiter}" part`,
+    ports: "output port",
+  }[config.itemSource];
+  return `For each ${source} (max ${config.maxIterations})`;
+}
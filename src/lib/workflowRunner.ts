@@ -0,0 +1,1489 @@
+// Workflow Runner - Headless execution engine for workflow mode
+// Owns input gathering, null-input skipping, Beast Mode and dependency scheduling so
+// the canvas, stacked and simple views all share one implementation. The runner keeps
+// a private copy of the workflow, applies node updates to it and emits typed events
+// that the UI (or a test/edge harness) mirrors into its own state.
+
+import type {
+  Workflow,
+  WorkflowNode,
+  AgentNode,
+  FunctionNode,
+  Connection,
+  LogEntry,
+  LoopConfig,
+  Stage,
+  ToolInstance,
+  WorkflowModelSettings,
+} from "@/types/workflow";
+import type {
+  ApprovalDecision,
+  ApprovalRequest,
+  FunctionExecutionContext,
+  FunctionExecutionResult,
+} from "@/types/functions";
+import type { ModelPriceTable, TokenUsage, UsageTotals } from "@/types/usage";
+import type { ModelEndpointConfig } from "@/types/models";
+import type { TableData, TableRow } from "@/types/table";
+import { FunctionExecutor } from "@/lib/functionExecutor";
+import {
+  accumulateUsage,
+  estimateCost,
+  formatUsage,
+  formatCost,
+  getModelPrices,
+  getTotalTokens,
+  EMPTY_USAGE_TOTALS,
+} from "@/lib/llmPricing";
+import { getAgentEdgeFunction, getModelEndpointConfig } from "@/lib/modelRegistry";
+import { collectLoopResults, isLoopConditionMet, splitLoopItems, MAX_LOOP_ITERATIONS } from "@/lib/workflowLoop";
+import { getSchemaFieldNames, parseAgentResponseSchema, splitStructuredOutput } from "@/lib/agentSchema";
+import {
+  getSubWorkflowOutputNodeIds,
+  getSubWorkflowOutputPorts,
+  getTerminalNodes,
+  MAX_SUB_WORKFLOW_DEPTH,
+  type WorkflowLoader,
+} from "@/lib/subWorkflow";
+import { fillRowPlaceholders, readTable, serializeTable } from "@/lib/tableData";
+import { ERROR_PORT, runWithPolicy, supportsRetries } from "@/lib/executionPolicy";
+import { isNullLikeValue } from "../../supabase/functions/_shared/nodeOutputs.ts";
+
+export { isNullLikeValue };
+
+// Separator used whenever several upstream outputs are merged into one input
+export const INPUT_SEPARATOR = "\n\n---\n\n";
+
+// Events emitted while a workflow runs
+export type WorkflowRunEvent =
+  | { type: "run_started"; scope: "workflow" | "downstream" | "stage" | "node"; nodeIds: string[] }
+  | { type: "run_completed"; scope: "workflow" | "downstream" | "stage" | "node"; stuckNodeIds: string[]; usage: UsageTotals }
+  | { type: "node_started"; nodeId: string; input: string }
+  | { type: "node_updated"; nodeId: string; updates: Partial<WorkflowNode> }
+  | { type: "stage_updated"; stageId: string; updates: Partial<Stage> }
+  | { type: "node_completed"; nodeId: string; output: string }
+  | { type: "node_skipped"; nodeId: string; reason: "locked" | "null_input" | "no_source" }
+  | { type: "node_errored"; nodeId: string; error: string }
+  | { type: "port_output"; nodeId: string; port: string; value: string }
+  | { type: "connections_changed"; connections: Connection[] }
+  | { type: "usage"; nodeId: string; model: string; usage: TokenUsage; totals: UsageTotals }
+  | { type: "log"; level: LogEntry["type"]; message: string };
+
+export type WorkflowRunEventListener = (event: WorkflowRunEvent) => void;
+
+// The pass a looping stage is currently on
+interface LoopFrame {
+  bodyIds: Set<string>;
+  item: string;
+  index: number;
+}
+
+// Per-pass outputs of one loop exit node: its primary output and each port
+interface LoopResults {
+  primary: string[];
+  ports: Record<string, string[]>;
+}
+
+// The table row an agent in map rows mode is currently processing
+interface RowContext {
+  row: TableRow;
+  index: number;
+}
+
+// Payload sent to the run-agent edge functions
+export interface AgentRequestPayload {
+  systemPrompt: string;
+  userPrompt: string;
+  tools: { toolId: string; config: ToolInstance["config"] }[];
+  model: string;
+  maxOutputTokens: number;
+  thinkingEnabled: boolean;
+  thinkingBudget: number;
+  // Only for models served by an OpenAI-compatible endpoint
+  modelEndpoint?: ModelEndpointConfig;
+  // JSON Schema the response must satisfy - the edge function validates and retries
+  responseSchema?: Record<string, unknown>;
+}
+
+export interface AgentStreamHandlers {
+  onDelta: (accumulatedOutput: string) => void;
+  onToolOutput: (toolId: string, output: unknown) => void;
+  onTruncated: (finishReason: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
+  // Aborted when the node's timeout cuts the attempt off
+  signal?: AbortSignal;
+}
+
+// Transport used to call an agent - defaults to the Supabase edge functions,
+// can be swapped out to run workflows without a network (tests, server-side runs)
+export type AgentTransport = (
+  edgeFunction: string,
+  payload: AgentRequestPayload,
+  handlers: AgentStreamHandlers
+) => Promise<string>;
+
+// Asks a person to review the input of an Approval node; resolves with their decision
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+export interface WorkflowRunnerOptions {
+  workflow: Workflow;
+  userInput: string;
+  settings: WorkflowModelSettings;
+  onEvent?: WorkflowRunEventListener;
+  agentTransport?: AgentTransport;
+  // Price table for cost estimates - defaults to the user's configured prices
+  prices?: ModelPriceTable;
+  // Library id of the workflow, used to scope persisted Memory entries
+  workflowId?: string | null;
+  // Loads the workflows that sub-workflow nodes reference
+  loadWorkflow?: WorkflowLoader;
+  // Library ids of the workflows running this one as a sub-workflow, outermost first
+  parentWorkflowIds?: string[];
+  // Reviews Approval nodes - without it they fail instead of pausing the run
+  requestApproval?: ApprovalHandler;
+  // Stops the run when aborted: no further nodes start, in-flight agent calls are cancelled
+  // and failed nodes are neither retried nor sent to a fallback model
+  signal?: AbortSignal;
+}
+
+/**
+ * Default agent transport - POSTs to the edge function and parses its SSE stream
+ */
+export const streamAgentFromEdge: AgentTransport = async (edgeFunction, payload, handlers) => {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${edgeFunction}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(payload),
+    signal: handlers.signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Full error from edge function:", errorText);
+    throw new Error(errorText || `Server error: ${response.status}`);
+  }
+
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+
+  if (!reader) {
+    throw new Error("No response body reader available");
+  }
+
+  let accumulatedOutput = "";
+  let textBuffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      textBuffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
+        let line = textBuffer.slice(0, newlineIndex);
+        textBuffer = textBuffer.slice(newlineIndex + 1);
+
+        if (line.endsWith("\r")) line = line.slice(0, -1);
+        if (line.startsWith(":") || line.trim() === "") continue;
+        if (!line.startsWith("data: ")) continue;
+
+        const jsonStr = line.slice(6).trim();
+        if (!jsonStr) continue;
+
+        try {
+          const parsed = JSON.parse(jsonStr);
+
+          if (parsed.type === "tools" && parsed.toolOutputs) {
+            parsed.toolOutputs.forEach((toolOutput: { toolId: string; output: unknown }) => {
+              handlers.onToolOutput(toolOutput.toolId, toolOutput.output);
+            });
+          } else if (parsed.type === "delta" && parsed.text) {
+            accumulatedOutput += parsed.text;
+            handlers.onDelta(accumulatedOutput);
+          } else if (parsed.type === "done") {
+            if (parsed.usage) handlers.onUsage?.(parsed.usage);
+            if (parsed.truncated) handlers.onTruncated(parsed.finishReason);
+          }
+        } catch (parseError) {
+          console.error("Failed to parse SSE chunk:", parseError);
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return accumulatedOutput;
+};
+
+export class WorkflowRunner {
+  private workflow: Workflow;
+  private readonly userInput: string;
+  private readonly settings: WorkflowModelSettings;
+  private readonly listeners = new Set<WorkflowRunEventListener>();
+  private readonly agentTransport: AgentTransport;
+  private readonly prices: ModelPriceTable;
+  private readonly executionContext: FunctionExecutionContext;
+  private readonly loadWorkflow?: WorkflowLoader;
+  private readonly parentWorkflowIds: string[];
+  private readonly requestApproval?: ApprovalHandler;
+  private readonly signal?: AbortSignal;
+  private usageTotals: UsageTotals = EMPTY_USAGE_TOTALS;
+  // Active loop passes by stage id - loops in different stages may run in parallel
+  private readonly loopFrames = new Map<string, LoopFrame>();
+
+  constructor(options: WorkflowRunnerOptions) {
+    // Private copy so node updates made during the run are visible to later nodes
+    this.workflow = JSON.parse(JSON.stringify(options.workflow));
+    this.userInput = options.userInput || "";
+    this.settings = options.settings;
+    this.agentTransport = options.agentTransport ?? streamAgentFromEdge;
+    this.prices = options.prices ?? getModelPrices();
+    this.executionContext = { workflowId: options.workflowId, runId: Date.now().toString() };
+    this.loadWorkflow = options.loadWorkflow;
+    this.parentWorkflowIds = options.parentWorkflowIds ?? [];
+    this.requestApproval = options.requestApproval;
+    this.signal = options.signal;
+    if (options.onEvent) this.listeners.add(options.onEvent);
+  }
+
+  subscribe(listener: WorkflowRunEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Current state of the runner's workflow copy
+  getWorkflow(): Workflow {
+    return this.workflow;
+  }
+
+  getNode(nodeId: string): WorkflowNode | undefined {
+    return this.allNodes().find((n) => n.id === nodeId);
+  }
+
+  // Token usage and estimated cost of every agent call made by this runner
+  getUsage(): UsageTotals {
+    return this.usageTotals;
+  }
+
+  // Signal aborted when either the given one or the whole run's signal aborts
+  private linkSignal(signal: AbortSignal | undefined): AbortSignal | undefined {
+    if (!signal || !this.signal) return signal || this.signal;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal.aborted || this.signal.aborted) abort();
+    signal.addEventListener("abort", abort, { once: true });
+    this.signal.addEventListener("abort", abort, { once: true });
+    return controller.signal;
+  }
+
+  /**
+   * Run every non-locked node, dependency-driven, in parallel where possible
+   */
+  async runAll(): Promise<void> {
+    const nodeIds = this.allNodes().map((n) => n.id);
+    this.emit({ type: "run_started", scope: "workflow", nodeIds });
+    this.log("info", "🚀 Workflow execution started");
+    this.resetNodes(nodeIds);
+
+    this.log("info", "Starting dependency-driven workflow execution");
+    const stuck = await this.schedule(new Set(nodeIds));
+    if (stuck.length > 0) {
+      this.log("warning", `Workflow stuck: ${stuck.length} node(s) cannot execute due to missing dependencies`);
+    }
+
+    this.log("success", "🎉 Workflow execution completed");
+    this.logUsageSummary();
+    this.emit({ type: "run_completed", scope: "workflow", stuckNodeIds: stuck, usage: this.usageTotals });
+  }
+
+  /**
+   * Run a node and everything reachable from it; upstream nodes keep their current outputs
+   */
+  async runDownstream(startNodeId: string): Promise<void> {
+    const startNode = this.getNode(startNodeId);
+    if (!startNode) {
+      this.log("error", "Cannot run downstream: starting node not found");
+      return;
+    }
+
+    const downstreamIds = this.collectDownstream(startNodeId);
+    this.emit({ type: "run_started", scope: "downstream", nodeIds: [...downstreamIds] });
+    this.log("info", `🚀 Running downstream from "${startNode.name}" (${downstreamIds.size} node(s))`);
+
+    const stuck = await this.schedule(downstreamIds);
+    if (stuck.length > 0) {
+      this.log("warning", `Downstream execution stuck: ${stuck.length} node(s) cannot execute`);
+    }
+
+    this.log("success", "🎉 Downstream execution completed");
+    this.logUsageSummary();
+    this.emit({ type: "run_completed", scope: "downstream", stuckNodeIds: stuck, usage: this.usageTotals });
+  }
+
+  /**
+   * Run the nodes of one stage sequentially, in stage order
+   */
+  async runStage(stageId: string): Promise<void> {
+    const stage = this.workflow.stages.find((s) => s.id === stageId);
+    if (!stage) return;
+
+    const nodeIds = stage.nodes.map((n) => n.id);
+    this.emit({ type: "run_started", scope: "stage", nodeIds });
+    this.log("info", `🎯 Stage "${stage.name}" execution started`);
+    this.resetNodes(nodeIds);
+
+    if (stage.loop?.enabled) {
+      await this.runLoop(stageId);
+    } else {
+      for (const nodeId of nodeIds) {
+        await this.executeNode(nodeId);
+      }
+    }
+
+    this.log("success", `✓ Stage "${stage.name}" execution completed`);
+    this.logUsageSummary();
+    this.emit({ type: "run_completed", scope: "stage", stuckNodeIds: [], usage: this.usageTotals });
+  }
+
+  /**
+   * Run a single node with its current upstream outputs (or a custom input)
+   */
+  async runNode(nodeId: string, customInput?: string): Promise<void> {
+    this.emit({ type: "run_started", scope: "node", nodeIds: [nodeId] });
+    await this.executeNode(nodeId, customInput);
+    this.emit({ type: "run_completed", scope: "node", stuckNodeIds: [], usage: this.usageTotals });
+  }
+
+  // ============================================================================
+  // Scheduling
+  // ============================================================================
+
+  /**
+   * Dependency-driven execution of the given nodes. Nodes outside the scope (and
+   * locked nodes) count as already complete. Returns the ids of nodes that could
+   * not run because a dependency never completed.
+   *
+   * A looping stage is scheduled as one unit: it becomes ready once everything
+   * feeding it from outside has completed, and runs its whole body per item.
+   * insideLoop names the stage whose body is being scheduled for one pass.
+   */
+  private async schedule(initialScope: Set<string>, insideLoop?: string): Promise<string[]> {
+    const scope = new Set(initialScope);
+    const allNodes = this.allNodes();
+    const loopStageByNode = new Map<string, Stage>();
+    this.workflow.stages
+      .filter((stage) => stage.loop?.enabled && stage.id !== insideLoop && stage.nodes.some((n) => scope.has(n.id)))
+      .forEach((stage) => {
+        stage.nodes.forEach((n) => {
+          scope.add(n.id);
+          loopStageByNode.set(n.id, stage);
+        });
+      });
+
+    const dependencyMap = new Map<string, string[]>();
+    scope.forEach((nodeId) => {
+      const loopStage = loopStageByNode.get(nodeId);
+      const deps = loopStage
+        ? this.externalConnections(loopStage).map((c) => c.fromNodeId)
+        : this.incomingConnections(nodeId).map((c) => c.fromNodeId);
+      dependencyMap.set(nodeId, deps);
+    });
+
+    const completed = new Set<string>(
+      allNodes.filter((n) => !scope.has(n.id) || n.locked).map((n) => n.id)
+    );
+    const executing = new Map<string, Promise<void>>();
+    const pending = () => allNodes.filter((n) => scope.has(n.id) && !completed.has(n.id));
+
+    const isNodeReady = (nodeId: string): boolean =>
+      (dependencyMap.get(nodeId) || []).every((depId) => completed.has(depId));
+
+    while (pending().length > 0) {
+      if (this.signal?.aborted) {
+        // Stopped - let running nodes settle, start nothing new
+        await Promise.all(executing.values());
+        return [];
+      }
+      const readyNodes = pending().filter((n) => !executing.has(n.id) && isNodeReady(n.id));
+
+      if (readyNodes.length === 0) {
+        if (executing.size === 0) break;
+        await Promise.race(executing.values());
+        continue;
+      }
+
+      this.log("info", `Executing ${readyNodes.length} ready node(s): ${readyNodes.map((n) => n.name).join(", ")}`);
+      readyNodes.forEach((node) => {
+        const loopStage = loopStageByNode.get(node.id);
+        if (loopStage) {
+          // Another node of the same loop may already have started it
+          if (executing.has(node.id)) return;
+          const bodyIds = loopStage.nodes.map((n) => n.id);
+          const loopRun = this.runLoop(loopStage.id)
+            .catch((error) => {
+              console.error("Loop execution failed:", error);
+            })
+            .finally(() => {
+              bodyIds.forEach((id) => {
+                executing.delete(id);
+                completed.add(id);
+              });
+            });
+          bodyIds.forEach((id) => executing.set(id, loopRun));
+          return;
+        }
+
+        const run = this.executeNode(node.id)
+          .catch((error) => {
+            console.error("Node execution failed:", error);
+          })
+          .finally(() => {
+            executing.delete(node.id);
+            completed.add(node.id);
+          });
+        executing.set(node.id, run);
+      });
+
+      // Let the scheduler pick up newly-ready nodes as soon as any node finishes
+      await Promise.race(executing.values());
+    }
+
+    return pending().map((n) => n.id);
+  }
+
+  private collectDownstream(startNodeId: string): Set<string> {
+    const downstreamIds = new Set<string>();
+    const queue = [startNodeId];
+
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (downstreamIds.has(nodeId)) continue;
+      downstreamIds.add(nodeId);
+      this.workflow.connections
+        .filter((c) => c.fromNodeId === nodeId)
+        .forEach((c) => queue.push(c.toNodeId));
+    }
+
+    return downstreamIds;
+  }
+
+  // ============================================================================
+  // Input gathering
+  // ============================================================================
+
+  /**
+   * Read the value a connection delivers from its source node's current state
+   */
+  private readConnectionValue(conn: Connection): string {
+    // Inside a loop pass, whatever enters the stage from outside is replaced by the current item
+    const frame = this.getLoopFrame(conn.toNodeId);
+    if (frame && !frame.bodyIds.has(conn.fromNodeId)) return frame.item;
+
+    const fromNode = this.getNode(conn.fromNodeId);
+    if (!fromNode) return "";
+    return this.readPort(fromNode, conn.fromOutputPort);
+  }
+
+  private readPort(fromNode: WorkflowNode, port?: string): string {
+    if (port === ERROR_PORT && fromNode.policy?.continueOnError) {
+      return fromNode.errorOutput || "";
+    }
+    // A failure routed to the error port leaves the regular ports empty
+    if (fromNode.errorOutput) return "";
+
+    if (fromNode.nodeType === "agent") {
+      const agentNode = fromNode as AgentNode;
+      if (port && agentNode.beastModeOutputs?.[port]) {
+        return agentNode.beastModeOutputs[port];
+      }
+      if (port && port !== "output" && agentNode.structuredOutputs) {
+        return agentNode.structuredOutputs[port] ?? "";
+      }
+      return fromNode.output || "";
+    }
+
+    if (fromNode.nodeType === "function") {
+      const funcNode = fromNode as FunctionNode;
+      // Legacy support: if no port specified, default to the first port
+      const portToRead = port || (funcNode.outputs && Object.keys(funcNode.outputs)[0]) || "output";
+      const portValue = funcNode.outputs?.[portToRead];
+      if (portValue !== undefined && portValue !== null) return String(portValue);
+      return !port && typeof funcNode.output === "string" ? funcNode.output : "";
+    }
+
+    return fromNode.output || "";
+  }
+
+  /**
+   * Merged input for a node: upstream outputs joined, or the user input when the
+   * node has no incoming connections
+   */
+  getNodeInput(nodeId: string): string {
+    const incoming = this.incomingConnections(nodeId);
+    if (incoming.length === 0) {
+      return this.getLoopFrame(nodeId)?.item ?? this.userInput;
+    }
+
+    const nonEmptyOutputs = incoming
+      .map((c) => this.readConnectionValue(c))
+      .filter((v) => v !== undefined && v !== null && String(v).trim().length > 0);
+
+    return nonEmptyOutputs.join(INPUT_SEPARATOR);
+  }
+
+  /**
+   * Port-specific inputs for multi-input functions (logic_gate, pronghorn, code)
+   */
+  private getPortInputs(nodeId: string): Record<string, string> {
+    const inputsMap: Record<string, string> = {};
+    for (const conn of this.incomingConnections(nodeId)) {
+      inputsMap[conn.toInputPort || "input_1"] = this.readConnectionValue(conn);
+    }
+    return inputsMap;
+  }
+
+  // ============================================================================
+  // Node execution
+  // ============================================================================
+
+  private async executeNode(nodeId: string, customInput?: string): Promise<void> {
+    const node = this.getNode(nodeId);
+    if (!node) return;
+
+    if (node.locked) {
+      this.log("info", `${node.nodeType === "agent" ? "Agent" : "Function"} "${node.name}" is locked, using existing output`);
+      this.emit({ type: "node_skipped", nodeId, reason: "locked" });
+      return;
+    }
+
+    if (node.nodeType === "agent") {
+      const agent = node as AgentNode;
+      if (agent.beastMode?.enabled) {
+        await this.runBeastMode(agent);
+      } else if (agent.mapRows?.enabled && customInput === undefined) {
+        await this.runRowMap(agent);
+      } else {
+        await this.runAgent(agent, customInput);
+      }
+    } else if (node.nodeType === "function") {
+      const functionNode = node as FunctionNode;
+      if (functionNode.beastMode?.enabled) {
+        await this.runBeastMode(functionNode);
+      } else {
+        await this.runFunction(functionNode, customInput);
+      }
+    }
+  }
+
+  private shouldSkipForNullInput(node: WorkflowNode, input: string): boolean {
+    if (node.executeOnNullInput) return false;
+
+    // Content functions produce output from their own config, not the input
+    if (node.nodeType === "function" && (node as FunctionNode).functionType === "content") {
+      const rawContent = (node as FunctionNode).config?.content ?? "";
+      if (!isNullLikeValue(rawContent)) return false;
+    }
+    // Likewise a table input with an uploaded file
+    if (node.nodeType === "function" && (node as FunctionNode).functionType === "table_input" && (node as FunctionNode).config?.table) {
+      return false;
+    }
+
+    return isNullLikeValue(input);
+  }
+
+  private skipNullInput(node: WorkflowNode) {
+    const label = node.nodeType === "agent" ? "Agent" : "Function";
+    this.log("warning", `${label} "${node.name}" skipped - input is null/empty and "Execute on NULL Input" is disabled`);
+    this.updateNode(node.id, node.nodeType === "function"
+      ? { status: "idle", output: "", outputs: {}, errorOutput: undefined }
+      : { status: "idle", output: "", errorOutput: undefined });
+    this.emit({ type: "node_skipped", nodeId: node.id, reason: "null_input" });
+  }
+
+  private resolveAgentPayload(
+    agent: AgentNode,
+    input: string,
+    rowContext?: RowContext
+  ): { edgeFunction: string; payload: AgentRequestPayload } {
+    // {input} uses the actual input from connections (or user input with no connections)
+    // {prompt} always uses the original user input
+    // {item} and {index} are the current item and its 1-based position inside a loop,
+    // or the current row in map rows mode, where {column} placeholders read the row
+    const frame = this.getLoopFrame(agent.id);
+    const placeholders: Record<string, string> = {
+      input,
+      prompt: this.userInput,
+      item: rowContext ? input : frame?.item ?? input,
+      index: String((rowContext?.index ?? frame?.index ?? 0) + 1),
+    };
+    const userPrompt = agent.userPrompt.replace(/{([^{}\n]+)}/g, (match, name: string) => {
+      const key = name.toLowerCase();
+      if (Object.prototype.hasOwnProperty.call(placeholders, key)) return placeholders[key];
+      return rowContext ? fillRowPlaceholders(match, rowContext.row) : match;
+    });
+
+    const useSpecific = !!agent.useSpecificModel;
+    const model = useSpecific && agent.model ? agent.model : this.settings.selectedModel;
+
+    return {
+      edgeFunction: getAgentEdgeFunction(model),
+      payload: {
+        systemPrompt: agent.systemPrompt,
+        userPrompt,
+        tools: agent.tools.map((t) => ({ toolId: t.toolId, config: t.config })),
+        model,
+        maxOutputTokens: useSpecific && agent.responseLength ? agent.responseLength : this.settings.responseLength,
+        thinkingEnabled: useSpecific ? (agent.thinkingEnabled ?? false) : this.settings.thinkingEnabled,
+        thinkingBudget: useSpecific ? (agent.thinkingBudget ?? 0) : this.settings.thinkingBudget,
+        modelEndpoint: getModelEndpointConfig(model),
+        responseSchema: parseAgentResponseSchema(agent),
+      },
+    };
+  }
+
+  /**
+   * Run an agent once. Returns the output, or "" when skipped or failed.
+   */
+  private async runAgent(
+    agent: AgentNode,
+    customInput?: string,
+    options: { skipNullCheck?: boolean; quiet?: boolean; rowContext?: RowContext } = {}
+  ): Promise<string> {
+    const incoming = this.incomingConnections(agent.id);
+    const input = customInput !== undefined ? customInput : this.getNodeInput(agent.id);
+
+    if (!options.skipNullCheck && customInput === undefined && this.shouldSkipForNullInput(agent, input)) {
+      this.skipNullInput(agent);
+      return "";
+    }
+
+    this.log("info", `Starting agent: ${agent.name} (input length: ${input.length} chars)`);
+    if (customInput === undefined && incoming.length > 0) {
+      this.log("info", `Agent ${agent.name} received input from ${incoming.length} connection(s)`);
+    }
+    this.updateNode(agent.id, { status: "running", errorOutput: undefined });
+    if (!options.quiet) {
+      this.emit({ type: "node_started", nodeId: agent.id, input });
+    }
+
+    try {
+      agent.tools.forEach((tool) => {
+        this.log("running", `Executing tool: ${tool.toolId.replace("_", " ")}`);
+      });
+
+      this.log("running", `Agent ${agent.name} processing with AI...`);
+      const { edgeFunction, payload } = this.resolveAgentPayload(agent, input, options.rowContext);
+
+      const output = await this.callAgent(agent, edgeFunction, payload, !!options.quiet);
+
+      if (!options.quiet) {
+        const structuredOutputs = agent.schemaOutputPorts && payload.responseSchema
+          ? splitStructuredOutput(output, getSchemaFieldNames(payload.responseSchema))
+          : undefined;
+        this.updateNode(agent.id, { status: "complete", output: output || "No output generated", structuredOutputs });
+        this.emit({ type: "port_output", nodeId: agent.id, port: "output", value: output });
+        Object.entries(structuredOutputs || {}).forEach(([port, value]) => {
+          this.emit({ type: "port_output", nodeId: agent.id, port, value });
+        });
+        this.emit({ type: "node_completed", nodeId: agent.id, output });
+      }
+      this.log("success", `✓ Agent ${agent.name} completed (output length: ${output.length} chars)`);
+      return output;
+    } catch (error) {
+      console.error("Agent execution failed:", error);
+      // The error text becomes the node's output so downstream nodes see what happened.
+      // Single rows and Beast Mode items are left to their caller.
+      if (options.quiet) {
+        this.updateNode(agent.id, { status: "error", output: `Error: ${error}` });
+        this.emit({ type: "node_errored", nodeId: agent.id, error: String(error) });
+      } else {
+        this.failNode(agent, error, { output: `Error: ${error}` });
+      }
+      this.log("error", `✗ Agent ${agent.name} failed: ${error}`);
+      return "";
+    }
+  }
+
+  /**
+   * Call the agent's model under its execution policy. Once the retries are used
+   * up, the fallback model (if any) gets the same policy.
+   */
+  private async callAgent(agent: AgentNode, edgeFunction: string, payload: AgentRequestPayload, quiet: boolean): Promise<string> {
+    const attempt = (call: { edgeFunction: string; payload: AgentRequestPayload }) =>
+      runWithPolicy(agent.policy, (signal) => {
+        let isFirstDelta = true;
+        let lastUpdate = Date.now();
+        return this.agentTransport(call.edgeFunction, call.payload, {
+          onDelta: (accumulated) => {
+            if (quiet) return;
+            // Clear output on first delta to prevent jumpy updates, then throttle UI updates
+            const now = Date.now();
+            if (isFirstDelta || now - lastUpdate > 100) {
+              this.updateNode(agent.id, { output: accumulated });
+              isFirstDelta = false;
+              lastUpdate = now;
+            }
+          },
+          onToolOutput: (toolId, toolOutput) => {
+            console.log(`Tool Output [${toolId}]:`, toolOutput);
+            this.log("info", `Tool Output [${toolId}]: ${JSON.stringify(toolOutput, null, 2)}`);
+          },
+          onTruncated: (finishReason) => {
+            this.log("warning", `Response was truncated (${finishReason})`);
+          },
+          onUsage: (usage) => {
+            this.recordUsage(agent, call.payload.model, usage);
+          },
+          signal,
+        });
+      }, (error, retry, delayMs) => this.logRetry(agent, error, retry, delayMs), this.signal);
+
+    const fallbackModel = agent.policy?.fallbackModel;
+    try {
+      return await attempt({ edgeFunction, payload });
+    } catch (error) {
+      // A stopped run doesn't fall back - the fallback model would only be cancelled too
+      if (!fallbackModel || fallbackModel === payload.model || this.signal?.aborted) throw error;
+      this.log("warning", `Agent ${agent.name} failed on ${payload.model} (${error}), falling back to ${fallbackModel}`);
+      return attempt({
+        edgeFunction: getAgentEdgeFunction(fallbackModel),
+        payload: { ...payload, model: fallbackModel, modelEndpoint: getModelEndpointConfig(fallbackModel) },
+      });
+    }
+  }
+
+  /**
+   * Run a function once and store its port outputs
+   */
+  private async runFunction(functionNode: FunctionNode, customInput?: string): Promise<void> {
+    const incoming = this.incomingConnections(functionNode.id);
+    const input = customInput !== undefined ? customInput : this.getNodeInput(functionNode.id);
+
+    let nodeToExecute = functionNode;
+    if (functionNode.inputPorts && functionNode.inputPorts.length > 1 && incoming.length > 0) {
+      const inputsMap = this.getPortInputs(functionNode.id);
+      this.updateNode(functionNode.id, { inputs: inputsMap });
+      nodeToExecute = { ...functionNode, inputs: inputsMap };
+      this.log("info", `Function ${functionNode.name} received ${Object.keys(inputsMap).length} port-specific input(s)`);
+    }
+
+    if (customInput === undefined && this.shouldSkipForNullInput(functionNode, input)) {
+      this.skipNullInput(functionNode);
+      return;
+    }
+
+    this.log("info", `Executing function: ${functionNode.name} (input length: ${input.length} chars)`);
+    this.updateNode(functionNode.id, { status: "running", errorOutput: undefined });
+    this.emit({ type: "node_started", nodeId: functionNode.id, input });
+
+    try {
+      const result = await this.executeFunctionWithPolicy(nodeToExecute, input);
+      const { primaryOutput, normalizedOutputs } = normalizeFunctionOutputs(result);
+
+      this.updateNode(functionNode.id, {
+        status: "complete",
+        output: primaryOutput,
+        outputs: normalizedOutputs,
+        imageOutput: result.imageOutput,
+        audioOutput: result.audioOutput,
+      });
+      Object.entries(normalizedOutputs).forEach(([port, value]) => {
+        this.emit({ type: "port_output", nodeId: functionNode.id, port, value });
+      });
+      this.emit({ type: "node_completed", nodeId: functionNode.id, output: primaryOutput });
+      this.log("success", `✓ Function ${functionNode.name} completed (output length: ${primaryOutput.length} chars)`);
+    } catch (error) {
+      console.error("Function execution failed:", error);
+      this.failNode(functionNode, error, { output: `Error: ${error}`, outputs: {} });
+      this.log("error", `✗ Function ${functionNode.name} failed: ${error}`);
+    }
+  }
+
+  /**
+   * Execute a function under its node's execution policy. An unsuccessful result
+   * counts as a failed try, so it is retried (and finally thrown) like an error.
+   * Approvals run once without a timeout: giving up on one would leave its request
+   * open in the approval queue, and a retry would queue another.
+   */
+  private executeFunctionWithPolicy(functionNode: FunctionNode, input: string): Promise<FunctionExecutionResult> {
+    const attempt = async (signal?: AbortSignal) => {
+      const result = await this.executeFunction(functionNode, input, signal);
+      if (!result.success) {
+        throw new Error(result.error || "Function execution failed");
+      }
+      return result;
+    };
+    if (!supportsRetries(functionNode)) {
+      return attempt();
+    }
+    return runWithPolicy(
+      functionNode.policy,
+      attempt,
+      (error, retry, delayMs) => this.logRetry(functionNode, error, retry, delayMs),
+      this.signal
+    );
+  }
+
+  private executeFunction(functionNode: FunctionNode, input: string, signal?: AbortSignal): Promise<FunctionExecutionResult> {
+    if (functionNode.functionType === "sub_workflow") {
+      return this.runSubWorkflow(functionNode, input, signal);
+    }
+    if (functionNode.functionType === "approval") {
+      return this.runApproval(functionNode, input);
+    }
+    return FunctionExecutor.execute(functionNode, input, this.executionContext);
+  }
+
+  // ============================================================================
+  // Map rows
+  // ============================================================================
+
+  /**
+   * Run an agent once per row of its table input and add each response as a
+   * column. With schema field ports on, every schema field becomes a column.
+   */
+  private async runRowMap(agent: AgentNode): Promise<void> {
+    const input = this.getNodeInput(agent.id);
+    if (this.shouldSkipForNullInput(agent, input)) {
+      this.skipNullInput(agent);
+      return;
+    }
+
+    let table: TableData;
+    let fields: string[];
+    try {
+      table = readTable(input);
+      fields = agent.schemaOutputPorts ? getSchemaFieldNames(parseAgentResponseSchema(agent)) : [];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.failNode(agent, error, { output: `Map Rows Error: ${message}` });
+      this.log("error", `✗ Agent ${agent.name} cannot map rows: ${message}`);
+      return;
+    }
+
+    const newColumns = fields.length > 0 ? fields : [agent.mapRows?.outputColumn?.trim() || "result"];
+    const rows: TableRow[] = [];
+    let failed = 0;
+
+    this.log("info", `Map Rows: Agent "${agent.name}" processing ${table.rows.length} row(s)`);
+    this.updateNode(agent.id, { status: "running", output: "", errorOutput: undefined });
+    this.emit({ type: "node_started", nodeId: agent.id, input });
+
+    for (const [index, row] of table.rows.entries()) {
+      this.updateNode(agent.id, { output: `Map Rows: Processing row ${index + 1}/${table.rows.length}...` });
+      const result = await this.runAgent(agent, JSON.stringify(row, null, 2), {
+        skipNullCheck: true,
+        quiet: true,
+        rowContext: { row, index },
+      });
+      if (!result) failed++;
+      const values = fields.length > 0 ? splitStructuredOutput(result, fields) : { [newColumns[0]]: result };
+      rows.push({ ...row, ...values });
+    }
+
+    const output = serializeTable({
+      ...table,
+      columns: [...table.columns, ...newColumns.filter((column) => !table.columns.includes(column))],
+      rows,
+    });
+    this.updateNode(agent.id, { status: "complete", output, structuredOutputs: undefined });
+    this.emit({ type: "port_output", nodeId: agent.id, port: "output", value: output });
+    this.emit({ type: "node_completed", nodeId: agent.id, output });
+    if (failed > 0) {
+      this.log("warning", `Map Rows: ${failed} of ${table.rows.length} row(s) failed for agent "${agent.name}"`);
+    }
+    this.log("success", `Map Rows: Agent "${agent.name}" completed ${table.rows.length} row(s)`);
+  }
+
+  // ============================================================================
+  // Approval
+  // ============================================================================
+
+  /**
+   * Hold the node until a person approves, edits or rejects its input. The
+   * content goes out on "approved" or "rejected"; any comment goes on "feedback".
+   */
+  private async runApproval(node: FunctionNode, input: string): Promise<FunctionExecutionResult> {
+    if (!this.requestApproval) {
+      return {
+        success: false,
+        outputs: {},
+        error: "Approval nodes need a reviewer - run the workflow from the editor",
+      };
+    }
+
+    this.log("warning", `⏸ "${node.name}" is waiting for approval`);
+    const decision = await this.requestApproval({
+      nodeId: node.id,
+      nodeName: node.name,
+      content: input,
+      instructions: node.config?.instructions || undefined,
+      allowEdit: node.config?.allowEdit !== false,
+    });
+
+    const content = node.config?.allowEdit !== false ? decision.content : input;
+    const feedback = decision.feedback?.trim() || "";
+    this.log(
+      decision.approved ? "success" : "warning",
+      `${decision.approved ? "✓ Approved" : "✗ Rejected"}: "${node.name}"${content !== input ? " (edited)" : ""}${feedback ? ` - ${feedback}` : ""}`
+    );
+    return {
+      success: true,
+      outputs: {
+        approved: decision.approved ? content : "",
+        rejected: decision.approved ? "" : content,
+        feedback,
+      },
+    };
+  }
+
+  // ============================================================================
+  // Sub-workflows
+  // ============================================================================
+
+  /**
+   * Run the saved workflow a sub-workflow node references with a child runner.
+   * The node's input is the child's workflow input; each chosen child node fills
+   * one output port. Child logs and usage are forwarded, and the node's snapshot
+   * of the child graph is refreshed as child nodes start and finish. When the
+   * attempt's signal aborts (the node timed out) the child run is stopped and
+   * its events are no longer forwarded.
+   */
+  private async runSubWorkflow(node: FunctionNode, input: string, signal?: AbortSignal): Promise<FunctionExecutionResult> {
+    try {
+      const childId: string | undefined = node.config?.workflowId;
+      if (!childId) throw new Error("No workflow selected");
+      if (!this.loadWorkflow) throw new Error("Sub-workflows are not available in this run");
+
+      const ancestry = this.executionContext.workflowId
+        ? [...this.parentWorkflowIds, this.executionContext.workflowId]
+        : this.parentWorkflowIds;
+      if (ancestry.includes(childId)) {
+        throw new Error("A workflow cannot run itself as a sub-workflow");
+      }
+      if (ancestry.length >= MAX_SUB_WORKFLOW_DEPTH) {
+        throw new Error(`Sub-workflows cannot be nested more than ${MAX_SUB_WORKFLOW_DEPTH} levels deep`);
+      }
+
+      const saved = await this.loadWorkflow(childId);
+      if (!saved) throw new Error("Workflow not found in the library");
+
+      // The child runs with its own saved model settings
+      const child = new WorkflowRunner({
+        workflow: saved.workflow,
+        userInput: input,
+        settings: {
+          selectedModel: saved.selectedModel,
+          responseLength: saved.responseLength,
+          thinkingEnabled: saved.thinkingEnabled,
+          thinkingBudget: saved.thinkingBudget,
+        },
+        agentTransport: this.agentTransport,
+        prices: this.prices,
+        workflowId: childId,
+        loadWorkflow: this.loadWorkflow,
+        parentWorkflowIds: ancestry,
+        requestApproval: this.requestApproval,
+        signal: this.linkSignal(signal),
+      });
+      const unsubscribe = child.subscribe((event) => {
+        switch (event.type) {
+          case "log":
+            this.log(event.level, `[${node.name}] ${event.message}`);
+            break;
+          case "usage":
+            this.usageTotals = accumulateUsage(this.usageTotals, event.model, event.usage, this.prices);
+            this.emit({ type: "usage", nodeId: node.id, model: event.model, usage: event.usage, totals: this.usageTotals });
+            break;
+          case "node_started":
+          case "node_completed":
+          case "node_errored":
+          case "node_skipped":
+          case "stage_updated":
+            this.updateNode(node.id, { subWorkflow: child.getWorkflow() });
+            break;
+        }
+      });
+
+      signal?.addEventListener("abort", unsubscribe, { once: true });
+
+      this.log("info", `Sub-workflow "${node.name}" running "${saved.workflowName}"`);
+      await child.runAll();
+      if (signal?.aborted) throw new Error("Sub-workflow was stopped");
+      this.updateNode(node.id, { subWorkflow: child.getWorkflow() });
+
+      const outputNodeIds = getSubWorkflowOutputNodeIds(node);
+      if (outputNodeIds.length === 0) {
+        const terminalOutputs = getTerminalNodes(child.getWorkflow())
+          .map((n) => n.output || "")
+          .filter((output) => output.trim().length > 0);
+        return { success: true, outputs: { output: terminalOutputs.join(INPUT_SEPARATOR) } };
+      }
+
+      const ports = getSubWorkflowOutputPorts(outputNodeIds);
+      const outputs: Record<string, string> = {};
+      for (const [i, nodeId] of outputNodeIds.entries()) {
+        const outputNode = child.getNode(nodeId);
+        if (!outputNode) {
+          throw new Error(`The node for ${ports[i]} no longer exists in "${saved.workflowName}"`);
+        }
+        if (outputNode.status === "error") {
+          throw new Error(`"${outputNode.name}" failed: ${outputNode.output || "unknown error"}`);
+        }
+        outputs[ports[i]] = outputNode.output || "";
+      }
+      return { success: true, outputs };
+    } catch (error) {
+      return {
+        success: false,
+        outputs: {},
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // ============================================================================
+  // Beast Mode
+  // ============================================================================
+
+  /**
+   * Ports of the first connected card that currently hold content
+   */
+  private getBeastModeSource(node: WorkflowNode): { source: WorkflowNode; ports: string[] } | null {
+    const label = node.nodeType === "agent" ? "agent" : "function";
+    const incoming = this.incomingConnections(node.id);
+
+    if (incoming.length === 0) {
+      this.log("warning", `Beast Mode: No connections found for ${label} "${node.name}"`);
+      this.emit({ type: "node_skipped", nodeId: node.id, reason: "no_source" });
+      return null;
+    }
+
+    const source = this.getNode(incoming[0].fromNodeId);
+    if (!source) {
+      this.log("error", "Beast Mode: Connected node not found");
+      this.emit({ type: "node_skipped", nodeId: node.id, reason: "no_source" });
+      return null;
+    }
+
+    const ports = this.getPopulatedPorts(source);
+    if (ports.length === 0) {
+      this.log("warning", `Beast Mode: No outputs with content found in connected card "${source.name}"`);
+      this.emit({ type: "node_skipped", nodeId: node.id, reason: "no_source" });
+      return null;
+    }
+
+    return { source, ports };
+  }
+
+  /**
+   * Output ports of a node that currently hold content
+   */
+  private getPopulatedPorts(source: WorkflowNode): string[] {
+    const hasContent = (value: unknown) => !!value && String(value).trim().length > 0;
+
+    if (source.nodeType === "function") {
+      const funcNode = source as FunctionNode;
+      return (funcNode.outputPorts || ["output"]).filter((port) => hasContent(funcNode.outputs?.[port]));
+    }
+    if (source.nodeType === "agent") {
+      const agentNode = source as AgentNode;
+      if (agentNode.beastModeOutputPorts && agentNode.beastModeOutputs) {
+        return agentNode.beastModeOutputPorts.filter((port) => hasContent(agentNode.beastModeOutputs?.[port]));
+      }
+      if (agentNode.structuredOutputs) {
+        return Object.keys(agentNode.structuredOutputs).filter((port) => hasContent(agentNode.structuredOutputs?.[port]));
+      }
+      return hasContent(source.output) ? ["output"] : [];
+    }
+    return [];
+  }
+
+  /**
+   * Run a node once per populated output port of its connected card
+   */
+  private async runBeastMode(node: AgentNode | FunctionNode): Promise<void> {
+    const label = node.nodeType === "agent" ? "Agent" : "Function";
+    const resolved = this.getBeastModeSource(node);
+    if (!resolved) return;
+
+    const { source, ports } = resolved;
+    const outputMode = node.beastMode?.outputMode || "concatenate";
+    const originalConnections = [...this.workflow.connections];
+    const results: string[] = [];
+    const imageResults: string[] = [];
+    const audioResults: string[] = [];
+
+    this.log("info", `Beast Mode: Processing ${ports.length} outputs from "${source.name}"`);
+    this.updateNode(node.id, { status: "running", output: "", errorOutput: undefined });
+    this.emit({ type: "node_started", nodeId: node.id, input: "" });
+
+    try {
+      for (let i = 0; i < ports.length; i++) {
+        const port = ports[i];
+        this.log("running", `Beast Mode: Iteration ${i + 1}/${ports.length} - processing port "${port}"`);
+
+        // Visually switch the connection to the current port
+        const tempConnections = originalConnections.map((conn) =>
+          conn.toNodeId === node.id && conn.fromNodeId === source.id ? { ...conn, fromOutputPort: port } : conn
+        );
+        this.emit({ type: "connections_changed", connections: tempConnections });
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        this.updateNode(node.id, {
+          output: `Beast Mode: Processing ${i + 1}/${ports.length} (${port})...\n\n${results.join(INPUT_SEPARATOR)}`,
+        });
+
+        const portInput = this.readPort(source, port);
+
+        if (node.nodeType === "agent") {
+          const result = await this.runAgent(node, portInput, { skipNullCheck: true, quiet: true });
+          if (result) results.push(result);
+        } else {
+          // A failed item is left out, as for agents
+          const result = await this.executeFunctionWithPolicy(node, portInput).catch((error) => {
+            this.log("warning", `Beast Mode: ${label} "${node.name}" failed on port "${port}": ${error}`);
+            return null;
+          });
+          if (result) {
+            const outputValue = result.outputs.output || Object.values(result.outputs)[0] || "";
+            if (outputValue) results.push(String(outputValue));
+            if (result.imageOutput) imageResults.push(result.imageOutput);
+            if (result.audioOutput) audioResults.push(result.audioOutput);
+          }
+        }
+      }
+
+      const finalOutput = results.join(INPUT_SEPARATOR);
+      const splitPorts = results.map((_, i) => `output_${i + 1}`);
+      const splitOutputs = Object.fromEntries(splitPorts.map((p, i) => [p, results[i]]));
+
+      this.emit({ type: "connections_changed", connections: originalConnections });
+
+      if (node.nodeType === "agent") {
+        this.updateNode(node.id, {
+          status: "complete",
+          output: finalOutput,
+          beastModeOutputs: outputMode === "split" ? splitOutputs : undefined,
+          beastModeOutputPorts: outputMode === "split" ? splitPorts : undefined,
+        } as Partial<AgentNode>);
+      } else {
+        const mediaUpdates = {
+          imageOutput: imageResults[0],
+          audioOutput: audioResults[0],
+          imageOutputs: imageResults.length > 0 ? imageResults : undefined,
+          audioOutputs: audioResults.length > 0 ? audioResults : undefined,
+        };
+        this.updateNode(node.id, outputMode === "split"
+          ? { status: "complete", output: finalOutput, outputPorts: splitPorts, outputs: splitOutputs, ...mediaUpdates }
+          : { status: "complete", output: finalOutput, outputs: { output: finalOutput }, ...mediaUpdates }
+        );
+      }
+
+      const emittedPorts = outputMode === "split" ? splitOutputs : { output: finalOutput };
+      Object.entries(emittedPorts).forEach(([port, value]) => {
+        this.emit({ type: "port_output", nodeId: node.id, port, value });
+      });
+      this.emit({ type: "node_completed", nodeId: node.id, output: finalOutput });
+      this.log("success", `Beast Mode: ${label} "${node.name}" completed ${ports.length} iterations`);
+    } catch (error) {
+      console.error("Beast Mode execution failed:", error);
+      this.emit({ type: "connections_changed", connections: originalConnections });
+      this.failNode(node, error, { output: `Beast Mode Error: ${error}` });
+      this.log("error", `Beast Mode: ${label} "${node.name}" failed: ${error}`);
+    }
+  }
+
+  // ============================================================================
+  // Loops
+  // ============================================================================
+
+  /**
+   * Run a looping stage. Its body - every node in the stage - runs once per item,
+   * dependency-ordered within each pass. The exit nodes (those not feeding another
+   * node of the stage) collect their per-pass outputs, so nodes downstream of the
+   * loop see the combined result.
+   */
+  private async runLoop(stageId: string): Promise<void> {
+    const stage = this.workflow.stages.find((s) => s.id === stageId);
+    const config = stage?.loop;
+    if (!stage || !config) return;
+
+    const bodyIds = new Set(stage.nodes.map((n) => n.id));
+    const exitIds = stage.nodes
+      .filter((n) => !this.workflow.connections.some((c) => c.fromNodeId === n.id && bodyIds.has(c.toNodeId)))
+      .map((n) => n.id);
+    const maxIterations = Math.min(Math.max(1, config.maxIterations || 1), MAX_LOOP_ITERATIONS);
+    const input = this.getLoopInput(stage);
+
+    let items: string[] = [];
+    if (config.mode === "for_each") {
+      try {
+        items = config.itemSource === "ports" ? this.getLoopPortItems(stage) : splitLoopItems(input, config);
+      } catch (error) {
+        this.log("error", `✗ Loop "${stage.name}" failed: ${error instanceof Error ? error.message : error}`);
+        exitIds.forEach((nodeId) => {
+          this.updateNode(nodeId, { status: "error", output: `Loop Error: ${error}` });
+          this.emit({ type: "node_errored", nodeId, error: String(error) });
+        });
+        return;
+      }
+      if (items.length === 0) {
+        this.log("warning", `Loop "${stage.name}" skipped - its input has no items`);
+        this.resetNodes([...bodyIds]);
+        exitIds.forEach((nodeId) => this.emit({ type: "node_skipped", nodeId, reason: "null_input" }));
+        return;
+      }
+      if (items.length > maxIterations) {
+        this.log("warning", `Loop "${stage.name}" has ${items.length} items - only the first ${maxIterations} will run`);
+        items = items.slice(0, maxIterations);
+      }
+    }
+
+    const total = config.mode === "for_each" ? items.length : maxIterations;
+    const results = new Map<string, LoopResults>(exitIds.map((id) => [id, { primary: [], ports: {} }]));
+    let item = input;
+    let passes = 0;
+    let conditionMet = false;
+
+    this.log("info", `🔁 Loop "${stage.name}" started (${config.mode === "for_each" ? `${total} item(s)` : `up to ${total} passes`})`);
+
+    try {
+      for (let index = 0; index < total; index++) {
+        if (this.signal?.aborted) break;
+        if (config.mode === "for_each") item = items[index];
+        this.loopFrames.set(stageId, { bodyIds, item, index });
+        this.updateStage(stageId, { loopProgress: { iteration: index + 1, total } });
+        this.log("running", `Loop "${stage.name}": pass ${index + 1}/${total}`);
+
+        this.resetNodes([...bodyIds]);
+        await this.schedule(bodyIds, stageId);
+        passes++;
+
+        const passOutputs: string[] = [];
+        exitIds.forEach((nodeId) => {
+          const node = this.getNode(nodeId);
+          const collected = results.get(nodeId)!;
+          const output = node?.output || "";
+          if (output.trim()) {
+            collected.primary.push(output);
+            passOutputs.push(output);
+          }
+          if (node?.nodeType === "function") {
+            Object.entries((node as FunctionNode).outputs || {}).forEach(([port, value]) => {
+              if (!value || !String(value).trim()) return;
+              collected.ports[port] = [...(collected.ports[port] || []), String(value)];
+            });
+          }
+        });
+
+        // A while loop feeds each pass's output into the next
+        item = passOutputs.join(INPUT_SEPARATOR);
+        if (config.mode === "while" && isLoopConditionMet(item, config.untilCondition)) {
+          conditionMet = true;
+          break;
+        }
+      }
+    } finally {
+      this.loopFrames.delete(stageId);
+      this.updateStage(stageId, { loopProgress: undefined });
+    }
+
+    if (config.mode === "while" && !conditionMet) {
+      this.log("warning", `Loop "${stage.name}" stopped after ${passes} passes without meeting its condition`);
+    }
+    exitIds.forEach((nodeId) => this.applyLoopResults(nodeId, results.get(nodeId)!, config.collectMode));
+    this.log("success", `✓ Loop "${stage.name}" completed ${passes} pass(es)`);
+  }
+
+  // Connections that enter a stage from outside it
+  private externalConnections(stage: Stage): Connection[] {
+    const bodyIds = new Set(stage.nodes.map((n) => n.id));
+    return this.workflow.connections.filter((c) => bodyIds.has(c.toNodeId) && !bodyIds.has(c.fromNodeId));
+  }
+
+  private getLoopFrame(nodeId: string): LoopFrame | undefined {
+    for (const frame of this.loopFrames.values()) {
+      if (frame.bodyIds.has(nodeId)) return frame;
+    }
+    return undefined;
+  }
+
+  /**
+   * Everything entering the stage from outside, merged once per source port,
+   * or the user input when nothing is connected
+   */
+  private getLoopInput(stage: Stage): string {
+    const external = this.externalConnections(stage);
+    if (external.length === 0) return this.userInput;
+
+    const seen = new Set<string>();
+    const values: string[] = [];
+    external.forEach((conn) => {
+      const key = `${conn.fromNodeId}:${conn.fromOutputPort || ""}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      const fromNode = this.getNode(conn.fromNodeId);
+      const value = fromNode ? this.readPort(fromNode, conn.fromOutputPort) : "";
+      if (value.trim()) values.push(value);
+    });
+    return values.join(INPUT_SEPARATOR);
+  }
+
+  /**
+   * One item per populated output port of the first node feeding the stage
+   */
+  private getLoopPortItems(stage: Stage): string[] {
+    const source = this.getNode(this.externalConnections(stage)[0]?.fromNodeId ?? "");
+    if (!source) return [];
+    return this.getPopulatedPorts(source).map((port) => this.readPort(source, port));
+  }
+
+  private applyLoopResults(nodeId: string, results: LoopResults, collectMode: LoopConfig["collectMode"]) {
+    const node = this.getNode(nodeId);
+    if (!node || node.locked) return;
+
+    let output: string;
+    let ports: Record<string, string>;
+
+    if (collectMode === "split") {
+      const splitPorts = results.primary.map((_, i) => `output_${i + 1}`);
+      ports = Object.fromEntries(splitPorts.map((port, i) => [port, results.primary[i]]));
+      output = results.primary.join(INPUT_SEPARATOR);
+      this.updateNode(nodeId, node.nodeType === "agent"
+        ? { status: "complete", output, beastModeOutputs: ports, beastModeOutputPorts: splitPorts } as Partial<AgentNode>
+        : { status: "complete", output, outputPorts: splitPorts, outputs: ports });
+    } else if (node.nodeType === "function") {
+      output = collectLoopResults(results.primary, collectMode, INPUT_SEPARATOR);
+      ports = Object.fromEntries(
+        Object.entries(results.ports).map(([port, values]) => [port, collectLoopResults(values, collectMode, INPUT_SEPARATOR)])
+      );
+      this.updateNode(nodeId, { status: "complete", output, outputs: ports });
+    } else {
+      output = collectLoopResults(results.primary, collectMode, INPUT_SEPARATOR);
+      ports = { output };
+      this.updateNode(nodeId, { status: "complete", output, beastModeOutputs: undefined, beastModeOutputPorts: undefined } as Partial<AgentNode>);
+    }
+
+    Object.entries(ports).forEach(([port, value]) => {
+      this.emit({ type: "port_output", nodeId, port, value });
+    });
+    this.emit({ type: "node_completed", nodeId, output });
+  }
+
+  // ============================================================================
+  // State helpers
+  // ============================================================================
+
+  private allNodes(): WorkflowNode[] {
+    return this.workflow.stages.flatMap((s) => s.nodes);
+  }
+
+  private incomingConnections(nodeId: string): Connection[] {
+    return this.workflow.connections.filter((c) => c.toNodeId === nodeId);
+  }
+
+  // Reset non-locked nodes so stale outputs from a previous run can't leak downstream
+  private resetNodes(nodeIds: string[]) {
+    nodeIds.forEach((nodeId) => {
+      const node = this.getNode(nodeId);
+      if (node && !node.locked) {
+        this.updateNode(nodeId, node.nodeType === "function"
+          ? { status: "idle", output: undefined, outputs: {}, errorOutput: undefined }
+          : { status: "idle", output: undefined, errorOutput: undefined });
+      }
+    });
+  }
+
+  /**
+   * Mark a node as failed. With continue-on-error the message also goes out on
+   * its error port and its regular ports read empty, so dependents wired to
+   * "error" handle the failure while the others skip on null input.
+   */
+  private failNode(node: WorkflowNode, error: unknown, updates: Partial<WorkflowNode>) {
+    const message = error instanceof Error ? error.message : String(error);
+    const continueOnError = !!node.policy?.continueOnError;
+    this.updateNode(node.id, { ...updates, status: "error", errorOutput: continueOnError ? message : undefined });
+    this.emit({ type: "node_errored", nodeId: node.id, error: String(error) });
+    if (continueOnError) {
+      this.emit({ type: "port_output", nodeId: node.id, port: ERROR_PORT, value: message });
+      this.log("warning", `"${node.name}" continues on its error port`);
+    }
+  }
+
+  private logRetry(node: WorkflowNode, error: unknown, retry: number, delayMs: number) {
+    this.log("warning", `"${node.name}" failed (${error}), retry ${retry} in ${(delayMs / 1000).toFixed(1)}s`);
+  }
+
+  private updateNode(nodeId: string, updates: Partial<WorkflowNode>) {
+    this.workflow = {
+      ...this.workflow,
+      stages: this.workflow.stages.map((stage) => ({
+        ...stage,
+        nodes: stage.nodes.map((node) =>
+          node.id === nodeId ? ({ ...node, ...updates } as WorkflowNode) : node
+        ),
+      })),
+    };
+    this.emit({ type: "node_updated", nodeId, updates });
+  }
+
+  private updateStage(stageId: string, updates: Partial<Stage>) {
+    this.workflow = {
+      ...this.workflow,
+      stages: this.workflow.stages.map((stage) => (stage.id === stageId ? { ...stage, ...updates } : stage)),
+    };
+    this.emit({ type: "stage_updated", stageId, updates });
+  }
+
+  private recordUsage(agent: AgentNode, model: string, usage: TokenUsage) {
+    this.usageTotals = accumulateUsage(this.usageTotals, model, usage, this.prices);
+    this.log("info", `Agent ${agent.name} usage: ${formatUsage(usage, estimateCost(model, usage, this.prices))}`);
+    this.emit({ type: "usage", nodeId: agent.id, model, usage, totals: this.usageTotals });
+  }
+
+  // Run-level total, logged once a multi-node run finishes
+  private logUsageSummary() {
+    const totals = this.usageTotals;
+    if (getTotalTokens(totals) === 0) return;
+    const unpriced = totals.unpricedModels.length > 0 ? ` - no price for ${totals.unpricedModels.join(", ")}` : "";
+    this.log("info", `💰 Run usage: ${formatUsage(totals)}, estimated cost ~${formatCost(totals.cost)}${unpriced}`);
+  }
+
+  private log(level: LogEntry["type"], message: string) {
+    this.emit({ type: "log", level, message });
+  }
+
+  private emit(event: WorkflowRunEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+/**
+ * Normalize a function result to the universal port structure: multi-output
+ * functions keep their ports, single-output functions use the "output" port
+ */
+export function normalizeFunctionOutputs(result: FunctionExecutionResult): {
+  primaryOutput: string;
+  normalizedOutputs: Record<string, string>;
+} {
+  if (Object.keys(result.outputs).length > 1) {
+    return {
+      primaryOutput: Object.values(result.outputs).filter((v) => v).join(INPUT_SEPARATOR),
+      normalizedOutputs: { ...result.outputs },
+    };
+  }
+
+  const singleValue = result.outputs.output || Object.values(result.outputs)[0] || "";
+  return {
+    primaryOutput: singleValue,
+    normalizedOutputs: { output: singleValue },
+  };
+}
@@ -7,8 +7,13 @@ import { Toolbar } from "@/components/toolbar/Toolbar";
 import { OutputLog } from "@/components/output/OutputLog";
 import { ResponsiveLayout } from "@/components/layout/ResponsiveLayout";
 import { FreeAgentView } from "@/components/freeAgent/FreeAgentView";
-import { useState } from "react";
+import { WorkflowLibraryModal } from "@/components/library/WorkflowLibraryModal";
+import { WorkflowHistoryModal } from "@/components/library/WorkflowHistoryModal";
+import { WorkflowTriggersModal } from "@/components/library/WorkflowTriggersModal";
+import { ApprovalDialog } from "@/components/workflow/ApprovalDialog";
+import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkflowLibrary } from "@/hooks/useWorkflowLibrary";
 import type { 
   Workflow, 
   WorkflowNode, 
@@ -19,9 +24,18 @@ import type {
   Connection,
   ToolInstance,
   LogEntry,
-  Note 
+  Note,
+  WorkflowSaveData,
+  WorkflowRevision,
+  LoopConfig,
 } from "@/types/workflow";
-import { FunctionExecutor } from "@/lib/functionExecutor";
+import { WorkflowRunner, type ApprovalHandler, type WorkflowRunEvent } from "@/lib/workflowRunner";
+import type { WorkflowDiffHighlights } from "@/lib/workflowDiff";
+import { accumulateUsage, EMPTY_USAGE_TOTALS } from "@/lib/llmPricing";
+import { DEFAULT_MODEL_ID } from "@/lib/modelRegistry";
+import { getMemoryScope, moveMemoryScope, UNSAVED_MEMORY_SCOPE } from "@/lib/memoryStore";
+import type { UsageTotals } from "@/types/usage";
+import type { ApprovalDecision, ApprovalRequest } from "@/types/functions";
 
 // Legacy export for backward compatibility
 export type { ToolInstance, LogEntry } from "@/types/workflow";
@@ -29,6 +43,8 @@ export type Agent = AgentNode;
 
 type AppMode = "workflow" | "freeAgent";
 
+const AUTOSAVE_DELAY_MS = 2000;
+
 const Index = () => {
   const { toast } = useToast();
   const [appMode, setAppMode] = useState<AppMode>("workflow");
@@ -39,7 +55,9 @@ const Index = () => {
   const [workflowName, setWorkflowName] = useState<string>("Untitled Workflow");
   const [customAgents, setCustomAgents] = useState<any[]>([]);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [selectedModel, setSelectedModel] = useState<"gemini-2.5-flash" | "gemini-2.5-pro" | "gemini-3-pro-preview" | "gemini-2.5-flash-lite" | "claude-sonnet-4-5" | "claude-3-5-haiku" | "claude-opus-4-5" | "grok-4-1-fast-reasoning" | "grok-4-1-fast-non-reasoning">("gemini-2.5-flash");
+  // Token usage of the runs shown in the output log - cleared together with the log
+  const [runUsage, setRunUsage] = useState<UsageTotals>(EMPTY_USAGE_TOTALS);
+  const [selectedModel, setSelectedModel] = useState<string>(DEFAULT_MODEL_ID);
   const [responseLength, setResponseLength] = useState<number>(16384);
   const [thinkingEnabled, setThinkingEnabled] = useState<boolean>(false);
   const [thinkingBudget, setThinkingBudget] = useState<number>(0);
@@ -49,6 +67,28 @@ const Index = () => {
     notes: [],
     viewMode: "stacked",
   });
+  const workflowLibrary = useWorkflowLibrary();
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [currentWorkflowId, setCurrentWorkflowId] = useState<string | null>(null);
+  const [autosaveEnabled, setAutosaveEnabled] = useState(true);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [triggersOpen, setTriggersOpen] = useState(false);
+  // Approval nodes waiting on the user, shown one at a time in arrival order
+  const [approvalQueue, setApprovalQueue] = useState<{ request: ApprovalRequest; resolve: (decision: ApprovalDecision) => void }[]>([]);
+  const [diffHighlights, setDiffHighlights] = useState<WorkflowDiffHighlights | null>(null);
+
+  // Autosave the open library workflow shortly after edits settle
+  useEffect(() => {
+    if (!currentWorkflowId || !autosaveEnabled) return;
+    const timer = setTimeout(async () => {
+      const data = getSaveData();
+      if (await workflowLibrary.saveWorkflow(data, currentWorkflowId)) {
+        void workflowLibrary.recordRevision(currentWorkflowId, data, "autosave");
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workflow, userInput, workflowName, customAgents, selectedModel, responseLength, thinkingEnabled, thinkingBudget, currentWorkflowId, autosaveEnabled]);
 
   const addLog = (type: LogEntry["type"], message: string) => {
     const time = new Date().toLocaleTimeString('en-US', { hour12: false });
@@ -290,6 +330,19 @@ const Index = () => {
     }));
   };
 
+  const updateStage = (stageId: string, updates: Partial<Stage>) => {
+    setWorkflow((prev) => ({
+      ...prev,
+      stages: prev.stages.map((stage) =>
+        stage.id === stageId ? { ...stage, ...updates } : stage
+      ),
+    }));
+  };
+
+  const updateStageLoop = (stageId: string, loop: LoopConfig) => {
+    updateStage(stageId, { loop });
+  };
+
   const reorderStages = (fromIndex: number, toIndex: number) => {
     setWorkflow((prev) => {
       const newStages = [...prev.stages];
@@ -428,10 +481,11 @@ const Index = () => {
     } else if (nodeType === "function") {
       const isLogicGate = template.id === "logic_gate";
       const isPronghorn = template.id === "pronghorn";
-      const supportsMultiInput = isLogicGate || isPronghorn;
+      const isCode = template.id === "code";
+      const supportsMultiInput = isLogicGate || isPronghorn || isCode;
       
       // Default input counts
-      const defaultInputCount = isLogicGate ? 2 : (isPronghorn ? 1 : undefined);
+      const defaultInputCount = isLogicGate ? 2 : (isPronghorn || isCode ? 1 : undefined);
       const defaultInputPorts = supportsMultiInput 
         ? Array.from({ length: defaultInputCount || 1 }, (_, i) => `input_${i + 1}`)
         : undefined;
@@ -441,14 +495,18 @@ const Index = () => {
         nodeType: "function",
         name: template.name,
         functionType: template.id,
-        config: isLogicGate ? { gateType: "AND", outputMode: "single", separator: "\n" } : {},
+        config: isLogicGate
+          ? { gateType: "AND", outputMode: "single", separator: "\n" }
+          : isCode
+            ? { language: "javascript", code: "return input.trim();", timeoutMs: 5000 }
+            : {},
         outputPorts: template.supportsMultipleOutputs 
           ? ["output_1"] 
           : (template.outputs || ["output"]),
         outputCount: template.supportsMultipleOutputs ? 1 : undefined,
         outputs: {},
         status: "idle",
-        // Multi-input support for Logic Gate and Pronghorn
+        // Multi-input support for Logic Gate, Pronghorn and Code
         inputCount: defaultInputCount,
         inputPorts: defaultInputPorts,
         inputs: supportsMultiInput ? {} : undefined,
@@ -541,10 +599,10 @@ const Index = () => {
             functionNode.outputPorts = Array.from({ length: count }, (_, i) => `output_${i + 1}`);
           }
           
-          // If inputCount changed for multi-input functions (logic_gate, pronghorn), update inputPorts
+          // If inputCount changed for multi-input functions (logic_gate, pronghorn, code), update inputPorts
           if (updatedNode.nodeType === "function" && "inputCount" in updates) {
             const functionNode = updatedNode as FunctionNode;
-            const supportsMultiInput = functionNode.functionType === "logic_gate" || functionNode.functionType === "pronghorn";
+            const supportsMultiInput = ["logic_gate", "pronghorn", "code"].includes(functionNode.functionType);
             if (supportsMultiInput) {
               const defaultCount = functionNode.functionType === "logic_gate" ? 2 : 1;
               const count = functionNode.inputCount || defaultCount;
@@ -568,82 +626,6 @@ const Index = () => {
     updateNode(agentId, updates);
   };
 
-  const runStage = async (stageId: string) => {
-    const stage = workflow.stages.find((s) => s.id === stageId);
-    if (!stage) return;
-    
-    addLog("info", `🎯 Stage "${stage.name}" execution started`);
-    setLogs([]);
-    addLog("info", `🎯 Stage "${stage.name}" execution started`);
-    
-    // Reset all non-locked nodes in this stage to idle
-    stage.nodes.forEach((node) => {
-      if (!node.locked) {
-        updateNode(node.id, { status: "idle", output: undefined });
-      }
-    });
-
-    // Execute all nodes in the stage sequentially
-    for (const node of stage.nodes) {
-      // Skip locked nodes
-      if (node.locked) {
-        addLog("info", `${node.nodeType === "agent" ? "Agent" : "Function"} "${node.name}" is locked, skipping execution`);
-        continue;
-      }
-
-      // Get input from connected nodes or use user input
-      const incomingConnections = workflow.connections.filter(
-        (c) => c.toNodeId === node.id
-      );
-      
-      let input = userInput || "";
-      if (incomingConnections.length > 0) {
-        const allNodes = workflow.stages.flatMap((s) => s.nodes);
-        const outputs = incomingConnections
-          .map((c) => {
-            const fromNode = allNodes.find((n) => n.id === c.fromNodeId);
-            if (!fromNode) return "";
-            
-            // Handle output port selection for multi-output functions
-            if (c.fromOutputPort && fromNode.nodeType === "function") {
-              const funcNode = fromNode as FunctionNode;
-              const portValue = funcNode.outputs?.[c.fromOutputPort];
-              if (portValue !== undefined) {
-                return portValue;
-              }
-              if (typeof funcNode.output === 'object' && funcNode.output !== null) {
-                return (funcNode.output as any)[c.fromOutputPort] || "";
-              }
-              return funcNode.output || "";
-            }
-            
-            // Handle beast mode outputs from agents
-            if (c.fromOutputPort && fromNode.nodeType === "agent") {
-              const agentNode = fromNode as AgentNode;
-              if (agentNode.beastModeOutputs?.[c.fromOutputPort]) {
-                return agentNode.beastModeOutputs[c.fromOutputPort];
-              }
-            }
-            
-            return fromNode.output || "";
-          })
-          .filter(Boolean);
-        if (outputs.length > 0) {
-          input = outputs.join("\n\n");
-        }
-      }
-
-      // Execute the node based on type
-      if (node.nodeType === "agent") {
-        await runSingleAgent(node.id, input);
-      } else if (node.nodeType === "function") {
-        await runSingleFunction(node.id, input);
-      }
-    }
-    
-    addLog("success", `✓ Stage "${stage.name}" execution completed`);
-  };
-
   const toggleMinimize = (nodeId: string) => {
     setWorkflow((prev) => ({
       ...prev,
@@ -926,18 +908,19 @@ const Index = () => {
     }));
   };
 
+  const getSaveData = (): WorkflowSaveData => ({
+    workflow,
+    userInput,
+    workflowName,
+    customAgents,
+    selectedModel,
+    responseLength,
+    thinkingEnabled,
+    thinkingBudget,
+  });
+
   const saveWorkflow = () => {
-    const saveData = {
-      workflow,
-      userInput,
-      workflowName,
-      customAgents,
-      selectedModel,
-      responseLength,
-      thinkingEnabled,
-      thinkingBudget,
-    };
-    const json = JSON.stringify(saveData, null, 2);
+    const json = JSON.stringify(getSaveData(), null, 2);
     const blob = new Blob([json], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -1023,50 +1006,55 @@ const Index = () => {
     };
   };
 
+  // Restore editor state from saved data (file or library). Handles both the
+  // metadata format and the legacy format (just the workflow object).
+  const applySaveData = (loaded: Partial<WorkflowSaveData> & Partial<Workflow>, reposition: boolean) => {
+    let loadedWorkflow: Workflow;
+    
+    if (loaded.workflow) {
+      // New format with metadata
+      loadedWorkflow = loaded.workflow;
+      
+      // Migrate legacy "default" ports to "output" for consistency
+      loadedWorkflow.connections = loadedWorkflow.connections.map(conn => ({
+        ...conn,
+        fromOutputPort: conn.fromOutputPort === "default" ? "output" : conn.fromOutputPort
+      }));
+      setUserInput(loaded.userInput || "");
+      setWorkflowName(loaded.workflowName || "Untitled Workflow");
+      setCustomAgents(loaded.customAgents || []);
+      setSelectedModel(loaded.selectedModel || DEFAULT_MODEL_ID);
+      // Ensure responseLength is always a number, not a string like "2xl"
+      const loadedLength = loaded.responseLength ?? 8192;
+      setResponseLength(typeof loadedLength === 'number' ? loadedLength : 8192);
+      setThinkingEnabled(loaded.thinkingEnabled || false);
+      setThinkingBudget(loaded.thinkingBudget ?? 0);
+    } else {
+      // Old format (just the workflow object) - ensure stages array exists
+      loadedWorkflow = {
+        stages: loaded.stages || [],
+        connections: (loaded.connections || []).map((conn: Connection) => ({
+          ...conn,
+          fromOutputPort: conn.fromOutputPort === "default" ? "output" : conn.fromOutputPort
+        })),
+        notes: loaded.notes || [],
+      };
+    }
+    
+    // Reposition stages vertically to prevent overlap
+    setWorkflow(reposition ? repositionStagesVertically(loadedWorkflow) : loadedWorkflow);
+    setSelectedNode(null);
+    setDiffHighlights(null);
+  };
+
   const loadWorkflow = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const loaded = JSON.parse(e.target?.result as string);
-        
-        let loadedWorkflow: Workflow;
-        
-        // Handle both old format (just workflow) and new format (with metadata)
-        if (loaded.workflow) {
-          // New format with metadata
-          loadedWorkflow = loaded.workflow;
-          
-          // Migrate legacy "default" ports to "output" for consistency
-          loadedWorkflow.connections = loadedWorkflow.connections.map(conn => ({
-            ...conn,
-            fromOutputPort: conn.fromOutputPort === "default" ? "output" : conn.fromOutputPort
-          }));
-          setUserInput(loaded.userInput || "");
-          setWorkflowName(loaded.workflowName || "Untitled Workflow");
-          setCustomAgents(loaded.customAgents || []);
-          setSelectedModel(loaded.selectedModel || "gemini-2.5-flash");
-          // Ensure responseLength is always a number, not a string like "2xl"
-          const loadedLength = loaded.responseLength ?? 8192;
-          setResponseLength(typeof loadedLength === 'number' ? loadedLength : 8192);
-          setThinkingEnabled(loaded.thinkingEnabled || false);
-          setThinkingBudget(loaded.thinkingBudget ?? 0);
-        } else {
-          // Old format (just the workflow object) - ensure stages array exists
-          loadedWorkflow = {
-            stages: loaded.stages || [],
-            connections: (loaded.connections || []).map((conn: Connection) => ({
-              ...conn,
-              fromOutputPort: conn.fromOutputPort === "default" ? "output" : conn.fromOutputPort
-            })),
-            notes: loaded.notes || [],
-          };
-        }
-        
-        // Reposition stages vertically to prevent overlap
-        const repositionedWorkflow = repositionStagesVertically(loadedWorkflow);
-        setWorkflow(repositionedWorkflow);
-        
-        setSelectedNode(null);
+        applySaveData(loaded, true);
+        // A file import is not tied to a library entry until it is saved there
+        setCurrentWorkflowId(null);
       } catch (error) {
         console.error("Failed to load workflow:", error);
         alert("Failed to load workflow file");
@@ -1075,17 +1063,63 @@ const Index = () => {
     reader.readAsText(file);
   };
 
+  const saveToLibrary = async (asNew: boolean) => {
+    const data = getSaveData();
+    const savedId = await workflowLibrary.saveWorkflow(data, asNew ? null : currentWorkflowId);
+    if (savedId) {
+      // Memory gathered before the first save moves with the workflow into the library
+      if (!currentWorkflowId) moveMemoryScope(UNSAVED_MEMORY_SCOPE, getMemoryScope(savedId));
+      setCurrentWorkflowId(savedId);
+      void workflowLibrary.recordRevision(savedId, data, "manual");
+      toast({ title: "Workflow saved", description: `"${workflowName}" was saved to the library.` });
+    } else {
+      toast({ title: "Save failed", description: "Could not save the workflow to the library.", variant: "destructive" });
+    }
+  };
+
+  const openFromLibrary = async (id: string) => {
+    const data = await workflowLibrary.openWorkflow(id);
+    if (!data) {
+      toast({ title: "Open failed", description: "Could not load the workflow from the library.", variant: "destructive" });
+      return;
+    }
+    applySaveData(data, false);
+    setCurrentWorkflowId(id);
+    addLog("info", `Opened "${data.workflowName}" from the library`);
+  };
+
+  // Snapshot the editor first so the restore itself can be undone from history
+  const restoreRevision = async (revision: WorkflowRevision) => {
+    if (!currentWorkflowId) return;
+    await workflowLibrary.recordRevision(currentWorkflowId, getSaveData(), "manual");
+
+    const restored: WorkflowSaveData = { ...revision.data, workflowName };
+    applySaveData(structuredClone(restored), false);
+    if (await workflowLibrary.saveWorkflow(restored, currentWorkflowId)) {
+      await workflowLibrary.recordRevision(currentWorkflowId, restored, "restore");
+    }
+    addLog("info", `Restored revision from ${new Date(revision.updatedAt).toLocaleString()}`);
+    toast({ title: "Revision restored", description: "The previous state is kept in the version history." });
+  };
+
+  const showDiffOnCanvas = (highlights: WorkflowDiffHighlights) => {
+    setDiffHighlights(highlights);
+    setViewMode("canvas");
+  };
+
   const clearWorkflow = () => {
     if (confirm("Are you sure you want to clear the entire workflow?")) {
       setWorkflow({ stages: [], connections: [], notes: [] });
       setUserInput("");
       setWorkflowName("Untitled Workflow");
       setCustomAgents([]); // Reset to only default agents
-      setSelectedModel("gemini-2.5-flash");
+      setSelectedModel(DEFAULT_MODEL_ID);
       setThinkingEnabled(false);
       setThinkingBudget(0);
       setSelectedNode(null);
       setConnectingFrom(null);
+      setCurrentWorkflowId(null);
+      setDiffHighlights(null);
     }
   };
 
@@ -1173,1757 +1207,100 @@ const Index = () => {
     }));
   };
 
-  // Helper to check if a value is null-like (null, empty string, empty array, empty object, or their string equivalents)
-  const isNullLikeValue = (value: string): boolean => {
-    if (!value || value.trim() === "") return true;
-    
-    const trimmed = value.trim();
-    // Check for empty array or object representations
-    if (trimmed === "[]" || trimmed === "{}") return true;
-    
-    // Try parsing as JSON to check for actual empty arrays/objects
-    try {
-      const parsed = JSON.parse(trimmed);
-      if (Array.isArray(parsed) && parsed.length === 0) return true;
-      if (typeof parsed === "object" && parsed !== null && Object.keys(parsed).length === 0) return true;
-    } catch {
-      // Not valid JSON, continue with other checks
+  const handleRunnerEvent = (event: WorkflowRunEvent) => {
+    switch (event.type) {
+      case "node_updated":
+        updateNode(event.nodeId, event.updates);
+        break;
+      case "stage_updated":
+        updateStage(event.stageId, event.updates);
+        break;
+      case "connections_changed":
+        setWorkflow((prev) => ({ ...prev, connections: event.connections }));
+        break;
+      case "log":
+        addLog(event.level, event.message);
+        break;
+      case "usage":
+        setRunUsage((prev) => accumulateUsage(prev, event.model, event.usage));
+        break;
     }
-    
-    return false;
   };
 
-  const runSingleAgent = async (nodeId: string, customInput?: string) => {
-    const allNodes = workflow.stages.flatMap((s) => s.nodes);
-    const node = allNodes.find((n) => n.id === nodeId);
-    if (!node || node.nodeType !== "agent") return;
-    
-    const agent = node as AgentNode;
-
-    // Skip execution if node is locked
-    if (agent.locked) {
-      addLog("info", `Agent "${agent.name}" is locked, skipping execution`);
-      return;
-    }
-
-    // Check if Beast Mode is enabled
-    if (agent.beastMode?.enabled) {
-      await runAgentBeastMode(nodeId, agent);
-      return;
-    }
+  // Approval nodes queue a request and wait; the dialog resolves the oldest one with the reviewer's decision
+  const requestApproval: ApprovalHandler = (request) =>
+    new Promise((resolve) => {
+      setApprovalQueue((prev) => [...prev, { request, resolve }]);
+    });
 
-    // Regular execution
-    await executeAgentOnce(nodeId, agent, customInput);
+  const decideApproval = (decision: ApprovalDecision) => {
+    approvalQueue[0]?.resolve(decision);
+    setApprovalQueue((prev) => prev.slice(1));
   };
 
-  // Execute agent a single time with given input
-  const executeAgentOnce = async (nodeId: string, agent: AgentNode, customInput?: string, portOverride?: { nodeId: string; port: string }) => {
-    const allNodes = workflow.stages.flatMap((s) => s.nodes);
-
-    // Check if input is null-like and executeOnNullInput is false
-    if (!agent.executeOnNullInput && !customInput && !portOverride) {
-      const incomingConnections = workflow.connections.filter((c) => c.toNodeId === nodeId);
-      const isStage1 = workflow.stages[0]?.nodes.some(n => n.id === agent.id);
-      
-      let input = "";
-      
-      if (incomingConnections.length > 0) {
-        const outputsFromConnections = incomingConnections
-          .map((c) => {
-            const fromNode = allNodes.find((n) => n.id === c.fromNodeId);
-            if (!fromNode) return "";
-            
-            let portToRead = c.fromOutputPort;
-            
-            if (!portToRead && fromNode.nodeType === "function") {
-              const funcNode = fromNode as FunctionNode;
-              if (funcNode.outputs) {
-                portToRead = Object.keys(funcNode.outputs)[0] || "output";
-              } else {
-                portToRead = "output";
-              }
-            }
-            
-            if (fromNode.nodeType === "function" && portToRead) {
-              const funcNode = fromNode as FunctionNode;
-              const portValue = funcNode.outputs?.[portToRead];
-              return portValue !== undefined && portValue !== null ? String(portValue) : "";
-            }
-            
-            return fromNode?.output || "";
-          });
-        
-        const nonEmptyOutputs = outputsFromConnections.filter((v) => v !== undefined && v !== null && String(v).trim().length > 0);
-        
-        if (nonEmptyOutputs.length > 0) {
-          input = nonEmptyOutputs.join("\n\n---\n\n");
-        }
-      } else if (isStage1) {
-        input = userInput || "";
-      }
-      
-      if (isNullLikeValue(input)) {
-        addLog("warning", `Agent "${agent.name}" skipped - input is null/empty and "Execute on NULL Input" is disabled`);
-        updateNode(nodeId, { status: "idle", output: "" });
-        return "";
-      }
-    }
-
-    addLog("info", `Starting agent: ${agent.name}`);
-    updateNode(nodeId, { status: "running" });
-    
-    try {
-      const incomingConnections = workflow.connections.filter(
-        (c) => c.toNodeId === nodeId
-      );
-      
-      let input = "";
-      const isStage1 = workflow.stages[0]?.nodes.some(n => n.id === agent.id);
-      
-      // If portOverride is provided, use that specific port's content
-      if (portOverride) {
-        const fromNode = allNodes.find((n) => n.id === portOverride.nodeId);
-        if (fromNode) {
-          if (fromNode.nodeType === "function") {
-            const funcNode = fromNode as FunctionNode;
-            input = funcNode.outputs?.[portOverride.port] || "";
-          } else if (fromNode.nodeType === "agent") {
-            const agentNode = fromNode as AgentNode;
-            input = agentNode.beastModeOutputs?.[portOverride.port] || fromNode.output || "";
-          } else {
-            input = fromNode.output || "";
-          }
-        }
-      } else if (customInput !== undefined) {
-        input = customInput;
-      } else if (incomingConnections.length > 0) {
-        const outputsFromConnections = incomingConnections
-          .map((c) => {
-            const fromNode = allNodes.find((n) => n.id === c.fromNodeId);
-            if (!fromNode) return "";
-            
-            let portToRead = c.fromOutputPort;
-            
-            if (!portToRead && fromNode.nodeType === "function") {
-              const funcNode = fromNode as FunctionNode;
-              if (funcNode.outputs) {
-                portToRead = Object.keys(funcNode.outputs)[0] || "output";
-              } else {
-                portToRead = "output";
-              }
-            }
-            
-            if (fromNode.nodeType === "function" && portToRead) {
-              const funcNode = fromNode as FunctionNode;
-              const portValue = funcNode.outputs?.[portToRead];
-              return portValue !== undefined && portValue !== null ? String(portValue) : "";
-            }
-            
-            // Handle beast mode outputs from agents
-            if (fromNode.nodeType === "agent" && portToRead) {
-              const agentNode = fromNode as AgentNode;
-              if (agentNode.beastModeOutputs?.[portToRead]) {
-                return agentNode.beastModeOutputs[portToRead];
-              }
-            }
-            
-            return fromNode?.output || "";
-          });
-        
-        const nonEmptyOutputs = outputsFromConnections.filter((v) => v !== undefined && v !== null && String(v).trim().length > 0);
-        
-        if (nonEmptyOutputs.length > 0) {
-          input = nonEmptyOutputs.join("\n\n---\n\n");
-          addLog("info", `Agent ${agent.name} received input from ${incomingConnections.length} connection(s)`);
-        }
-      } else if (isStage1) {
-        input = userInput || "";
-      }
-
-      if (agent.tools.length > 0) {
-        agent.tools.forEach(tool => {
-          addLog("running", `Executing tool: ${tool.toolId}`);
-        });
-      }
-      
-      const promptValue = userInput || "";
-      
-      const userPrompt = agent.userPrompt
-        .replace(/{input}/gi, input)
-        .replace(/{prompt}/gi, promptValue);
-      
-      const toolsPayload = agent.tools.map(t => ({
-        toolId: t.toolId,
-        config: t.config,
-      }));
-      
-      addLog("running", `Agent ${agent.name} processing with AI...`);
-      
-      const effectiveModel = agent.useSpecificModel && agent.model ? agent.model : selectedModel;
-      const effectiveResponseLength = agent.useSpecificModel && agent.responseLength ? agent.responseLength : responseLength;
-      const effectiveThinkingEnabled = agent.useSpecificModel ? (agent.thinkingEnabled ?? false) : thinkingEnabled;
-      const effectiveThinkingBudget = agent.useSpecificModel ? (agent.thinkingBudget ?? 0) : thinkingBudget;
-      
-      const edgeFunction = effectiveModel.startsWith("claude-") 
-        ? "run-agent-anthropic" 
-        : effectiveModel.startsWith("grok-")
-        ? "run-agent-xai"
-        : "run-agent";
-      
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${edgeFunction}`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          systemPrompt: agent.systemPrompt,
-          userPrompt,
-          tools: toolsPayload,
-          model: effectiveModel,
-          maxOutputTokens: effectiveResponseLength,
-          thinkingEnabled: effectiveThinkingEnabled,
-          thinkingBudget: effectiveThinkingBudget,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Full error from edge function:", errorText);
-        throw new Error(errorText || `Server error: ${response.status}`);
-      }
-
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      
-      if (!reader) {
-        throw new Error("No response body reader available");
-      }
-
-      let accumulatedOutput = "";
-      let textBuffer = "";
-      let lastUpdate = Date.now();
-      let chunksReceived = 0;
-      let isFirstDelta = true;
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) {
-            console.log(`Client stream ended. Total chunks: ${chunksReceived}, Final output length: ${accumulatedOutput.length}`);
-            break;
-          }
+  // Each run gets a fresh runner seeded with the current workflow and settings
+  const createRunner = () =>
+    new WorkflowRunner({
+      workflow,
+      userInput,
+      settings: { selectedModel, responseLength, thinkingEnabled, thinkingBudget },
+      onEvent: handleRunnerEvent,
+      workflowId: currentWorkflowId,
+      loadWorkflow: workflowLibrary.openWorkflow,
+      requestApproval,
+    });
 
-          chunksReceived++;
-          textBuffer += decoder.decode(value, { stream: true });
-          
-          let newlineIndex: number;
-          while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
-            let line = textBuffer.slice(0, newlineIndex);
-            textBuffer = textBuffer.slice(newlineIndex + 1);
-
-            if (line.endsWith("\r")) line = line.slice(0, -1);
-            if (line.startsWith(":") || line.trim() === "") continue;
-            if (!line.startsWith("data: ")) continue;
-
-            const jsonStr = line.slice(6).trim();
-            if (!jsonStr) continue;
-
-            try {
-              const parsed = JSON.parse(jsonStr);
-              
-              if (parsed.type === 'tools' && parsed.toolOutputs) {
-                parsed.toolOutputs.forEach((toolOutput: any) => {
-                  console.log(`Tool Output [${toolOutput.toolId}]:`, toolOutput.output);
-                  addLog("info", `Tool Output [${toolOutput.toolId}]: ${JSON.stringify(toolOutput.output, null, 2)}`);
-                });
-              } else if (parsed.type === 'delta' && parsed.text) {
-                if (isFirstDelta) {
-                  updateNode(nodeId, { output: "" });
-                  isFirstDelta = false;
-                }
-                
-                accumulatedOutput += parsed.text;
-                
-                const now = Date.now();
-                if (now - lastUpdate > 100) {
-                  updateNode(nodeId, { output: accumulatedOutput });
-                  lastUpdate = now;
-                }
-              } else if (parsed.type === 'done') {
-                console.log(`Stream finished. Reason: ${parsed.finishReason}, Total output length: ${accumulatedOutput.length}`);
-                if (parsed.truncated) {
-                  addLog("warning", `Response was truncated (${parsed.finishReason})`);
-                }
-              }
-            } catch (parseError) {
-              console.error(`Failed to parse SSE chunk at line ${chunksReceived}:`, parseError);
-            }
-          }
-        }
-        
-        updateNode(nodeId, { output: accumulatedOutput });
-      } catch (streamError) {
-        console.error("Stream reading error:", streamError);
-        addLog("error", `Stream error: ${streamError}`);
-      } finally {
-        reader.releaseLock();
-      }
-      
-      updateNode(nodeId, { status: "complete", output: accumulatedOutput || "No output generated" });
-      addLog("success", `Agent ${agent.name} completed successfully`);
-      return accumulatedOutput;
-    } catch (error) {
-      console.error("Agent execution failed:", error);
-      updateNode(nodeId, { status: "error", output: `Error: ${error}` });
-      addLog("error", `Agent ${agent.name} failed: ${error}`);
-      return "";
-    }
+  const runSingleAgent = async (nodeId: string, customInput?: string) => {
+    await createRunner().runNode(nodeId, customInput);
   };
 
-  // Beast Mode execution - iterate through all output ports of connected card
-  const runAgentBeastMode = async (nodeId: string, agent: AgentNode) => {
-    const allNodes = workflow.stages.flatMap((s) => s.nodes);
-    const incomingConnections = workflow.connections.filter((c) => c.toNodeId === nodeId);
-    
-    if (incomingConnections.length === 0) {
-      addLog("warning", `Beast Mode: No connections found for agent "${agent.name}"`);
-      return;
-    }
-
-    // Get the first connected node (the "connected card")
-    const firstConnection = incomingConnections[0];
-    const connectedNode = allNodes.find((n) => n.id === firstConnection.fromNodeId);
-    
-    if (!connectedNode) {
-      addLog("error", `Beast Mode: Connected node not found`);
-      return;
-    }
-
-    // Get all output ports from the connected node that have content
-    let outputPorts: string[] = [];
-    if (connectedNode.nodeType === "function") {
-      const funcNode = connectedNode as FunctionNode;
-      // Get all defined output ports
-      const allPorts = funcNode.outputPorts || ["output"];
-      // Filter to only ports that have content
-      outputPorts = allPorts.filter(port => {
-        const content = funcNode.outputs?.[port];
-        return content && String(content).trim().length > 0;
-      });
-    } else {
-      // For agents, there's typically just one output
-      if (connectedNode.output && connectedNode.output.trim().length > 0) {
-        outputPorts = ["output"];
-      }
-    }
-
-    if (outputPorts.length === 0) {
-      addLog("warning", `Beast Mode: No outputs with content found in connected card "${connectedNode.name}"`);
-      return;
-    }
-
-    addLog("info", `Beast Mode: Processing ${outputPorts.length} outputs from "${connectedNode.name}"`);
-    updateNode(nodeId, { status: "running", output: "" });
-
-    const results: string[] = [];
-    const outputMode = agent.beastMode?.outputMode || "concatenate";
-
-    // Store original connections to restore later
-    const originalConnections = [...workflow.connections];
-
-    try {
-      for (let i = 0; i < outputPorts.length; i++) {
-        const port = outputPorts[i];
-        addLog("running", `Beast Mode: Iteration ${i + 1}/${outputPorts.length} - processing port "${port}"`);
-        
-        // Visually switch the connection to the current port
-        // Create a temporary connection pointing to this specific port
-        const tempConnections = originalConnections.map(conn => {
-          if (conn.toNodeId === nodeId && conn.fromNodeId === connectedNode.id) {
-            return { ...conn, fromOutputPort: port };
-          }
-          return conn;
-        });
-        
-        // If no existing connection to this node, create one temporarily
-        const hasConnectionFromSource = originalConnections.some(
-          c => c.toNodeId === nodeId && c.fromNodeId === connectedNode.id
-        );
-        
-        if (!hasConnectionFromSource) {
-          tempConnections.push({
-            id: `temp-beast-${Date.now()}-${i}`,
-            fromNodeId: connectedNode.id,
-            toNodeId: nodeId,
-            fromOutputPort: port
-          });
-        }
-        
-        // Update workflow with temporary connection (visual feedback)
-        setWorkflow(prev => ({ ...prev, connections: tempConnections }));
-        
-        // Small delay to allow UI to update and show the connection switch
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        // Update progress in output
-        updateNode(nodeId, { 
-          output: `Beast Mode: Processing ${i + 1}/${outputPorts.length} (${port})...\n\n${results.join("\n\n---\n\n")}` 
-        });
-
-        // Execute agent with this specific port's content
-        const result = await executeAgentOnce(nodeId, agent, undefined, { 
-          nodeId: connectedNode.id, 
-          port 
-        });
-        
-        if (result) {
-          results.push(result);
-        }
-      }
-
-      // Combine results based on outputMode
-      let finalOutput = "";
-      const outputMode = agent.beastMode?.outputMode || "concatenate";
-      
-      if (outputMode === "split") {
-        // Create dynamic output ports for each result
-        const dynamicOutputPorts: string[] = [];
-        const dynamicOutputs: Record<string, string> = {};
-        
-        for (let i = 0; i < results.length; i++) {
-          const portName = `output_${i + 1}`;
-          dynamicOutputPorts.push(portName);
-          dynamicOutputs[portName] = results[i];
-        }
-        
-        finalOutput = results.join("\n\n---\n\n");
-        
-        // Update agent with beast mode outputs AND restore connections in one update
-        setWorkflow(prev => ({
-          ...prev,
-          connections: originalConnections, // Restore original connections
-          stages: prev.stages.map(stage => ({
-            ...stage,
-            nodes: stage.nodes.map(node => {
-              if (node.id === nodeId && node.nodeType === "agent") {
-                return {
-                  ...node,
-                  status: "complete" as const,
-                  output: finalOutput,
-                  beastModeOutputs: dynamicOutputs,
-                  beastModeOutputPorts: dynamicOutputPorts,
-                };
-              }
-              return node;
-            }),
-          })),
-        }));
-      } else {
-        // Concatenate mode - restore connections and update node
-        setWorkflow(prev => ({
-          ...prev,
-          connections: originalConnections,
-          stages: prev.stages.map(stage => ({
-            ...stage,
-            nodes: stage.nodes.map(node => {
-              if (node.id === nodeId) {
-                return {
-                  ...node,
-                  status: "complete" as const,
-                  output: finalOutput,
-                  // Clear any existing beast mode outputs
-                  beastModeOutputs: undefined,
-                  beastModeOutputPorts: undefined,
-                };
-              }
-              return node;
-            }),
-          })),
-        }));
-      }
-
-      addLog("success", `Beast Mode: Agent "${agent.name}" completed ${outputPorts.length} iterations`);
-
-    } catch (error) {
-      console.error("Beast Mode execution failed:", error);
-      updateNode(nodeId, { status: "error", output: `Beast Mode Error: ${error}` });
-      addLog("error", `Beast Mode: Agent "${agent.name}" failed: ${error}`);
-      
-      // Restore connections on error
-      setWorkflow(prev => ({ ...prev, connections: originalConnections }));
-    }
+  const runSingleFunction = async (nodeId: string, customInput?: string) => {
+    await createRunner().runNode(nodeId, customInput);
   };
 
-  // Beast Mode execution for functions - iterate through all output ports of connected card
-  const runFunctionBeastMode = async (nodeId: string, functionNode: FunctionNode) => {
-    const allNodes = workflow.stages.flatMap((s) => s.nodes);
-    const incomingConnections = workflow.connections.filter((c) => c.toNodeId === nodeId);
-    
-    if (incomingConnections.length === 0) {
-      addLog("warning", `Beast Mode: No connections found for function "${functionNode.name}"`);
-      return;
-    }
-
-    // Get the first connected node (the "connected card")
-    const firstConnection = incomingConnections[0];
-    const connectedNode = allNodes.find((n) => n.id === firstConnection.fromNodeId);
-    
-    if (!connectedNode) {
-      addLog("error", `Beast Mode: Connected node not found`);
-      return;
-    }
-
-    // Get all output ports from the connected node that have content
-    let outputPorts: string[] = [];
-    if (connectedNode.nodeType === "function") {
-      const funcNode = connectedNode as FunctionNode;
-      const allPorts = funcNode.outputPorts || ["output"];
-      outputPorts = allPorts.filter(port => {
-        const content = funcNode.outputs?.[port];
-        return content && String(content).trim().length > 0;
-      });
-    } else if (connectedNode.nodeType === "agent") {
-      // Check for beast mode outputs from agent
-      const agentNode = connectedNode as AgentNode;
-      if (agentNode.beastModeOutputPorts && agentNode.beastModeOutputs) {
-        outputPorts = agentNode.beastModeOutputPorts.filter(port => {
-          const content = agentNode.beastModeOutputs?.[port];
-          return content && String(content).trim().length > 0;
-        });
-      } else if (connectedNode.output && String(connectedNode.output).trim().length > 0) {
-        outputPorts = ["output"];
-      }
-    }
-
-    if (outputPorts.length === 0) {
-      addLog("warning", `Beast Mode: No outputs with content found in connected card "${connectedNode.name}"`);
-      return;
-    }
-
-    addLog("info", `Beast Mode: Processing ${outputPorts.length} outputs from "${connectedNode.name}"`);
-    updateNode(nodeId, { status: "running", output: "" });
+  const runWorkflow = async () => {
+    setLogs([]); // Clear previous logs
+    setRunUsage(EMPTY_USAGE_TOTALS);
+    await createRunner().runAll();
+  };
 
-    const results: string[] = [];
-    const imageResults: string[] = [];
-    const audioResults: string[] = [];
-    const outputMode = functionNode.beastMode?.outputMode || "concatenate";
+  const runStage = async (stageId: string) => {
+    setLogs([]);
+    setRunUsage(EMPTY_USAGE_TOTALS);
+    await createRunner().runStage(stageId);
+  };
 
-    // Store original connections to restore later
-    const originalConnections = [...workflow.connections];
+  // Run Downstream: Execute a node and all its downstream connected nodes
+  const runDownstream = async (startNodeId: string) => {
+    await createRunner().runDownstream(startNodeId);
+  };
 
-    try {
-      for (let i = 0; i < outputPorts.length; i++) {
-        const port = outputPorts[i];
-        addLog("running", `Beast Mode: Iteration ${i + 1}/${outputPorts.length} - processing port "${port}"`);
-        
-        // Visually switch the connection to the current port
-        const tempConnections = originalConnections.map(conn => {
-          if (conn.toNodeId === nodeId && conn.fromNodeId === connectedNode.id) {
-            return { ...conn, fromOutputPort: port };
-          }
-          return conn;
-        });
-        
-        // Update workflow with temporary connection (visual feedback)
-        setWorkflow(prev => ({ ...prev, connections: tempConnections }));
-        
-        // Small delay to allow UI to update
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        // Update progress in output
-        updateNode(nodeId, { 
-          output: `Beast Mode: Processing ${i + 1}/${outputPorts.length} (${port})...` 
-        });
+  const clearWorkflowOutputs = () => {
+    setWorkflow(prev => ({
+      ...prev,
+      stages: prev.stages.map(stage => ({
+        ...stage,
+        nodes: stage.nodes.map(node => ({
+          ...node,
+          output: "",
+          outputs: {},
+          input: "",
+          status: "idle" as const
+        }))
+      }))
+    }));
+    toast({
+      title: "Outputs Cleared",
+      description: "All node outputs and inputs have been cleared."
+    });
+  };
 
-        // Get input for this specific port
-        let portInput = "";
-        if (connectedNode.nodeType === "function") {
-          portInput = (connectedNode as FunctionNode).outputs?.[port] || "";
-        } else if (connectedNode.nodeType === "agent") {
-          const agentNode = connectedNode as AgentNode;
-          if (agentNode.beastModeOutputs?.[port]) {
-            portInput = agentNode.beastModeOutputs[port];
-          } else {
-            portInput = String(connectedNode.output || "");
-          }
-        }
-
-        // Execute function with this specific port's content
-        const result = await FunctionExecutor.execute(functionNode, portInput);
-        
-        if (result.success) {
-          const outputValue = result.outputs.output || Object.values(result.outputs)[0] || "";
-          if (outputValue) {
-            results.push(String(outputValue));
-          }
-          
-          // Collect media outputs
-          if (result.imageOutput) {
-            imageResults.push(result.imageOutput);
-          }
-          if (result.audioOutput) {
-            audioResults.push(result.audioOutput);
-          }
-        }
-      }
-
-      // Combine results based on outputMode
-      let finalOutput = "";
-      const dynamicOutputPorts: string[] = [];
-      const dynamicOutputs: Record<string, string> = {};
-      
-      if (outputMode === "split") {
-        // Create dynamic output ports for each result
-        for (let i = 0; i < results.length; i++) {
-          const portName = `output_${i + 1}`;
-          dynamicOutputPorts.push(portName);
-          dynamicOutputs[portName] = results[i];
-        }
-        finalOutput = results.join("\n\n---\n\n");
-        
-        // Update function node with dynamic outputs
-        setWorkflow(prev => ({
-          ...prev,
-          stages: prev.stages.map(stage => ({
-            ...stage,
-            nodes: stage.nodes.map(node => {
-              if (node.id === nodeId && node.nodeType === "function") {
-                return {
-                  ...node,
-                  status: "complete" as const,
-                  output: finalOutput,
-                  outputPorts: dynamicOutputPorts,
-                  outputs: dynamicOutputs,
-                  imageOutput: imageResults[0],
-                  audioOutput: audioResults[0],
-                  imageOutputs: imageResults.length > 0 ? imageResults : undefined,
-                  audioOutputs: audioResults.length > 0 ? audioResults : undefined,
-                };
-              }
-              return node;
-            }),
-          })),
-        }));
-      } else {
-        // Concatenate mode
-        finalOutput = results.join("\n\n---\n\n");
-        updateNode(nodeId, { 
-          status: "complete", 
-          output: finalOutput,
-          outputs: { output: finalOutput },
-          imageOutput: imageResults[0],
-          audioOutput: audioResults[0],
-          imageOutputs: imageResults.length > 0 ? imageResults : undefined,
-          audioOutputs: audioResults.length > 0 ? audioResults : undefined,
-        });
-      }
-
-      addLog("success", `Beast Mode: Function "${functionNode.name}" completed ${outputPorts.length} iterations`);
-
-      // Restore original connections
-      setWorkflow(prev => ({ ...prev, connections: originalConnections }));
-
-    } catch (error) {
-      console.error("Beast Mode execution failed:", error);
-      updateNode(nodeId, { status: "error", output: `Beast Mode Error: ${error}` });
-      addLog("error", `Beast Mode: Function "${functionNode.name}" failed: ${error}`);
-      
-      // Restore connections on error
-      setWorkflow(prev => ({ ...prev, connections: originalConnections }));
-    }
-  };
-
-  const runSingleFunction = async (nodeId: string, customInput?: string) => {
-    const allNodes = workflow.stages.flatMap((s) => s.nodes);
-    const node = allNodes.find((n) => n.id === nodeId);
-    if (!node || node.nodeType !== "function") return;
-    
-    const functionNode = node as FunctionNode;
-
-    // Skip execution if node is locked
-    if (functionNode.locked) {
-      addLog("info", `Function "${functionNode.name}" is locked, skipping execution`);
-      return;
-    }
-
-    // Check if Beast Mode is enabled
-    if (functionNode.beastMode?.enabled) {
-      await runFunctionBeastMode(nodeId, functionNode);
-      return;
-    }
-
-    // Check if input is null-like and executeOnNullInput is false
-    if (!functionNode.executeOnNullInput) {
-      const incomingConnections = workflow.connections.filter((c) => c.toNodeId === nodeId);
-      const allNodes = workflow.stages.flatMap((s) => s.nodes);
-      const isStage1 = workflow.stages[0]?.nodes.some(n => n.id === functionNode.id);
-      
-      let input = "";
-      
-      if (incomingConnections.length > 0) {
-        const outputsFromConnections = incomingConnections
-          .map((c) => {
-            const fromNode = allNodes.find((n) => n.id === c.fromNodeId);
-            if (!fromNode) return "";
-            
-            // Determine which port to read from (universal port syntax)
-            let portToRead = c.fromOutputPort;
-            
-            // Legacy support: if no port specified, default to first port
-            if (!portToRead && fromNode.nodeType === "function") {
-              const funcNode = fromNode as FunctionNode;
-              if (funcNode.outputs) {
-                portToRead = Object.keys(funcNode.outputs)[0] || "output";
-              } else {
-                portToRead = "output";
-              }
-            }
-            
-            // For functions, read from the specific port
-            if (fromNode.nodeType === "function" && portToRead) {
-              const funcNode = fromNode as FunctionNode;
-              const portValue = funcNode.outputs?.[portToRead];
-              return portValue !== undefined && portValue !== null ? String(portValue) : "";
-            }
-            
-            // For agents, use the primary output
-            return fromNode?.output || "";
-          });
-        
-        const nonEmptyOutputs = outputsFromConnections.filter((v) => v !== undefined && v !== null && String(v).trim().length > 0);
-        
-        if (nonEmptyOutputs.length > 0) {
-          input = nonEmptyOutputs.join("\n\n---\n\n");
-        } else {
-          input = "";
-        }
-      } else if (isStage1) {
-        input = userInput || "";
-      }
-      
-      // Special case for Content function: check both input AND user-defined content
-      const rawContent = functionNode.config?.content ?? "";
-      const hasContentValue = functionNode.functionType === "content" && !isNullLikeValue(rawContent);
-      const shouldSkip = isNullLikeValue(input) && !hasContentValue;
-      
-      if (shouldSkip) {
-        addLog("warning", `Function "${functionNode.name}" skipped - input is null/empty and "Execute on NULL Input" is disabled`);
-        updateNode(nodeId, { status: "idle", output: "" });
-        return;
-      }
-    }
-
-    addLog("info", `Executing function: ${functionNode.name}`);
-    updateNode(nodeId, { status: "running" });
-    
-    try {
-      // Get input from connected nodes or use user's initial input
-      const incomingConnections = workflow.connections.filter(
-        (c) => c.toNodeId === nodeId
-      );
-      
-      let input = customInput !== undefined ? customInput : (userInput || "");
-      
-      // For multi-input functions (like logic_gate), populate node.inputs from connections
-      const hasMultipleInputs = functionNode.inputPorts && functionNode.inputPorts.length > 1;
-      let nodeToExecute = functionNode;
-      
-      if (hasMultipleInputs && incomingConnections.length > 0) {
-        const inputsMap: Record<string, string> = {};
-        
-        for (const conn of incomingConnections) {
-          const targetPort = conn.toInputPort || "input_1";
-          const fromNode = allNodes.find((n) => n.id === conn.fromNodeId);
-          if (!fromNode) continue;
-          
-          // Determine which port to read from
-          let portToRead = conn.fromOutputPort;
-          if (!portToRead && fromNode.nodeType === "function") {
-            const funcNode = fromNode as FunctionNode;
-            portToRead = funcNode.outputs ? Object.keys(funcNode.outputs)[0] || "output" : "output";
-          }
-          
-          // Get the output value
-          let value = "";
-          if (fromNode.nodeType === "function" && portToRead) {
-            const funcNode = fromNode as FunctionNode;
-            const portValue = funcNode.outputs?.[portToRead];
-            value = portValue !== undefined && portValue !== null ? String(portValue) : "";
-          } else if (fromNode.nodeType === "agent" && portToRead && (fromNode as AgentNode).beastModeOutputs?.[portToRead]) {
-            value = (fromNode as AgentNode).beastModeOutputs![portToRead];
-          } else {
-            value = fromNode?.output || "";
-          }
-          
-          inputsMap[targetPort] = value;
-        }
-        
-        // Update the node with populated inputs BEFORE execution
-        updateNode(nodeId, { inputs: inputsMap });
-        // Create updated node reference for immediate use in executor
-        nodeToExecute = { ...functionNode, inputs: inputsMap };
-        
-        addLog("info", `Function ${nodeToExecute.name} received ${Object.keys(inputsMap).length} port-specific input(s)`);
-      } else if (incomingConnections.length > 0 && customInput === undefined) {
-        // Single-input function: standard concatenation logic
-        const outputsFromConnections = incomingConnections
-          .map((c) => {
-            const fromNode = allNodes.find((n) => n.id === c.fromNodeId);
-            if (!fromNode) return "";
-            
-            let portToRead = c.fromOutputPort;
-            if (!portToRead && fromNode.nodeType === "function") {
-              const funcNode = fromNode as FunctionNode;
-              portToRead = funcNode.outputs ? Object.keys(funcNode.outputs)[0] || "output" : "output";
-            }
-            
-            if (fromNode.nodeType === "function" && portToRead) {
-              const funcNode = fromNode as FunctionNode;
-              const portValue = funcNode.outputs?.[portToRead];
-              return portValue !== undefined && portValue !== null ? String(portValue) : "";
-            }
-            
-            if (fromNode.nodeType === "agent" && portToRead) {
-              const agentNode = fromNode as AgentNode;
-              if (agentNode.beastModeOutputs?.[portToRead]) {
-                return agentNode.beastModeOutputs[portToRead];
-              }
-            }
-            
-            return fromNode?.output || "";
-          });
-        
-        const nonEmptyOutputs = outputsFromConnections.filter((v) => v !== undefined && v !== null && String(v).trim().length > 0);
-        
-        if (nonEmptyOutputs.length > 0) {
-          input = nonEmptyOutputs.join("\n\n---\n\n");
-          addLog("info", `Function ${functionNode.name} received input from ${incomingConnections.length} connection(s)`);
-        } else {
-          input = "";
-        }
-      }
-      
-      const result = await FunctionExecutor.execute(nodeToExecute, input);
-      
-      if (!result.success) {
-        throw new Error(result.error || "Function execution failed");
-      }
-
-      // Store the full outputs object for multi-output functions, or normalized single-output
-      const hasMultipleOutputs = Object.keys(result.outputs).length > 1;
-      
-      if (hasMultipleOutputs) {
-        // For multi-output functions, store outputs in the outputs map and a summary in output
-        const outputSummary = Object.entries(result.outputs)
-          .filter(([_, value]) => value)
-          .map(([key, value]) => `${key}: ${String(value).substring(0, 50)}...`)
-          .join(', ') || "No outputs";
-        updateNode(nodeId, { 
-          status: "complete", 
-          output: outputSummary,
-          outputs: result.outputs,
-          imageOutput: result.imageOutput,
-          audioOutput: result.audioOutput
-        });
-      } else {
-        // For single-output functions, normalize to an "output" port for universal port syntax
-        const outputValue = result.outputs.output || Object.values(result.outputs)[0] || "";
-        updateNode(nodeId, { 
-          status: "complete", 
-          output: outputValue as any,
-          outputs: { output: outputValue as any },
-          imageOutput: result.imageOutput,
-          audioOutput: result.audioOutput
-        });
-      }
-      addLog("success", `✓ Function ${functionNode.name} completed`);
-    } catch (error) {
-      console.error("Function execution failed:", error);
-      updateNode(nodeId, { status: "error", output: `Error: ${error}` });
-      addLog("error", `✗ Function ${functionNode.name} failed: ${error}`);
-    }
-  };
-
-  const runWorkflow = async () => {
-    const allNodes = workflow.stages.flatMap((s) => s.nodes);
-    
-    addLog("info", "🚀 Workflow execution started");
-    setLogs([]); // Clear previous logs
-    addLog("info", "🚀 Workflow execution started");
-    
-    // Reset all non-locked nodes to idle
-    allNodes.forEach((node) => {
-      if (!node.locked) {
-        updateNode(node.id, { status: "idle", output: undefined });
-      }
-    });
-
-    const outputs = new Map<string, string>();
-
-    const executeAgent = async (nodeId: string, input: string): Promise<string> => {
-      const node = allNodes.find((n) => n.id === nodeId);
-      if (!node || node.nodeType !== "agent") return "";
-      
-      const agent = node as AgentNode;
-
-      // Skip execution if node is locked
-      if (agent.locked) {
-        addLog("info", `Agent "${agent.name}" is locked, using existing output`);
-        return agent.output || "";
-      }
-
-      // Check if input is null-like and executeOnNullInput is false
-      if (!agent.executeOnNullInput && isNullLikeValue(input)) {
-        addLog("warning", `Agent "${agent.name}" skipped - input is null/empty and "Execute on NULL Input" is disabled`);
-        updateNode(nodeId, { status: "idle", output: "" });
-        return "";
-      }
-
-      addLog("info", `Starting agent: ${agent.name} (input length: ${input.length} chars)`);
-      updateNode(nodeId, { status: "running" });
-      
-      try {
-        // Log tool execution
-        if (agent.tools.length > 0) {
-          agent.tools.forEach(tool => {
-            const toolName = tool.toolId.replace('_', ' ');
-            addLog("running", `Executing tool: ${toolName}`);
-          });
-        }
-        
-        // Determine if we're in stage 1
-        const agentStageIndex = workflow.stages.findIndex(s => s.nodes.some(n => n.id === nodeId));
-        const isStage1 = agentStageIndex === 0;
-        
-        // {input} always uses the actual input from connections or stage 1 user input
-        // {prompt} always uses the original userInput from Stage 1
-        const promptValue = userInput || "";
-        
-        const userPrompt = agent.userPrompt
-          .replace(/{input}/gi, input)
-          .replace(/{prompt}/gi, promptValue);
-        
-        // Convert tool instances to the format expected by the edge function
-        const toolsPayload = agent.tools.map(t => ({
-          toolId: t.toolId,
-          config: t.config,
-        }));
-        
-        addLog("running", `Agent ${agent.name} processing with AI...`);
-        
-        // Determine effective model settings - use agent-specific if useSpecificModel is true, otherwise global
-        const effectiveModel = agent.useSpecificModel && agent.model ? agent.model : selectedModel;
-        const effectiveResponseLength = agent.useSpecificModel && agent.responseLength ? agent.responseLength : responseLength;
-        const effectiveThinkingEnabled = agent.useSpecificModel ? (agent.thinkingEnabled ?? false) : thinkingEnabled;
-        const effectiveThinkingBudget = agent.useSpecificModel ? (agent.thinkingBudget ?? 0) : thinkingBudget;
-        
-        // Determine which edge function to use based on effective model
-        const edgeFunction = effectiveModel.startsWith("claude-") 
-          ? "run-agent-anthropic" 
-          : effectiveModel.startsWith("grok-")
-          ? "run-agent-xai"
-          : "run-agent";
-        
-        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${edgeFunction}`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            systemPrompt: agent.systemPrompt,
-            userPrompt,
-            tools: toolsPayload,
-            model: effectiveModel,
-            maxOutputTokens: effectiveResponseLength,
-            thinkingEnabled: effectiveThinkingEnabled,
-            thinkingBudget: effectiveThinkingBudget,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error("Full error from edge function:", errorText);
-          throw new Error(errorText || `Server error: ${response.status}`);
-        }
-
-        // Handle streaming response
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        
-        if (!reader) {
-          throw new Error("No response body reader available");
-        }
-
-        let accumulatedOutput = "";
-        let textBuffer = "";
-        let lastUpdate = Date.now();
-        let chunksReceived = 0;
-        let isFirstDelta = true;
-        
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) {
-              console.log(`Workflow agent stream ended. Total chunks: ${chunksReceived}, Final output length: ${accumulatedOutput.length}`);
-              break;
-            }
-
-            chunksReceived++;
-            textBuffer += decoder.decode(value, { stream: true });
-            
-            // Process complete lines
-            let newlineIndex: number;
-            while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
-              let line = textBuffer.slice(0, newlineIndex);
-              textBuffer = textBuffer.slice(newlineIndex + 1);
-
-              if (line.endsWith("\r")) line = line.slice(0, -1);
-              if (line.startsWith(":") || line.trim() === "") continue;
-              if (!line.startsWith("data: ")) continue;
-
-              const jsonStr = line.slice(6).trim();
-              if (!jsonStr) continue;
-
-              try {
-                const parsed = JSON.parse(jsonStr);
-                
-                if (parsed.type === 'tools' && parsed.toolOutputs) {
-                  // Log tool outputs
-                  parsed.toolOutputs.forEach((toolOutput: any) => {
-                    console.log(`Tool Output [${toolOutput.toolId}]:`, toolOutput.output);
-                    addLog("info", `Tool Output [${toolOutput.toolId}]: ${JSON.stringify(toolOutput.output, null, 2)}`);
-                  });
-                } else if (parsed.type === 'delta' && parsed.text) {
-                  // Clear output on first delta to prevent jumpy updates
-                  if (isFirstDelta) {
-                    updateNode(nodeId, { output: "" });
-                    isFirstDelta = false;
-                  }
-                  
-                  // Accumulate text and update node in real-time
-                  accumulatedOutput += parsed.text;
-                  
-                  // Throttle UI updates to avoid excessive re-renders
-                  const now = Date.now();
-                  if (now - lastUpdate > 100) {
-                    updateNode(nodeId, { output: accumulatedOutput });
-                    lastUpdate = now;
-                  }
-                } else if (parsed.type === 'done') {
-                  // Stream complete
-                  console.log(`Workflow agent finished. Reason: ${parsed.finishReason}, Total output length: ${accumulatedOutput.length}`);
-                  if (parsed.truncated) {
-                    addLog("warning", `Response was truncated (${parsed.finishReason})`);
-                  }
-                }
-              } catch (parseError) {
-                console.error(`Failed to parse SSE chunk at line ${chunksReceived}:`, parseError);
-              }
-            }
-          }
-          
-          // Final update to ensure latest content is shown
-          updateNode(nodeId, { output: accumulatedOutput });
-        } catch (streamError) {
-          console.error("Stream reading error:", streamError);
-          addLog("error", `Stream error: ${streamError}`);
-        } finally {
-          reader.releaseLock();
-        }
-        
-        updateNode(nodeId, { status: "complete", output: accumulatedOutput || "No output generated" });
-        addLog("success", `✓ Agent ${agent.name} completed (output length: ${accumulatedOutput.length} chars)`);
-        return accumulatedOutput;
-      } catch (error) {
-        console.error("Agent execution failed:", error);
-        const errorMsg = `Error: ${error}`;
-        updateNode(nodeId, { status: "error", output: errorMsg });
-        addLog("error", `✗ Agent ${agent.name} failed: ${error}`);
-        return errorMsg;
-      }
-    };
-
-    const executeFunction = async (nodeId: string, input: string, fromOutputPort?: string): Promise<{ outputs: Map<string, string>; primaryOutput: string }> => {
-      const node = allNodes.find((n) => n.id === nodeId);
-      if (!node || node.nodeType !== "function") return { outputs: new Map(), primaryOutput: "" };
-      
-      let functionNode = node as FunctionNode;
-
-      // For multi-input functions (like logic_gate), populate inputs from connections
-      if (functionNode.inputPorts && functionNode.inputPorts.length > 1) {
-        const incomingConnections = workflow.connections.filter((c) => c.toNodeId === nodeId);
-        const inputsMap: Record<string, string> = {};
-        
-        for (const conn of incomingConnections) {
-          const targetPort = conn.toInputPort || "input_1";
-          const fromNode = allNodes.find((n) => n.id === conn.fromNodeId);
-          if (!fromNode) continue;
-          
-          let value = "";
-          let portToRead = conn.fromOutputPort;
-          
-          if (fromNode.nodeType === "function") {
-            if (!portToRead) {
-              const funcNode = fromNode as FunctionNode;
-              portToRead = funcNode.outputs ? Object.keys(funcNode.outputs)[0] || "output" : "output";
-            }
-            value = outputs.get(`${conn.fromNodeId}:${portToRead}`) || 
-                    (fromNode as FunctionNode).outputs?.[portToRead] as string || "";
-          } else if (fromNode.nodeType === "agent") {
-            if (portToRead && (fromNode as AgentNode).beastModeOutputs?.[portToRead]) {
-              value = (fromNode as AgentNode).beastModeOutputs![portToRead];
-            } else {
-              value = outputs.get(conn.fromNodeId) || fromNode.output || "";
-            }
-          }
-          
-          inputsMap[targetPort] = String(value);
-        }
-        
-        updateNode(nodeId, { inputs: inputsMap });
-        functionNode = { ...functionNode, inputs: inputsMap };
-      }
-
-      // Skip execution if node is locked
-      if (functionNode.locked) {
-        addLog("info", `Function "${functionNode.name}" is locked, using existing output`);
-        const existingOutputs = new Map<string, string>();
-        
-        // For multi-output functions, use the outputs map
-        if (functionNode.outputs) {
-          Object.entries(functionNode.outputs).forEach(([key, value]) => {
-            const outputKey = `${nodeId}:${key}`;
-            existingOutputs.set(outputKey, String(value));
-          });
-          // Use first non-empty output as primary, or concatenate all
-          const primaryOutput = Object.values(functionNode.outputs).find(v => v) || 
-            Object.values(functionNode.outputs).filter(v => v).join("\n\n---\n\n");
-          return { outputs: existingOutputs, primaryOutput: String(primaryOutput) };
-        } 
-        // For single-output functions, use the output property
-        else if (functionNode.output) {
-          existingOutputs.set("output", String(functionNode.output));
-          return { outputs: existingOutputs, primaryOutput: String(functionNode.output) };
-        }
-        
-        return { outputs: existingOutputs, primaryOutput: "" };
-      }
-
-      // Check if input is null-like and executeOnNullInput is false
-      if (!functionNode.executeOnNullInput) {
-        const rawContent = functionNode.config?.content ?? "";
-        const hasContentValue = functionNode.functionType === "content" && !isNullLikeValue(rawContent);
-        if (isNullLikeValue(input) && !hasContentValue) {
-          addLog("warning", `Function "${functionNode.name}" skipped - input is null/empty and "Execute on NULL Input" is disabled`);
-          updateNode(nodeId, { status: "idle", output: "" });
-          return { outputs: new Map(), primaryOutput: "" };
-        }
-      }
-
-      addLog("info", `Executing function: ${functionNode.name} (input length: ${input.length} chars)`);
-      updateNode(nodeId, { status: "running" });
-      
-      try {
-        const result = await FunctionExecutor.execute(functionNode, input);
-        
-        if (!result.success) {
-          throw new Error(result.error || "Function execution failed");
-        }
-
-        // Store all outputs with port-specific keys
-        const functionOutputs = new Map<string, string>();
-        Object.entries(result.outputs).forEach(([port, value]) => {
-          const outputKey = `${nodeId}:${port}`;
-          functionOutputs.set(outputKey, value);
-        });
-
-        // Determine primary output as a string (for nodes that don't specify a port)
-        let primaryOutput: string;
-        if (Object.keys(result.outputs).length > 1) {
-          // Multi-output function: concatenate all non-empty outputs
-          primaryOutput = Object.values(result.outputs).filter(v => v).join("\n\n---\n\n");
-        } else {
-          // Single-output function: use the single output value
-          primaryOutput = result.outputs.output || Object.values(result.outputs)[0] || "";
-        }
-
-        // Store outputs using universal port-based structure
-        // For multi-output functions, store each port value in the outputs object
-        // For single-output functions, normalize to "output" port
-        let normalizedOutputs: Record<string, string> = {};
-        
-        if (Object.keys(result.outputs).length > 1) {
-          // Multi-output: use as-is (output_1, output_2, true, false, etc.)
-          normalizedOutputs = { ...result.outputs };
-        } else {
-          // Single-output: normalize to "output" port for consistency
-          const singleValue = result.outputs.output || Object.values(result.outputs)[0] || "";
-          normalizedOutputs.output = singleValue;
-        }
-        
-        updateNode(nodeId, { 
-          status: "complete", 
-          output: primaryOutput,  // Keep primary output for display
-          outputs: normalizedOutputs,  // Store port-specific values
-          imageOutput: result.imageOutput,
-          audioOutput: result.audioOutput
-        });
-        addLog("success", `✓ Function ${functionNode.name} completed (output length: ${primaryOutput.length} chars)`);
-
-        return { outputs: functionOutputs, primaryOutput };
-      } catch (error) {
-        console.error("Function execution failed:", error);
-        const errorMsg = `Error: ${error}`;
-        updateNode(nodeId, { status: "error", output: errorMsg });
-        addLog("error", `✗ Function ${functionNode.name} failed: ${error}`);
-        return { outputs: new Map(), primaryOutput: errorMsg };
-      }
-    };
-
-    // Build dependency graph for dependency-driven execution
-    const nodeIds = allNodes.map(n => n.id);
-    const dependencyMap = new Map<string, string[]>(); // nodeId -> array of dependency nodeIds
-    
-    // Build the dependency map from connections
-    nodeIds.forEach(nodeId => {
-      const incomingConnections = workflow.connections.filter(c => c.toNodeId === nodeId);
-      const dependencies = incomingConnections.map(c => c.fromNodeId);
-      dependencyMap.set(nodeId, dependencies);
-    });
-
-    // Track completed nodes, seeding with locked nodes so they act as cached dependencies
-    const completedNodes = new Set<string>(
-      allNodes.filter(n => n.locked).map(n => n.id)
-    );
-    const executingNodes = new Set<string>();
-    
-    // Helper to get input for a node based on its connections
-    const getNodeInput = (node: WorkflowNode): string => {
-      const incomingConnections = workflow.connections.filter(c => c.toNodeId === node.id);
-      
-      if (incomingConnections.length === 0) {
-        return userInput || "";
-      }
-      
-      const rawOutputs = incomingConnections.map((c) => {
-        const fromNode = allNodes.find(n => n.id === c.fromNodeId);
-        if (!fromNode) return "";
-        
-        let portToRead = c.fromOutputPort;
-        
-        // For agents with beast mode outputs
-        if (fromNode.nodeType === "agent") {
-          const agentNode = fromNode as AgentNode;
-          
-          // Check for beast mode outputs first
-          if (portToRead && agentNode.beastModeOutputs?.[portToRead]) {
-            return agentNode.beastModeOutputs[portToRead];
-          }
-          
-          const mappedOutput = outputs.get(c.fromNodeId);
-          if (mappedOutput !== undefined) {
-            return mappedOutput;
-          }
-          // Fallback to the agent's existing output (e.g., from a previous run or locked node)
-          return fromNode.output || "";
-        }
-        
-        // Legacy support: if no port specified for functions, default to first port
-        if (!portToRead && fromNode.nodeType === "function") {
-          const funcNode = fromNode as FunctionNode;
-          if (funcNode.outputs && Object.keys(funcNode.outputs).length > 0) {
-            const firstPort = Object.keys(funcNode.outputs)[0];
-            portToRead = firstPort || "output";
-          } else {
-            portToRead = "output";
-          }
-        }
-        
-        // Read from the specific port for functions
-        const portOutput = portToRead ? outputs.get(`${c.fromNodeId}:${portToRead}`) : undefined;
-        if (portOutput !== undefined) {
-          return portOutput;
-        }
-
-        // Fallback for functions: use stored outputs on the node itself (e.g., locked nodes)
-        if (fromNode.nodeType === "function") {
-          const funcNode = fromNode as FunctionNode;
-          if (portToRead && funcNode.outputs && funcNode.outputs[portToRead] !== undefined) {
-            return funcNode.outputs[portToRead] as string;
-          }
-          if (!portToRead && typeof funcNode.output === "string") {
-            return funcNode.output;
-          }
-        }
-
-        return "";
-      });
-      
-      const nonEmptyOutputs = rawOutputs.filter((v) => v !== undefined && v !== null && String(v).trim().length > 0);
-      
-      if (nonEmptyOutputs.length > 0) {
-        return nonEmptyOutputs.join("\n\n---\n\n");
-      }
-      
-      return "";
-    };
-    
-    // Execute a single node
-    const executeNode = async (node: WorkflowNode): Promise<void> => {
-      if (executingNodes.has(node.id) || completedNodes.has(node.id)) {
-        return;
-      }
-      
-      executingNodes.add(node.id);
-      const input = getNodeInput(node);
-      
-      if (node.nodeType === "agent") {
-        const output = await executeAgent(node.id, input);
-        outputs.set(node.id, output);
-      } else if (node.nodeType === "function") {
-        const { outputs: functionOutputs, primaryOutput } = await executeFunction(node.id, input);
-        functionOutputs.forEach((value, key) => {
-          outputs.set(key, value);
-        });
-        outputs.set(node.id, primaryOutput);
-      }
-      
-      executingNodes.delete(node.id);
-      completedNodes.add(node.id);
-    };
-    
-    // Check if a node is ready to execute (all dependencies complete)
-    const isNodeReady = (nodeId: string): boolean => {
-      const node = allNodes.find(n => n.id === nodeId);
-      if (!node || node.locked) return false;
-      
-      const dependencies = dependencyMap.get(nodeId) || [];
-      return dependencies.every(depId => completedNodes.has(depId));
-    };
-    
-    // Dependency-driven execution loop
-    addLog("info", "Starting dependency-driven workflow execution");
-    
-    while (completedNodes.size < allNodes.filter(n => !n.locked).length) {
-      // Find all nodes that are ready to execute
-      const readyNodes = allNodes.filter(node => 
-        !node.locked && 
-        !completedNodes.has(node.id) && 
-        !executingNodes.has(node.id) &&
-        isNodeReady(node.id)
-      );
-      
-      if (readyNodes.length === 0) {
-        // No nodes ready - check if we have executing nodes or if we're stuck
-        if (executingNodes.size === 0) {
-          // We're stuck - no nodes executing and no nodes ready
-          const remainingNodes = allNodes.filter(n => !n.locked && !completedNodes.has(n.id));
-          if (remainingNodes.length > 0) {
-            addLog("warning", `Workflow stuck: ${remainingNodes.length} node(s) cannot execute due to missing dependencies`);
-          }
-          break;
-        }
-        // Wait a bit for executing nodes to complete
-        await new Promise(resolve => setTimeout(resolve, 100));
-        continue;
-      }
-      
-      // Execute all ready nodes in parallel without waiting for the whole "wave" to finish
-      addLog("info", `Executing ${readyNodes.length} ready node(s): ${readyNodes.map(n => n.name).join(", ")}`);
-      readyNodes.forEach(node => {
-        void executeNode(node);
-      });
-
-      // Small delay before checking for newly-ready nodes (based on completed dependencies)
-      await new Promise(resolve => setTimeout(resolve, 50));
-    }
-    
-    addLog("success", "🎉 Workflow execution completed");
-  };
-
-  // Run Downstream: Execute a node and all its downstream connected nodes
-  const runDownstream = async (startNodeId: string) => {
-    const allNodes = workflow.stages.flatMap((s) => s.nodes);
-    const startNode = allNodes.find(n => n.id === startNodeId);
-    
-    if (!startNode) {
-      addLog("error", "Cannot run downstream: starting node not found");
-      return;
-    }
-
-    // Build set of downstream nodes using BFS
-    const downstreamNodeIds = new Set<string>();
-    const queue = [startNodeId];
-    
-    while (queue.length > 0) {
-      const nodeId = queue.shift()!;
-      if (!downstreamNodeIds.has(nodeId)) {
-        downstreamNodeIds.add(nodeId);
-        const outgoingConnections = workflow.connections.filter(c => c.fromNodeId === nodeId);
-        outgoingConnections.forEach(c => {
-          if (!downstreamNodeIds.has(c.toNodeId)) {
-            queue.push(c.toNodeId);
-          }
-        });
-      }
-    }
-
-    const downstreamNodes = allNodes.filter(n => downstreamNodeIds.has(n.id));
-    addLog("info", `🚀 Running downstream from "${startNode.name}" (${downstreamNodes.length} node(s))`);
-
-    // Pre-populate outputs from non-downstream nodes (treat as already completed)
-    const outputs = new Map<string, string>();
-    allNodes.forEach(node => {
-      if (!downstreamNodeIds.has(node.id)) {
-        if (node.nodeType === "agent") {
-          outputs.set(node.id, node.output || "");
-          const agentNode = node as AgentNode;
-          if (agentNode.beastModeOutputs) {
-            Object.entries(agentNode.beastModeOutputs).forEach(([port, value]) => {
-              outputs.set(`${node.id}:${port}`, value);
-            });
-          }
-        } else if (node.nodeType === "function") {
-          const funcNode = node as FunctionNode;
-          if (funcNode.outputs) {
-            Object.entries(funcNode.outputs).forEach(([port, value]) => {
-              outputs.set(`${node.id}:${port}`, String(value));
-            });
-          }
-          outputs.set(node.id, funcNode.output || "");
-        }
-      }
-    });
-
-    // Build dependency graph for downstream nodes only
-    const dependencyMap = new Map<string, string[]>();
-    downstreamNodes.forEach(node => {
-      const incomingConnections = workflow.connections.filter(c => c.toNodeId === node.id);
-      const dependencies = incomingConnections.map(c => c.fromNodeId);
-      dependencyMap.set(node.id, dependencies);
-    });
-
-    const completedNodes = new Set<string>(
-      allNodes.filter(n => !downstreamNodeIds.has(n.id) || n.locked).map(n => n.id)
-    );
-    const executingNodes = new Set<string>();
-
-    const getNodeInput = (node: WorkflowNode): string => {
-      const incomingConnections = workflow.connections.filter(c => c.toNodeId === node.id);
-      
-      if (incomingConnections.length === 0) {
-        return userInput || "";
-      }
-      
-      const rawOutputs = incomingConnections.map((c) => {
-        const fromNode = allNodes.find(n => n.id === c.fromNodeId);
-        if (!fromNode) return "";
-        
-        let portToRead = c.fromOutputPort;
-        
-        if (fromNode.nodeType === "agent") {
-          const agentNode = fromNode as AgentNode;
-          if (portToRead && agentNode.beastModeOutputs?.[portToRead]) {
-            return agentNode.beastModeOutputs[portToRead];
-          }
-          return outputs.get(c.fromNodeId) || fromNode.output || "";
-        }
-        
-        if (!portToRead && fromNode.nodeType === "function") {
-          const funcNode = fromNode as FunctionNode;
-          if (funcNode.outputs && Object.keys(funcNode.outputs).length > 0) {
-            portToRead = Object.keys(funcNode.outputs)[0] || "output";
-          } else {
-            portToRead = "output";
-          }
-        }
-        
-        const portOutput = portToRead ? outputs.get(`${c.fromNodeId}:${portToRead}`) : undefined;
-        if (portOutput !== undefined) return portOutput;
-
-        if (fromNode.nodeType === "function") {
-          const funcNode = fromNode as FunctionNode;
-          if (portToRead && funcNode.outputs && funcNode.outputs[portToRead] !== undefined) {
-            return funcNode.outputs[portToRead] as string;
-          }
-          if (!portToRead && typeof funcNode.output === "string") {
-            return funcNode.output;
-          }
-        }
-
-        return "";
-      });
-      
-      const nonEmptyOutputs = rawOutputs.filter((v) => v !== undefined && v !== null && String(v).trim().length > 0);
-      return nonEmptyOutputs.length > 0 ? nonEmptyOutputs.join("\n\n---\n\n") : "";
-    };
-
-    const executeAgent = async (nodeId: string, input: string): Promise<string> => {
-      const node = allNodes.find((n) => n.id === nodeId);
-      if (!node || node.nodeType !== "agent") return "";
-      
-      const agent = node as AgentNode;
-      if (agent.locked) {
-        addLog("info", `Agent "${agent.name}" is locked, using existing output`);
-        return agent.output || "";
-      }
-
-      updateNode(nodeId, { status: "running" });
-      addLog("info", `Running agent: ${agent.name}`);
-      
-      try {
-        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/run-agent`, {
-          method: "POST",
-          headers: { 
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`
-          },
-          body: JSON.stringify({
-            systemPrompt: agent.systemPrompt,
-            userPrompt: agent.userPrompt,
-            input,
-            model: agent.model || selectedModel,
-            maxTokens: agent.responseLength || responseLength,
-            thinkingEnabled: agent.thinkingEnabled ?? thinkingEnabled,
-            thinkingBudget: agent.thinkingBudget ?? thinkingBudget,
-            tools: agent.tools,
-            beastMode: agent.beastMode,
-            beastModeOutputPorts: agent.beastModeOutputPorts,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Agent failed: ${response.status} - ${errorText}`);
-        }
-
-        const reader = response.body?.getReader();
-        if (!reader) throw new Error("No response body");
-
-        const decoder = new TextDecoder();
-        let accumulatedOutput = "";
-
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split("\n");
-            
-            for (const line of lines) {
-              if (line.startsWith("data: ")) {
-                try {
-                  const parsed = JSON.parse(line.slice(6));
-                  if (parsed.text) {
-                    accumulatedOutput += parsed.text;
-                    updateNode(nodeId, { output: accumulatedOutput });
-                  }
-                  if (parsed.beastModeOutputs) {
-                    updateNode(nodeId, { beastModeOutputs: parsed.beastModeOutputs });
-                  }
-                } catch {}
-              }
-            }
-          }
-        } finally {
-          reader.releaseLock();
-        }
-        
-        updateNode(nodeId, { status: "complete", output: accumulatedOutput || "No output generated" });
-        addLog("success", `✓ Agent ${agent.name} completed`);
-        return accumulatedOutput;
-      } catch (error) {
-        const errorMsg = `Error: ${error}`;
-        updateNode(nodeId, { status: "error", output: errorMsg });
-        addLog("error", `✗ Agent ${agent.name} failed: ${error}`);
-        return errorMsg;
-      }
-    };
-
-    const executeFunction = async (nodeId: string, input: string): Promise<{ outputs: Map<string, string>; primaryOutput: string }> => {
-      const node = allNodes.find((n) => n.id === nodeId);
-      if (!node || node.nodeType !== "function") return { outputs: new Map(), primaryOutput: "" };
-      
-      let functionNode = node as FunctionNode;
-
-      // For multi-input functions, populate inputs from connections
-      if (functionNode.inputPorts && functionNode.inputPorts.length > 1) {
-        const incomingConnections = workflow.connections.filter((c) => c.toNodeId === nodeId);
-        const inputsMap: Record<string, string> = {};
-        
-        for (const conn of incomingConnections) {
-          const targetPort = conn.toInputPort || "input_1";
-          const fromNode = allNodes.find((n) => n.id === conn.fromNodeId);
-          if (!fromNode) continue;
-          
-          let value = "";
-          let portToRead = conn.fromOutputPort;
-          
-          if (fromNode.nodeType === "function") {
-            if (!portToRead) {
-              const funcNode = fromNode as FunctionNode;
-              portToRead = funcNode.outputs ? Object.keys(funcNode.outputs)[0] || "output" : "output";
-            }
-            value = outputs.get(`${conn.fromNodeId}:${portToRead}`) || 
-                    (fromNode as FunctionNode).outputs?.[portToRead] as string || "";
-          } else if (fromNode.nodeType === "agent") {
-            if (portToRead && (fromNode as AgentNode).beastModeOutputs?.[portToRead]) {
-              value = (fromNode as AgentNode).beastModeOutputs![portToRead];
-            } else {
-              value = outputs.get(conn.fromNodeId) || fromNode.output || "";
-            }
-          }
-          
-          inputsMap[targetPort] = String(value);
-        }
-        
-        updateNode(nodeId, { inputs: inputsMap });
-        functionNode = { ...functionNode, inputs: inputsMap };
-      }
-
-      if (functionNode.locked) {
-        addLog("info", `Function "${functionNode.name}" is locked, using existing output`);
-        const existingOutputs = new Map<string, string>();
-        if (functionNode.outputs) {
-          Object.entries(functionNode.outputs).forEach(([key, value]) => {
-            existingOutputs.set(`${nodeId}:${key}`, String(value));
-          });
-          const primaryOutput = Object.values(functionNode.outputs).find(v => v) || 
-            Object.values(functionNode.outputs).filter(v => v).join("\n\n---\n\n");
-          return { outputs: existingOutputs, primaryOutput: String(primaryOutput) };
-        }
-        if (functionNode.output) {
-          existingOutputs.set("output", String(functionNode.output));
-          return { outputs: existingOutputs, primaryOutput: String(functionNode.output) };
-        }
-        return { outputs: existingOutputs, primaryOutput: "" };
-      }
-
-      addLog("info", `Executing function: ${functionNode.name}`);
-      updateNode(nodeId, { status: "running" });
-      
-      try {
-        const result = await FunctionExecutor.execute(functionNode, input);
-        
-        if (!result.success) throw new Error(result.error || "Function execution failed");
-
-        const functionOutputs = new Map<string, string>();
-        Object.entries(result.outputs).forEach(([port, value]) => {
-          functionOutputs.set(`${nodeId}:${port}`, value);
-        });
-
-        let primaryOutput: string;
-        if (Object.keys(result.outputs).length > 1) {
-          primaryOutput = Object.values(result.outputs).filter(v => v).join("\n\n---\n\n");
-        } else {
-          primaryOutput = result.outputs.output || Object.values(result.outputs)[0] || "";
-        }
-
-        let normalizedOutputs: Record<string, string> = {};
-        if (Object.keys(result.outputs).length > 1) {
-          normalizedOutputs = { ...result.outputs };
-        } else {
-          normalizedOutputs.output = result.outputs.output || Object.values(result.outputs)[0] || "";
-        }
-        
-        updateNode(nodeId, { 
-          status: "complete", 
-          output: primaryOutput,
-          outputs: normalizedOutputs,
-          imageOutput: result.imageOutput,
-          audioOutput: result.audioOutput
-        });
-        addLog("success", `✓ Function ${functionNode.name} completed`);
-        return { outputs: functionOutputs, primaryOutput };
-      } catch (error) {
-        const errorMsg = `Error: ${error}`;
-        updateNode(nodeId, { status: "error", output: errorMsg });
-        addLog("error", `✗ Function ${functionNode.name} failed: ${error}`);
-        return { outputs: new Map(), primaryOutput: errorMsg };
-      }
-    };
-
-    const executeNode = async (node: WorkflowNode): Promise<void> => {
-      if (executingNodes.has(node.id) || completedNodes.has(node.id)) return;
-      
-      executingNodes.add(node.id);
-      const input = getNodeInput(node);
-      
-      if (node.nodeType === "agent") {
-        const output = await executeAgent(node.id, input);
-        outputs.set(node.id, output);
-      } else if (node.nodeType === "function") {
-        const { outputs: functionOutputs, primaryOutput } = await executeFunction(node.id, input);
-        functionOutputs.forEach((value, key) => outputs.set(key, value));
-        outputs.set(node.id, primaryOutput);
-      }
-      
-      executingNodes.delete(node.id);
-      completedNodes.add(node.id);
-    };
-
-    const isNodeReady = (nodeId: string): boolean => {
-      const node = allNodes.find(n => n.id === nodeId);
-      if (!node || node.locked) return false;
-      const dependencies = dependencyMap.get(nodeId) || [];
-      return dependencies.every(depId => completedNodes.has(depId));
-    };
-
-    // Execution loop for downstream nodes
-    while (completedNodes.size < allNodes.filter(n => !n.locked).length) {
-      const readyNodes = downstreamNodes.filter(node => 
-        !node.locked && 
-        !completedNodes.has(node.id) && 
-        !executingNodes.has(node.id) &&
-        isNodeReady(node.id)
-      );
-      
-      if (readyNodes.length === 0) {
-        if (executingNodes.size === 0) {
-          const remainingDownstream = downstreamNodes.filter(n => !n.locked && !completedNodes.has(n.id));
-          if (remainingDownstream.length === 0) break;
-          addLog("warning", `Downstream execution stuck: ${remainingDownstream.length} node(s) cannot execute`);
-          break;
-        }
-        await new Promise(resolve => setTimeout(resolve, 100));
-        continue;
-      }
-      
-      addLog("info", `Executing ${readyNodes.length} ready node(s): ${readyNodes.map(n => n.name).join(", ")}`);
-      readyNodes.forEach(node => void executeNode(node));
-      await new Promise(resolve => setTimeout(resolve, 50));
-    }
-    
-    addLog("success", "🎉 Downstream execution completed");
-  };
-
-  const clearWorkflowOutputs = () => {
-    setWorkflow(prev => ({
-      ...prev,
-      stages: prev.stages.map(stage => ({
-        ...stage,
-        nodes: stage.nodes.map(node => ({
-          ...node,
-          output: "",
-          outputs: {},
-          input: "",
-          status: "idle" as const
-        }))
-      }))
-    }));
-    toast({
-      title: "Outputs Cleared",
-      description: "All node outputs and inputs have been cleared."
-    });
-  };
-
-  const selectedNodeData = workflow.stages
-    .flatMap((s) => s.nodes)
-    .find((n) => n.id === selectedNode);
-  
-  // For backward compatibility with PropertiesPanel
-  const selectedAgent = selectedNodeData?.nodeType === "agent" ? (selectedNodeData as AgentNode) : undefined;
+  const selectedNodeData = workflow.stages
+    .flatMap((s) => s.nodes)
+    .find((n) => n.id === selectedNode);
+  
+  // For backward compatibility with PropertiesPanel
+  const selectedAgent = selectedNodeData?.nodeType === "agent" ? (selectedNodeData as AgentNode) : undefined;
 
   return (
     <div className="flex flex-col h-screen bg-background overflow-hidden">
@@ -2931,6 +1308,7 @@ const Index = () => {
         onAddStage={addStage}
         onSave={saveWorkflow}
         onLoad={loadWorkflow}
+        onOpenLibrary={() => setLibraryOpen(true)}
         onClear={clearWorkflow}
         onClearOutputs={clearWorkflowOutputs}
         onRun={runWorkflow}
@@ -3033,6 +1411,9 @@ const Index = () => {
                 onCloneNode={cloneNode}
                 onCloneStage={cloneStage}
                 onRunStage={runStage}
+                onUpdateStageLoop={updateStageLoop}
+                diffHighlights={diffHighlights}
+                onClearDiffHighlights={() => setDiffHighlights(null)}
               />
             ) : (
               <WorkflowCanvas 
@@ -3058,6 +1439,7 @@ const Index = () => {
                 onRunFunction={runSingleFunction}
                 onCloneStage={cloneStage}
                 onRunStage={runStage}
+                onUpdateStageLoop={updateStageLoop}
               />
             )
           }
@@ -3109,6 +1491,9 @@ const Index = () => {
                 onCloneNode={cloneNode}
                 onCloneStage={cloneStage}
                 onRunStage={runStage}
+                onUpdateStageLoop={updateStageLoop}
+                diffHighlights={diffHighlights}
+                onClearDiffHighlights={() => setDiffHighlights(null)}
               />
             ) : (
               <WorkflowCanvas 
@@ -3134,6 +1519,7 @@ const Index = () => {
                 onRunFunction={runSingleFunction}
                 onCloneStage={cloneStage}
                 onRunStage={runStage}
+                onUpdateStageLoop={updateStageLoop}
               />
             )
           }
@@ -3151,6 +1537,8 @@ const Index = () => {
               onRunFunction={runSingleFunction}
               onRunDownstream={runDownstream}
               onCloneNode={cloneNode}
+              workflowId={currentWorkflowId}
+              library={workflowLibrary}
               onAddAgentToLibrary={(agent) => {
                 const agentTemplate = {
                   id: `custom-${Date.now()}`,
@@ -3171,6 +1559,7 @@ const Index = () => {
           onRun={runWorkflow}
           onSave={saveWorkflow}
           onLoad={loadWorkflow}
+          onOpenLibrary={() => setLibraryOpen(true)}
           onClear={clearWorkflow}
           onClearOutputs={clearWorkflowOutputs}
           hasSelectedAgent={!!selectedNodeData}
@@ -3181,9 +1570,49 @@ const Index = () => {
           onSetAppMode={setAppMode}
         />
         
-        <OutputLog logs={logs} />
+        <OutputLog logs={logs} usage={runUsage} />
       </div>
       )}
+      <WorkflowLibraryModal
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        library={workflowLibrary}
+        currentWorkflowId={currentWorkflowId}
+        autosaveEnabled={autosaveEnabled}
+        onAutosaveEnabledChange={setAutosaveEnabled}
+        onSaveCurrent={saveToLibrary}
+        onOpenWorkflow={openFromLibrary}
+        onCurrentRenamed={setWorkflowName}
+        onCurrentDeleted={() => setCurrentWorkflowId(null)}
+        onOpenHistory={() => {
+          setLibraryOpen(false);
+          setHistoryOpen(true);
+        }}
+        onOpenTriggers={() => {
+          setLibraryOpen(false);
+          setTriggersOpen(true);
+        }}
+      />
+      <WorkflowHistoryModal
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        library={workflowLibrary}
+        workflowId={currentWorkflowId}
+        getCurrentData={getSaveData}
+        onRestore={restoreRevision}
+        onShowOnCanvas={showDiffOnCanvas}
+      />
+      <ApprovalDialog
+        request={approvalQueue[0]?.request ?? null}
+        queuedCount={Math.max(0, approvalQueue.length - 1)}
+        onDecide={decideApproval}
+      />
+      <WorkflowTriggersModal
+        open={triggersOpen}
+        onOpenChange={setTriggersOpen}
+        workflowId={currentWorkflowId}
+        workflowName={workflowName}
+      />
     </div>
   );
 };
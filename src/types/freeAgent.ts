@@ -1,5 +1,7 @@
 // Free Agent Types - Autonomous agent execution types
 
+import type { TokenUsage } from "./usage";
+
 export type BlackboardCategory = 
   | 'observation' 
   | 'insight' 
@@ -96,6 +98,7 @@ export interface SessionFile {
   mimeType: string;
   size: number;
   content?: string; // Base64 for binary, text for text files
+  sourceData?: string; // Base64 of the original file when content holds extracted text (PDFs) - stays in the browser
   uploadedAt: string;
 }
 
@@ -141,9 +144,11 @@ export interface RawIterationData {
     userPrompt?: string;        // The user's task
     fullPromptSent?: string;    // Complete prompt sent to LLM
     model: string;
+    executionMode?: ExecutionMode;
     scratchpadLength: number;
     blackboardEntries: number;
     previousResultsCount: number;
+    estimatedPromptTokens?: number; // Estimated prompt size as sent, after any compaction
   };
   output: {
     rawLLMResponse: string;
@@ -162,6 +167,35 @@ export interface RawIterationData {
     tool: string;
     params: Record<string, unknown>;
   }>;
+  usage?: TokenUsage;              // Tokens reported by the provider for this iteration's LLM call
+  compaction?: ContextCompaction;  // What was compacted to fit this iteration's prompt in the context window
+}
+
+// Rolling summary that stands in for the oldest blackboard entries once the prompt gets too large
+export interface ContextDigest {
+  summary: string;
+  coveredEntries: number;   // Blackboard entries [0, coveredEntries) are folded into the summary
+  source: "model" | "extractive";  // Written by the session model, or by the fallback when that call failed
+  updatedAt: string;
+  iteration: number;
+}
+
+// Record of one compaction pass, kept on the iteration it ran before
+export interface ContextCompaction {
+  limitTokens: number;      // Prompt size that triggers compaction for the session model
+  estimatedTokens: number;  // Estimated prompt size before compaction
+  compactedTokens: number;  // Estimated prompt size after compaction
+  digestedEntries: number;  // Blackboard entries newly folded into the digest
+  digestSource?: ContextDigest["source"];
+  collapsedResults: Array<{ tool: string; attribute: string; size: number }>;
+  withinLimit: boolean;     // False when nothing left to compact could bring the prompt under the limit
+}
+
+// LLM output of the iteration currently in flight (not persisted)
+export interface StreamingIteration {
+  iteration: number;
+  startedAt: string;
+  text: string;                    // Raw output received so far
 }
 
 // Final report when task completes
@@ -191,6 +225,35 @@ export interface AdvancedFeatures {
   spawnEnabled: boolean;
   maxChildren: number;
   childMaxIterations: number;
+  // Levels of children below the orchestrator; at 1 children can't spawn their own
+  maxSpawnDepth?: number;
+  // Agents spawned in one spawn tree (one spawn by the orchestrator), across all levels
+  maxTotalAgents?: number;
+}
+
+// How each iteration asks the model for actions:
+// - json: one AgentResponse envelope per iteration
+// - function_calling: manifest tools as native provider functions, in a multi-turn tool-use conversation
+export type ExecutionMode = 'json' | 'function_calling';
+
+// ============================================================================
+// BUDGET TYPES
+// ============================================================================
+
+// Session-level spend limits. Unset fields mean no limit for that dimension.
+export interface SessionBudget {
+  maxTokens?: number;   // Total tokens across the orchestrator and all children
+  maxCost?: number;     // Estimated cost in USD (see llmPricing)
+  maxMinutes?: number;  // Active run time, excluding time spent paused
+}
+
+export type BudgetLimitKind = "tokens" | "cost" | "time";
+
+export interface BudgetExceeded {
+  kind: BudgetLimitKind;
+  limit: number;        // tokens, USD or minutes
+  used: number;
+  at: string;
 }
 
 // ============================================================================
@@ -213,6 +276,30 @@ export interface ChildSpec {
   attributes?: Record<string, unknown>;
 }
 
+// What a child reports through final_report when it completes
+export interface ChildReport {
+  summary: string;
+  keyFindings: string[];
+}
+
+// Result a child hands back to its parent - the contract between spawned children and the orchestrator
+export interface ChildResult {
+  childName: string;
+  task: string;
+  status: FreeAgentStatus;
+  summary: string;
+  keyFindings: string[];
+  // Attributes the child produced, under their namespaced names in the parent (childName.name)
+  attributes: Array<{ name: string; originalName: string; tool: string; size: number }>;
+  // Artifacts the child produced, as merged into the parent
+  artifacts: Array<{ id: string; title: string; type: ArtifactType }>;
+  // False when the child stopped without a final_report and the result was derived from its memory
+  reported: boolean;
+  iterations: number;
+  error?: string;
+  completedAt: string;
+}
+
 export interface ChildSession {
   id: string;
   name: string;
@@ -230,17 +317,33 @@ export interface ChildSession {
   artifacts: FreeAgentArtifact[];
   toolResultAttributes: Record<string, ToolResultAttribute>; // Named attributes from saveAs
   error?: string;
+  // Running token totals across the child's iterations
+  usage?: TokenUsage;
+  // Sub-budget derived from the session budget when the child was spawned
+  budget?: SessionBudget;
+  budgetExceeded?: BudgetExceeded;
   // Debug data for Raw viewer
   rawData?: RawIterationData[];
+  // Filled from final_report when the child completes
+  report?: ChildReport;
+  // Set once the child's output has been merged into the parent
+  result?: ChildResult;
+  // Position in the spawn tree: 1 for the orchestrator's children, and the chain of
+  // names from the top ("region/company") - unset on sessions saved before nesting
+  depth?: number;
+  path?: string;
+  // Set when this child spawned children of its own
+  orchestration?: OrchestrationState;
 }
 
 export interface OrchestrationState {
-  role: "orchestrator" | "child";
+  // sub_orchestrator: a child that spawned children of its own
+  role: "orchestrator" | "sub_orchestrator" | "child";
   // For children: parent's session ID
   parentId?: string;
   // For children: their assigned name
   childName?: string;
-  // For orchestrator: spawned children
+  // For orchestrators: spawned children
   children?: ChildSession[];
   // Orchestrator is waiting for children
   awaitingChildren?: boolean;
@@ -289,6 +392,17 @@ export interface FreeAgentSession {
   // Debug data for Raw viewer
   rawData: RawIterationData[];
   
+  // Digest of older blackboard entries, sent in their place once the context fills up
+  contextDigest?: ContextDigest;
+  
+  // Results handed back by spawned children, latest per child name
+  childResults?: ChildResult[];
+  
+  // Spend limits - a crossed limit pauses the session until the budget is extended
+  budget?: SessionBudget;
+  budgetExceeded?: BudgetExceeded;
+  runtimeMs?: number;         // Active run time accumulated across runs
+  
   // Secrets injection for tool execution
   secretOverrides?: Record<string, { params?: Record<string, unknown>; headers?: Record<string, string> }>;
   configuredParams?: Array<{ tool: string; param: string }>;
@@ -328,6 +442,9 @@ export interface FreeAgentSession {
   // Advanced features state
   advancedFeatures?: AdvancedFeatures;
   
+  // Response mode, fixed per session so the two modes can be compared
+  executionMode?: ExecutionMode;
+  
   // Orchestration state (for spawn feature)
   orchestration?: OrchestrationState;
 }
@@ -423,6 +540,8 @@ export interface FreeAgentNodeData {
   size?: number; // For promptFile/attribute nodes
   isWriting?: boolean; // For scratchpad animation
   isWaiting?: boolean; // For agent node waiting for children
+  streamingReasoning?: string; // For agent node - reasoning of the in-flight iteration
+  streamingToolCalls?: string[]; // For agent node - tools requested so far in the in-flight iteration
   onContentChange?: (content: string) => void; // For scratchpad updates
   attributeName?: string; // For attribute nodes
   attributeTool?: string; // Source tool for attribute nodes
@@ -435,6 +554,10 @@ export interface FreeAgentNodeData {
   task?: string; // Child agent's assigned task
   maxIterations?: number;
   currentIteration?: number;
+  childPath?: string; // Position in the spawn tree, e.g. "germany/acme"
+  subAgentCount?: number; // Agents below this child, at every level
+  collapsed?: boolean; // Subtree folded away on the canvas
+  onToggleCollapse?: () => void;
   // For tool instances
   isInstance?: boolean;
   instanceLabel?: string;
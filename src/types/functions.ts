@@ -8,7 +8,9 @@ export type FunctionCategory =
   | "memory"
   | "export"
   | "url"
-  | "data";
+  | "data"
+  | "table"
+  | "workflow";
 
 // Configuration schema for functions
 export interface FunctionConfigSchema {
@@ -49,6 +51,12 @@ export interface FunctionExecutionResult {
   audioOutput?: string; // Base64 audio data for TTS functions
 }
 
+// Details about the surrounding run that some functions need
+export interface FunctionExecutionContext {
+  workflowId?: string | null; // Library id of the running workflow; scopes Memory entries
+  runId?: string;
+}
+
 // Memory store for Memory function
 export interface MemoryEntry {
   timestamp: number;
@@ -56,3 +64,28 @@ export interface MemoryEntry {
   output: string;
   runId: string;
 }
+
+// How a Memory node turns its stored entries into output
+export type MemoryOutputMode = "all" | "latest" | "json_array";
+
+// Which entries a Memory node keeps; unset or 0 means no limit
+export interface MemoryRetention {
+  maxEntries?: number;
+  ttlHours?: number;
+}
+
+// Content an Approval node is waiting on a person to review
+export interface ApprovalRequest {
+  nodeId: string;
+  nodeName: string;
+  content: string;
+  instructions?: string;
+  allowEdit: boolean;
+}
+
+// The reviewer's decision; content is the (possibly edited) text passed downstream
+export interface ApprovalDecision {
+  approved: boolean;
+  content: string;
+  feedback?: string;
+}
@@ -0,0 +1,44 @@
+// Model Types - LLM providers, model capabilities and the model registry
+
+import type { LLMProvider, ModelCapabilities } from "../../supabase/functions/_shared/models.ts";
+
+// Provider and capability types are shared with the edge functions
+export type { LLMProvider, ModelCapabilities, ThinkingBudgetOption } from "../../supabase/functions/_shared/models.ts";
+
+export interface ProviderDefinition {
+  id: LLMProvider;
+  label: string;
+  // Edge function that streams workflow agent runs for this provider
+  edgeFunction: string;
+  // Tailwind text color used for provider badges
+  color: string;
+}
+
+// Where an openai_compatible model is served (Ollama, vLLM, LM Studio, ...)
+export interface ModelEndpoint {
+  // Base URL of the OpenAI-compatible API, e.g. https://llm.example.com/v1. The
+  // edge functions make the calls, so it must be reachable from the internet.
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface ModelDefinition {
+  // Id used throughout the app (settings, agent nodes, sessions, price table)
+  id: string;
+  label: string;
+  provider: LLMProvider;
+  // Model name sent to the provider API
+  apiModel: string;
+  capabilities: ModelCapabilities;
+  endpoint?: ModelEndpoint;
+  // Added by the user rather than built in
+  custom?: boolean;
+}
+
+// Endpoint details sent to the edge functions along with an openai_compatible model id
+export interface ModelEndpointConfig {
+  baseUrl: string;
+  apiModel: string;
+  apiKey?: string;
+  jsonSchema?: boolean;
+}
@@ -0,0 +1,31 @@
+// Table values - spreadsheet data flowing between nodes
+// Node outputs are strings, so a table travels as JSON marked with kind "table".
+
+export type TableCell = string | number | boolean | null;
+
+export type TableRow = Record<string, TableCell>;
+
+export interface TableData {
+  kind: "table";
+  columns: string[]; // Column order; every row is keyed by these names
+  rows: TableRow[];
+  name?: string; // Source file or sheet, used for export defaults
+}
+
+// Comparison a table_filter row test applies to one column
+export type TableFilterOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "not_contains"
+  | "greater_than"
+  | "less_than"
+  | "is_empty"
+  | "not_empty"
+  | "regex";
+
+// Agent "map rows" mode - run once per row of a table input and add the responses as columns
+export interface RowMapConfig {
+  enabled: boolean;
+  outputColumn: string; // Column for each row's response (schema field ports add one column per field instead)
+}
@@ -0,0 +1,23 @@
+// Types for token usage and cost accounting across Free Agent and workflow runs
+
+// Tokens reported by a single LLM call, normalized across providers
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;  // Reasoning tokens (billed at the output rate)
+}
+
+// Price of a model in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+// Running totals with an estimated cost. Calls made with a model missing from
+// the price table count towards the tokens but not the cost.
+export interface UsageTotals extends TokenUsage {
+  cost: number;
+  unpricedModels: string[];
+}
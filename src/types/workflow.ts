@@ -1,3 +1,6 @@
+import type { RowMapConfig } from "@/types/table";
+import type { TokenUsage } from "@/types/usage";
+
 // Core node types in the workflow
 export type NodeType = "agent" | "function" | "tool";
 
@@ -12,6 +15,17 @@ export interface BaseNode {
   locked?: boolean; // Prevents re-execution when true
   executeOnNullInput?: boolean; // If false (default), skip execution when input is null/empty/falsey
   position?: { x: number; y: number }; // For canvas mode positioning within stage
+  policy?: NodeExecutionPolicy; // Retries, timeout and failure handling (see lib/executionPolicy)
+  errorOutput?: string; // Error message on the "error" port after a continue-on-error failure
+}
+
+// Per-node execution policy
+export interface NodeExecutionPolicy {
+  retries?: number; // Extra attempts after a failure, with exponential backoff
+  retryDelayMs?: number; // Delay before the first retry - doubles on each further one
+  timeoutSeconds?: number; // Each attempt fails after this long (0/unset = no limit)
+  fallbackModel?: string; // Agents only - model tried once the retries are used up
+  continueOnError?: boolean; // Send failures to the "error" port instead of the regular ports
 }
 
 // Beast Mode configuration
@@ -29,7 +43,7 @@ export interface AgentNode extends BaseNode {
   tools: ToolInstance[];
   // Per-agent model configuration (optional - defaults to global workflow settings)
   useSpecificModel?: boolean;
-  model?: "gemini-2.5-flash" | "gemini-2.5-flash-lite" | "gemini-3-pro-preview" | "gemini-3-flash-preview" | "claude-sonnet-4-5" | "claude-haiku-4-5" | "claude-opus-4-5" | "grok-4-1-fast-reasoning" | "grok-4-1-fast-non-reasoning" | "grok-code-fast-1";
+  model?: string; // Model registry id (see lib/modelRegistry)
   responseLength?: number;
   thinkingEnabled?: boolean;
   thinkingBudget?: number;
@@ -37,6 +51,11 @@ export interface AgentNode extends BaseNode {
   // Beast Mode split outputs
   beastModeOutputs?: Record<string, string>;
   beastModeOutputPorts?: string[];
+  // Structured output - JSON Schema text the response must satisfy (enforced by the edge functions)
+  responseSchema?: string;
+  schemaOutputPorts?: boolean; // Expose top-level schema fields as extra output ports
+  structuredOutputs?: Record<string, string>; // Field port -> value from the last validated response
+  mapRows?: RowMapConfig; // Run once per row of a table input with {column} placeholders
 }
 
 // Function-specific properties
@@ -56,6 +75,8 @@ export interface FunctionNode extends BaseNode {
   inputCount?: number; // Number of input ports (default 2)
   inputPorts?: string[]; // Array of input port names ["input_1", "input_2", ...]
   inputs?: Record<string, string>; // Map of input port to received value
+  // Sub-workflow functions: the child graph as of its last load or run (progress and drill-in)
+  subWorkflow?: Workflow;
 }
 
 // Tool-specific properties (standalone tools)
@@ -75,6 +96,27 @@ export interface ToolInstance {
   config: any;
 }
 
+// Condition checked against a while-loop's output after each pass
+export interface LoopCondition {
+  operator: "contains" | "not_contains" | "equals" | "regex";
+  value: string;
+}
+
+// Loop configuration - a looping stage re-runs its nodes once per item
+export interface LoopConfig {
+  enabled: boolean;
+  // for_each: one pass per item; while: repeat, feeding each pass's output into the next
+  mode: "for_each" | "while";
+  // for_each: how the stage input becomes items ("ports" = populated output ports of the connected node)
+  itemSource: "lines" | "json_array" | "delimiter" | "ports";
+  delimiter?: string;
+  // while: stop once the output meets this condition
+  untilCondition?: LoopCondition;
+  maxIterations: number; // Hard cap for both modes
+  // How the exit nodes combine the outputs of all passes
+  collectMode: "concatenate" | "json_array" | "split" | "last";
+}
+
 // Stage containing nodes
 export interface Stage {
   id: string;
@@ -82,6 +124,8 @@ export interface Stage {
   nodes: WorkflowNode[];
   position?: { x: number; y: number }; // For canvas mode
   size?: { width: number; height: number }; // For canvas mode
+  loop?: LoopConfig;
+  loopProgress?: { iteration: number; total: number }; // Set while the loop runs
 }
 
 // Connection between nodes with output port support
@@ -116,3 +160,92 @@ export interface LogEntry {
   type: "info" | "warning" | "error" | "success" | "running";
   message: string;
 }
+
+// Global model settings from the sidebar (agents may override per node)
+export interface WorkflowModelSettings {
+  selectedModel: string;
+  responseLength: number;
+  thinkingEnabled: boolean;
+  thinkingBudget: number;
+}
+
+// Agent template the user added to the sidebar library
+export interface CustomAgent {
+  id: string;
+  name: string;
+  description: string;
+  defaultSystemPrompt: string;
+  defaultUserPrompt: string;
+  iconName?: string; // Lucide icon name (added from the sidebar)
+  icon?: string; // Lucide icon name (added from a Free Agent session)
+  isCustom?: boolean;
+}
+
+// Everything needed to restore the editor - same shape as the downloaded JSON file
+export interface WorkflowSaveData extends WorkflowModelSettings {
+  workflow: Workflow;
+  userInput: string;
+  workflowName: string;
+  customAgents: CustomAgent[];
+}
+
+// Library listing entry for a workflow saved in Supabase
+export interface SavedWorkflowSummary {
+  id: string;
+  name: string;
+  stageCount: number;
+  nodeCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How a revision was recorded: explicit save, coalesced autosave, or a restore
+export type WorkflowRevisionSource = "manual" | "autosave" | "restore";
+
+// Snapshot of a library workflow at a point in time
+export interface WorkflowRevision {
+  id: string;
+  workflowId: string;
+  source: WorkflowRevisionSource;
+  data: WorkflowSaveData;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How a headless run (run-workflow edge function) is started
+export type WorkflowTriggerKind = "schedule" | "webhook";
+
+// Schedule or webhook that runs the saved version of a library workflow without the editor
+export interface WorkflowTrigger {
+  id: string;
+  workflowId: string;
+  kind: WorkflowTriggerKind;
+  name: string;
+  enabled: boolean;
+  cron?: string; // Schedules: 5-field cron expression, evaluated in UTC
+  userInput: string; // Schedules: the input of every run (webhook runs use the request body)
+  webhookToken?: string; // Webhooks: only known right after the token is (re)generated - it can't be read back
+  lastRunAt?: string;
+  nextRunAt?: string;
+  createdAt: string;
+}
+
+export type WorkflowRunSource = WorkflowTriggerKind | "manual";
+
+export type WorkflowRunStatus = "running" | "complete" | "error";
+
+// One headless run with its logs and every node's final output
+export interface WorkflowRunRecord {
+  id: string;
+  workflowId: string;
+  triggerId?: string;
+  source: WorkflowRunSource;
+  status: WorkflowRunStatus;
+  userInput: string;
+  logs: LogEntry[];
+  nodeResults: Record<string, { name: string; status: BaseNode["status"]; output: string }>;
+  usage: Record<string, TokenUsage>; // Per model
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
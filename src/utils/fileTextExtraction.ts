@@ -89,6 +89,8 @@ export const extractTextFromPdf = async (file: File): Promise<ExtractedContent>
           
           if (pageText) {
             fullText += pageText;
+          } else {
+            fullText += `[Page ${i} has no text layer - it may be scanned]`;
           }
         }
         
@@ -106,6 +108,54 @@ export const extractTextFromPdf = async (file: File): Promise<ExtractedContent>
   });
 };
 
+export interface RasterizedPdfPage {
+  page: number;
+  width: number;
+  height: number;
+  dataUrl: string; // PNG data URI
+}
+
+export interface RasterizedPdf {
+  pageCount: number;
+  pages: RasterizedPdfPage[];
+  skippedPages: number[]; // Requested pages left out by maxPages
+}
+
+/**
+ * Render PDF pages to PNG images (all pages when none are given), e.g. so scanned
+ * pages can be read with OCR
+ */
+export const rasterizePdfPages = async (
+  data: ArrayBuffer | Uint8Array,
+  options: { pages?: number[]; dpi?: number; maxPages?: number } = {}
+): Promise<RasterizedPdf> => {
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+  try {
+    // PDF units are 1/72 inch
+    const scale = Math.min(Math.max(options.dpi ?? 150, 36), 300) / 72;
+    const requested = options.pages && options.pages.length > 0
+      ? options.pages.filter(p => Number.isInteger(p) && p >= 1 && p <= pdf.numPages)
+      : Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+
+    const limit = options.maxPages ?? requested.length;
+
+    const rendered: RasterizedPdfPage[] = [];
+    for (const pageNumber of requested.slice(0, limit)) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      rendered.push({ page: pageNumber, width: canvas.width, height: canvas.height, dataUrl: canvas.toDataURL('image/png') });
+      page.cleanup();
+    }
+    return { pageCount: pdf.numPages, pages: rendered, skippedPages: requested.slice(limit) };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
 // List of text-based file extensions that can be read as plain text
 const TEXT_EXTENSIONS = [
   'txt', 'md', 'markdown', 'json', 'xml', 'csv', 'yaml', 'yml', 'toml',
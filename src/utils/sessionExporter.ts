@@ -6,6 +6,7 @@ import type {
   ToolResultAttribute,
   BlackboardEntry,
 } from "@/types/freeAgent";
+import { summarizeSessionUsage } from "@/lib/llmPricing";
 
 interface PromptSection {
   id: string;
@@ -22,8 +23,11 @@ interface ExportOptions {
   promptSections?: PromptSection[];
 }
 
+// Bumped when the archive gains data the importer relies on (see sessionImporter.ts)
+export const SESSION_EXPORT_VERSION = 2;
+
 // Sanitize filename for filesystem compatibility
-function sanitizeFilename(name: string): string {
+export function sanitizeFilename(name: string): string {
   return name
     .replace(/[<>:"/\\|?*]/g, "_")
     .replace(/\s+/g, "_")
@@ -33,7 +37,7 @@ function sanitizeFilename(name: string): string {
 }
 
 // Get appropriate file extension for artifact
-function getExtensionForArtifact(artifact: FreeAgentArtifact): string {
+export function getExtensionForArtifact(artifact: FreeAgentArtifact): string {
   if (artifact.mimeType) {
     const mimeMap: Record<string, string> = {
       "application/json": ".json",
@@ -144,6 +148,11 @@ ${session.prompt}
   - \`metadata.json\` - Session configuration and stats
   - \`tool_calls.json\` - Complete tool call history
   - \`final_report.json\` - Final report (if available)
+  - \`session_files.json\` - Files provided with the task
+  - \`raw_data.json\` - Per-iteration LLM input/output for the Raw viewer
+  - \`orchestration.json\` - Spawned child agents (if any)
+
+This archive can be imported back into Free Agent mode (Session History → Import).
 
 ## Statistics
 - Total Tool Calls: ${session.toolCalls.length}
@@ -166,6 +175,9 @@ export async function exportSessionToZip(options: ExportOptions): Promise<Blob>
   if (promptSections && promptSections.length > 0) {
     promptFolder.file("prompt_sections.json", JSON.stringify(promptSections, null, 2));
   }
+  if (session.promptData) {
+    promptFolder.file("prompt_data.json", JSON.stringify(session.promptData, null, 2));
+  }
 
   // 2. Blackboard folder
   const blackboardFolder = rootFolder.folder("blackboard")!;
@@ -177,17 +189,26 @@ export async function exportSessionToZip(options: ExportOptions): Promise<Blob>
   scratchpadFolder.file("scratchpad.md", session.scratchpad || "# Scratchpad\n\n(Empty)");
 
   // 4. Artifacts folder - each as separate usable file
+  // Titles can repeat, so suffix duplicates and record the filename in the index
   const artifactsFolder = rootFolder.folder("artifacts")!;
-  for (const artifact of session.artifacts) {
-    const safeFilename = sanitizeFilename(artifact.title);
+  const usedFilenames = new Set<string>();
+  const artifactFilenames = session.artifacts.map((artifact) => {
+    const safeFilename = sanitizeFilename(artifact.title) || "artifact";
     const extension = getExtensionForArtifact(artifact);
-    artifactsFolder.file(`${safeFilename}${extension}`, artifact.content);
-  }
+    let filename = `${safeFilename}${extension}`;
+    for (let n = 2; usedFilenames.has(filename); n++) {
+      filename = `${safeFilename}_${n}${extension}`;
+    }
+    usedFilenames.add(filename);
+    artifactsFolder.file(filename, artifact.content);
+    return filename;
+  });
   artifactsFolder.file(
     "artifacts_index.json",
     JSON.stringify(
-      session.artifacts.map((a) => ({
+      session.artifacts.map((a, index) => ({
         id: a.id,
+        filename: artifactFilenames[index],
         type: a.type,
         title: a.title,
         description: a.description,
@@ -213,8 +234,14 @@ export async function exportSessionToZip(options: ExportOptions): Promise<Blob>
     "attributes_index.json",
     JSON.stringify(
       Object.entries(session.toolResultAttributes).map(([name, attr]) => ({
+        id: attr.id,
         name,
+        filename: `${sanitizeFilename(name)}.json`,
+        resultType: typeof attr.result === "string" ? "string" : "json",
         tool: attr.tool,
+        params: attr.params,
+        isBinary: attr.isBinary,
+        mimeType: attr.mimeType,
         size: attr.size,
         createdAt: attr.createdAt,
         iteration: attr.iteration,
@@ -230,8 +257,10 @@ export async function exportSessionToZip(options: ExportOptions): Promise<Blob>
     "metadata.json",
     JSON.stringify(
       {
+        exportVersion: SESSION_EXPORT_VERSION,
         id: session.id,
         model: session.model,
+        executionMode: session.executionMode || "json",
         maxIterations: session.maxIterations,
         completedIterations: session.currentIteration,
         status: session.status,
@@ -242,6 +271,11 @@ export async function exportSessionToZip(options: ExportOptions): Promise<Blob>
         totalAttributes: Object.keys(session.toolResultAttributes).length,
         totalBlackboardEntries: session.blackboard.length,
         scratchpadLength: session.scratchpad?.length || 0,
+        usage: summarizeSessionUsage(session).total,
+        lastActivityTime: session.lastActivityTime,
+        error: session.error,
+        advancedFeatures: session.advancedFeatures,
+        toolInstances: session.toolInstances,
       },
       null,
       2
@@ -251,6 +285,11 @@ export async function exportSessionToZip(options: ExportOptions): Promise<Blob>
   if (session.finalReport) {
     sessionFolder.file("final_report.json", JSON.stringify(session.finalReport, null, 2));
   }
+  sessionFolder.file("session_files.json", JSON.stringify(session.sessionFiles || [], null, 2));
+  sessionFolder.file("raw_data.json", JSON.stringify(session.rawData || [], null, 2));
+  if (session.orchestration) {
+    sessionFolder.file("orchestration.json", JSON.stringify(session.orchestration, null, 2));
+  }
 
   // 7. README
   rootFolder.file("README.txt", generateReadme(session));
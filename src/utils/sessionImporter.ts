@@ -0,0 +1,236 @@
+// Session Importer - Rebuild a Free Agent session from an archive made by sessionExporter
+import JSZip from "jszip";
+import type {
+  FreeAgentSession,
+  FreeAgentArtifact,
+  FreeAgentStatus,
+  ToolResultAttribute,
+  BlackboardEntry,
+  ToolCall,
+  FinalReport,
+  SessionFile,
+  RawIterationData,
+  OrchestrationState,
+  AdvancedFeatures,
+} from "@/types/freeAgent";
+import { sanitizeFilename } from "./sessionExporter";
+
+type PromptData = NonNullable<FreeAgentSession["promptData"]>;
+
+// Placeholder the exporter writes for an empty scratchpad
+const EMPTY_SCRATCHPAD_EXPORT = "# Scratchpad\n\n(Empty)";
+
+interface ArchiveMetadata {
+  exportVersion?: number;
+  id?: string;
+  model?: string;
+  maxIterations?: number;
+  completedIterations?: number;
+  status?: FreeAgentStatus;
+  startTime?: string;
+  endTime?: string;
+  lastActivityTime?: string;
+  error?: string;
+  advancedFeatures?: AdvancedFeatures;
+  toolInstances?: FreeAgentSession["toolInstances"];
+  executionMode?: FreeAgentSession["executionMode"];
+}
+
+interface ArtifactIndexEntry {
+  id: string;
+  filename?: string; // Added in export version 2
+  type: FreeAgentArtifact["type"];
+  title: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+  createdAt: string;
+  iteration: number;
+}
+
+interface AttributeIndexEntry {
+  id?: string;
+  name: string;
+  filename?: string;
+  resultType?: "string" | "json";
+  tool: string;
+  params?: Record<string, unknown>;
+  isBinary?: boolean;
+  mimeType?: string;
+  size: number;
+  createdAt: string;
+  iteration: number;
+}
+
+export interface ImportedSession {
+  session: FreeAgentSession;
+  exportVersion: number;
+  // Data older archives don't carry, so the UI can say what's missing
+  missing: string[];
+}
+
+// Locate the archive root (exports nest everything under "session_<date>/")
+function findRoot(zip: JSZip): string {
+  const metadataPath = Object.keys(zip.files).find((path) => path.endsWith("session/metadata.json"));
+  if (!metadataPath) {
+    throw new Error("Not a Free Agent session archive (session/metadata.json not found)");
+  }
+  return metadataPath.slice(0, -"session/metadata.json".length);
+}
+
+async function readText(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  return file ? await file.async("string") : null;
+}
+
+async function readJson<T>(zip: JSZip, path: string): Promise<T | null> {
+  const text = await readText(zip, path);
+  if (text === null) return null;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error(`Archive file ${path} is not valid JSON`);
+  }
+}
+
+// v1 archives have no filename in the index - reproduce the exporter's naming
+async function readArtifacts(zip: JSZip, root: string, index: ArtifactIndexEntry[]): Promise<FreeAgentArtifact[]> {
+  const folder = `${root}artifacts/`;
+  const claimed = new Set<string>();
+
+  return Promise.all(
+    index.map(async (entry) => {
+      let path = entry.filename ? `${folder}${entry.filename}` : null;
+      if (!path) {
+        const base = sanitizeFilename(entry.title);
+        path =
+          Object.keys(zip.files).find(
+            (p) => p.startsWith(`${folder}${base}.`) && !claimed.has(p) && p !== `${folder}artifacts_index.json`
+          ) || null;
+      }
+      if (path) claimed.add(path);
+      const content = (path && (await readText(zip, path))) || "";
+      return {
+        id: entry.id,
+        type: entry.type,
+        title: entry.title,
+        content,
+        description: entry.description,
+        mimeType: entry.mimeType,
+        size: entry.size ?? content.length,
+        createdAt: entry.createdAt,
+        iteration: entry.iteration,
+      };
+    })
+  );
+}
+
+async function readAttributes(
+  zip: JSZip,
+  root: string,
+  index: AttributeIndexEntry[]
+): Promise<Record<string, ToolResultAttribute>> {
+  const attributes: Record<string, ToolResultAttribute> = {};
+
+  for (const entry of index) {
+    const path = `${root}attributes/${entry.filename || `${sanitizeFilename(entry.name)}.json`}`;
+    const text = (await readText(zip, path)) ?? "";
+
+    let result: unknown = text;
+    if (entry.resultType !== "string") {
+      try {
+        result = JSON.parse(text);
+      } catch {
+        // v1 archives don't record the result type - keep plain strings as-is
+      }
+    }
+
+    attributes[entry.name] = {
+      id: entry.id || crypto.randomUUID(),
+      name: entry.name,
+      tool: entry.tool,
+      params: entry.params || {},
+      result,
+      resultString: text,
+      size: entry.size ?? text.length,
+      createdAt: entry.createdAt,
+      iteration: entry.iteration,
+      isBinary: entry.isBinary,
+      mimeType: entry.mimeType,
+    };
+  }
+
+  return attributes;
+}
+
+/**
+ * Rebuild a FreeAgentSession from an exported ZIP. The session gets a fresh id so
+ * importing never overwrites the original in the local session history.
+ */
+export async function importSessionFromZip(file: Blob): Promise<ImportedSession> {
+  const zip = await JSZip.loadAsync(file);
+  const root = findRoot(zip);
+  const missing: string[] = [];
+
+  const metadata = (await readJson<ArchiveMetadata>(zip, `${root}session/metadata.json`)) || {};
+  const prompt = (await readText(zip, `${root}prompt/original_task.txt`)) || "";
+  const blackboard = (await readJson<BlackboardEntry[]>(zip, `${root}blackboard/entries.json`)) || [];
+  const exportedScratchpad = (await readText(zip, `${root}scratchpad/scratchpad.md`)) || "";
+  const scratchpad = exportedScratchpad === EMPTY_SCRATCHPAD_EXPORT ? "" : exportedScratchpad;
+  const toolCalls = (await readJson<ToolCall[]>(zip, `${root}session/tool_calls.json`)) || [];
+  const finalReport = await readJson<FinalReport>(zip, `${root}session/final_report.json`);
+
+  const artifactIndex = (await readJson<ArtifactIndexEntry[]>(zip, `${root}artifacts/artifacts_index.json`)) || [];
+  const artifacts = await readArtifacts(zip, root, artifactIndex);
+
+  const attributeIndex = (await readJson<AttributeIndexEntry[]>(zip, `${root}attributes/attributes_index.json`)) || [];
+  const toolResultAttributes = await readAttributes(zip, root, attributeIndex);
+
+  // Full prompt data is v2+; older archives only have the sections
+  let promptData = await readJson<PromptData>(zip, `${root}prompt/prompt_data.json`);
+  if (!promptData) {
+    const sections = await readJson<PromptData["sections"]>(zip, `${root}prompt/prompt_sections.json`);
+    if (sections) {
+      promptData = { sections, toolOverrides: {}, disabledTools: [] };
+      missing.push("tool overrides");
+    } else {
+      missing.push("system prompt");
+    }
+  }
+
+  const sessionFiles = await readJson<SessionFile[]>(zip, `${root}session/session_files.json`);
+  if (!sessionFiles) missing.push("task files");
+  const rawData = await readJson<RawIterationData[]>(zip, `${root}session/raw_data.json`);
+  if (!rawData) missing.push("raw iteration data");
+  const orchestration = await readJson<OrchestrationState>(zip, `${root}session/orchestration.json`);
+
+  const now = new Date().toISOString();
+  const session: FreeAgentSession = {
+    id: crypto.randomUUID(),
+    status: metadata.status || "completed",
+    prompt,
+    model: metadata.model || "gemini-2.5-flash",
+    maxIterations: metadata.maxIterations || 50,
+    currentIteration: metadata.completedIterations || 0,
+    blackboard,
+    scratchpad,
+    toolCalls,
+    artifacts,
+    messages: [],
+    toolResultAttributes,
+    sessionFiles: sessionFiles || [],
+    finalReport: finalReport || undefined,
+    startTime: metadata.startTime || now,
+    endTime: metadata.endTime,
+    lastActivityTime: metadata.lastActivityTime || metadata.endTime || now,
+    error: metadata.error,
+    rawData: rawData || [],
+    promptData: promptData || undefined,
+    toolInstances: metadata.toolInstances,
+    advancedFeatures: metadata.advancedFeatures,
+    executionMode: metadata.executionMode,
+    orchestration: orchestration || undefined,
+  };
+
+  return { session, exportVersion: metadata.exportVersion || 1, missing };
+}
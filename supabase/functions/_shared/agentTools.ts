@@ -0,0 +1,75 @@
+// Agent Tools - Run an agent node's tools before the model call
+// Shared by the edge functions that add tool results to the prompt as extra context.
+
+interface AgentTool {
+  toolId: string;
+  config?: Record<string, unknown>;
+}
+
+/**
+ * Call each tool's edge function and return the results as prompt text.
+ * A failing tool adds its error instead of failing the whole run.
+ */
+export async function executeAgentTools(tools: AgentTool[], userPrompt: string): Promise<string> {
+  let toolResults = '';
+  if (tools.length === 0) return toolResults;
+
+  console.log('Executing tools...');
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+  for (const tool of tools) {
+    try {
+      console.log(`Executing tool: ${tool.toolId}`);
+      let toolResponse;
+      
+      if (tool.toolId === 'google_search' || tool.toolId === 'brave_search') {
+        const searchQuery = tool.config?.query || userPrompt.slice(0, 200);
+        toolResponse = await fetch(`${supabaseUrl}/functions/v1/${tool.toolId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query: searchQuery }),
+        });
+      } else if (tool.toolId === 'weather') {
+        const location = tool.config?.location || 'London';
+        toolResponse = await fetch(`${supabaseUrl}/functions/v1/weather`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ location }),
+        });
+      } else if (tool.toolId === 'time') {
+        toolResponse = await fetch(`${supabaseUrl}/functions/v1/time`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({}),
+        });
+      } else if (tool.toolId === 'web_scrape') {
+        const url = tool.config?.url || '';
+        if (url) {
+          toolResponse = await fetch(`${supabaseUrl}/functions/v1/web-scrape`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ url }),
+          });
+        }
+      } else if (tool.toolId === 'api_call') {
+        toolResponse = await fetch(`${supabaseUrl}/functions/v1/api-call`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(tool.config || {}),
+        });
+      }
+
+      if (toolResponse) {
+        const toolData = await toolResponse.json();
+        toolResults += `\n\n=== ${tool.toolId} Results ===\n${JSON.stringify(toolData, null, 2)}`;
+        console.log(`Tool ${tool.toolId} executed successfully`);
+      }
+    } catch (toolError) {
+      console.error(`Error executing tool ${tool.toolId}:`, toolError);
+      const errorMessage = toolError instanceof Error ? toolError.message : String(toolError);
+      toolResults += `\n\n=== ${tool.toolId} Error ===\n${errorMessage}`;
+    }
+  }
+
+  return toolResults;
+}
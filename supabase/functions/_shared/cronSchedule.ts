@@ -0,0 +1,98 @@
+// Cron Schedule - Parse 5-field cron expressions and find their next run time
+// Schedules are evaluated in UTC. Shared by the triggers dialog and the run-workflow
+// edge function, so the next run shown is the one the dispatcher uses.
+
+export interface CronPreset {
+  label: string;
+  cron: string;
+}
+
+export const CRON_PRESETS: CronPreset[] = [
+  { label: "Every 15 minutes", cron: "*/15 * * * *" },
+  { label: "Every hour", cron: "0 * * * *" },
+  { label: "Every day at 07:00", cron: "0 7 * * *" },
+  { label: "Weekdays at 09:00", cron: "0 9 * * 1-5" },
+  { label: "Every Monday at 09:00", cron: "0 9 * * 1" },
+  { label: "First of the month at 06:00", cron: "0 6 1 * *" },
+];
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+// Values one field allows: "*", lists, ranges and "/step" are supported
+function parseCronField(text: string, index: number): Set<number> {
+  const { name, min, max } = CRON_FIELDS[index];
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    const [startText, endText] = range.split("-");
+    const start = range === "*" ? min : Number(startText);
+    const end = range === "*" ? max : endText !== undefined ? Number(endText) : stepText !== undefined ? max : start;
+    const numeric = range === "*" || /^\d+(-\d+)?$/.test(range);
+    if (!numeric || !Number.isInteger(step) || step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${name} "${part}"`);
+    }
+    for (let value = start; value <= end; value += step) values.add(index === 4 ? value % 7 : value);
+  }
+  return values;
+}
+
+/**
+ * Next time (UTC, whole minute, strictly after `after`) the expression matches.
+ * Throws for an invalid expression; null when it never matches.
+ */
+export function getNextCronRun(expression: string, after: Date = new Date()): Date | null {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error("Cron expressions need 5 fields: minute hour day month weekday");
+  const [minutes, hours, days, months, weekdays] = parts.map(parseCronField);
+  // As in cron, a restricted day of month and day of week match when either does
+  const anyDay = parts[2] === "*";
+  const anyWeekday = parts[4] === "*";
+  const dayMatches = (date: Date) => {
+    const dom = days.has(date.getUTCDate());
+    const dow = weekdays.has(date.getUTCDay());
+    if (anyDay && anyWeekday) return true;
+    if (anyDay) return dow;
+    if (anyWeekday) return dom;
+    return dom || dow;
+  };
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+  // Four years covers schedules that only match on 29 February
+  const limit = after.getTime() + 4 * 366 * 24 * 60 * 60 * 1000;
+  while (next.getTime() <= limit) {
+    if (!months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+    } else if (!hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+    } else if (!minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+  return null;
+}
+
+/**
+ * Why the expression is invalid, or null when it is valid and matches at least once
+ */
+export function getCronError(expression: string): string | null {
+  try {
+    return getNextCronRun(expression) ? null : "This schedule never runs";
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid cron expression";
+  }
+}
@@ -0,0 +1,117 @@
+// Execution Policy - Per-node retries with backoff and timeouts
+// Shared by the browser runner (src/lib/executionPolicy.ts) and the run-workflow
+// edge function, so a node's policy behaves the same in triggered runs.
+
+// The retry and timeout fields of a node's policy (NodeExecutionPolicy in the app)
+export interface RetryPolicy {
+  retries?: number;
+  retryDelayMs?: number;
+  timeoutSeconds?: number;
+}
+
+// Output port a continue-on-error node sends its failure message to
+export const ERROR_PORT = "error";
+
+export const MAX_NODE_RETRIES = 5;
+export const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export class NodeTimeoutError extends Error {
+  constructor(seconds: number) {
+    super(`Timed out after ${seconds}s`);
+    this.name = "NodeTimeoutError";
+  }
+}
+
+export class RunStoppedError extends Error {
+  constructor() {
+    super("Run was stopped");
+    this.name = "RunStoppedError";
+  }
+}
+
+/**
+ * Delay before the given retry (1-based): the base delay, doubled per retry and capped
+ */
+export function getRetryDelay(policy: RetryPolicy | undefined, retry: number): number {
+  const base = policy?.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  return Math.min(base * 2 ** (retry - 1), MAX_RETRY_DELAY_MS);
+}
+
+// One attempt, rejected with a NodeTimeoutError (and its signal aborted) once the timeout
+// passes, or with a RunStoppedError as soon as the run's signal aborts
+function withTimeout<T>(
+  timeoutSeconds: number | undefined,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  runSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const racers: Promise<T>[] = [attempt(controller.signal)];
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (timeoutSeconds && timeoutSeconds > 0) {
+    racers.push(new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new NodeTimeoutError(timeoutSeconds));
+      }, timeoutSeconds * 1000);
+    }));
+  }
+
+  let onStop: (() => void) | undefined;
+  if (runSignal) {
+    racers.push(new Promise<never>((_, reject) => {
+      onStop = () => {
+        controller.abort();
+        reject(new RunStoppedError());
+      };
+      runSignal.addEventListener("abort", onStop, { once: true });
+    }));
+  }
+
+  return Promise.race(racers).finally(() => {
+    clearTimeout(timer);
+    if (onStop) runSignal?.removeEventListener("abort", onStop);
+  });
+}
+
+// Backoff before a retry, cut short when the run is stopped
+function waitForRetry(delayMs: number, runSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onStop = () => {
+      clearTimeout(timer);
+      reject(new RunStoppedError());
+    };
+    const timer = setTimeout(() => {
+      runSignal?.removeEventListener("abort", onStop);
+      resolve();
+    }, delayMs);
+    runSignal?.addEventListener("abort", onStop, { once: true });
+  });
+}
+
+/**
+ * Run an attempt under a node's policy - each try is cut off at the timeout and
+ * failed tries are retried with exponential backoff. Rethrows the last error
+ * once the retries are used up. Stopping the run (`runSignal`) aborts the
+ * current try and rules out any further ones.
+ */
+export async function runWithPolicy<T>(
+  policy: RetryPolicy | undefined,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  onRetry?: (error: unknown, retry: number, delayMs: number) => void,
+  runSignal?: AbortSignal
+): Promise<T> {
+  const retries = Math.min(Math.max(Math.floor(policy?.retries ?? 0), 0), MAX_NODE_RETRIES);
+  for (let retry = 0; ; retry++) {
+    if (runSignal?.aborted) throw new RunStoppedError();
+    try {
+      return await withTimeout(policy?.timeoutSeconds, attempt, runSignal);
+    } catch (error) {
+      if (retry >= retries || runSignal?.aborted) throw error;
+      const delayMs = getRetryDelay(policy, retry + 1);
+      onRetry?.(error, retry + 1, delayMs);
+      await waitForRetry(delayMs, runSignal);
+    }
+  }
+}
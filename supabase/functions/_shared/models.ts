@@ -0,0 +1,190 @@
+// Built-in Models - The models every provider integration ships with
+// Shared by the edge functions and the client's model registry
+// (src/lib/modelRegistry.ts), so a built-in model is added in one place.
+// Keep this file free of imports - it is bundled by both Deno and Vite.
+
+export type LLMProvider = "gemini" | "claude" | "grok" | "openai_compatible";
+
+export interface ThinkingBudgetOption {
+  value: number;
+  label: string;
+}
+
+export interface ModelCapabilities {
+  // Thinking can be switched on and budgeted; models that always or never think leave this off
+  thinking: boolean;
+  // Fixed budgets offered besides "Auto" (-1)
+  thinkingBudgets?: ThinkingBudgetOption[];
+  // Structured output against a JSON schema
+  jsonSchema: boolean;
+  // Accepts image input
+  vision: boolean;
+  // Context window in tokens
+  contextWindow: number;
+  // Largest response the model can produce in one call
+  maxOutputTokens: number;
+}
+
+export interface BuiltInModel {
+  id: string;
+  label: string;
+  provider: Exclude<LLMProvider, "openai_compatible">;
+  // Model name sent to the provider API
+  apiModel: string;
+  capabilities: ModelCapabilities;
+  // Default price in USD per million tokens (see src/lib/llmPricing.ts)
+  price: { input: number; output: number };
+}
+
+export const DEFAULT_MODEL_ID = "gemini-2.5-flash";
+
+// Edge function that runs workflow agents for each provider
+export const PROVIDER_EDGE_FUNCTIONS: Record<LLMProvider, string> = {
+  gemini: "run-agent",
+  claude: "run-agent-anthropic",
+  grok: "run-agent-xai",
+  openai_compatible: "run-agent-openai",
+};
+
+export const GEMINI_CAPABILITIES: ModelCapabilities = {
+  thinking: false,
+  jsonSchema: true,
+  vision: true,
+  contextWindow: 1_048_576,
+  maxOutputTokens: 65_535,
+};
+
+export const CLAUDE_CAPABILITIES: ModelCapabilities = {
+  thinking: false,
+  jsonSchema: true,
+  vision: true,
+  contextWindow: 200_000,
+  maxOutputTokens: 64_000,
+};
+
+export const GROK_CAPABILITIES: ModelCapabilities = {
+  thinking: false,
+  jsonSchema: true,
+  vision: true,
+  contextWindow: 2_000_000,
+  maxOutputTokens: 65_535,
+};
+
+export const BUILT_IN_MODELS: BuiltInModel[] = [
+  {
+    id: "gemini-2.5-flash",
+    label: "Gemini 2.5 Flash",
+    provider: "gemini",
+    apiModel: "gemini-2.5-flash",
+    price: { input: 0.3, output: 2.5 },
+    capabilities: {
+      ...GEMINI_CAPABILITIES,
+      thinking: true,
+      thinkingBudgets: [
+        { value: 1024, label: "Small" },
+        { value: 4096, label: "Medium" },
+        { value: 8192, label: "Large" },
+        { value: 16384, label: "XL" },
+        { value: 24576, label: "Max" },
+      ],
+    },
+  },
+  {
+    id: "gemini-2.5-flash-lite",
+    label: "Gemini 2.5 Flash Lite",
+    provider: "gemini",
+    apiModel: "gemini-2.5-flash-lite",
+    price: { input: 0.1, output: 0.4 },
+    capabilities: {
+      ...GEMINI_CAPABILITIES,
+      thinking: true,
+      thinkingBudgets: [
+        { value: 512, label: "Minimum" },
+        { value: 2048, label: "Small" },
+        { value: 4096, label: "Medium" },
+        { value: 8192, label: "Large" },
+        { value: 16384, label: "XL" },
+        { value: 24576, label: "Max" },
+      ],
+    },
+  },
+  {
+    id: "gemini-3-pro-preview",
+    label: "Gemini 3 Pro Preview",
+    provider: "gemini",
+    apiModel: "gemini-3-pro-preview",
+    price: { input: 2, output: 12 },
+    capabilities: GEMINI_CAPABILITIES,
+  },
+  {
+    id: "gemini-3-flash-preview",
+    label: "Gemini 3 Flash Preview",
+    provider: "gemini",
+    apiModel: "gemini-3-flash-preview",
+    price: { input: 0.5, output: 3 },
+    capabilities: { ...GEMINI_CAPABILITIES, thinking: true },
+  },
+  {
+    id: "claude-sonnet-4-5",
+    label: "Claude Sonnet 4.5",
+    provider: "claude",
+    apiModel: "claude-sonnet-4-5",
+    price: { input: 3, output: 15 },
+    capabilities: CLAUDE_CAPABILITIES,
+  },
+  {
+    id: "claude-haiku-4-5",
+    label: "Claude Haiku 4.5",
+    provider: "claude",
+    apiModel: "claude-haiku-4-5",
+    price: { input: 1, output: 5 },
+    capabilities: CLAUDE_CAPABILITIES,
+  },
+  {
+    id: "claude-opus-4-5",
+    label: "Claude Opus 4.5",
+    provider: "claude",
+    apiModel: "claude-opus-4-5",
+    price: { input: 5, output: 25 },
+    capabilities: { ...CLAUDE_CAPABILITIES, maxOutputTokens: 32_000 },
+  },
+  {
+    id: "grok-4-1-fast-reasoning",
+    label: "Grok 4.1 Fast Reasoning",
+    provider: "grok",
+    apiModel: "grok-4-1-fast-reasoning",
+    price: { input: 0.2, output: 0.5 },
+    capabilities: GROK_CAPABILITIES,
+  },
+  {
+    id: "grok-4-1-fast-non-reasoning",
+    label: "Grok 4.1 Fast Non-Reasoning",
+    provider: "grok",
+    apiModel: "grok-4-1-fast-non-reasoning",
+    price: { input: 0.2, output: 0.5 },
+    capabilities: GROK_CAPABILITIES,
+  },
+  {
+    id: "grok-code-fast-1",
+    label: "Grok Code Fast 1",
+    provider: "grok",
+    apiModel: "grok-code-fast-1",
+    price: { input: 0.2, output: 1.5 },
+    capabilities: { ...GROK_CAPABILITIES, vision: false, contextWindow: 256_000 },
+  },
+];
+
+export function findBuiltInModel(id: string): BuiltInModel | undefined {
+  return BUILT_IN_MODELS.find((m) => m.id === id);
+}
+
+/**
+ * Provider for a model id that isn't built in (e.g. one retired since a workflow
+ * was saved), guessed from its prefix. Undefined when the prefix is unknown.
+ */
+export function guessProvider(id: string): BuiltInModel["provider"] | undefined {
+  if (id.startsWith("gemini")) return "gemini";
+  if (id.startsWith("claude")) return "claude";
+  if (id.startsWith("grok")) return "grok";
+  return undefined;
+}
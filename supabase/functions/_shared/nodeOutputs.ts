@@ -0,0 +1,85 @@
+// Node Outputs - Reading agent responses and node inputs
+// Shared by the browser runner and the run-workflow edge function, so triggered runs
+// skip empty inputs and fill schema field ports exactly as runs in the editor do.
+
+/**
+ * Parse JSON, tolerating a surrounding markdown code fence as agents often write one
+ */
+export function parseJsonLoose(value: string): unknown {
+  const trimmed = value.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return JSON.parse(fenced ? fenced[1] : trimmed);
+}
+
+/**
+ * Check if a value is null-like (null, empty string, empty array, empty object,
+ * or their string equivalents)
+ */
+export function isNullLikeValue(value: string | undefined | null): boolean {
+  if (!value || value.trim() === "") return true;
+
+  const trimmed = value.trim();
+  if (trimmed === "[]" || trimmed === "{}") return true;
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (Array.isArray(parsed) && parsed.length === 0) return true;
+    if (typeof parsed === "object" && parsed !== null && Object.keys(parsed).length === 0) return true;
+  } catch {
+    // Not valid JSON, continue with other checks
+  }
+
+  return false;
+}
+
+/**
+ * The agent's response schema as an object, or undefined when none is set.
+ * Throws when the schema text is not a JSON object.
+ */
+export function parseAgentResponseSchema(agent: { responseSchema?: string }): Record<string, unknown> | undefined {
+  const text = agent.responseSchema?.trim();
+  if (!text) return undefined;
+
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch {
+    throw new Error("Response schema is not valid JSON");
+  }
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error("Response schema must be a JSON Schema object");
+  }
+  return schema as Record<string, unknown>;
+}
+
+/**
+ * Top-level property names of an object schema - these become output ports
+ */
+export function getSchemaFieldNames(schema: Record<string, unknown> | undefined): string[] {
+  const properties = schema?.properties;
+  if (!properties || typeof properties !== "object") return [];
+  // "output" always carries the whole response
+  return Object.keys(properties).filter((name) => name !== "output");
+}
+
+/**
+ * Split a validated JSON response into one value per field. Strings pass
+ * through as-is, everything else is pretty-printed JSON.
+ */
+export function splitStructuredOutput(output: string, fields: string[]): Record<string, string> {
+  let data: unknown;
+  try {
+    data = parseJsonLoose(output);
+  } catch {
+    return Object.fromEntries(fields.map((field) => [field, ""]));
+  }
+
+  const record = data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, unknown>) : {};
+  return Object.fromEntries(
+    fields.map((field) => {
+      const value = record[field];
+      if (value === undefined || value === null) return [field, ""];
+      return [field, typeof value === "string" ? value : JSON.stringify(value, null, 2)];
+    })
+  );
+}
@@ -0,0 +1,110 @@
+// Structured Output - Schema-conforming JSON responses for the run-agent functions
+// The model is asked for JSON, the reply is validated with Ajv and validation
+// errors are fed back until it complies.
+
+import Ajv from "https://esm.sh/ajv@8.17.1";
+import Ajv2019 from "https://esm.sh/ajv@8.17.1/dist/2019";
+import Ajv2020 from "https://esm.sh/ajv@8.17.1/dist/2020";
+
+// Same draft selection as the client (src/lib/jsonTools.ts): the schema's $schema
+// picks 2019-09 or 2020-12, anything else is treated as draft-07
+function createAjv(schema: object) {
+  const dialect = (schema as { $schema?: unknown }).$schema;
+  const options = { allErrors: true, strict: false };
+  if (typeof dialect === "string" && dialect.includes("2020-12")) return new Ajv2020(options);
+  if (typeof dialect === "string" && dialect.includes("2019-09")) return new Ajv2019(options);
+  return new Ajv(options);
+}
+
+export const MAX_SCHEMA_ATTEMPTS = 3;
+
+export interface CallUsage {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+export interface StructuredAttempt {
+  text: string;
+  usage: CallUsage;
+}
+
+// Models sometimes wrap JSON in a markdown fence even in JSON mode
+export function extractJson(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : trimmed;
+}
+
+/**
+ * Ask for schema-conforming JSON, feeding validation errors back to the model
+ * until it complies or MAX_SCHEMA_ATTEMPTS is reached. Usage is summed over
+ * every attempt.
+ */
+export async function runStructured(
+  responseSchema: object,
+  prompt: string,
+  call: (prompt: string) => Promise<StructuredAttempt>
+): Promise<{ json: string; usage: CallUsage; attempts: number }> {
+  let validate;
+  try {
+    validate = createAjv(responseSchema).compile(responseSchema);
+  } catch (schemaError) {
+    throw new Error(`Invalid response schema: ${schemaError instanceof Error ? schemaError.message : String(schemaError)}`);
+  }
+
+  const usage: CallUsage = { inputTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+  let attemptPrompt = prompt;
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_SCHEMA_ATTEMPTS; attempt++) {
+    const result = await call(attemptPrompt);
+    usage.inputTokens += result.usage.inputTokens;
+    usage.outputTokens += result.usage.outputTokens;
+    usage.thinkingTokens += result.usage.thinkingTokens;
+
+    let data: unknown;
+    let errors: string[];
+    try {
+      data = JSON.parse(extractJson(result.text));
+      errors = validate(data)
+        ? []
+        : (validate.errors || []).map((e: { instancePath?: string; message?: string }) => `${e.instancePath || "(root)"} ${e.message}`);
+    } catch (parseError) {
+      errors = [`Response is not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`];
+    }
+
+    if (errors.length === 0) {
+      return { json: JSON.stringify(data, null, 2), usage, attempts: attempt };
+    }
+
+    console.warn(`Structured output attempt ${attempt}/${MAX_SCHEMA_ATTEMPTS} failed validation:`, errors);
+    lastErrors = errors;
+    attemptPrompt = `${prompt}\n\nYour previous response was:\n${result.text}\n\nIt does not match the required JSON Schema:\n- ${errors.join("\n- ")}\n\nRespond again with only JSON that matches the schema.`;
+  }
+
+  throw new Error(`Response did not match the JSON Schema after ${MAX_SCHEMA_ATTEMPTS} attempts: ${lastErrors.join("; ")}`);
+}
+
+// Send a validated structured result in the same SSE shape as a streamed response
+export function structuredResponse(
+  corsHeaders: Record<string, string>,
+  json: string,
+  usage: CallUsage,
+  attempts: number,
+  toolOutputs: unknown[] = []
+): Response {
+  const events = [
+    ...(toolOutputs.length > 0 ? [{ type: 'tools', toolOutputs }] : []),
+    { type: 'delta', text: json },
+    { type: 'done', finishReason: 'STOP', usage, schemaAttempts: attempts },
+  ];
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
@@ -0,0 +1,64 @@
+// Triggered Runs - What the run-workflow edge function can execute without a browser
+// The triggers dialog refuses to schedule a workflow that uses anything else, and
+// run-workflow checks again before starting, so such runs fail up front rather
+// than partway through.
+
+// Function types run-workflow implements - keep in step with its executeFunction
+export const TRIGGERED_RUN_FUNCTION_TYPES = new Set([
+  "content",
+  "string_contains",
+  "string_concat",
+  "string_replace",
+  "string_split",
+  "is_json",
+  "is_empty",
+  "is_url",
+  "if_else",
+  "extract_urls",
+  "google_search",
+  "brave_search",
+  "web_scrape",
+  "api_call",
+  "send_email",
+]);
+
+interface TriggeredRunNode {
+  name: string;
+  nodeType: string;
+  locked?: boolean;
+  functionType?: string;
+  beastMode?: { enabled: boolean };
+  mapRows?: { enabled: boolean };
+}
+
+interface TriggeredRunWorkflow {
+  stages: { nodes: TriggeredRunNode[]; loop?: { enabled: boolean } }[];
+}
+
+/**
+ * Why a node can't run in a triggered run, or null when it can. Locked nodes
+ * always can - they reuse their saved output.
+ */
+export function getTriggeredRunIssue(node: TriggeredRunNode, inLoopStage: boolean): string | null {
+  if (node.locked) return null;
+  if (inLoopStage) return "Looping stages can only run in the browser";
+  if (node.beastMode?.enabled) return "Beast Mode can only run in the browser";
+  if (node.mapRows?.enabled) return "Map Rows can only run in the browser";
+  if (node.nodeType === "tool") return "Standalone tool nodes are not supported in triggered runs";
+  if (node.nodeType === "function" && !TRIGGERED_RUN_FUNCTION_TYPES.has(node.functionType || "")) {
+    return `"${node.functionType}" functions can only run in the browser`;
+  }
+  return null;
+}
+
+/**
+ * Every node of the workflow a triggered run can't execute, as "<node>: <reason>"
+ */
+export function getTriggeredRunIssues(workflow: TriggeredRunWorkflow): string[] {
+  return workflow.stages.flatMap((stage) =>
+    stage.nodes.flatMap((node) => {
+      const issue = getTriggeredRunIssue(node, !!stage.loop?.enabled);
+      return issue ? [`${node.name}: ${issue}`] : [];
+    })
+  );
+}
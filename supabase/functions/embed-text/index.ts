@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EMBEDDING_MODEL = "text-embedding-004";
+// Gemini accepts up to 100 texts per batchEmbedContents call
+const BATCH_SIZE = 100;
+const MAX_TEXTS = 500;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { texts, taskType } = await req.json();
+
+    if (!Array.isArray(texts) || texts.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'texts must be a non-empty array of strings' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (texts.length > MAX_TEXTS) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_TEXTS} texts per request` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
+    if (!GEMINI_API_KEY) {
+      throw new Error('GEMINI_API_KEY is not configured');
+    }
+
+    // RETRIEVAL_QUERY for search queries, RETRIEVAL_DOCUMENT for the indexed chunks
+    const task = taskType === "RETRIEVAL_QUERY" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT";
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const batch = texts.slice(i, i + BATCH_SIZE).map((text: unknown) => ({
+        model: `models/${EMBEDDING_MODEL}`,
+        content: { parts: [{ text: String(text ?? "") }] },
+        taskType: task,
+      }));
+
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${EMBEDDING_MODEL}:batchEmbedContents?key=${GEMINI_API_KEY}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ requests: batch }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Embedding API error:', response.status, errorText);
+        throw new Error(`Embedding API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      for (const embedding of data.embeddings || []) {
+        embeddings.push(embedding.values || []);
+      }
+    }
+
+    console.log(`Embedded ${texts.length} texts (${task}) with ${EMBEDDING_MODEL}`);
+
+    return new Response(JSON.stringify({ model: EMBEDDING_MODEL, embeddings }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in embed-text function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { findBuiltInModel, guessProvider, type LLMProvider } from "../_shared/models.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,6 +22,7 @@ interface FreeAgentRequest {
   prompt: string;
   model?: string;
   blackboard: Array<{ category: string; content: string; data?: unknown; tools?: string[] }>;
+  blackboardDigest?: BlackboardDigest; // Set once the frontend has compacted older entries into a digest
   sessionFiles: Array<{ id: string; filename: string; mimeType: string; size: number; content?: string }>;
   previousToolResults?: Array<{ tool: string; success: boolean; result?: unknown; error?: string }>;
   iteration: number;
@@ -56,6 +58,9 @@ interface FreeAgentRequest {
     spawnEnabled?: boolean;
     maxChildren?: number;
     childMaxIterations?: number;
+    // Levels of children allowed below the agent receiving this request
+    maxSpawnDepth?: number;
+    maxTotalAgents?: number;
   };
   toolInstances?: Array<{
     id: string;
@@ -65,6 +70,9 @@ interface FreeAgentRequest {
     label: string;
     description: string;
   }>;
+  stream?: boolean; // Respond with SSE: delta events while the model writes, then one result event
+  executionMode?: "json" | "function_calling"; // One JSON envelope (default) or native tool calls
+  modelEndpoint?: ModelEndpointConfig; // Set for models served by an OpenAI-compatible endpoint
 }
 
 // ============================================================================
@@ -195,26 +203,62 @@ function getClaudeResponseTool() {
   };
 }
 
-function getApiModelName(uiModel: string): string {
-  const modelMap: Record<string, string> = {
-    "gemini-2.5-flash": "gemini-2.5-flash",
-    "gemini-2.5-flash-lite": "gemini-2.5-flash-lite",
-    "gemini-3-pro-preview": "gemini-3-pro-preview",
-    "gemini-3-flash-preview": "gemini-3-flash-preview",
-    "claude-sonnet-4-5": "claude-sonnet-4-5",
-    "claude-haiku-4-5": "claude-haiku-4-5",
-    "claude-opus-4-5": "claude-opus-4-5",
-    "grok-4-1-fast-reasoning": "grok-4-1-fast-reasoning",
-    "grok-4-1-fast-non-reasoning": "grok-4-1-fast-non-reasoning",
-    "grok-code-fast-1": "grok-code-fast-1",
+// ============================================================================
+// MODEL REGISTRY - Provider and API model for each model id
+// ============================================================================
+
+// Built-in models come from _shared/models.ts, the list the client's registry uses
+
+// Sent by the client for user-added models (Ollama, vLLM, ...)
+interface ModelEndpointConfig {
+  baseUrl: string;
+  apiModel: string;
+  apiKey?: string;
+  jsonSchema?: boolean;
+}
+
+interface ResolvedModel {
+  provider: LLMProvider;
+  apiModel: string;
+  endpoint?: ModelEndpointConfig;
+}
+
+function resolveModel(model: string, endpoint?: ModelEndpointConfig): ResolvedModel {
+  if (endpoint?.baseUrl && endpoint.apiModel) {
+    return { provider: "openai_compatible", apiModel: endpoint.apiModel, endpoint };
+  }
+  const known = findBuiltInModel(model);
+  if (known) return { provider: known.provider, apiModel: known.apiModel };
+  return { provider: guessProvider(model) || "gemini", apiModel: model };
+}
+
+// URL and headers for the providers that speak the OpenAI chat completions API
+function getChatCompletionsTarget(resolved: ResolvedModel): { url: string; headers: Record<string, string> } {
+  if (resolved.provider === "grok") {
+    const XAI_API_KEY = Deno.env.get("XAI_API_KEY");
+    if (!XAI_API_KEY) throw new Error("XAI_API_KEY not configured");
+    return {
+      url: "https://api.x.ai/v1/chat/completions",
+      headers: { "Content-Type": "application/json", "Authorization": `Bearer ${XAI_API_KEY}` },
+    };
+  }
+  if (!resolved.endpoint) throw new Error(`No endpoint configured for model ${resolved.apiModel}`);
+  const { baseUrl, apiKey } = resolved.endpoint;
+  return {
+    url: `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}),
+    },
   };
-  return modelMap[uiModel] || uiModel;
 }
 
-function getProvider(model: string): "gemini" | "claude" | "grok" {
-  if (model.startsWith("claude") || model.includes("claude")) return "claude";
-  if (model.startsWith("grok") || model.includes("grok")) return "grok";
-  return "gemini";
+// Self-hosted servers often only support plain JSON mode, not a full schema
+function getChatCompletionsResponseFormat(resolved: ResolvedModel) {
+  if (resolved.provider === "openai_compatible" && !resolved.endpoint?.jsonSchema) {
+    return { type: "json_object" };
+  }
+  return getGrokResponseSchema();
 }
 
 // ============================================================================
@@ -478,11 +522,27 @@ ${paramsList}
 `;
 }
 
-function formatBlackboard(blackboard: Array<{ category: string; content: string; tools?: string[] }>): string {
-  if (!blackboard || blackboard.length === 0) {
+// Rolling summary of the first coveredEntries blackboard entries, shown instead of them
+interface BlackboardDigest {
+  summary: string;
+  coveredEntries: number;
+}
+
+function formatBlackboard(
+  allEntries: Array<{ category: string; content: string; tools?: string[] }>,
+  digest?: BlackboardDigest
+): string {
+  if (!allEntries || allEntries.length === 0) {
     return '\n## BLACKBOARD: Empty. Track your plan and completed items here.';
   }
   
+  // Entries folded into the digest are replaced by it; numbering continues after them
+  const offset = digest?.summary ? Math.min(digest.coveredEntries, allEntries.length) : 0;
+  const blackboard = allEntries.slice(offset);
+  const digestSection = offset > 0
+    ? `\n### Digest of entries #1-#${offset} (compacted to save context):\n${digest!.summary}\n`
+    : '';
+  
   const formatEntry = (e: { category: string; content: string; tools?: string[] }, index: number): string => {
     const toolsSuffix = e.tools?.length ? ` | Tools: [${e.tools.join(', ')}]` : '';
     return `[#${index} ${e.category}]${toolsSuffix} ${e.content}`;
@@ -490,15 +550,15 @@ function formatBlackboard(blackboard: Array<{ category: string; content: string;
   
   // Tiered display: Last (1), Recent (3 prior), Older (rest)
   if (blackboard.length <= 4) {
-    return `\n## YOUR BLACKBOARD (Planning Journal):\n${blackboard.map((e, i) => formatEntry(e, i + 1)).join('\n\n')}`;
+    return `\n## YOUR BLACKBOARD (Planning Journal):\n${digestSection}${blackboard.map((e, i) => formatEntry(e, offset + i + 1)).join('\n\n')}`;
   }
   
   const olderEntries = blackboard.slice(0, -4);
   const recentEntries = blackboard.slice(-4, -1);
   const lastEntry = blackboard[blackboard.length - 1];
-  const lastIdx = blackboard.length;
+  const lastIdx = allEntries.length;
   
-  let section = '\n## YOUR BLACKBOARD (Planning Journal - Read this EVERY iteration!):\n';
+  let section = '\n## YOUR BLACKBOARD (Planning Journal - Read this EVERY iteration!):\n' + digestSection;
   
   // Older entries (summarized)
   if (olderEntries.length > 0) {
@@ -506,14 +566,14 @@ function formatBlackboard(blackboard: Array<{ category: string; content: string;
     for (let i = 0; i < olderEntries.length; i++) {
       const e = olderEntries[i];
       const preview = e.content.length > 150 ? e.content.slice(0, 150) + '...' : e.content;
-      section += `[#${i + 1} ${e.category}] ${preview}\n\n`;
+      section += `[#${offset + i + 1} ${e.category}] ${preview}\n\n`;
     }
   }
   
   // Recent entries (full)
   section += `\n### Recent:\n`;
   for (let i = 0; i < recentEntries.length; i++) {
-    section += `${formatEntry(recentEntries[i], olderEntries.length + i + 1)}\n\n`;
+    section += `${formatEntry(recentEntries[i], offset + olderEntries.length + i + 1)}\n\n`;
   }
   
   // Last entry (full, highlighted)
@@ -602,7 +662,8 @@ function buildSystemPromptDynamic(
   configuredParams?: Array<{ tool: string; param: string }>,
   promptData?: FreeAgentRequest['promptData'],
   advancedFeatures?: FreeAgentRequest['advancedFeatures'],
-  toolInstances?: FreeAgentRequest['toolInstances']
+  toolInstances?: FreeAgentRequest['toolInstances'],
+  blackboardDigest?: BlackboardDigest
 ): string {
   if (!promptData || !promptData.sections || promptData.sections.length === 0) {
     throw new Error('promptData is required - dynamic system prompt must be provided from frontend');
@@ -613,7 +674,7 @@ function buildSystemPromptDynamic(
     '{{TOOLS_LIST}}': formatToolsList(promptData.toolOverrides, promptData.disabledTools, advancedFeatures, toolInstances, promptData.toolDefinitions),
     '{{SESSION_FILES}}': formatSessionFiles(sessionFiles),
     '{{CONFIGURED_PARAMS}}': formatConfiguredParams(configuredParams),
-    '{{BLACKBOARD_CONTENT}}': formatBlackboard(blackboard),
+    '{{BLACKBOARD_CONTENT}}': formatBlackboard(blackboard, blackboardDigest),
     '{{SCRATCHPAD_CONTENT}}': formatScratchpad(scratchpad),
     '{{PREVIOUS_RESULTS}}': formatPreviousResults(previousResults),
     '{{CURRENT_ITERATION}}': String(iteration),
@@ -651,7 +712,11 @@ You can create up to ${advancedFeatures.maxChildren || 5} child agents for paral
 - **spawn**: Create child agents with specific tasks
   - Each child gets up to ${advancedFeatures.childMaxIterations || 20} iterations
   - Children share your attributes but have separate blackboards
-  - Results merge to your blackboard when they complete
+  - Each child hands back a result (summary, key findings, attributes, artifacts) when it completes
+  - Their attributes merge into yours as childName.attribute_name
+${(advancedFeatures.maxSpawnDepth || 1) > 1 ? `  - Children can spawn children of their own, up to ${advancedFeatures.maxSpawnDepth} levels below you and ${advancedFeatures.maxTotalAgents || 20} agents in total - nest only when a subtask splits again (e.g. per country, then per company)
+` : ''}
+- **read_child_results**: Read what your children handed back - use it instead of searching the blackboard
 
 Example:
 {
@@ -825,15 +890,180 @@ async function executeTool(
 // LLM CALLING
 // ============================================================================
 
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+// Usage blocks as reported by Gemini (usageMetadata), Anthropic and xAI (usage)
+interface ProviderUsagePayload {
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number };
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+    completion_tokens_details?: { reasoning_tokens?: number };
+  };
+}
+
+// Normalize the provider-specific usage block into one shape
+function extractUsage(provider: string, data: ProviderUsagePayload): TokenUsage | undefined {
+  if (provider === "gemini") {
+    const meta = data.usageMetadata;
+    if (!meta) return undefined;
+    return {
+      inputTokens: meta.promptTokenCount || 0,
+      outputTokens: meta.candidatesTokenCount || 0,
+      thinkingTokens: meta.thoughtsTokenCount || 0,
+    };
+  }
+  if (provider === "claude") {
+    const usage = data.usage;
+    if (!usage) return undefined;
+    return {
+      inputTokens: (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+      outputTokens: usage.output_tokens || 0,
+      thinkingTokens: 0, // Anthropic bills thinking as output tokens
+    };
+  }
+  const usage = data.usage;
+  if (!usage) return undefined;
+  const inputTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  // xAI reports reasoning on top of completion tokens; OpenAI-style APIs count it inside
+  const reasoningIncluded = (usage.total_tokens ?? 0) < inputTokens + completionTokens + thinkingTokens;
+  return {
+    inputTokens,
+    outputTokens: reasoningIncluded ? Math.max(0, completionTokens - thinkingTokens) : completionTokens,
+    thinkingTokens,
+  };
+}
+
+interface LLMResult {
+  success: boolean;
+  response?: string;
+  usage?: TokenUsage;
+  error?: string;
+}
+
+// Streamed chunk shapes for the providers (grok and openai_compatible share one)
+interface ProviderStreamEvent extends ProviderUsagePayload {
+  type?: string;
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  message?: ProviderUsagePayload;
+  delta?: { type?: string; text?: string; partial_json?: string };
+  choices?: Array<{ delta?: { content?: string } }>;
+  error?: { message?: string };
+}
+
+/**
+ * Read a provider SSE stream, forwarding each text chunk to onDelta.
+ * Returns the same response text the non-streamed call would have produced.
+ */
+async function readLLMStream(
+  provider: LLMProvider,
+  response: Response,
+  onDelta: (text: string) => void
+): Promise<{ responseText: string; usage?: TokenUsage }> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No response body reader available");
+
+  const decoder = new TextDecoder();
+  let textBuffer = "";
+  let responseText = "";
+  let toolJson = "";
+  let usage: TokenUsage | undefined;
+
+  const handleEvent = (event: ProviderStreamEvent) => {
+    if (provider === "gemini") {
+      const text = (event.candidates?.[0]?.content?.parts || []).map((p) => p.text || "").join("");
+      if (text) {
+        responseText += text;
+        onDelta(text);
+      }
+      // Gemini reports cumulative usage on each chunk; keep the latest
+      usage = extractUsage("gemini", event) ?? usage;
+    } else if (provider === "claude") {
+      if (event.type === "message_start" && event.message) {
+        usage = extractUsage("claude", event.message);
+      } else if (event.type === "message_delta" && event.usage && usage) {
+        // output_tokens in message_delta is cumulative
+        usage = { ...usage, outputTokens: event.usage.output_tokens ?? usage.outputTokens };
+      } else if (event.type === "content_block_delta") {
+        // The forced respond_with_actions tool streams its input as partial JSON
+        const text = event.delta?.type === "input_json_delta" ? event.delta.partial_json : event.delta?.text;
+        if (!text) return;
+        if (event.delta?.type === "input_json_delta") toolJson += text;
+        else responseText += text;
+        onDelta(text);
+      } else if (event.type === "error") {
+        throw new Error(event.error?.message || "Unknown stream error");
+      }
+    } else {
+      const text = event.choices?.[0]?.delta?.content;
+      if (text) {
+        responseText += text;
+        onDelta(text);
+      }
+      // The final chunk carries usage when include_usage is set
+      if (event.usage) usage = extractUsage("grok", event);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      textBuffer += decoder.decode(value, { stream: true });
+
+      // Process complete lines only
+      let newlineIndex: number;
+      while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
+        let line = textBuffer.slice(0, newlineIndex);
+        textBuffer = textBuffer.slice(newlineIndex + 1);
+
+        if (line.endsWith("\r")) line = line.slice(0, -1);
+        if (!line.startsWith("data: ")) continue;
+        const jsonStr = line.slice(6).trim();
+        if (!jsonStr || jsonStr === "[DONE]") continue;
+
+        let event: ProviderStreamEvent;
+        try {
+          event = JSON.parse(jsonStr);
+        } catch (parseError) {
+          console.error("Failed to parse LLM stream chunk:", parseError);
+          continue;
+        }
+        handleEvent(event);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return { responseText: toolJson || responseText, usage };
+}
+
+/**
+ * Call the model for one iteration. When onDelta is given the provider is asked
+ * to stream and every chunk of output is forwarded as it arrives.
+ */
 async function callLLM(
   systemPrompt: string,
   userPrompt: string,
-  model: string
-): Promise<{ success: boolean; response?: string; error?: string }> {
-  const provider = getProvider(model);
-  const apiModel = getApiModelName(model);
+  resolved: ResolvedModel,
+  onDelta?: (text: string) => void
+): Promise<LLMResult> {
+  const { provider, apiModel } = resolved;
+  const stream = !!onDelta;
   
-  console.log(`Calling LLM - Provider: ${provider}, Model: ${apiModel}`);
+  console.log(`Calling LLM - Provider: ${provider}, Model: ${apiModel}, Streaming: ${stream}`);
 
   try {
     let response: Response;
@@ -842,8 +1072,11 @@ async function callLLM(
       const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
       if (!GEMINI_API_KEY) return { success: false, error: "GEMINI_API_KEY not configured" };
 
+      const endpoint = stream
+        ? `streamGenerateContent?alt=sse&key=${GEMINI_API_KEY}`
+        : `generateContent?key=${GEMINI_API_KEY}`;
       response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${apiModel}:generateContent?key=${GEMINI_API_KEY}`,
+        `https://generativelanguage.googleapis.com/v1beta/models/${apiModel}:${endpoint}`,
         {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -875,18 +1108,15 @@ async function callLLM(
           messages: [{ role: "user", content: `User Task: ${userPrompt}` }],
           tools: [getClaudeResponseTool()],
           tool_choice: { type: "tool", name: "respond_with_actions" },
+          stream,
         }),
       });
-    } else if (provider === "grok") {
-      const XAI_API_KEY = Deno.env.get("XAI_API_KEY");
-      if (!XAI_API_KEY) return { success: false, error: "XAI_API_KEY not configured" };
+    } else if (provider === "grok" || provider === "openai_compatible") {
+      const target = getChatCompletionsTarget(resolved);
 
-      response = await fetch("https://api.x.ai/v1/chat/completions", {
+      response = await fetch(target.url, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${XAI_API_KEY}`,
-        },
+        headers: target.headers,
         body: JSON.stringify({
           model: apiModel,
           messages: [
@@ -895,7 +1125,8 @@ async function callLLM(
           ],
           max_tokens: 16384,
           temperature: 0.7,
-          response_format: getGrokResponseSchema(),
+          response_format: getChatCompletionsResponseFormat(resolved),
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
         }),
       });
     } else {
@@ -908,6 +1139,12 @@ async function callLLM(
       return { success: false, error: `LLM API error: ${response.status}` };
     }
 
+    if (onDelta) {
+      const { responseText, usage } = await readLLMStream(provider, response, onDelta);
+      console.log(`LLM streamed response length: ${responseText.length} chars, usage: ${JSON.stringify(usage || {})}`);
+      return { success: true, response: responseText, usage };
+    }
+
     const data = await response.json();
     
     // Extract response based on provider
@@ -926,14 +1163,425 @@ async function callLLM(
       responseText = data.choices?.[0]?.message?.content || "";
     }
 
-    console.log(`LLM response length: ${responseText.length} chars`);
-    return { success: true, response: responseText };
+    const usage = extractUsage(provider, data);
+    console.log(`LLM response length: ${responseText.length} chars, usage: ${JSON.stringify(usage || {})}`);
+    return { success: true, response: responseText, usage };
   } catch (error) {
     console.error("LLM call error:", error);
     return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
   }
 }
 
+// ============================================================================
+// FUNCTION CALLING MODE - Tools as native provider functions
+// ============================================================================
+// Instead of one JSON envelope, every manifest tool is declared to the provider
+// as a function and the iteration runs as a tool-use conversation. Edge tools
+// execute inside the conversation; frontend tools (blackboard, scratchpad,
+// spawn, ...) are handed to the client exactly as in JSON mode. The model ends
+// the iteration by calling end_iteration, which carries the rest of the envelope.
+
+type ExecutionMode = "json" | "function_calling";
+
+const END_ITERATION_FUNCTION = "end_iteration";
+const MAX_TOOL_TURNS = 8;
+const MAX_TOOL_RESULT_CHARS = 20000;
+
+const FUNCTION_CALLING_RESPONSE_FORMAT = `## Response Format
+
+Call tools directly as functions. Results of data tools (search, scrape, APIs, files) come back to you within this iteration, so you can read them and decide the next call.
+Memory and interaction tools (write_scratchpad, write_blackboard, read_attribute, request_assistance, spawn, ...) are applied after the iteration; their results appear in PREVIOUS ITERATION RESULTS next time.
+
+When you are done with this iteration you MUST call \`${END_ITERATION_FUNCTION}\` exactly once with:
+- **reasoning**: your thought process
+- **blackboard_entry**: { category, content } - MANDATORY, be verbose: what you COMPLETED, what you FOUND, what is NEXT
+- **status**: in_progress | completed | needs_assistance | error
+- **message_to_user**, **artifacts**, **final_report**: as needed (final_report when status is completed)
+
+**Creating artifacts**: include deliverables in the \`artifacts\` argument of \`${END_ITERATION_FUNCTION}\`. There is no tool for creating artifacts.`;
+
+interface FunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+interface ToolInvocation {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+interface ToolTurn {
+  text: string;
+  calls: ToolInvocation[];
+  usage?: TokenUsage;
+}
+
+// One provider conversation; each adapter keeps its own message history
+interface ToolConversation {
+  // Ask for the next turn. `only` restricts the model to a single function.
+  next(only?: string): Promise<ToolTurn>;
+  // Answer the calls of the last turn
+  addResults(results: Array<{ call: ToolInvocation; content: string }>): void;
+}
+
+// Provider function names allow [a-zA-Z0-9_-]; tool instances use "tool:instance"
+function toFunctionName(toolId: string): string {
+  return toolId.replace(/[^a-zA-Z0-9_-]/g, "__");
+}
+
+/**
+ * The rest of the JSON envelope (everything but tool_calls) as a function
+ */
+function getEndIterationDeclaration(): FunctionDeclaration {
+  const schema = getClaudeResponseTool().input_schema;
+  const { tool_calls: _toolCalls, ...properties } = schema.properties;
+  return {
+    name: END_ITERATION_FUNCTION,
+    description: "Finish this iteration: record your reasoning, the mandatory blackboard entry, status, artifacts and final report.",
+    parameters: {
+      type: "object",
+      properties,
+      required: schema.required.filter((field) => field !== "tool_calls"),
+    },
+  };
+}
+
+/**
+ * Declarations for every enabled tool (tool instances replace their base tool),
+ * plus end_iteration. nameMap maps function names back to tool ids.
+ */
+function buildFunctionDeclarations(
+  promptData: NonNullable<FreeAgentRequest['promptData']>,
+  advancedFeatures?: FreeAgentRequest['advancedFeatures'],
+  toolInstances?: FreeAgentRequest['toolInstances']
+): { declarations: FunctionDeclaration[]; nameMap: Map<string, string> } {
+  const disabledSet = new Set(promptData.disabledTools || []);
+  for (const [toolId, override] of Object.entries(promptData.toolOverrides || {})) {
+    if (override.disabled) disabledSet.add(toolId);
+  }
+
+  const declarations: FunctionDeclaration[] = [];
+  const nameMap = new Map<string, string>();
+  const declare = (toolId: string, description: string, parameters: Record<string, { type: string; required?: boolean; description?: string }>) => {
+    const properties: Record<string, Record<string, unknown>> = {};
+    for (const [name, def] of Object.entries(parameters || {})) {
+      properties[name] = {
+        type: def.type,
+        ...(def.description ? { description: def.description } : {}),
+        ...(def.type === "array" ? { items: {} } : {}),
+      };
+    }
+    const name = toFunctionName(toolId);
+    nameMap.set(name, toolId);
+    declarations.push({
+      name,
+      description,
+      parameters: {
+        type: "object",
+        properties,
+        required: Object.entries(parameters || {}).filter(([, def]) => def.required).map(([paramName]) => paramName),
+      },
+    });
+  };
+
+  for (const tool of promptData.toolDefinitions || []) {
+    if (tool.category === 'advanced_self_author' && !advancedFeatures?.selfAuthorEnabled) continue;
+    if (tool.category === 'advanced_spawn' && !advancedFeatures?.spawnEnabled) continue;
+    if (disabledSet.has(tool.id)) continue;
+
+    const instances = (toolInstances || []).filter((inst) => inst.baseToolId === tool.id);
+    if (instances.length > 0) {
+      for (const inst of instances) {
+        if (disabledSet.has(inst.fullToolId)) continue;
+        declare(inst.fullToolId, inst.description, tool.parameters);
+      }
+    } else {
+      declare(tool.id, promptData.toolOverrides?.[tool.id]?.description || tool.description, tool.parameters);
+    }
+  }
+
+  declarations.push(getEndIterationDeclaration());
+  return { declarations, nameMap };
+}
+
+/**
+ * Swap the JSON envelope instructions for function-calling ones
+ */
+function withFunctionCallingFormat(promptData: NonNullable<FreeAgentRequest['promptData']>): NonNullable<FreeAgentRequest['promptData']> {
+  return {
+    ...promptData,
+    sections: promptData.sections.map((section) =>
+      section.type === "response_format" ? { ...section, content: FUNCTION_CALLING_RESPONSE_FORMAT } : section
+    ),
+  };
+}
+
+// Gemini: contents with functionCall / functionResponse parts
+function createGeminiConversation(apiModel: string, systemPrompt: string, userPrompt: string, declarations: FunctionDeclaration[]): ToolConversation {
+  const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
+  if (!GEMINI_API_KEY) throw new Error("GEMINI_API_KEY not configured");
+
+  type GeminiPart = { text?: string; functionCall?: { name: string; args?: Record<string, unknown> }; functionResponse?: unknown };
+  const contents: Array<{ role: string; parts: GeminiPart[] }> = [
+    { role: "user", parts: [{ text: `User Task: ${userPrompt}` }] },
+  ];
+
+  return {
+    async next(only) {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${apiModel}:generateContent?key=${GEMINI_API_KEY}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            systemInstruction: { parts: [{ text: systemPrompt }] },
+            contents,
+            tools: [{
+              functionDeclarations: declarations.map((d) => ({ name: d.name, description: d.description, parametersJsonSchema: d.parameters })),
+            }],
+            toolConfig: { functionCallingConfig: { mode: "ANY", ...(only ? { allowedFunctionNames: [only] } : {}) } },
+            generationConfig: { maxOutputTokens: 16384, temperature: 0.7 },
+          }),
+        }
+      );
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`LLM API error (${response.status}):`, errorText.slice(0, 500));
+        throw new Error(`LLM API error: ${response.status}`);
+      }
+      const data = await response.json();
+      // Echo the model turn back unchanged - it carries thought signatures
+      const content = data.candidates?.[0]?.content || { role: "model", parts: [] };
+      contents.push({ role: "model", parts: content.parts || [] });
+
+      const parts: GeminiPart[] = content.parts || [];
+      return {
+        text: parts.map((p) => p.text || "").join(""),
+        calls: parts
+          .filter((p) => p.functionCall)
+          .map((p, idx) => ({ id: `call_${contents.length}_${idx}`, name: p.functionCall!.name, args: p.functionCall!.args || {} })),
+        usage: extractUsage("gemini", data),
+      };
+    },
+    addResults(results) {
+      contents.push({
+        role: "user",
+        parts: results.map(({ call, content }) => ({ functionResponse: { name: call.name, response: { content } } })),
+      });
+    },
+  };
+}
+
+// Anthropic: tool_use blocks answered by tool_result blocks
+function createClaudeConversation(apiModel: string, systemPrompt: string, userPrompt: string, declarations: FunctionDeclaration[]): ToolConversation {
+  const ANTHROPIC_API_KEY = Deno.env.get("ANTHROPIC_API_KEY");
+  if (!ANTHROPIC_API_KEY) throw new Error("ANTHROPIC_API_KEY not configured");
+
+  type ClaudeBlock = { type: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> };
+  const messages: Array<{ role: string; content: string | ClaudeBlock[] | Array<Record<string, unknown>> }> = [
+    { role: "user", content: `User Task: ${userPrompt}` },
+  ];
+
+  return {
+    async next(only) {
+      const response = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": ANTHROPIC_API_KEY,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model: apiModel,
+          max_tokens: 16384,
+          system: systemPrompt,
+          messages,
+          tools: declarations.map((d) => ({ name: d.name, description: d.description, input_schema: d.parameters })),
+          tool_choice: only ? { type: "tool", name: only } : { type: "any" },
+        }),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`LLM API error (${response.status}):`, errorText.slice(0, 500));
+        throw new Error(`LLM API error: ${response.status}`);
+      }
+      const data = await response.json();
+      const blocks: ClaudeBlock[] = data.content || [];
+      messages.push({ role: "assistant", content: blocks });
+
+      return {
+        text: blocks.filter((b) => b.type === "text").map((b) => b.text || "").join(""),
+        calls: blocks
+          .filter((b) => b.type === "tool_use")
+          .map((b) => ({ id: b.id!, name: b.name!, args: b.input || {} })),
+        usage: extractUsage("claude", data),
+      };
+    },
+    addResults(results) {
+      messages.push({
+        role: "user",
+        content: results.map(({ call, content }) => ({ type: "tool_result", tool_use_id: call.id, content })),
+      });
+    },
+  };
+}
+
+// xAI and OpenAI-compatible servers: assistant tool_calls answered by role "tool" messages
+function createChatCompletionsConversation(resolved: ResolvedModel, systemPrompt: string, userPrompt: string, declarations: FunctionDeclaration[]): ToolConversation {
+  const target = getChatCompletionsTarget(resolved);
+
+  type GrokToolCall = { id: string; type: string; function: { name: string; arguments: string } };
+  const messages: Array<Record<string, unknown>> = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: `User Task: ${userPrompt}` },
+  ];
+
+  return {
+    async next(only) {
+      const response = await fetch(target.url, {
+        method: "POST",
+        headers: target.headers,
+        body: JSON.stringify({
+          model: resolved.apiModel,
+          messages,
+          max_tokens: 16384,
+          temperature: 0.7,
+          tools: declarations.map((d) => ({ type: "function", function: d })),
+          tool_choice: only ? { type: "function", function: { name: only } } : "required",
+        }),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`LLM API error (${response.status}):`, errorText.slice(0, 500));
+        throw new Error(`LLM API error: ${response.status}`);
+      }
+      const data = await response.json();
+      const message = data.choices?.[0]?.message || {};
+      const toolCalls: GrokToolCall[] = message.tool_calls || [];
+      messages.push({ role: "assistant", content: message.content || "", tool_calls: toolCalls });
+
+      return {
+        text: message.content || "",
+        calls: toolCalls.map((tc) => {
+          let args: Record<string, unknown> = {};
+          try {
+            args = JSON.parse(tc.function.arguments || "{}");
+          } catch {
+            console.error(`Invalid arguments for ${tc.function.name}:`, tc.function.arguments?.slice(0, 200));
+          }
+          return { id: tc.id, name: tc.function.name, args };
+        }),
+        usage: extractUsage("grok", data),
+      };
+    },
+    addResults(results) {
+      for (const { call, content } of results) {
+        messages.push({ role: "tool", tool_call_id: call.id, content });
+      }
+    },
+  };
+}
+
+function createToolConversation(resolved: ResolvedModel, systemPrompt: string, userPrompt: string, declarations: FunctionDeclaration[]): ToolConversation {
+  const { provider, apiModel } = resolved;
+  console.log(`Starting tool conversation - Provider: ${provider}, Model: ${apiModel}, Functions: ${declarations.length}`);
+  if (provider === "claude") return createClaudeConversation(apiModel, systemPrompt, userPrompt, declarations);
+  if (provider === "grok" || provider === "openai_compatible") {
+    return createChatCompletionsConversation(resolved, systemPrompt, userPrompt, declarations);
+  }
+  return createGeminiConversation(apiModel, systemPrompt, userPrompt, declarations);
+}
+
+/**
+ * Run one iteration as a tool-use conversation. runToolCall executes a call and
+ * returns what the model should see. Ends when the model calls end_iteration;
+ * after MAX_TOOL_TURNS the model is forced to end.
+ */
+async function runToolConversation(
+  conversation: ToolConversation,
+  nameMap: Map<string, string>,
+  runToolCall: (toolCall: ToolCall) => Promise<string>,
+  onDelta?: (text: string) => void
+): Promise<{ envelope: Record<string, unknown>; toolCalls: ToolCall[]; transcript: unknown[]; usage?: TokenUsage }> {
+  const toolCalls: ToolCall[] = [];
+  const transcript: unknown[] = [];
+  let usage: TokenUsage | undefined;
+  let envelope: Record<string, unknown> | null = null;
+
+  for (let turn = 1; !envelope; turn++) {
+    const forceEnd = turn > MAX_TOOL_TURNS;
+    const result = await conversation.next(forceEnd ? END_ITERATION_FUNCTION : undefined);
+    if (result.usage) {
+      usage = {
+        inputTokens: (usage?.inputTokens || 0) + result.usage.inputTokens,
+        outputTokens: (usage?.outputTokens || 0) + result.usage.outputTokens,
+        thinkingTokens: (usage?.thinkingTokens || 0) + result.usage.thinkingTokens,
+      };
+    }
+    transcript.push({ turn, text: result.text || undefined, calls: result.calls.map((c) => ({ name: c.name, args: c.args })) });
+    if (result.text) onDelta?.(`${result.text}\n`);
+
+    // A turn without calls can't be answered - treat the text as the iteration's reasoning
+    if (result.calls.length === 0) {
+      envelope = { reasoning: result.text, status: "in_progress" };
+      break;
+    }
+
+    const answers: Array<{ call: ToolInvocation; content: string }> = [];
+    for (const call of result.calls) {
+      if (call.name === END_ITERATION_FUNCTION) {
+        envelope = call.args;
+        onDelta?.(`${JSON.stringify(call.args)}\n`);
+        answers.push({ call, content: "Iteration recorded." });
+        continue;
+      }
+      const toolCall: ToolCall = { tool: nameMap.get(call.name) || call.name, params: call.args };
+      toolCalls.push(toolCall);
+      onDelta?.(`${JSON.stringify(toolCall)}\n`);
+      answers.push({ call, content: await runToolCall(toolCall) });
+    }
+    conversation.addResults(answers);
+  }
+
+  if (!envelope.blackboard_entry) {
+    // Keep the planning journal intact even when the model skipped it
+    envelope.blackboard_entry = {
+      category: "observation",
+      content: typeof envelope.reasoning === "string" && envelope.reasoning
+        ? envelope.reasoning
+        : `Called ${toolCalls.map((t) => t.tool).join(", ") || "no tools"}`,
+    };
+  }
+  console.log(`Tool conversation finished: ${transcript.length} turns, ${toolCalls.length} tool calls`);
+  return { envelope: { ...envelope, tool_calls: toolCalls }, toolCalls, transcript, usage };
+}
+
+/**
+ * What the model sees for a tool it called: the result (capped), a saveAs
+ * confirmation, or a note that the client will run it after the iteration
+ */
+function describeToolResultForModel(
+  toolCall: ToolCall,
+  result: { success: boolean; result?: unknown; error?: string },
+  deferred: boolean
+): string {
+  if (deferred) {
+    return `Queued: ${toolCall.tool} runs after this iteration. Its result appears in PREVIOUS ITERATION RESULTS next iteration.`;
+  }
+  if (!result.success) return `Error: ${result.error || "Tool failed"}`;
+
+  const text = JSON.stringify(result.result ?? null);
+  const saveAs = toolCall.params?.saveAs;
+  if (typeof saveAs === "string" && saveAs) {
+    return `Result saved to attribute '${saveAs}' (${text.length} chars). Call read_attribute({ names: ['${saveAs}'] }) to read it.`;
+  }
+  return text.length > MAX_TOOL_RESULT_CHARS
+    ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}... [truncated ${text.length - MAX_TOOL_RESULT_CHARS} chars - use saveAs for large results]`
+    : text;
+}
+
 // ============================================================================
 // RESPONSE PARSING
 // ============================================================================
@@ -1034,6 +1682,7 @@ serve(async (req) => {
       prompt = "",
       model = "gemini-2.5-flash",
       blackboard = [],
+      blackboardDigest,
       sessionFiles = [],
       previousToolResults = [],
       iteration = 1,
@@ -1046,7 +1695,11 @@ serve(async (req) => {
       promptData,
       advancedFeatures,
       toolInstances,
+      stream = false,
+      executionMode = "json",
+      modelEndpoint,
     } = request || {};
+    const resolvedModel = resolveModel(model, modelEndpoint);
 
     // Build resolver context
     const resolverContext: ResolverContext = {
@@ -1072,7 +1725,8 @@ serve(async (req) => {
       );
     }
 
-    console.log(`Using dynamic system prompt with ${promptData.sections.length} sections`);
+    const mode: ExecutionMode = executionMode === "function_calling" ? "function_calling" : "json";
+    console.log(`Using dynamic system prompt with ${promptData.sections.length} sections, mode: ${mode}`);
     const systemPrompt = buildSystemPromptDynamic(
       blackboard,
       sessionFiles,
@@ -1082,117 +1736,193 @@ serve(async (req) => {
       artifacts || [],
       assistanceResponse,
       configuredParams,
-      promptData,
+      mode === "function_calling" ? withFunctionCallingFormat(promptData) : promptData,
       advancedFeatures,
-      toolInstances
+      toolInstances,
+      blackboardDigest
     );
 
-    const llmResult = await callLLM(systemPrompt, prompt, model);
+    // Build valid tool names from the manifest
+    const validToolNames = new Set(
+      (promptData.toolDefinitions || []).map((t: { id?: string; name?: string }) => t.id || t.name).filter((n): n is string => !!n)
+    );
 
-    if (!llmResult.success) {
-      return new Response(
-        JSON.stringify({
+    // Resolve references and run one tool call; frontend tools are only flagged for the client
+    const runToolCall = async (toolCall: ToolCall) => {
+      const resolvedParams = resolveReferences(toolCall.params, resolverContext) as Record<string, unknown>;
+      
+      if (JSON.stringify(resolvedParams) !== JSON.stringify(toolCall.params)) {
+        console.log(`[Reference Resolution] ${toolCall.tool}: params were resolved from placeholders`);
+      }
+      
+      const result = await executeTool(toolCall.tool, resolvedParams, supabaseUrl, supabaseKey, secretOverrides, validToolNames);
+      const frontend = !!(result.result as Record<string, unknown>)?.frontend_handler;
+      return { resolvedParams, result, frontend };
+    };
+
+    const buildDebug = (rawLLMResponse: string) => ({
+      systemPrompt,
+      userPrompt: prompt,
+      fullPromptSent: `${systemPrompt}\n\nUser Task: ${prompt}`,
+      rawLLMResponse,
+      model,
+      executionMode: mode,
+      scratchpadLength: (scratchpad || "").length,
+      blackboardEntries: (blackboard || []).length,
+      previousResultsCount: (previousToolResults || []).length,
+    });
+
+    // Parse the model output and run its tool calls - shared by the JSON and streamed responses
+    const completeIteration = async (llmResult: LLMResult): Promise<Record<string, unknown>> => {
+      if (!llmResult.success) {
+        return {
           success: false,
           error: llmResult.error,
-          debug: {
-            systemPrompt,
-            userPrompt: prompt,
-            fullPromptSent: `${systemPrompt}\n\nUser Task: ${prompt}`,
-            rawLLMResponse: "",
-            model,
-            scratchpadLength: (scratchpad || "").length,
-            blackboardEntries: (blackboard || []).length,
-            previousResultsCount: (previousToolResults || []).length,
-          },
+          debug: buildDebug(""),
           parseError: null,
-        }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const agentResponse = parseAgentResponse(llmResult.response!) as {
-      reasoning?: string;
-      tool_calls?: ToolCall[];
-      blackboard_entry?: { category: string; content: string; data?: unknown };
-      status?: string;
-      message_to_user?: string;
-      artifacts?: Array<{ type: string; title: string; content: string; description: string }>;
-      final_report?: unknown;
-    };
+        };
+      }
 
-    if (!agentResponse) {
-      return new Response(
-        JSON.stringify({
+      const agentResponse = parseAgentResponse(llmResult.response!) as {
+        reasoning?: string;
+        tool_calls?: ToolCall[];
+        blackboard_entry?: { category: string; content: string; data?: unknown };
+        status?: string;
+        message_to_user?: string;
+        artifacts?: Array<{ type: string; title: string; content: string; description: string }>;
+        final_report?: unknown;
+      };
+
+      if (!agentResponse) {
+        return {
           success: false,
           error: "Failed to parse agent response",
+          usage: llmResult.usage,
           parseError: {
             rawResponse: llmResult.response,
             responseLength: llmResult.response?.length || 0,
             preview: llmResult.response?.slice(0, 500),
             ending: llmResult.response?.slice(-300),
           },
-          debug: {
-            systemPrompt,
-            userPrompt: prompt,
-            fullPromptSent: `${systemPrompt}\n\nUser Task: ${prompt}`,
-            rawLLMResponse: llmResult.response || "",
-            model,
-          },
-        }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+          debug: buildDebug(llmResult.response || ""),
+        };
+      }
 
-    // Execute tool calls with reference resolution
-    const toolResults: Array<{ tool: string; params?: Record<string, unknown>; success: boolean; result?: unknown; error?: string }> = [];
-    const frontendHandlers: Array<{ tool: string; params: Record<string, unknown> }> = [];
+      // Execute tool calls with reference resolution
+      const toolResults: Array<{ tool: string; params?: Record<string, unknown>; success: boolean; result?: unknown; error?: string }> = [];
+      const frontendHandlers: Array<{ tool: string; params: Record<string, unknown> }> = [];
 
-    // Build valid tool names from the manifest
-    const validToolNames = new Set(
-      (promptData.toolDefinitions || []).map((t: { id?: string; name?: string }) => t.id || t.name).filter((n): n is string => !!n)
-    );
+      for (const toolCall of agentResponse.tool_calls || []) {
+        const { resolvedParams, result, frontend } = await runToolCall(toolCall);
 
-    for (const toolCall of agentResponse.tool_calls || []) {
-      const resolvedParams = resolveReferences(toolCall.params, resolverContext) as Record<string, unknown>;
-      
-      if (JSON.stringify(resolvedParams) !== JSON.stringify(toolCall.params)) {
-        console.log(`[Reference Resolution] ${toolCall.tool}: params were resolved from placeholders`);
-      }
-      
-      const result = await executeTool(toolCall.tool, resolvedParams, supabaseUrl, supabaseKey, secretOverrides, validToolNames);
-
-      if ((result.result as Record<string, unknown>)?.frontend_handler) {
-        frontendHandlers.push({ tool: toolCall.tool, params: resolvedParams });
-      } else {
-        toolResults.push({
-          tool: toolCall.tool,
-          params: resolvedParams,
-          success: result.success,
-          result: result.result,
-          error: result.error,
-        });
+        if (frontend) {
+          frontendHandlers.push({ tool: toolCall.tool, params: resolvedParams });
+        } else {
+          toolResults.push({
+            tool: toolCall.tool,
+            params: resolvedParams,
+            success: result.success,
+            result: result.result,
+            error: result.error,
+          });
+        }
       }
-    }
 
-    return new Response(
-      JSON.stringify({
+      return {
         success: true,
         iteration,
         response: agentResponse,
         toolResults,
         frontendHandlers,
         status: agentResponse.status,
-        debug: {
-          systemPrompt,
-          userPrompt: prompt,
-          fullPromptSent: `${systemPrompt}\n\nUser Task: ${prompt}`,
-          rawLLMResponse: llmResult.response || "",
-          model,
-          scratchpadLength: (scratchpad || "").length,
-          blackboardEntries: (blackboard || []).length,
-          previousResultsCount: (previousToolResults || []).length,
+        usage: llmResult.usage,
+        debug: buildDebug(llmResult.response || ""),
+      };
+    };
+
+    // Function-calling mode: tools run inside the conversation, the envelope comes from end_iteration
+    const runFunctionCallingIteration = async (onDelta?: (text: string) => void): Promise<Record<string, unknown>> => {
+      const toolResults: Array<{ tool: string; params?: Record<string, unknown>; success: boolean; result?: unknown; error?: string }> = [];
+      const frontendHandlers: Array<{ tool: string; params: Record<string, unknown> }> = [];
+      const { declarations, nameMap } = buildFunctionDeclarations(promptData, advancedFeatures, toolInstances);
+
+      let outcome: Awaited<ReturnType<typeof runToolConversation>>;
+      try {
+        const conversation = createToolConversation(resolvedModel, systemPrompt, prompt, declarations);
+        outcome = await runToolConversation(conversation, nameMap, async (toolCall) => {
+          const { resolvedParams, result, frontend } = await runToolCall(toolCall);
+          if (frontend) {
+            frontendHandlers.push({ tool: toolCall.tool, params: resolvedParams });
+          } else {
+            toolResults.push({
+              tool: toolCall.tool,
+              params: resolvedParams,
+              success: result.success,
+              result: result.result,
+              error: result.error,
+            });
+          }
+          return describeToolResultForModel(toolCall, result, frontend);
+        }, onDelta);
+      } catch (error) {
+        console.error("Tool conversation error:", error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+          debug: buildDebug(""),
+          parseError: null,
+        };
+      }
+
+      const { envelope, transcript, usage } = outcome;
+      return {
+        success: true,
+        iteration,
+        response: envelope,
+        toolResults,
+        frontendHandlers,
+        status: envelope.status,
+        usage,
+        debug: buildDebug(JSON.stringify({ turns: transcript, end_iteration: envelope }, null, 2)),
+      };
+    };
+
+    const runIteration = async (onDelta?: (text: string) => void) =>
+      mode === "function_calling"
+        ? runFunctionCallingIteration(onDelta)
+        : completeIteration(await callLLM(systemPrompt, prompt, resolvedModel, onDelta));
+
+    // Streamed mode: forward model output as it arrives, then send the full result
+    if (stream) {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream({
+        async start(controller) {
+          const send = (event: Record<string, unknown>) =>
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+          try {
+            const data = await runIteration((text) => send({ type: "delta", text }));
+            send({ type: "result", data });
+          } catch (error) {
+            console.error("Free Agent stream error:", error);
+            send({ type: "error", error: error instanceof Error ? error.message : "Unknown error" });
+          } finally {
+            controller.close();
+          }
         },
-      }),
+      });
+
+      return new Response(body, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive",
+        },
+      });
+    }
+
+    return new Response(
+      JSON.stringify(await runIteration()),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
 
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { runStructured, structuredResponse, type StructuredAttempt } from "../_shared/structuredOutput.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,7 +12,7 @@ serve(async (req) => {
   }
 
   try {
-    const { systemPrompt, userPrompt, tools = [], model, maxOutputTokens } = await req.json();
+    const { systemPrompt, userPrompt, tools = [], model, maxOutputTokens, responseSchema } = await req.json();
     
     console.log("Received request:", { model, maxOutputTokens, toolsCount: tools.length });
 
@@ -101,6 +102,61 @@ serve(async (req) => {
 
     console.log("Calling Anthropic API with model:", model);
 
+    // Structured output: force a single tool call whose input_schema is the response schema.
+    // Tool input must be an object, so other root types are wrapped in { result } and unwrapped.
+    if (responseSchema) {
+      const wrapRoot = responseSchema.type !== "object";
+      const inputSchema = wrapRoot
+        ? { type: "object", properties: { result: responseSchema }, required: ["result"] }
+        : responseSchema;
+      console.log(`Structured output requested - forcing structured_response tool (wrapped: ${wrapRoot})`);
+
+      const callClaude = async (prompt: string): Promise<StructuredAttempt> => {
+        const claudeResponse = await fetch("https://api.anthropic.com/v1/messages", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "anthropic-version": "2023-06-01",
+            "x-api-key": anthropicApiKey,
+          },
+          body: JSON.stringify({
+            model: model,
+            max_tokens: maxOutputTokens,
+            system: systemPrompt,
+            messages: [{ role: "user", content: prompt }],
+            tools: [{
+              name: "structured_response",
+              description: "Return the final answer. Its input must follow the required schema.",
+              input_schema: inputSchema,
+            }],
+            tool_choice: { type: "tool", name: "structured_response" },
+          }),
+        });
+        if (!claudeResponse.ok) {
+          const errorText = await claudeResponse.text();
+          throw new Error(`Anthropic API error: ${claudeResponse.status} ${errorText}`);
+        }
+        const data = await claudeResponse.json();
+        const toolUse = (data.content || []).find((block: { type: string }) => block.type === "tool_use");
+        const text = toolUse
+          ? JSON.stringify(wrapRoot ? toolUse.input?.result : toolUse.input)
+          : (data.content || []).filter((block: { type: string }) => block.type === "text").map((block: { text: string }) => block.text).join("");
+        return {
+          text,
+          usage: {
+            inputTokens: (data.usage?.input_tokens || 0) +
+              (data.usage?.cache_creation_input_tokens || 0) +
+              (data.usage?.cache_read_input_tokens || 0),
+            outputTokens: data.usage?.output_tokens || 0,
+            thinkingTokens: 0,
+          },
+        };
+      };
+
+      const { json, usage, attempts } = await runStructured(responseSchema, finalPrompt, callClaude);
+      return structuredResponse(corsHeaders, json, usage, attempts, toolResults);
+    }
+
     // Create a readable stream for SSE
     console.log("Starting to stream response to client");
     
@@ -113,6 +169,7 @@ serve(async (req) => {
         let chunkCount = 0;
         let lastTextLength = 0;
         let reader;
+        const usage = { inputTokens: 0, outputTokens: 0, thinkingTokens: 0 };
 
         try {
           // Send tool outputs first if any
@@ -178,7 +235,16 @@ serve(async (req) => {
               try {
                 const parsed = JSON.parse(jsonStr);
                 
-                if (parsed.type === "content_block_delta" && parsed.delta?.type === "text_delta") {
+                if (parsed.type === "message_start" && parsed.message?.usage) {
+                  const startUsage = parsed.message.usage;
+                  usage.inputTokens = (startUsage.input_tokens || 0) +
+                    (startUsage.cache_creation_input_tokens || 0) +
+                    (startUsage.cache_read_input_tokens || 0);
+                  usage.outputTokens = startUsage.output_tokens || 0;
+                } else if (parsed.type === "message_delta" && parsed.usage) {
+                  // output_tokens in message_delta is cumulative
+                  usage.outputTokens = parsed.usage.output_tokens ?? usage.outputTokens;
+                } else if (parsed.type === "content_block_delta" && parsed.delta?.type === "text_delta") {
                   const text = parsed.delta.text;
                   lastTextLength += text.length;
                   // Send text delta to client
@@ -187,7 +253,7 @@ serve(async (req) => {
                 } else if (parsed.type === "message_stop") {
                   console.log(`Stream finishing with reason: STOP, Total text sent: ${lastTextLength} chars`);
                   // Send finish event to client
-                  const doneEvent = `data: ${JSON.stringify({ type: 'done', finishReason: 'STOP' })}\n\n`;
+                  const doneEvent = `data: ${JSON.stringify({ type: 'done', finishReason: 'STOP', usage })}\n\n`;
                   controller.enqueue(encoder.encode(doneEvent));
                 } else if (parsed.type === "error") {
                   const errorMessage = JSON.stringify({
@@ -0,0 +1,208 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { executeAgentTools } from "../_shared/agentTools.ts";
+import { runStructured, structuredResponse, type StructuredAttempt } from "../_shared/structuredOutput.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { 
+      systemPrompt, 
+      userPrompt, 
+      tools = [], 
+      model,
+      modelEndpoint,
+      maxOutputTokens = 8192,
+      responseSchema
+    } = await req.json();
+
+    // Self-hosted models (Ollama, vLLM, LM Studio, ...) registered in the client's model registry
+    if (!modelEndpoint?.baseUrl || !modelEndpoint?.apiModel) {
+      throw new Error(`No OpenAI-compatible endpoint configured for model ${model}`);
+    }
+    const baseUrl = String(modelEndpoint.baseUrl).replace(/\/+$/, '');
+    const apiModel = modelEndpoint.apiModel;
+
+    console.log(`Using OpenAI-compatible model: ${apiModel} at ${baseUrl}`);
+    console.log(`System prompt length: ${systemPrompt.length}`);
+    console.log(`User prompt length: ${userPrompt.length}`);
+    console.log(`Tools requested: ${tools.length}`);
+
+    // Execute tools if any are provided
+    const toolResults = await executeAgentTools(tools, userPrompt);
+
+    // Construct the final prompt with tool results if any
+    const finalPrompt = toolResults 
+      ? `${userPrompt}\n\n=== Additional Context from Tools ===${toolResults}`
+      : userPrompt;
+
+    console.log(`Final prompt length: ${finalPrompt.length}`);
+
+    if (responseSchema) {
+      // Structured output: json_schema when the endpoint supports it, otherwise JSON mode with
+      // the schema spelled out in the system prompt. Either way the result is validated and retried here.
+      const responseFormat = modelEndpoint.jsonSchema
+        ? { type: 'json_schema', json_schema: { name: 'structured_response', schema: responseSchema } }
+        : { type: 'json_object' };
+      const structuredSystemPrompt = modelEndpoint.jsonSchema
+        ? systemPrompt
+        : `${systemPrompt}\n\nRespond with only JSON that matches this JSON Schema:\n${JSON.stringify(responseSchema, null, 2)}`;
+      const callModel = async (prompt: string): Promise<StructuredAttempt> => {
+        const completionResponse = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            ...(modelEndpoint.apiKey ? { 'Authorization': `Bearer ${modelEndpoint.apiKey}` } : {}),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: apiModel,
+            messages: [
+              { role: 'system', content: structuredSystemPrompt },
+              { role: 'user', content: prompt }
+            ],
+            max_tokens: maxOutputTokens,
+            response_format: responseFormat,
+          }),
+        });
+        if (!completionResponse.ok) {
+          const errorText = await completionResponse.text();
+          throw new Error(`OpenAI-compatible API error: ${completionResponse.status} - ${errorText}`);
+        }
+        const data = await completionResponse.json();
+        return {
+          text: data.choices?.[0]?.message?.content || '',
+          usage: {
+            inputTokens: data.usage?.prompt_tokens || 0,
+            outputTokens: data.usage?.completion_tokens || 0,
+            thinkingTokens: data.usage?.completion_tokens_details?.reasoning_tokens || 0,
+          },
+        };
+      };
+
+      const { json, usage, attempts } = await runStructured(responseSchema, finalPrompt, callModel);
+      return structuredResponse(corsHeaders, json, usage, attempts);
+    }
+
+    // Call the endpoint with streaming
+    const llmResponse = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(modelEndpoint.apiKey ? { 'Authorization': `Bearer ${modelEndpoint.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: apiModel,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: finalPrompt }
+        ],
+        max_tokens: maxOutputTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    if (!llmResponse.ok) {
+      const errorText = await llmResponse.text();
+      console.error('OpenAI-compatible API error:', errorText);
+      throw new Error(`OpenAI-compatible API error: ${llmResponse.status} - ${errorText}`);
+    }
+
+    // Stream the response back to the client
+    const stream = new ReadableStream({
+      async start(controller) {
+        const reader = llmResponse.body?.getReader();
+        if (!reader) {
+          controller.close();
+          return;
+        }
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let usage: { inputTokens: number; outputTokens: number; thinkingTokens: number } | undefined;
+
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            
+            if (done) {
+              // Send done event
+              const doneData = JSON.stringify({ type: 'done', usage });
+              controller.enqueue(new TextEncoder().encode(`data: ${doneData}\n\n`));
+              controller.close();
+              break;
+            }
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+              const trimmedLine = line.trim();
+              if (!trimmedLine || trimmedLine === 'data: [DONE]') continue;
+              
+              if (trimmedLine.startsWith('data: ')) {
+                const jsonStr = trimmedLine.slice(6);
+                try {
+                  const parsed = JSON.parse(jsonStr);
+                  const content = parsed.choices?.[0]?.delta?.content;
+
+                  // The final chunk carries usage when include_usage is set
+                  if (parsed.usage) {
+                    usage = {
+                      inputTokens: parsed.usage.prompt_tokens || 0,
+                      outputTokens: parsed.usage.completion_tokens || 0,
+                      thinkingTokens: parsed.usage.completion_tokens_details?.reasoning_tokens || 0,
+                    };
+                  }
+                  
+                  if (content) {
+                    // Send delta event
+                    const deltaData = JSON.stringify({ type: 'delta', text: content });
+                    controller.enqueue(new TextEncoder().encode(`data: ${deltaData}\n\n`));
+                  }
+                } catch (e) {
+                  console.error('Error parsing SSE data:', e);
+                }
+              }
+            }
+          }
+        } catch (error) {
+          console.error('Stream processing error:', error);
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          const errorData = JSON.stringify({ type: 'error', error: errorMessage });
+          controller.enqueue(new TextEncoder().encode(`data: ${errorData}\n\n`));
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in run-agent-openai function:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
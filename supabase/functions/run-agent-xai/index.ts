@@ -1,5 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { executeAgentTools } from "../_shared/agentTools.ts";
+import { runStructured, structuredResponse, type StructuredAttempt } from "../_shared/structuredOutput.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,7 +19,8 @@ serve(async (req) => {
       userPrompt, 
       tools = [], 
       model = "grok-4-fast-non-reasoning",
-      maxOutputTokens = 16384 
+      maxOutputTokens = 16384,
+      responseSchema
     } = await req.json();
 
     const XAI_API_KEY = Deno.env.get('XAI_API_KEY');
@@ -31,65 +34,7 @@ serve(async (req) => {
     console.log(`Tools requested: ${tools.length}`);
 
     // Execute tools if any are provided
-    let toolResults = '';
-    if (tools.length > 0) {
-      console.log('Executing tools...');
-      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-      
-      for (const tool of tools) {
-        try {
-          console.log(`Executing tool: ${tool.toolId}`);
-          let toolResponse;
-          
-          if (tool.toolId === 'google_search' || tool.toolId === 'brave_search') {
-            const searchQuery = tool.config?.query || userPrompt.slice(0, 200);
-            toolResponse = await fetch(`${supabaseUrl}/functions/v1/${tool.toolId}`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ query: searchQuery }),
-            });
-          } else if (tool.toolId === 'weather') {
-            const location = tool.config?.location || 'London';
-            toolResponse = await fetch(`${supabaseUrl}/functions/v1/weather`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ location }),
-            });
-          } else if (tool.toolId === 'time') {
-            toolResponse = await fetch(`${supabaseUrl}/functions/v1/time`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({}),
-            });
-          } else if (tool.toolId === 'web_scrape') {
-            const url = tool.config?.url || '';
-            if (url) {
-              toolResponse = await fetch(`${supabaseUrl}/functions/v1/web-scrape`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ url }),
-              });
-            }
-          } else if (tool.toolId === 'api_call') {
-            toolResponse = await fetch(`${supabaseUrl}/functions/v1/api-call`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(tool.config || {}),
-            });
-          }
-
-          if (toolResponse) {
-            const toolData = await toolResponse.json();
-            toolResults += `\n\n=== ${tool.toolId} Results ===\n${JSON.stringify(toolData, null, 2)}`;
-            console.log(`Tool ${tool.toolId} executed successfully`);
-          }
-        } catch (toolError) {
-          console.error(`Error executing tool ${tool.toolId}:`, toolError);
-          const errorMessage = toolError instanceof Error ? toolError.message : String(toolError);
-          toolResults += `\n\n=== ${tool.toolId} Error ===\n${errorMessage}`;
-        }
-      }
-    }
+    const toolResults = await executeAgentTools(tools, userPrompt);
 
     // Construct the final prompt with tool results if any
     const finalPrompt = toolResults 
@@ -98,6 +43,45 @@ serve(async (req) => {
 
     console.log(`Final prompt length: ${finalPrompt.length}`);
 
+    if (responseSchema) {
+      // Structured output: xAI's json_schema response format, validated and retried here
+      const responseFormat = { type: 'json_schema', json_schema: { name: 'structured_response', schema: responseSchema } };
+      const callModel = async (prompt: string): Promise<StructuredAttempt> => {
+        const completionResponse = await fetch('https://api.x.ai/v1/chat/completions', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${XAI_API_KEY}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: prompt }
+            ],
+            max_tokens: maxOutputTokens,
+            response_format: responseFormat,
+          }),
+        });
+        if (!completionResponse.ok) {
+          const errorText = await completionResponse.text();
+          throw new Error(`xAI API error: ${completionResponse.status} - ${errorText}`);
+        }
+        const data = await completionResponse.json();
+        return {
+          text: data.choices?.[0]?.message?.content || '',
+          usage: {
+            inputTokens: data.usage?.prompt_tokens || 0,
+            outputTokens: data.usage?.completion_tokens || 0,
+            thinkingTokens: data.usage?.completion_tokens_details?.reasoning_tokens || 0,
+          },
+        };
+      };
+
+      const { json, usage, attempts } = await runStructured(responseSchema, finalPrompt, callModel);
+      return structuredResponse(corsHeaders, json, usage, attempts);
+    }
+
     // Call xAI API with streaming
     const xaiResponse = await fetch('https://api.x.ai/v1/chat/completions', {
       method: 'POST',
@@ -113,6 +97,7 @@ serve(async (req) => {
         ],
         max_tokens: maxOutputTokens,
         stream: true,
+        stream_options: { include_usage: true },
       }),
     });
 
@@ -133,6 +118,7 @@ serve(async (req) => {
 
         const decoder = new TextDecoder();
         let buffer = '';
+        let usage: { inputTokens: number; outputTokens: number; thinkingTokens: number } | undefined;
 
         try {
           while (true) {
@@ -140,7 +126,7 @@ serve(async (req) => {
             
             if (done) {
               // Send done event
-              const doneData = JSON.stringify({ type: 'done' });
+              const doneData = JSON.stringify({ type: 'done', usage });
               controller.enqueue(new TextEncoder().encode(`data: ${doneData}\n\n`));
               controller.close();
               break;
@@ -159,6 +145,15 @@ serve(async (req) => {
                 try {
                   const parsed = JSON.parse(jsonStr);
                   const content = parsed.choices?.[0]?.delta?.content;
+
+                  // The final chunk carries usage when include_usage is set
+                  if (parsed.usage) {
+                    usage = {
+                      inputTokens: parsed.usage.prompt_tokens || 0,
+                      outputTokens: parsed.usage.completion_tokens || 0,
+                      thinkingTokens: parsed.usage.completion_tokens_details?.reasoning_tokens || 0,
+                    };
+                  }
                   
                   if (content) {
                     // Send delta event
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { runStructured, structuredResponse, type StructuredAttempt } from "../_shared/structuredOutput.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,7 +12,7 @@ serve(async (req) => {
   }
 
   try {
-    const { systemPrompt, userPrompt, tools = [], model = "gemini-2.5-flash", maxOutputTokens = 32768, thinkingEnabled = false, thinkingBudget = 0 } = await req.json();
+    const { systemPrompt, userPrompt, tools = [], model = "gemini-2.5-flash", maxOutputTokens = 32768, thinkingEnabled = false, thinkingBudget = 0, responseSchema } = await req.json();
     
     // Ensure maxOutputTokens is a valid number
     let validMaxTokens = 32768;
@@ -24,9 +25,8 @@ serve(async (req) => {
       }
     }
     
-    // Validate model
-    const validModels = ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.5-flash-lite"];
-    const selectedModel = validModels.includes(model) ? model : "gemini-2.5-flash";
+    // Validate model - any Gemini model from the client's model registry is accepted
+    const selectedModel = typeof model === "string" && model.startsWith("gemini-") ? model : "gemini-2.5-flash";
     
     const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
     if (!GEMINI_API_KEY) {
@@ -137,13 +137,73 @@ serve(async (req) => {
     // 2.5 Pro: Cannot disable thinking, range 128-32768
     // 2.5 Flash: Can disable with 0, range 0-24576
     // 2.5 Flash Lite: Can disable with 0, range 512-24576
-    if (selectedModel !== "gemini-2.5-pro") {
+    // 3.x: Always thinks - keep the model's default thinking level
+    if (selectedModel.startsWith("gemini-2.5-") && selectedModel !== "gemini-2.5-pro") {
       generationConfig.thinkingConfig = {
         thinkingBudget: thinkingEnabled ? thinkingBudget : 0
       };
       console.log(`Added thinkingConfig with budget: ${thinkingEnabled ? thinkingBudget : 0} (${thinkingEnabled ? 'enabled' : 'disabled'})`);
     }
     
+    const safetySettings = [
+      {
+        category: "HARM_CATEGORY_HARASSMENT",
+        threshold: "BLOCK_NONE"
+      },
+      {
+        category: "HARM_CATEGORY_HATE_SPEECH",
+        threshold: "BLOCK_NONE"
+      },
+      {
+        category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+        threshold: "BLOCK_NONE"
+      },
+      {
+        category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+        threshold: "BLOCK_NONE"
+      }
+    ];
+
+    // Structured output: Gemini's JSON mode constrained by the schema, validated and retried here
+    if (responseSchema) {
+      console.log("Structured output requested - using JSON mode with responseJsonSchema");
+      const callGemini = async (prompt: string): Promise<StructuredAttempt> => {
+        const geminiResponse = await fetch(
+          `https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:generateContent?key=${GEMINI_API_KEY}`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              contents: [{ role: "user", parts: [{ text: `${systemPrompt}\n\n${prompt}` }] }],
+              safetySettings,
+              generationConfig: {
+                ...generationConfig,
+                responseMimeType: "application/json",
+                responseJsonSchema: responseSchema,
+              },
+            }),
+          }
+        );
+        if (!geminiResponse.ok) {
+          const errorText = await geminiResponse.text();
+          throw new Error(`Gemini API error (${geminiResponse.status}): ${errorText}`);
+        }
+        const data = await geminiResponse.json();
+        const parts: Array<{ text?: string; thought?: boolean }> = data.candidates?.[0]?.content?.parts || [];
+        return {
+          text: parts.filter((part) => !part.thought).map((part) => part.text || "").join(""),
+          usage: {
+            inputTokens: data.usageMetadata?.promptTokenCount || 0,
+            outputTokens: data.usageMetadata?.candidatesTokenCount || 0,
+            thinkingTokens: data.usageMetadata?.thoughtsTokenCount || 0,
+          },
+        };
+      };
+
+      const { json, usage, attempts } = await runStructured(responseSchema, finalPrompt, callGemini);
+      return structuredResponse(corsHeaders, json, usage, attempts, toolOutputs);
+    }
+    
     const response = await fetch(
       `https://generativelanguage.googleapis.com/v1beta/models/${selectedModel}:streamGenerateContent?key=${GEMINI_API_KEY}&alt=sse`,
       {
@@ -160,24 +220,7 @@ serve(async (req) => {
               ]
             }
           ],
-          safetySettings: [
-            {
-              category: "HARM_CATEGORY_HARASSMENT",
-              threshold: "BLOCK_NONE"
-            },
-            {
-              category: "HARM_CATEGORY_HATE_SPEECH",
-              threshold: "BLOCK_NONE"
-            },
-            {
-              category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-              threshold: "BLOCK_NONE"
-            },
-            {
-              category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-              threshold: "BLOCK_NONE"
-            }
-          ],
+          safetySettings,
           generationConfig
         }),
       }
@@ -217,6 +260,7 @@ serve(async (req) => {
         let textBuffer = "";
         let chunkCount = 0;
         let lastTextLength = 0;
+        let usage: { inputTokens: number; outputTokens: number; thinkingTokens: number } | undefined;
         
         try {
           // First, send tool outputs if any
@@ -255,6 +299,15 @@ serve(async (req) => {
                 // Extract text content
                 const text = candidate?.content?.parts?.[0]?.text;
                 const finishReason = candidate?.finishReason;
+
+                // Gemini reports cumulative usage on each chunk; keep the latest
+                if (parsed.usageMetadata) {
+                  usage = {
+                    inputTokens: parsed.usageMetadata.promptTokenCount || 0,
+                    outputTokens: parsed.usageMetadata.candidatesTokenCount || 0,
+                    thinkingTokens: parsed.usageMetadata.thoughtsTokenCount || 0,
+                  };
+                }
                 
                 if (text) {
                   lastTextLength += text.length;
@@ -269,7 +322,8 @@ serve(async (req) => {
                   const doneEvent = `data: ${JSON.stringify({ 
                     type: 'done', 
                     finishReason,
-                    truncated: finishReason === 'MAX_TOKENS'
+                    truncated: finishReason === 'MAX_TOKENS',
+                    usage
                   })}\n\n`;
                   controller.enqueue(encoder.encode(doneEvent));
                 }
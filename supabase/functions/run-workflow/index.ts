@@ -0,0 +1,771 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { DEFAULT_MODEL_ID, PROVIDER_EDGE_FUNCTIONS, findBuiltInModel, guessProvider } from "../_shared/models.ts";
+import { getNextCronRun } from "../_shared/cronSchedule.ts";
+import { ERROR_PORT, runWithPolicy } from "../_shared/executionPolicy.ts";
+import {
+  getSchemaFieldNames,
+  isNullLikeValue,
+  parseAgentResponseSchema,
+  splitStructuredOutput,
+} from "../_shared/nodeOutputs.ts";
+import { getTriggeredRunIssue, getTriggeredRunIssues } from "../_shared/triggeredRuns.ts";
+
+// Headless workflow runs for schedules, webhooks and "Run now" in the triggers dialog.
+//
+//   POST { "action": "dispatch" }                  - start every schedule that is due (pg_cron, every minute)
+//   POST { "action": "run", "triggerId" | "workflowId", "userInput"? }
+//                                                  - start a run immediately
+//   POST ?token=<webhook token>[&wait=true]        - webhook: the raw request body becomes the user input
+//
+// Runs use the latest saved version of the library workflow. Agents call the same
+// run-agent edge functions as the browser. Workflows with nodes that need a browser
+// (file exports, code sandbox, memory) or a nested runner (loops, Beast Mode,
+// sub-workflows) are refused - see _shared/triggeredRuns.ts. Cron parsing, the
+// execution policy and output splitting are shared with the browser runner.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const INPUT_SEPARATOR = "\n\n---\n\n";
+
+// Runs still "running" after this long were cut off by the edge runtime's wall-clock limit
+const STALE_RUN_MINUTES = 15;
+
+type NodeStatus = "idle" | "running" | "complete" | "error";
+
+interface WorkflowNode {
+  id: string;
+  name: string;
+  nodeType: "agent" | "function" | "tool";
+  status?: NodeStatus;
+  output?: string;
+  locked?: boolean;
+  executeOnNullInput?: boolean;
+  policy?: {
+    retries?: number;
+    retryDelayMs?: number;
+    timeoutSeconds?: number;
+    fallbackModel?: string;
+    continueOnError?: boolean;
+  };
+  // Agents
+  systemPrompt?: string;
+  userPrompt?: string;
+  tools?: { toolId: string; config: unknown }[];
+  useSpecificModel?: boolean;
+  model?: string;
+  responseLength?: number;
+  thinkingEnabled?: boolean;
+  thinkingBudget?: number;
+  responseSchema?: string;
+  schemaOutputPorts?: boolean;
+  structuredOutputs?: Record<string, string>;
+  beastMode?: { enabled: boolean };
+  mapRows?: { enabled: boolean };
+  // Functions
+  functionType?: string;
+  config?: Record<string, string | number | boolean | null | undefined>;
+  outputs?: Record<string, string>;
+  outputCount?: number;
+}
+
+interface Stage {
+  id: string;
+  name: string;
+  nodes: WorkflowNode[];
+  loop?: { enabled: boolean };
+}
+
+interface Connection {
+  fromNodeId: string;
+  toNodeId: string;
+  fromOutputPort?: string;
+}
+
+interface Workflow {
+  stages: Stage[];
+  connections: Connection[];
+}
+
+interface ModelSettings {
+  selectedModel?: string;
+  responseLength?: number;
+  thinkingEnabled?: boolean;
+  thinkingBudget?: number;
+}
+
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+interface LogEntry {
+  time: string;
+  type: "info" | "warning" | "error" | "success" | "running";
+  message: string;
+}
+
+interface NodeResult {
+  name: string;
+  status: NodeStatus;
+  output: string;
+}
+
+interface RunRequest {
+  workflowId: string;
+  triggerId?: string;
+  source: "schedule" | "webhook" | "manual";
+  userInput: string;
+}
+
+interface RunOutcome {
+  runId: string;
+  status: "complete" | "error";
+  outputs: Record<string, string>;
+  error?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function functionUrl(name: string): string {
+  return `${Deno.env.get("SUPABASE_URL")}/functions/v1/${name}`;
+}
+
+// ============================================================================
+// Agents
+// ============================================================================
+
+function getAgentEdgeFunction(model: string): string {
+  const provider = findBuiltInModel(model)?.provider || guessProvider(model);
+  // Custom OpenAI-compatible endpoints are configured in the browser and not visible here
+  if (!provider) throw new Error(`Model "${model}" is not available in triggered runs - choose a built-in model`);
+  return PROVIDER_EDGE_FUNCTIONS[provider];
+}
+
+/**
+ * Call an agent edge function and collect its SSE stream into the final text
+ */
+async function callAgent(
+  edgeFunction: string,
+  payload: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<{ output: string; usage?: TokenUsage; truncated?: string }> {
+  const response = await fetch(functionUrl(edgeFunction), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error((await response.text()) || `Agent call failed: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let output = "";
+  let usage: TokenUsage | undefined;
+  let truncated: string | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, "");
+      buffer = buffer.slice(newlineIndex + 1);
+      if (!line.startsWith("data: ")) continue;
+      try {
+        const event = JSON.parse(line.slice(6));
+        if (event.type === "delta" && event.text) output += event.text;
+        if (event.type === "done") {
+          usage = event.usage;
+          if (event.truncated) truncated = event.finishReason;
+        }
+        if (event.type === "error") throw new Error(event.error || "Agent stream error");
+      } catch (error) {
+        if (error instanceof SyntaxError) continue;
+        throw error;
+      }
+    }
+  }
+
+  return { output, usage, truncated };
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+interface SearchResponse {
+  results?: { title: string; url: string; description: string }[];
+}
+
+interface ApiCallResponse {
+  error?: string;
+  status?: number;
+  statusText?: string;
+  data?: unknown;
+}
+
+interface SendEmailResponse {
+  success?: boolean;
+  error?: string;
+}
+
+async function postJson<T>(edgeFunction: string, body: unknown): Promise<T> {
+  const response = await fetch(functionUrl(edgeFunction), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `${edgeFunction} failed: ${response.status}`);
+  return data;
+}
+
+function branch(condition: boolean, input: string): Record<string, string> {
+  return condition ? { true: input, false: "" } : { true: "", false: input };
+}
+
+function searchQuery(node: WorkflowNode, input: string): string {
+  const raw = node.config?.overrideQuery ? String(node.config.overrideQuery) : input;
+  const query = raw.replace(/\s+/g, " ").trim();
+  if (!query) throw new Error("Search query is required (provide via connection or override)");
+  return query;
+}
+
+function formatSearchResults(data: SearchResponse): string {
+  return (data.results || [])
+    .map((r, i) => `${i + 1}. ${r.title}\n   ${r.url}\n   ${r.description}`)
+    .join("\n\n");
+}
+
+/**
+ * Run one function node. Returns its port outputs; throws on failure.
+ */
+async function executeFunction(node: WorkflowNode, input: string): Promise<Record<string, string>> {
+  const config = node.config || {};
+  switch (node.functionType) {
+    case "content":
+      return { output: (config.content || "") + input };
+
+    case "string_contains": {
+      const caseSensitive = config.caseSensitive || false;
+      const haystack = caseSensitive ? input : input.toLowerCase();
+      const searchText = String(config.searchText || "");
+      const needle = caseSensitive ? searchText : searchText.toLowerCase();
+      return branch(haystack.includes(needle), input);
+    }
+
+    case "string_concat":
+      return { output: input };
+
+    case "string_replace":
+      return { output: input.split(String(config.find || "")).join(String(config.replace || "")) };
+
+    case "string_split": {
+      const parts = input.split(String(config.delimiter || ","));
+      const outputs: Record<string, string> = {};
+      for (let i = 1; i <= (node.outputCount || 1); i++) outputs[`output_${i}`] = parts[i - 1]?.trim() || "";
+      return outputs;
+    }
+
+    case "is_json":
+      try {
+        JSON.parse(input);
+        return branch(true, input);
+      } catch {
+        return branch(false, input);
+      }
+
+    case "is_empty":
+      return branch(input.trim() === "", input);
+
+    case "is_url":
+      try {
+        new URL(input.trim());
+        return branch(true, input);
+      } catch {
+        return branch(false, input);
+      }
+
+    case "if_else":
+      return branch(input.toLowerCase().includes(String(config.condition || "").toLowerCase()), input);
+
+    case "extract_urls": {
+      const matches = input.match(/https?:\/\/[^\s<>"{}|\\^`[\]]+/gi) || [];
+      return { output: (config.unique !== false ? [...new Set(matches)] : matches).join("\n") };
+    }
+
+    case "google_search":
+    case "brave_search": {
+      const numResults = Math.max(1, Math.min(1000, Number(config.numResults) || 20));
+      const edgeFunction = node.functionType === "google_search" ? "google-search" : "brave-search";
+      const data = await postJson<SearchResponse>(edgeFunction, { query: searchQuery(node, input), numResults });
+      return { output: formatSearchResults(data) };
+    }
+
+    case "web_scrape": {
+      const urls = [...new Set((input.match(/(https?:\/\/[^\s"'<>]+)/g) || []).map((u) => u.replace(/["')\]}>]+$/, "")))];
+      if (urls.length === 0) throw new Error("No valid URLs found in input");
+      const maxCharacters = config.truncateResults === true ? Math.max(1, Number(config.maxCharacters) || 5000) : undefined;
+      const results = await Promise.all(urls.map(async (url) => {
+        try {
+          const data = await postJson("web-scrape", { url, returnHtml: config.returnHtml === true, maxCharacters });
+          return `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+        } catch (error) {
+          return `[Error scraping ${url}: ${error instanceof Error ? error.message : error}]`;
+        }
+      }));
+      return { output: results.join(INPUT_SEPARATOR) };
+    }
+
+    case "api_call": {
+      if (!config.url) throw new Error("API URL is required");
+      const method = String(config.method || "POST");
+      let headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.bearerToken) headers.Authorization = `Bearer ${config.bearerToken}`;
+      if (config.headers) {
+        try {
+          headers = { ...headers, ...JSON.parse(String(config.headers)) };
+        } catch {
+          // Invalid headers JSON - keep the defaults, as the browser run does
+        }
+      }
+      const result = await postJson<ApiCallResponse>("api-call", {
+        url: config.url,
+        method,
+        headers,
+        body: method !== "GET" && method !== "HEAD" ? input : undefined,
+      });
+      if (result.error) throw new Error(`API call failed: ${result.error}`);
+      if (result.status && result.status >= 400) {
+        throw new Error(`API call failed: ${result.status} ${result.statusText}\n${typeof result.data === "string" ? result.data : JSON.stringify(result.data)}`);
+      }
+      return { output: typeof result.data === "string" ? result.data : JSON.stringify(result.data, null, 2) };
+    }
+
+    case "send_email": {
+      if (!config.to) throw new Error("Recipient email is required");
+      if (!config.subject) throw new Error("Email subject is required");
+      if (!input) throw new Error("Email body is required (provide via connection)");
+      const data = await postJson<SendEmailResponse>("send-email", { to: config.to, subject: config.subject, body: input, useHtml: config.useHtml === true });
+      if (!data.success) throw new Error(data.error || "Email sending failed");
+      return { output: `Email sent successfully to ${config.to}` };
+    }
+
+    default:
+      throw new Error(`"${node.functionType}" functions can only run in the browser`);
+  }
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+class HeadlessRun {
+  private readonly nodes: WorkflowNode[];
+  private readonly loopNodeIds: Set<string>;
+  private readonly results = new Map<string, { output: string; ports: Record<string, string> }>();
+  readonly logs: LogEntry[] = [];
+  readonly nodeResults: Record<string, NodeResult> = {};
+  readonly usage: Record<string, TokenUsage> = {};
+
+  constructor(
+    private readonly workflow: Workflow,
+    private readonly settings: ModelSettings,
+    private readonly userInput: string,
+    private readonly onProgress: () => Promise<void>
+  ) {
+    this.nodes = workflow.stages.flatMap((stage) => stage.nodes);
+    this.loopNodeIds = new Set(workflow.stages.filter((s) => s.loop?.enabled).flatMap((s) => s.nodes.map((n) => n.id)));
+  }
+
+  log(type: LogEntry["type"], message: string) {
+    this.logs.push({ time: new Date().toISOString(), type, message });
+  }
+
+  /**
+   * Dependency-driven run of every node, in parallel where possible. Returns the
+   * outputs of the terminal nodes keyed by node name.
+   */
+  async run(): Promise<Record<string, string>> {
+    this.log("info", `🚀 Triggered run started (${this.nodes.length} node(s))`);
+    const completed = new Set<string>();
+    const executing = new Map<string, Promise<void>>();
+    const dependencies = (id: string) => this.workflow.connections.filter((c) => c.toNodeId === id).map((c) => c.fromNodeId);
+    const pending = () => this.nodes.filter((n) => !completed.has(n.id));
+
+    while (pending().length > 0) {
+      const ready = pending().filter((n) => !executing.has(n.id) && dependencies(n.id).every((id) => completed.has(id)));
+      if (ready.length === 0) {
+        if (executing.size === 0) break;
+        await Promise.race(executing.values());
+        continue;
+      }
+      ready.forEach((node) => {
+        const task = this.executeNode(node)
+          .catch((error) => this.fail(node, error))
+          .finally(() => {
+            executing.delete(node.id);
+            completed.add(node.id);
+          })
+          .then(() => this.onProgress())
+          .catch((error) => console.error("Failed to save run progress:", error));
+        executing.set(node.id, task);
+      });
+      await Promise.race(executing.values());
+    }
+
+    const stuck = pending();
+    if (stuck.length > 0) {
+      this.log("warning", `Run stuck: ${stuck.map((n) => n.name).join(", ")} cannot execute due to missing dependencies`);
+    }
+    this.log("success", "🎉 Triggered run completed");
+
+    const sources = new Set(this.workflow.connections.map((c) => c.fromNodeId));
+    return Object.fromEntries(
+      this.nodes
+        .filter((n) => !sources.has(n.id) && this.nodeResults[n.id]?.status === "complete")
+        .map((n) => [n.name, this.nodeResults[n.id].output])
+    );
+  }
+
+  hasErrors(): boolean {
+    return Object.values(this.nodeResults).some((r) => r.status === "error");
+  }
+
+  private readPort(nodeId: string, port?: string): string {
+    const result = this.results.get(nodeId);
+    if (!result) return "";
+    if (!port) return result.output;
+    return result.ports[port] ?? (port === "output" ? result.output : "");
+  }
+
+  private getNodeInput(nodeId: string): string {
+    const incoming = this.workflow.connections.filter((c) => c.toNodeId === nodeId);
+    if (incoming.length === 0) return this.userInput;
+    return incoming
+      .map((c) => this.readPort(c.fromNodeId, c.fromOutputPort))
+      .filter((value) => value.trim().length > 0)
+      .join(INPUT_SEPARATOR);
+  }
+
+  private complete(node: WorkflowNode, output: string, ports: Record<string, string>) {
+    this.results.set(node.id, { output, ports });
+    this.nodeResults[node.id] = { name: node.name, status: "complete", output };
+  }
+
+  private fail(node: WorkflowNode, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    // The error text becomes the node's output so downstream nodes see what happened,
+    // unless the node continues on error - then only its error port carries it
+    this.results.set(node.id, node.policy?.continueOnError
+      ? { output: "", ports: { [ERROR_PORT]: message } }
+      : { output: `Error: ${message}`, ports: {} });
+    this.nodeResults[node.id] = { name: node.name, status: "error", output: `Error: ${message}` };
+    this.log("error", `✗ ${node.name} failed: ${message}`);
+  }
+
+  /**
+   * Run an attempt under the node's policy (shared with the browser runner), logging each retry
+   */
+  private withPolicy<T>(node: WorkflowNode, attempt: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    return runWithPolicy(node.policy, attempt, (error, retry, delayMs) => {
+      this.log("warning", `"${node.name}" failed (${error}), retry ${retry} in ${(delayMs / 1000).toFixed(1)}s`);
+    });
+  }
+
+  private async executeNode(node: WorkflowNode): Promise<void> {
+    if (node.locked) {
+      const ports = node.outputs || node.structuredOutputs || {};
+      this.complete(node, node.output || "", { ...ports, output: ports.output ?? node.output ?? "" });
+      this.log("info", `"${node.name}" is locked, using its saved output`);
+      return;
+    }
+
+    const issue = getTriggeredRunIssue(node, this.loopNodeIds.has(node.id));
+    if (issue) throw new Error(issue);
+
+    const input = this.getNodeInput(node.id);
+    const producesOwnOutput = node.functionType === "content" && !isNullLikeValue(String(node.config?.content ?? ""));
+    if (!node.executeOnNullInput && !producesOwnOutput && isNullLikeValue(input)) {
+      this.nodeResults[node.id] = { name: node.name, status: "idle", output: "" };
+      this.log("warning", `"${node.name}" skipped - input is null/empty`);
+      return;
+    }
+
+    if (node.nodeType === "agent") {
+      await this.runAgent(node, input);
+    } else {
+      this.log("info", `Executing function: ${node.name}`);
+      const outputs = await this.withPolicy(node, () => executeFunction(node, input));
+      const keys = Object.keys(outputs);
+      const primary = keys.length > 1
+        ? Object.values(outputs).filter((v) => v).join(INPUT_SEPARATOR)
+        : outputs.output || Object.values(outputs)[0] || "";
+      this.complete(node, primary, keys.length > 1 ? outputs : { output: primary });
+      this.log("success", `✓ Function ${node.name} completed (output length: ${primary.length} chars)`);
+    }
+  }
+
+  private async runAgent(agent: WorkflowNode, input: string): Promise<void> {
+    const useSpecific = !!agent.useSpecificModel;
+    const model = (useSpecific && agent.model) || this.settings.selectedModel || DEFAULT_MODEL_ID;
+    // {item} and {index} only vary inside loops, which triggered runs do not support
+    const placeholders: Record<string, string> = { input, prompt: this.userInput, item: input, index: "1" };
+    const userPrompt = (agent.userPrompt || "").replace(/{([^{}\n]+)}/g, (match, name: string) =>
+      Object.prototype.hasOwnProperty.call(placeholders, name.toLowerCase()) ? placeholders[name.toLowerCase()] : match
+    );
+    const responseSchema = parseAgentResponseSchema(agent);
+
+    const call = (callModel: string) => this.withPolicy(agent, async (signal) => {
+      this.log("running", `Agent ${agent.name} processing with ${callModel}...`);
+      const result = await callAgent(getAgentEdgeFunction(callModel), {
+        systemPrompt: agent.systemPrompt || "",
+        userPrompt,
+        tools: (agent.tools || []).map((t) => ({ toolId: t.toolId, config: t.config })),
+        model: callModel,
+        maxOutputTokens: useSpecific && agent.responseLength ? agent.responseLength : this.settings.responseLength,
+        thinkingEnabled: useSpecific ? (agent.thinkingEnabled ?? false) : this.settings.thinkingEnabled,
+        thinkingBudget: useSpecific ? (agent.thinkingBudget ?? 0) : this.settings.thinkingBudget,
+        responseSchema,
+      }, signal);
+      return { ...result, model: callModel };
+    });
+
+    const fallbackModel = agent.policy?.fallbackModel;
+    let result: Awaited<ReturnType<typeof call>>;
+    try {
+      result = await call(model);
+    } catch (error) {
+      if (!fallbackModel || fallbackModel === model) throw error;
+      this.log("warning", `Agent ${agent.name} failed on ${model} (${error}), falling back to ${fallbackModel}`);
+      result = await call(fallbackModel);
+    }
+    const { output, usage, truncated } = result;
+
+    if (usage) {
+      const total = this.usage[result.model] || { inputTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+      this.usage[result.model] = {
+        inputTokens: total.inputTokens + (usage.inputTokens || 0),
+        outputTokens: total.outputTokens + (usage.outputTokens || 0),
+        thinkingTokens: total.thinkingTokens + (usage.thinkingTokens || 0),
+      };
+    }
+    if (truncated) this.log("warning", `Response from ${agent.name} was truncated (${truncated})`);
+
+    const fields = agent.schemaOutputPorts ? getSchemaFieldNames(responseSchema) : [];
+    this.complete(agent, output, { output, ...splitStructuredOutput(output, fields) });
+    this.log("success", `✓ Agent ${agent.name} completed (output length: ${output.length} chars)`);
+  }
+}
+
+/**
+ * Create the run row and start executing the workflow. The outcome settles once
+ * the run is recorded as complete or errored; it never rejects.
+ */
+async function startRun(
+  supabase: SupabaseClient,
+  request: RunRequest
+): Promise<{ runId: string; outcome: Promise<RunOutcome> }> {
+  const { data: run, error } = await supabase
+    .from("workflow_runs")
+    .insert({
+      workflow_id: request.workflowId,
+      trigger_id: request.triggerId ?? null,
+      source: request.source,
+      user_input: request.userInput,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return { runId: run.id, outcome: executeRun(supabase, run.id, request) };
+}
+
+async function executeRun(supabase: SupabaseClient, runId: string, request: RunRequest): Promise<RunOutcome> {
+  let runner: HeadlessRun | null = null;
+  const save = (fields: Record<string, unknown> = {}) =>
+    supabase
+      .from("workflow_runs")
+      .update({
+        logs: runner?.logs ?? [],
+        node_results: runner?.nodeResults ?? {},
+        usage: runner?.usage ?? {},
+        ...fields,
+      })
+      .eq("id", runId);
+
+  try {
+    const { data: saved, error } = await supabase
+      .from("workflows")
+      .select("workflow, model_settings")
+      .eq("id", request.workflowId)
+      .single();
+    if (error) throw new Error(`Workflow not found: ${error.message}`);
+    // Checked when the trigger is saved too, but the workflow may have changed since
+    const issues = getTriggeredRunIssues(saved.workflow as Workflow);
+    if (issues.length > 0) throw new Error(`This workflow can't run from a trigger:\n${issues.join("\n")}`);
+
+    runner = new HeadlessRun(saved.workflow as Workflow, (saved.model_settings || {}) as ModelSettings, request.userInput, async () => {
+      await save();
+    });
+    const outputs = await runner.run();
+    const status = runner.hasErrors() ? "error" : "complete";
+    const errorText = status === "error" ? "One or more nodes failed - see the logs" : null;
+    await save({ status, error: errorText, finished_at: new Date().toISOString() });
+    return { runId, status, outputs, error: errorText ?? undefined };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Run ${runId} failed:`, message);
+    await save({ status: "error", error: message, finished_at: new Date().toISOString() });
+    return { runId, status: "error", outputs: {}, error: message };
+  }
+}
+
+// ============================================================================
+// Entry points
+// ============================================================================
+
+/**
+ * Claim and start every enabled schedule whose next run time has passed
+ */
+async function dispatchSchedules(supabase: SupabaseClient): Promise<string[]> {
+  const now = new Date();
+
+  await supabase
+    .from("workflow_runs")
+    .update({ status: "error", error: "Run timed out", finished_at: now.toISOString() })
+    .eq("status", "running")
+    .lt("started_at", new Date(now.getTime() - STALE_RUN_MINUTES * 60_000).toISOString());
+
+  const { data: schedules, error } = await supabase
+    .from("workflow_triggers")
+    .select("id, workflow_id, cron, user_input, next_run_at")
+    .eq("kind", "schedule")
+    .eq("enabled", true)
+    .or(`next_run_at.is.null,next_run_at.lte.${now.toISOString()}`);
+  if (error) throw error;
+
+  const started: string[] = []; // Run ids
+  for (const schedule of schedules || []) {
+    let next: Date | null = null;
+    try {
+      next = schedule.cron ? getNextCronRun(schedule.cron, now) : null;
+    } catch (cronError) {
+      console.error(`Schedule ${schedule.id} has an invalid cron expression:`, cronError);
+    }
+
+    // Only the dispatcher that moves next_run_at forward starts the run
+    let claim = supabase
+      .from("workflow_triggers")
+      .update({ next_run_at: next?.toISOString() ?? null, ...(schedule.next_run_at ? { last_run_at: now.toISOString() } : {}) })
+      .eq("id", schedule.id);
+    claim = schedule.next_run_at ? claim.eq("next_run_at", schedule.next_run_at) : claim.is("next_run_at", null);
+    const { data: claimed } = await claim.select("id");
+    // A schedule without a next run time is only being initialised, not run
+    if (!claimed?.length || !schedule.next_run_at) continue;
+
+    const { runId, outcome } = await startRun(supabase, {
+      workflowId: schedule.workflow_id,
+      triggerId: schedule.id,
+      source: "schedule",
+      userInput: schedule.user_input || "",
+    });
+    EdgeRuntime.waitUntil(outcome);
+    started.push(runId);
+  }
+  return started;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  try {
+    const url = new URL(req.url);
+    const token = url.searchParams.get("token");
+
+    // Webhook
+    if (token) {
+      const { data: trigger } = await supabase
+        .from("workflow_triggers")
+        .select("id, workflow_id, enabled")
+        .eq("kind", "webhook")
+        .eq("webhook_token", token)
+        .maybeSingle();
+      if (!trigger) return json({ error: "Unknown webhook" }, 404);
+      if (!trigger.enabled) return json({ error: "Webhook is disabled" }, 403);
+
+      const userInput = await req.text();
+      await supabase.from("workflow_triggers").update({ last_run_at: new Date().toISOString() }).eq("id", trigger.id);
+      const { runId, outcome } = await startRun(supabase, {
+        workflowId: trigger.workflow_id,
+        triggerId: trigger.id,
+        source: "webhook",
+        userInput,
+      });
+
+      if (url.searchParams.get("wait") === "true") {
+        const result = await outcome;
+        return json(result, result.status === "complete" ? 200 : 500);
+      }
+      EdgeRuntime.waitUntil(outcome);
+      return json({ runId, status: "running" }, 202);
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    if (body.action === "dispatch") {
+      const started = await dispatchSchedules(supabase);
+      return json({ started });
+    }
+
+    if (body.action === "run") {
+      let workflowId: string | undefined = body.workflowId;
+      let userInput: string | undefined = body.userInput;
+      if (body.triggerId) {
+        const { data: trigger, error } = await supabase
+          .from("workflow_triggers")
+          .select("workflow_id, user_input")
+          .eq("id", body.triggerId)
+          .single();
+        if (error) return json({ error: "Trigger not found" }, 404);
+        workflowId = trigger.workflow_id;
+        userInput = userInput ?? trigger.user_input;
+      }
+      if (!workflowId) return json({ error: "workflowId or triggerId is required" }, 400);
+
+      const { runId, outcome } = await startRun(supabase, {
+        workflowId,
+        triggerId: body.triggerId,
+        source: "manual",
+        userInput: userInput || "",
+      });
+      EdgeRuntime.waitUntil(outcome);
+      return json({ runId, status: "running" }, 202);
+    }
+
+    return json({ error: 'Unknown action - expected "dispatch" or "run", or a webhook token' }, 400);
+  } catch (error) {
+    console.error("run-workflow error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
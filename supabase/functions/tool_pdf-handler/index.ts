@@ -1,10 +1,75 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+
+// PDF handler - parses PDFs with pdf.js (the serverless build from unpdf): per-page
+// text in reading order, outline, metadata and tables detected from the text layout.
+// Rendering pages needs a canvas, so rasterizing happens in the browser (pdf_rasterize).
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+
+// Limit on the text returned by one extract_text call
+const MAX_TEXT_LENGTH = 50000;
+// Pages with less text than this most likely have no text layer (scanned)
+const MIN_PAGE_TEXT = 20;
+// A horizontal gap wider than this many font sizes separates table cells
+const CELL_GAP = 2;
+// Consecutive multi-cell lines needed before they count as a table
+const MIN_TABLE_ROWS = 3;
+
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+interface Segment {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface Line {
+  y: number;
+  size: number;
+  segments: Segment[];
+}
+
+interface PdfTable {
+  page: number;
+  columns: number;
+  rows: string[][];
+}
+
+interface PdfPage {
+  page: number;
+  width: number;
+  height: number;
+  text: string;
+  tableCount: number;
+  needsOcr: boolean;
+}
+
+interface OutlineEntry {
+  title: string;
+  page: number | null;
+  children: OutlineEntry[];
+}
+
+interface PdfRequest {
+  action?: string;
+  fileData?: string;
+  pages?: number[] | null;
+  dpi?: number;
+  password?: string;
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -12,35 +77,35 @@ serve(async (req) => {
   }
 
   try {
-    const { action, fileData, pages, dpi = 150 } = await req.json();
+    const { action, fileData, pages, dpi = 150, password }: PdfRequest = await req.json();
 
     if (!fileData) {
       throw new Error("fileData is required (base64 encoded PDF file)");
     }
 
-    let result: any;
-
-    switch (action) {
-      case "info":
-        // Get PDF info - page count, etc.
-        // This is a simplified implementation - full PDF parsing would require a proper library
-        result = await getPdfInfo(fileData);
-        break;
-
-      case "rasterize":
-        // Convert PDF pages to images
-        // Note: Full PDF rasterization requires external services or complex libraries
-        // This implementation provides a structured response for frontend handling
-        result = await rasterizePdf(fileData, pages, dpi);
-        break;
-
-      case "extract_text":
-        // Extract text from PDF
-        result = await extractPdfText(fileData, pages);
-        break;
-
-      default:
-        throw new Error(`Unknown action: ${action}. Use 'info', 'rasterize', or 'extract_text'`);
+    const bytes = decodeBase64(fileData);
+    const pdf = await loadPdf(bytes, password);
+
+    let result: Record<string, unknown>;
+    try {
+      switch (action) {
+        case "info":
+          result = await getPdfInfo(pdf, bytes);
+          break;
+
+        case "rasterize":
+          result = rasterizePdf(pdf, pages ?? null, dpi);
+          break;
+
+        case "extract_text":
+          result = await extractPdfText(pdf, pages ?? null);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${action}. Use 'info', 'rasterize', or 'extract_text'`);
+      }
+    } finally {
+      await pdf.destroy();
     }
 
     return new Response(JSON.stringify(result), {
@@ -59,111 +124,386 @@ serve(async (req) => {
   }
 });
 
-async function getPdfInfo(fileData: string): Promise<any> {
-  // Decode base64
-  const binaryString = atob(fileData);
-  
-  // Check PDF signature
-  if (!binaryString.startsWith("%PDF")) {
+// ============================================================================
+// Loading
+// ============================================================================
+
+function decodeBase64(fileData: string): Uint8Array {
+  // Accept data URIs as well as bare base64
+  const base64 = fileData.replace(/^data:[^,]*,/, "");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function getPdfVersion(bytes: Uint8Array): string | null {
+  // The header may sit anywhere in the first 1024 bytes
+  const header = new TextDecoder("latin1").decode(bytes.subarray(0, 1024));
+  return header.match(/%PDF-(\d+\.\d+)/)?.[1] ?? null;
+}
+
+async function loadPdf(bytes: Uint8Array, password?: string): Promise<PdfDocument> {
+  if (!getPdfVersion(bytes)) {
     throw new Error("Invalid PDF file - missing PDF header");
   }
+  try {
+    // pdf.js takes ownership of the buffer it is given, so pass a copy
+    return await getDocumentProxy(bytes.slice(), { password });
+  } catch (error) {
+    if (error instanceof Error && error.name === "PasswordException") {
+      throw new Error(password ? "Incorrect PDF password" : "PDF is password protected - pass its password");
+    }
+    throw error;
+  }
+}
 
-  // Simple page count estimation by counting "/Type /Page" occurrences
-  // This is approximate - proper parsing requires a PDF library
-  const pageMatches = binaryString.match(/\/Type\s*\/Page[^s]/g);
-  const estimatedPages = pageMatches ? pageMatches.length : 1;
+// Requested 1-based page numbers that exist, in order - all pages when none are given
+function resolvePages(pdf: PdfDocument, pages: number[] | null): number[] {
+  const all = Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+  if (!pages || pages.length === 0) return all;
+  const requested = [...new Set(pages.map(Number))].filter((p) => Number.isInteger(p) && p >= 1 && p <= pdf.numPages);
+  if (requested.length === 0) {
+    throw new Error(`No valid pages requested - the document has ${pdf.numPages} page(s)`);
+  }
+  return requested.sort((a, b) => a - b);
+}
+
+// ============================================================================
+// Info: metadata and outline
+// ============================================================================
 
-  // Extract PDF version
-  const versionMatch = binaryString.match(/%PDF-(\d+\.\d+)/);
-  const version = versionMatch ? versionMatch[1] : "unknown";
+// "D:20240131120000+01'00'" -> ISO date; anything unparseable is returned as-is
+function parsePdfDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/);
+  if (!match) return value;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", zone, zoneHour = "00", zoneMinute = "00"] = match;
+  const offset = !zone || zone.toUpperCase() === "Z" ? "Z" : `${zone}${zoneHour}:${zoneMinute}`;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
 
+async function readMetadata(pdf: PdfDocument): Promise<Record<string, string | undefined>> {
+  const { info } = await pdf.getMetadata();
+  const fields = (info || {}) as Record<string, unknown>;
+  const text = (key: string) => {
+    const value = fields[key];
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
   return {
-    success: true,
-    version: version,
-    estimatedPageCount: estimatedPages,
-    sizeBytes: binaryString.length,
-    hasEncryption: binaryString.includes("/Encrypt"),
+    title: text("Title"),
+    author: text("Author"),
+    subject: text("Subject"),
+    keywords: text("Keywords"),
+    creator: text("Creator"),
+    producer: text("Producer"),
+    creationDate: parsePdfDate(text("CreationDate")),
+    modificationDate: parsePdfDate(text("ModDate")),
   };
 }
 
-async function rasterizePdf(
-  fileData: string,
-  pages: number[] | null,
-  dpi: number
-): Promise<any> {
-  // Full PDF rasterization requires external services (like pdf.js in browser or ImageMagick)
-  // This implementation indicates the operation should be done client-side with pdf.js
-  
-  const info = await getPdfInfo(fileData);
-  
-  // Determine which pages to process
-  const pageList = pages && pages.length > 0 
-    ? pages 
-    : Array.from({ length: info.estimatedPageCount }, (_, i) => i + 1);
+// 1-based page an outline destination points to, or null when it cannot be resolved
+async function resolveDestinationPage(pdf: PdfDocument, dest: unknown): Promise<number | null> {
+  try {
+    const explicit = typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return null;
+    const target = explicit[0];
+    if (typeof target === "number") return target + 1;
+    return (await pdf.getPageIndex(target)) + 1;
+  } catch {
+    return null;
+  }
+}
+
+interface RawOutlineItem {
+  title: string;
+  dest: unknown;
+  items: RawOutlineItem[];
+}
+
+async function mapOutline(pdf: PdfDocument, items: RawOutlineItem[]): Promise<OutlineEntry[]> {
+  return Promise.all(items.map(async (item) => ({
+    title: item.title,
+    page: await resolveDestinationPage(pdf, item.dest),
+    children: await mapOutline(pdf, item.items || []),
+  })));
+}
+
+async function readOutline(pdf: PdfDocument): Promise<OutlineEntry[]> {
+  const outline = (await pdf.getOutline()) as RawOutlineItem[] | null;
+  return outline ? mapOutline(pdf, outline) : [];
+}
+
+async function getPdfInfo(pdf: PdfDocument, bytes: Uint8Array): Promise<Record<string, unknown>> {
+  const firstPage = await pdf.getPage(1);
+  const { width, height } = firstPage.getViewport({ scale: 1 });
 
   return {
     success: true,
-    message: "PDF rasterization should be performed client-side using pdf.js for better performance",
-    requestedPages: pageList,
-    requestedDpi: dpi,
-    estimatedTotalPages: info.estimatedPageCount,
-    clientSideRequired: true,
-    // Return the file data so client can process it
-    fileData: fileData,
+    version: getPdfVersion(bytes) ?? "unknown",
+    pageCount: pdf.numPages,
+    pageSize: { width: Math.round(width), height: Math.round(height) },
+    sizeBytes: bytes.length,
+    metadata: await readMetadata(pdf),
+    outline: await readOutline(pdf),
   };
 }
 
-async function extractPdfText(
-  fileData: string,
-  pages: number[] | null
-): Promise<any> {
-  // Basic text extraction - looks for text streams in PDF
-  // Full extraction requires a proper PDF parsing library
-  
-  const binaryString = atob(fileData);
-  
-  // Simple extraction of visible text patterns
-  // This is very basic and won't handle all PDFs correctly
-  const textMatches: string[] = [];
-  
-  // Look for text in parentheses (PDF text objects)
-  const textRegex = /\(([^)]+)\)/g;
-  let match;
-  while ((match = textRegex.exec(binaryString)) !== null) {
-    const text = match[1];
-    // Filter out binary/control characters
-    if (/^[\x20-\x7E\s]+$/.test(text) && text.length > 1) {
-      textMatches.push(text);
+// ============================================================================
+// Text layout: lines, columns and tables
+// ============================================================================
+
+async function readTextRuns(pdf: PdfDocument, pageNumber: number) {
+  const page = await pdf.getPage(pageNumber);
+  const { width, height } = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const runs: TextRun[] = [];
+  for (const item of content.items) {
+    if (!("str" in item) || !item.str.trim()) continue;
+    const [a, b, , , x, y] = item.transform as number[];
+    runs.push({ text: item.str, x, y, width: item.width, size: Math.hypot(a, b) || item.height || 10 });
+  }
+  page.cleanup();
+  return { width, height, runs };
+}
+
+// Runs sharing a baseline, top to bottom
+function groupLines(runs: TextRun[]): TextRun[][] {
+  const lines: { y: number; size: number; runs: TextRun[] }[] = [];
+  for (const run of [...runs].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const line = lines.find((l) => Math.abs(l.y - run.y) <= Math.max(l.size, run.size) * 0.5);
+    if (line) {
+      line.runs.push(run);
+    } else {
+      lines.push({ y: run.y, size: run.size, runs: [run] });
     }
   }
+  return lines.map((l) => l.runs);
+}
 
-  // Also look for hex-encoded text
-  const hexTextRegex = /<([0-9A-Fa-f]+)>/g;
-  while ((match = hexTextRegex.exec(binaryString)) !== null) {
-    try {
-      const hex = match[1];
-      let decoded = "";
-      for (let i = 0; i < hex.length; i += 2) {
-        const charCode = parseInt(hex.substr(i, 2), 16);
-        if (charCode >= 32 && charCode <= 126) {
-          decoded += String.fromCharCode(charCode);
-        }
-      }
-      if (decoded.length > 1) {
-        textMatches.push(decoded);
-      }
-    } catch (e) {
-      // Ignore hex decode errors
+// Join a line's runs left to right, starting a new segment (cell) at wide gaps
+function toLine(runs: TextRun[]): Line {
+  const sorted = [...runs].sort((a, b) => a.x - b.x);
+  const size = Math.max(...sorted.map((r) => r.size));
+  const segments: Segment[] = [];
+  for (const run of sorted) {
+    const last = segments[segments.length - 1];
+    const gap = last ? run.x - last.x1 : Infinity;
+    if (!last || gap > size * CELL_GAP) {
+      segments.push({ text: run.text, x0: run.x, x1: run.x + run.width });
+      continue;
+    }
+    const needsSpace = gap > size * 0.15 && !last.text.endsWith(" ") && !run.text.startsWith(" ");
+    last.text += (needsSpace ? " " : "") + run.text;
+    last.x1 = Math.max(last.x1, run.x + run.width);
+  }
+  segments.forEach((s) => (s.text = s.text.replace(/\s+/g, " ").trim()));
+  return { y: Math.max(...sorted.map((r) => r.y)), size, segments };
+}
+
+/**
+ * x of the gutter between two text columns, or null for a single-column page.
+ * The gutter is the widest strip in the middle of the page that hardly any line
+ * crosses (titles may), with a good share of the lines on each side of it.
+ */
+function findGutter(lines: TextRun[][], pageWidth: number): number | null {
+  const buckets = 200;
+  const step = pageWidth / buckets;
+  const crossings = new Array<number>(buckets).fill(0);
+  lines.forEach((runs) => {
+    const covered = new Set<number>();
+    runs.forEach((run) => {
+      const from = Math.max(0, Math.floor(run.x / step));
+      const to = Math.min(buckets - 1, Math.floor((run.x + run.width) / step));
+      for (let i = from; i <= to; i++) covered.add(i);
+    });
+    covered.forEach((i) => crossings[i]++);
+  });
+  const isOpen = (i: number) => crossings[i] <= Math.max(1, lines.length * 0.1);
+
+  let best: { start: number; length: number } | null = null;
+  for (let i = buckets * 0.3, start = -1; i <= buckets * 0.7; i++) {
+    if (isOpen(i) && i < buckets * 0.7) {
+      if (start < 0) start = i;
+    } else if (start >= 0) {
+      if (!best || i - start > best.length) best = { start, length: i - start };
+      start = -1;
+    }
+  }
+  if (!best || best.length < 2) return null;
+
+  const gutter = (best.start + best.length / 2) * step;
+  const split = lines.filter((line) => !line.some((r) => r.x < gutter && r.x + r.width > gutter));
+  const left = split.filter((line) => line.some((r) => r.x + r.width <= gutter)).length;
+  const right = split.filter((line) => line.some((r) => r.x >= gutter)).length;
+  return left >= lines.length * 0.25 && right >= lines.length * 0.25 ? gutter : null;
+}
+
+/**
+ * Lines in reading order: with two columns, the left column is read before the
+ * right one, and lines spanning both (titles, full-width tables) keep their place
+ */
+function orderLines(lines: TextRun[][], pageWidth: number): Line[] {
+  const gutter = findGutter(lines, pageWidth);
+  if (gutter === null) return lines.map(toLine);
+
+  // Where right-column lines usually start - text right of the gutter starting
+  // elsewhere (say a table cell) belongs to a line spanning both columns
+  const rightStart = (runs: TextRun[]) => Math.min(...runs.filter((r) => r.x >= gutter).map((r) => r.x));
+  const starts = new Map<number, number>();
+  lines.filter((runs) => runs.some((r) => r.x >= gutter)).forEach((runs) => {
+    const x = Math.round(rightStart(runs));
+    starts.set(x, (starts.get(x) || 0) + 1);
+  });
+  const rightMargin = [...starts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+  const ordered: Line[] = [];
+  let left: Line[] = [];
+  let right: Line[] = [];
+  for (const runs of lines) {
+    const crossesGutter = runs.some((r) => r.x < gutter && r.x + r.width > gutter);
+    const size = Math.max(...runs.map((r) => r.size));
+    const offMargin = runs.some((r) => r.x >= gutter) && Math.abs(rightStart(runs) - rightMargin) > size * 3;
+    if (crossesGutter || offMargin) {
+      ordered.push(...left, ...right, toLine(runs));
+      left = [];
+      right = [];
+      continue;
+    }
+    const leftRuns = runs.filter((r) => r.x + r.width <= gutter);
+    const rightRuns = runs.filter((r) => r.x >= gutter);
+    if (leftRuns.length > 0) left.push(toLine(leftRuns));
+    if (rightRuns.length > 0) right.push(toLine(rightRuns));
+  }
+  ordered.push(...left, ...right);
+  return ordered;
+}
+
+// Rows of a run of multi-cell lines, with cells aligned to the columns of its widest row
+function toTableRows(lines: Line[]): string[][] {
+  const anchors = lines.reduce((widest, line) => (line.segments.length > widest.segments.length ? line : widest))
+    .segments.map((s) => s.x0);
+  return lines.map((line) => {
+    const row = new Array<string>(anchors.length).fill("");
+    for (const segment of line.segments) {
+      let column = 0;
+      anchors.forEach((x, i) => {
+        if (Math.abs(segment.x0 - x) < Math.abs(segment.x0 - anchors[column])) column = i;
+      });
+      row[column] = row[column] ? `${row[column]} ${segment.text}` : segment.text;
     }
+    return row;
+  });
+}
+
+function toMarkdownTable(rows: string[][]): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|");
+  const [header, ...body] = rows;
+  return [
+    `| ${header.map(cell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...body.map((row) => `| ${row.map(cell).join(" | ")} |`),
+  ].join("\n");
+}
+
+/**
+ * Page text in reading order, with paragraph breaks at wide line spacing and
+ * detected tables rendered as markdown
+ */
+function layoutPage(lines: Line[], pageNumber: number): { text: string; tables: PdfTable[] } {
+  const tables: PdfTable[] = [];
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let previous: Line | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push(paragraph.join("\n"));
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    // A run of lines split into several cells is a table
+    let end = i;
+    while (end < lines.length && lines[end].segments.length >= 2) end++;
+    if (end - i >= MIN_TABLE_ROWS) {
+      const rows = toTableRows(lines.slice(i, end));
+      tables.push({ page: pageNumber, columns: rows[0].length, rows });
+      flush();
+      blocks.push(toMarkdownTable(rows));
+      previous = null;
+      i = end - 1;
+      continue;
+    }
+
+    const line = lines[i];
+    if (previous && Math.abs(previous.y - line.y) > Math.max(previous.size, line.size) * 1.8) flush();
+    paragraph.push(line.segments.map((s) => s.text).join("  "));
+    previous = line;
+  }
+  flush();
+
+  return { text: blocks.join("\n\n").trim(), tables };
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+function rasterizePdf(pdf: PdfDocument, pages: number[] | null, dpi: number): Record<string, unknown> {
+  // Rendering needs a canvas, which the edge runtime does not have
+  return {
+    success: true,
+    message: "PDF pages are rendered in the browser - use the pdf_rasterize tool, then ocr_image on each page artifact",
+    requestedPages: resolvePages(pdf, pages),
+    requestedDpi: dpi,
+    pageCount: pdf.numPages,
+    clientSideRequired: true,
+  };
+}
+
+async function extractPdfText(pdf: PdfDocument, pages: number[] | null): Promise<Record<string, unknown>> {
+  const pageResults: PdfPage[] = [];
+  const tables: PdfTable[] = [];
+  const scannedPages: number[] = [];
+  let remaining = MAX_TEXT_LENGTH;
+  let truncated = false;
+
+  for (const pageNumber of resolvePages(pdf, pages)) {
+    const { width, height, runs } = await readTextRuns(pdf, pageNumber);
+    const layout = layoutPage(orderLines(groupLines(runs), width), pageNumber);
+    const needsOcr = layout.text.replace(/\s/g, "").length < MIN_PAGE_TEXT;
+    if (needsOcr) scannedPages.push(pageNumber);
+
+    const text = layout.text.slice(0, Math.max(remaining, 0));
+    if (text.length < layout.text.length) truncated = true;
+    remaining -= text.length;
+
+    tables.push(...layout.tables);
+    pageResults.push({
+      page: pageNumber,
+      width: Math.round(width),
+      height: Math.round(height),
+      text,
+      tableCount: layout.tables.length,
+      needsOcr,
+    });
   }
 
-  const extractedText = textMatches.join(" ").replace(/\s+/g, " ").trim();
+  const extractedText = pageResults
+    .filter((p) => p.text)
+    .map((p) => `--- Page ${p.page} ---\n\n${p.text}`)
+    .join("\n\n");
 
   return {
     success: true,
-    extractedText: extractedText.substring(0, 50000), // Limit output size
+    pageCount: pdf.numPages,
+    metadata: await readMetadata(pdf),
+    outline: await readOutline(pdf),
+    pages: pageResults,
+    tables,
+    extractedText,
     textLength: extractedText.length,
-    note: "Basic extraction - for complex PDFs, use client-side pdf.js or external OCR service",
-    fullExtractionRecommended: extractedText.length < 100,
+    truncated,
+    scannedPages,
+    note: scannedPages.length > 0
+      ? `Page(s) ${scannedPages.join(", ")} have little or no text layer and are probably scanned - render them with pdf_rasterize and read them with ocr_image`
+      : undefined,
   };
 }
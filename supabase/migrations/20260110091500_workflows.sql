@@ -0,0 +1,33 @@
+-- Saved workflows shared across the team
+CREATE TABLE public.workflows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL DEFAULT 'Untitled Workflow',
+  workflow JSONB NOT NULL,
+  user_input TEXT NOT NULL DEFAULT '',
+  custom_agents JSONB NOT NULL DEFAULT '[]',
+  model_settings JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_workflows_updated_at ON public.workflows(updated_at DESC);
+
+-- Enable RLS (public access for now since no auth)
+ALTER TABLE public.workflows ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access (no auth required for this app)
+CREATE POLICY "Allow all access to workflows" ON public.workflows FOR ALL USING (true) WITH CHECK (true);
+
+-- Trigger for updating workflow updated_at
+CREATE OR REPLACE FUNCTION public.update_workflow_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_workflows_updated_at
+  BEFORE UPDATE ON public.workflows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_workflow_timestamp();
@@ -0,0 +1,27 @@
+-- Revision history for library workflows (one full snapshot per revision)
+CREATE TABLE public.workflow_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'manual',
+  name TEXT NOT NULL DEFAULT 'Untitled Workflow',
+  workflow JSONB NOT NULL,
+  user_input TEXT NOT NULL DEFAULT '',
+  custom_agents JSONB NOT NULL DEFAULT '[]',
+  model_settings JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_workflow_revisions_workflow_id ON public.workflow_revisions(workflow_id, created_at DESC);
+
+-- Enable RLS (public access for now since no auth)
+ALTER TABLE public.workflow_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access (no auth required for this app)
+CREATE POLICY "Allow all access to workflow_revisions" ON public.workflow_revisions FOR ALL USING (true) WITH CHECK (true);
+
+-- Autosave revisions are coalesced in place, so keep updated_at current
+CREATE TRIGGER update_workflow_revisions_updated_at
+  BEFORE UPDATE ON public.workflow_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_workflow_timestamp();
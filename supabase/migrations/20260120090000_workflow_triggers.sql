@@ -0,0 +1,94 @@
+-- Schedules and webhooks that run library workflows headlessly (run-workflow edge function)
+CREATE TABLE public.workflow_triggers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('schedule', 'webhook')),
+  name TEXT NOT NULL DEFAULT '',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  cron TEXT,
+  user_input TEXT NOT NULL DEFAULT '',
+  webhook_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_workflow_triggers_workflow_id ON public.workflow_triggers(workflow_id);
+CREATE INDEX idx_workflow_triggers_next_run_at ON public.workflow_triggers(next_run_at) WHERE kind = 'schedule' AND enabled;
+
+-- One row per headless run, updated as its nodes finish
+CREATE TABLE public.workflow_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+  trigger_id UUID REFERENCES public.workflow_triggers(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  status TEXT NOT NULL DEFAULT 'running',
+  user_input TEXT NOT NULL DEFAULT '',
+  logs JSONB NOT NULL DEFAULT '[]',
+  node_results JSONB NOT NULL DEFAULT '{}',
+  usage JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_workflow_runs_workflow_id ON public.workflow_runs(workflow_id, started_at DESC);
+
+-- Enable RLS (public access for now since no auth)
+ALTER TABLE public.workflow_triggers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workflow_runs ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access (no auth required for this app)
+CREATE POLICY "Allow all access to workflow_triggers" ON public.workflow_triggers FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Allow all access to workflow_runs" ON public.workflow_runs FOR ALL USING (true) WITH CHECK (true);
+
+-- Webhook tokens are not readable through the API - only run-workflow (service role) sees them.
+-- The app gets a token from regenerate_webhook_token, which replaces the old one.
+REVOKE SELECT, UPDATE ON public.workflow_triggers FROM anon, authenticated;
+GRANT SELECT (id, workflow_id, kind, name, enabled, cron, user_input, last_run_at, next_run_at, created_at, updated_at)
+  ON public.workflow_triggers TO anon, authenticated;
+GRANT UPDATE (name, enabled, cron, user_input, next_run_at)
+  ON public.workflow_triggers TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.regenerate_webhook_token(trigger_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  UPDATE public.workflow_triggers
+  SET webhook_token = new_token
+  WHERE id = trigger_id AND kind = 'webhook';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Webhook trigger % not found', trigger_id;
+  END IF;
+  RETURN new_token;
+END;
+$$;
+
+CREATE TRIGGER update_workflow_triggers_updated_at
+  BEFORE UPDATE ON public.workflow_triggers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_workflow_timestamp();
+
+-- Every minute, ask run-workflow to start the schedules that are due. The job reads the
+-- project URL from Vault, so each deployment stores its own once:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'dispatch-workflow-schedules',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-workflow',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{"action": "dispatch"}'::jsonb
+  );
+  $$
+);